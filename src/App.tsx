@@ -1,6 +1,6 @@
 import React from "react";
 import { jsPDF } from "jspdf";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useSettings } from "./lib/settingsContext";
 import {
   useAuditLogs,
@@ -23,24 +23,144 @@ import {
   useSubscriptions,
   useTelemetrySnapshot,
   useTradeTelemetrySnapshot,
+  useTradeHistory,
   useTradesRecent,
   useEodAggregateReport,
+  useLiveLtps,
 } from "./lib/hooks";
 import { getJson, postJson } from "./lib/http";
 import { buildKiteLoginUrl, parseKiteRedirect } from "./lib/kiteAuth";
 import {
   ChartPanel,
+  pickLiveLtp,
   type ChartConfig,
   type FeedHealth,
 } from "./components/ChartPanel";
 import { TradeBlotter } from "./components/TradeBlotter";
-import { getIstDayStartMs } from "./lib/chartUtils";
+import { LayoutBar } from "./components/LayoutBar";
+import { ReplayBar } from "./components/ReplayBar";
+import { SessionBar } from "./components/SessionBar";
+import { OrderTicket } from "./components/OrderTicket";
+import { EquityPanel } from "./components/EquityPanel";
+import { AlertBanners, AlertRulesPanel } from "./components/AlertRules";
+import { ProfileSwitcher } from "./components/ProfileSwitcher";
+import { TradeDrawer } from "./components/TradeDrawer";
+import { TruthBreakdown } from "./components/TruthBreakdown";
+import { OptionChainPanel } from "./components/OptionChain";
+import { PortfolioPanel } from "./components/PortfolioPanel";
+import { ChargesPanel, PnlBasisToggle } from "./components/ChargesPanel";
+import { ReconciliationPanel } from "./components/ReconciliationPanel";
+import {
+  MANUAL_ORDER_PATH,
+  buildOrderInstruments,
+  buildTradeActionPayload,
+  describeLevelChange,
+  describeTradeAction,
+  instrumentsFromUniverse,
+  tradeActionPath,
+  type ManualOrderPayload,
+  type TradeAction,
+} from "./lib/orders";
+import { istDateKey, useReplayClock } from "./lib/replay";
+import {
+  buildTruthReport,
+  tradeHoldMin,
+  tradePnl,
+  tradeR,
+  tradeRegimeKey,
+  tradesInWindow,
+  tradeStrategyKey,
+} from "./lib/tradeAnalytics";
+import { useTruthReport } from "./lib/analyticsClient";
+import {
+  parseSessionArchive,
+  restartPlayback,
+  sessionArchiveFileName,
+  setPlaybackPlaying,
+  setPlaybackSpeed,
+  startPlayback,
+  startRecording,
+  stopPlayback,
+  stopRecording,
+  useSessionRecorder,
+} from "./lib/sessionRecorder";
+import { reconcile, reconQueriesReady, useReconciliationAlerts } from "./lib/reconcile";
+import {
+  loadChargesConfig,
+  loadPnlBasis,
+  netOf,
+  saveChargesConfig,
+  savePnlBasis,
+  tradeCharges,
+  type ChargesConfig,
+  type PnlBasis,
+} from "./lib/charges";
+import { clearDataCache, mergeTrades } from "./lib/dataCache";
+import {
+  defaultProfileColor,
+  isMockBaseUrl,
+  MOCK_BASE_URL,
+  PROFILE_ENVS,
+  type ProfileEnv,
+} from "./lib/settings";
+import {
+  clearSchemaIssues,
+  useSchemaIssues,
+  type SchemaIssueKind,
+} from "./lib/schema";
+import {
+  alertRuleTokens,
+  loadAlertRules,
+  saveAlertRules,
+  useAlertRuleEngine,
+  type AlertFire,
+  type AlertRule,
+  type AlertSnapshot,
+} from "./lib/alertRules";
+import { playAlertSound, showAlertNotification } from "./lib/alertEffects";
+import {
+  getIstDayStartMs,
+  isTradeOpen,
+  TRADE_LEVEL_LABELS,
+  type TradeLevelKey,
+} from "./lib/chartUtils";
+import {
+  buildLayoutExport,
+  defaultLayout,
+  fitChartsToGrid,
+  gridLabel,
+  loadLayout,
+  loadLayoutPresets,
+  parseLayoutImport,
+  saveLayout,
+  saveLayoutPresets,
+  upsertPreset,
+  LAYOUT_VERSION,
+  type GridSize,
+  type LayoutPreset,
+  type SavedLayout,
+} from "./lib/layout";
+import type { BlotterLayout } from "./lib/blotter";
 import { useSocketBridge } from "./lib/socket";
+import { setTradeHash, tradeIdFromHash } from "./lib/tradeDetail";
+import { sourceIntervalFor } from "./lib/timeframes";
+import {
+  daysToExpiry,
+  optionContextOf,
+  tradeGreeks,
+  underlyingSpotFor,
+  underlyingTokenFor,
+  type TradeGreeks,
+} from "./lib/optionsMath";
 import {
   formatPrettyInstrumentFromTrade,
   formatPrettyInstrumentFromTradingSymbol,
 } from "./lib/instrumentFormat";
-import type { TradeRow } from "./types/backend";
+import type {
+  ManualActionResponse,
+  StatusResponse,
+  TradeRow,
+} from "./types/backend";
 
 type ToastLevel = "good" | "warn" | "bad";
 type Toast = {
@@ -50,14 +170,6 @@ type Toast = {
   createdAt: number;
 };
 
-const LAYOUT_KEY = "kite_scalper_dashboard_layout_v1";
-
-type SavedLayout = {
-  charts?: ChartConfig[];
-  blotterLimit?: 20 | 50;
-  blotterOpen?: boolean;
-};
-
 type DateRangeKey = "TODAY" | "1D" | "7D" | "30D" | "90D" | "LAST" | "ALL";
 type EodCluster = {
   label: string;
@@ -71,6 +183,13 @@ type EodAnomalyTag = {
   severity: string | null;
 };
 
+const SCHEMA_ISSUE_TONES: Record<SchemaIssueKind, string> = {
+  missing: "bad",
+  type: "bad",
+  unknown: "",
+  alias: "warn",
+};
+
 type IntegrationCheck = {
   id: string;
   label: string;
@@ -93,26 +212,6 @@ const DATE_RANGE_OPTIONS: Array<{
   { key: "ALL", label: "All", days: null },
 ];
 
-function loadLayout(): SavedLayout {
-  try {
-    const raw = localStorage.getItem(LAYOUT_KEY);
-    if (!raw) return {};
-    const parsed = JSON.parse(raw);
-    if (typeof parsed !== "object" || !parsed) return {};
-    return parsed as SavedLayout;
-  } catch {
-    return {};
-  }
-}
-
-function saveLayout(next: SavedLayout) {
-  try {
-    localStorage.setItem(LAYOUT_KEY, JSON.stringify(next));
-  } catch {
-    // ignore
-  }
-}
-
 function normalizeBaseUrl(u: string) {
   return u.trim().replace(/\/$/, "");
 }
@@ -120,6 +219,14 @@ function normalizeBaseUrl(u: string) {
 const KITE_SESSION_PATH =
   import.meta.env.VITE_KITE_SESSION_PATH || "/admin/kite/session";
 const NO_DATA = "—";
+// Stands in for the truth report until the worker's first reply; panels show a loading state meanwhile.
+const EMPTY_TRUTH_REPORT = buildTruthReport([], () => null, () => null, {
+  window: { start: null, end: null },
+  breakdown: "weekday",
+  nowMs: 0,
+  eodOk: false,
+});
+const ALERT_FLASH_MS = 8000;
 
 function buildTokenLabelsFromTrades(trades: TradeRow[]) {
   const map: Record<number, string> = {};
@@ -132,6 +239,13 @@ function buildTokenLabelsFromTrades(trades: TradeRow[]) {
   return map;
 }
 
+function tradeDisplayLabel(trade: TradeRow, tokenLabels: Record<number, string>) {
+  const pretty = formatPrettyInstrumentFromTrade(trade);
+  if (pretty && pretty !== "-") return pretty;
+  const tok = Number(trade.instrument_token);
+  return tokenLabels[tok] || String(trade.instrument_token);
+}
+
 function labelForToken(token: number, tokenLabels: Record<number, string>) {
   const pretty = tokenLabels?.[token];
   return pretty ? String(pretty) : String(token);
@@ -186,7 +300,13 @@ function formatUpdatedAt(updatedAt: number | null | undefined) {
   if (!updatedAt) return NO_DATA;
   const date = new Date(updatedAt);
   if (!Number.isFinite(date.getTime())) return NO_DATA;
-  return date.toLocaleTimeString();
+  return new Intl.DateTimeFormat("en-IN", {
+    timeZone: IST_TZ,
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hour12: false,
+  }).format(date);
 }
 
 function formatQueryError(err: unknown) {
@@ -464,384 +584,41 @@ function severityClass(sev?: string) {
   return "";
 }
 
-function statusBucket(status?: string) {
-  const s = (status || "").toUpperCase();
-  if (s.includes("OPEN") || s.includes("ACTIVE")) return "open";
-  if (s.includes("CLOSED") || s.includes("DONE") || s.includes("EXIT"))
-    return "closed";
-  if (s.includes("REJECT") || s.includes("CANCEL") || s.includes("FAIL"))
-    return "rejected";
-  return "other";
-}
-
-function calcTradeStats(rows: TradeRow[]) {
-  const closed = rows.filter((t) => statusBucket(t.status) === "closed");
-  const open = rows.filter((t) => statusBucket(t.status) === "open");
-  const rejected = rows.filter((t) => statusBucket(t.status) === "rejected");
-
-  let pnl = 0;
-  let wins = 0;
-  let losses = 0;
-  let holdMs = 0;
-  let holdCount = 0;
-  let exposure = 0;
-
-  for (const t of rows) {
-    const qty = Number(t.qty);
-    const entry = Number(t.entryPrice);
-    if (Number.isFinite(qty) && Number.isFinite(entry)) {
-      exposure += qty * entry;
-    }
-  }
-
-  for (const t of closed) {
-    const qty = Number(t.qty);
-    const entry = Number(t.entryPrice);
-    const exit = Number(t.exitPrice);
-    const side = (t.side || "").toUpperCase();
-    if (
-      Number.isFinite(qty) &&
-      Number.isFinite(entry) &&
-      Number.isFinite(exit)
-    ) {
-      const raw = side === "SELL" ? (entry - exit) * qty : (exit - entry) * qty;
-      pnl += raw;
-      if (raw >= 0) wins += 1;
-      else losses += 1;
-    }
-
-    const start = t.createdAt ? new Date(t.createdAt).getTime() : NaN;
-    const end = t.updatedAt ? new Date(t.updatedAt).getTime() : NaN;
-    if (Number.isFinite(start) && Number.isFinite(end) && end >= start) {
-      holdMs += end - start;
-      holdCount += 1;
-    }
-  }
-
-  const winRate = closed.length ? (wins / closed.length) * 100 : null;
-  const avgHoldMin = holdCount ? holdMs / holdCount / 60000 : null;
-
-  return {
-    total: rows.length,
-    closed: closed.length,
-    open: open.length,
-    rejected: rejected.length,
-    wins,
-    losses,
-    pnl,
-    winRate,
-    avgHoldMin,
-    exposure,
-  };
-}
-
-const IST_OFFSET_MS = 5.5 * 60 * 60 * 1000;
 const IST_TZ = "Asia/Kolkata";
 
-const TIME_BUCKETS: Array<{ label: string; start: number; end: number }> = [
-  { label: "09:15–09:30", start: 9 * 60 + 15, end: 9 * 60 + 30 },
-  { label: "09:30–11:00", start: 9 * 60 + 30, end: 11 * 60 },
-  { label: "11:00–13:30", start: 11 * 60, end: 13 * 60 + 30 },
-  { label: "13:30–15:30", start: 13 * 60 + 30, end: 15 * 60 + 30 },
-  { label: "15:30+", start: 15 * 60 + 30, end: 24 * 60 },
-];
-
-const PREMIUM_BANDS: Array<{ label: string; min: number; max: number }> = [
-  { label: "<80", min: 0, max: 80 },
-  { label: "80–120", min: 80, max: 120 },
-  { label: "120–200", min: 120, max: 200 },
-  { label: "200–350", min: 200, max: 350 },
-  { label: "350+", min: 350, max: Number.POSITIVE_INFINITY },
-];
-
-const HOLD_BUCKETS: Array<{ label: string; min: number; max: number }> = [
-  { label: "<2m", min: 0, max: 2 },
-  { label: "2–5m", min: 2, max: 5 },
-  { label: "5–15m", min: 5, max: 15 },
-  { label: "15–30m", min: 15, max: 30 },
-  { label: "30–60m", min: 30, max: 60 },
-  { label: "60m+", min: 60, max: Number.POSITIVE_INFINITY },
-];
-
-function pickTradeNumber(row: TradeRow, keys: string[]) {
-  const rec = row as Record<string, any>;
-  for (const key of keys) {
-    const value = rec[key];
-    if (value !== undefined && value !== null && value !== "") {
-      const num = Number(value);
-      if (Number.isFinite(num)) return num;
-    }
-  }
-  return null;
-}
-
-function tradePnl(row: TradeRow) {
-  const qty = Number(row.qty);
-  const entry = Number(row.entryPrice);
-  const exit = Number(row.exitPrice);
-  const side = (row.side || "").toUpperCase();
-  if (
-    !Number.isFinite(qty) ||
-    !Number.isFinite(entry) ||
-    !Number.isFinite(exit)
-  )
-    return null;
-  return side === "SELL" ? (entry - exit) * qty : (exit - entry) * qty;
-}
-
-function tradeRisk(row: TradeRow) {
-  const qty = Number(row.qty);
-  const entry = Number(row.entryPrice);
-  const stop = Number(row.stopLoss);
-  const side = (row.side || "").toUpperCase();
-  if (
-    !Number.isFinite(qty) ||
-    !Number.isFinite(entry) ||
-    !Number.isFinite(stop)
-  )
-    return null;
-  const perUnit = side === "SELL" ? stop - entry : entry - stop;
-  if (!Number.isFinite(perUnit) || perUnit <= 0) return null;
-  return perUnit * qty;
-}
-
-function tradeR(row: TradeRow) {
-  const pnl = tradePnl(row);
-  const risk = tradeRisk(row);
-  if (!Number.isFinite(pnl as number) || !Number.isFinite(risk as number))
-    return null;
-  return (pnl as number) / (risk as number);
-}
-
-function tradeHoldMin(row: TradeRow) {
-  const start = row.createdAt ? new Date(row.createdAt).getTime() : NaN;
-  const end = row.updatedAt ? new Date(row.updatedAt).getTime() : NaN;
-  if (!Number.isFinite(start) || !Number.isFinite(end) || end < start)
-    return null;
-  return (end - start) / 60000;
-}
-
-function tradeTimeBucket(row: TradeRow) {
-  const ts = row.createdAt || row.updatedAt;
-  if (!ts) return "Unknown";
-  const ms = new Date(ts).getTime();
-  if (!Number.isFinite(ms)) return "Unknown";
-  const ist = new Date(ms + IST_OFFSET_MS);
-  const minutes = ist.getUTCHours() * 60 + ist.getUTCMinutes();
-  for (const bucket of TIME_BUCKETS) {
-    if (minutes >= bucket.start && minutes < bucket.end) return bucket.label;
-  }
-  return "Unknown";
-}
-
-function tradeRegime(row: TradeRow) {
-  const rec = row as Record<string, any>;
-  return (
-    rec.regime ||
-    rec.marketRegime ||
-    rec.regimeLabel ||
-    rec.regime_state ||
-    "UNKNOWN"
-  );
-}
-
-function tradePremiumBand(row: TradeRow) {
-  const premium =
-    pickTradeNumber(row, [
-      "premium",
-      "entryPremium",
-      "entry_premium",
-      "entryPrice",
-    ]) ?? null;
-  if (!Number.isFinite(premium as number)) return "Unknown";
-  for (const band of PREMIUM_BANDS) {
-    if ((premium as number) >= band.min && (premium as number) < band.max)
-      return band.label;
-  }
-  return "Unknown";
-}
-
-type TruthMetrics = {
-  count: number;
-  wins: number;
-  pnlSum: number;
-  rSum: number;
-  rCount: number;
-  rWinSum: number;
-  rWinCount: number;
-  rLossSum: number;
-  rLossCount: number;
-  slippageSum: number;
-  slippageCount: number;
-  spreadSum: number;
-  spreadCount: number;
-  maeSum: number;
-  maeCount: number;
-  mfeSum: number;
-  mfeCount: number;
-  holdSum: number;
-  holdCount: number;
-};
-
-function initTruthMetrics(): TruthMetrics {
-  return {
-    count: 0,
-    wins: 0,
-    pnlSum: 0,
-    rSum: 0,
-    rCount: 0,
-    rWinSum: 0,
-    rWinCount: 0,
-    rLossSum: 0,
-    rLossCount: 0,
-    slippageSum: 0,
-    slippageCount: 0,
-    spreadSum: 0,
-    spreadCount: 0,
-    maeSum: 0,
-    maeCount: 0,
-    mfeSum: 0,
-    mfeCount: 0,
-    holdSum: 0,
-    holdCount: 0,
-  };
-}
-
-function applyTradeMetrics(metrics: TruthMetrics, row: TradeRow) {
-  metrics.count += 1;
-
-  const pnl = tradePnl(row);
-  if (Number.isFinite(pnl as number)) {
-    metrics.pnlSum += pnl as number;
-    if ((pnl as number) >= 0) metrics.wins += 1;
-  }
-
-  const r = tradeR(row);
-  if (Number.isFinite(r as number)) {
-    metrics.rSum += r as number;
-    metrics.rCount += 1;
-    if ((r as number) >= 0) {
-      metrics.rWinSum += r as number;
-      metrics.rWinCount += 1;
-    } else {
-      metrics.rLossSum += r as number;
-      metrics.rLossCount += 1;
-    }
-  }
-
-  const entrySlip = pickTradeNumber(row, [
-    "entrySlippage",
-    "slippageEntry",
-    "slippage_entry",
-  ]);
-  const exitSlip = pickTradeNumber(row, [
-    "exitSlippage",
-    "slippageExit",
-    "slippage_exit",
-  ]);
-  const totalSlip =
-    pickTradeNumber(row, ["slippage", "totalSlippage", "slippageTotal"]) ??
-    (Number.isFinite(entrySlip as number) || Number.isFinite(exitSlip as number)
-      ? (entrySlip || 0) + (exitSlip || 0)
-      : null);
-
-  if (Number.isFinite(totalSlip as number)) {
-    metrics.slippageSum += totalSlip as number;
-    metrics.slippageCount += 1;
-  }
-
-  const spread = pickTradeNumber(row, [
-    "entrySpread",
-    "spreadAtEntry",
-    "entry_spread",
-    "spread",
-  ]);
-  if (Number.isFinite(spread as number)) {
-    metrics.spreadSum += spread as number;
-    metrics.spreadCount += 1;
-  }
-
-  const mae = pickTradeNumber(row, [
-    "mae",
-    "MAE",
-    "maxAdverseExcursion",
-    "max_adverse_excursion",
-  ]);
-  if (Number.isFinite(mae as number)) {
-    metrics.maeSum += mae as number;
-    metrics.maeCount += 1;
-  }
-
-  const mfe = pickTradeNumber(row, [
-    "mfe",
-    "MFE",
-    "maxFavorableExcursion",
-    "max_favorable_excursion",
-  ]);
-  if (Number.isFinite(mfe as number)) {
-    metrics.mfeSum += mfe as number;
-    metrics.mfeCount += 1;
-  }
-
-  const hold = tradeHoldMin(row);
-  if (Number.isFinite(hold as number)) {
-    metrics.holdSum += hold as number;
-    metrics.holdCount += 1;
-  }
-}
-
-function buildTruthSummary(metrics: TruthMetrics) {
-  const winRate = metrics.count
-    ? (metrics.wins / metrics.count) * 100
-    : null;
-  const avgR = metrics.rCount ? metrics.rSum / metrics.rCount : null;
-  const avgWinR = metrics.rWinCount ? metrics.rWinSum / metrics.rWinCount : null;
-  const avgLossR =
-    metrics.rLossCount ? metrics.rLossSum / metrics.rLossCount : null;
-  const expectancy =
-    avgWinR !== null && avgLossR !== null && winRate !== null
-      ? (winRate / 100) * avgWinR + (1 - winRate / 100) * avgLossR
-      : null;
-  return {
-    count: metrics.count,
-    winRate,
-    avgR,
-    expectancy,
-    avgSlippage: metrics.slippageCount
-      ? metrics.slippageSum / metrics.slippageCount
-      : null,
-    avgSpread: metrics.spreadCount
-      ? metrics.spreadSum / metrics.spreadCount
-      : null,
-    avgMae: metrics.maeCount ? metrics.maeSum / metrics.maeCount : null,
-    avgMfe: metrics.mfeCount ? metrics.mfeSum / metrics.mfeCount : null,
-    avgHoldMin: metrics.holdCount ? metrics.holdSum / metrics.holdCount : null,
-  };
-}
-
-function buildTruthGroups(
-  rows: TradeRow[],
-  keyFn: (row: TradeRow) => string,
-) {
-  const map = new Map<string, TruthMetrics>();
-  for (const row of rows) {
-    const key = keyFn(row);
-    if (!map.has(key)) map.set(key, initTruthMetrics());
-    applyTradeMetrics(map.get(key)!, row);
-  }
-  return Array.from(map.entries()).map(([key, metrics]) => ({
-    key,
-    ...buildTruthSummary(metrics),
-  }));
-}
-
 export default function App() {
-  const { settings, setSettings } = useSettings();
+  const {
+    settings,
+    profiles,
+    selectProfile,
+    updateProfile,
+    addProfile,
+    removeProfile,
+  } = useSettings();
+  const queryClient = useQueryClient();
   const [draftBase, setDraftBase] = React.useState(settings.baseUrl);
   const [draftKey, setDraftKey] = React.useState(settings.apiKey);
   const [draftKiteApiKey, setDraftKiteApiKey] = React.useState(
     settings.kiteApiKey,
   );
+  const [draftLabel, setDraftLabel] = React.useState(settings.label);
+  const [draftColor, setDraftColor] = React.useState(settings.color);
+  const [draftEnv, setDraftEnv] = React.useState<ProfileEnv>(settings.env);
+  const [draftSocketPath, setDraftSocketPath] = React.useState(
+    settings.socketPath,
+  );
+
+  // Switching profiles loads that profile into the settings form.
+  React.useEffect(() => {
+    setDraftBase(settings.baseUrl);
+    setDraftKey(settings.apiKey);
+    setDraftKiteApiKey(settings.kiteApiKey);
+    setDraftLabel(settings.label);
+    setDraftColor(settings.color);
+    setDraftEnv(settings.env);
+    setDraftSocketPath(settings.socketPath);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [settings.id]);
   const [showConnectionSettings, setShowConnectionSettings] = React.useState(false);
   const [showSecretKeys, setShowSecretKeys] = React.useState(false);
 
@@ -902,6 +679,11 @@ export default function App() {
   const subsQ = useSubscriptions(wsPoll ?? 5000);
   // Fetch a bigger window so token→symbol learning covers more instruments.
   const tradesQ = useTradesRecent(200, wsPoll ?? 2000);
+  const replay = useReplayClock();
+  const replayTradesQ = useTradesRecent(500, false, {
+    date: replay.state?.date,
+    enabled: !!replay.state,
+  });
   const equityQ = useEquity(wsPoll ?? 6000);
   const positionsQ = usePositions(wsPoll ?? 8000);
   const ordersQ = useOrders(wsPoll ?? 8000);
@@ -922,6 +704,25 @@ export default function App() {
   const criticalHealthQ = useCriticalHealth(wsPoll ?? 12000);
   const eodAggregateQ = useEodAggregateReport(wsPoll ?? 60000);
 
+  const schemaIssues = useSchemaIssues();
+  const sortedSchemaIssues = React.useMemo(
+    () =>
+      [...schemaIssues].sort(
+        (a, b) =>
+          Number(SCHEMA_ISSUE_TONES[b.kind] === "bad") -
+            Number(SCHEMA_ISSUE_TONES[a.kind] === "bad") ||
+          b.lastSeenMs - a.lastSeenMs,
+      ),
+    [schemaIssues],
+  );
+  const driftBySource = React.useMemo(() => {
+    const out: Record<string, number> = {};
+    for (const issue of schemaIssues) {
+      out[issue.source] = (out[issue.source] || 0) + 1;
+    }
+    return out;
+  }, [schemaIssues]);
+
   const integrationChecks = React.useMemo<IntegrationCheck[]>(
     () => [
       {
@@ -1216,6 +1017,7 @@ export default function App() {
 
   const tokens: number[] = subsQ.data?.tokens || [];
   const trades = tradesQ.data?.rows || [];
+  const replayTrades = replayTradesQ.data?.rows || [];
   const alertChannels = alertChannelsQ.data?.rows || [];
   const alertIncidents = alertIncidentsQ.data?.rows || [];
   const riskLimits = riskQ.data;
@@ -1233,8 +1035,14 @@ export default function App() {
       map[tok] = formatPrettyInstrumentFromTradingSymbol(sym) || String(sym);
     }
 
+    // F&O contracts (e.g. strikes opened from the option chain) that haven't traded yet.
+    for (const inst of instrumentsFromUniverse(fnoQ.data?.universe)) {
+      if (map[inst.token] || !inst.tradingsymbol) continue;
+      map[inst.token] = formatPrettyInstrumentFromTradingSymbol(inst.tradingsymbol) || inst.tradingsymbol;
+    }
+
     return map;
-  }, [trades, statusQ.data?.activeTrade]);
+  }, [trades, statusQ.data?.activeTrade, fnoQ.data?.universe]);
 
   const serverNowMs = React.useMemo(() => {
     const nowIso = statusQ.data?.now;
@@ -1251,6 +1059,11 @@ export default function App() {
   const currentMs = nowMs + serverOffsetMs;
 
   const activeTrade = statusQ.data?.activeTrade;
+  const activeTradeRow = React.useMemo<TradeRow | null>(() => {
+    const id = activeTrade?.tradeId ?? statusQ.data?.activeTradeId;
+    if (!activeTrade || !id) return null;
+    return { ...activeTrade, tradeId: String(id) } as TradeRow;
+  }, [activeTrade, statusQ.data?.activeTradeId]);
   const timeStopMs = React.useMemo(
     () => pickTimeStopMs(activeTrade),
     [activeTrade],
@@ -1371,17 +1184,107 @@ export default function App() {
     return "all time";
   }, [currentDayStartMs, latestDataDayStartMs, rangeConfig.days, rangeConfig.key]);
 
-  const filteredTrades = React.useMemo(() => {
-    const start = rangeWindow.start;
-    const end = rangeWindow.end;
-    if (start == null) return trades;
-    return (trades || []).filter((t) => {
-      const ts = new Date(t.updatedAt || t.createdAt || "").getTime();
-      if (!Number.isFinite(ts)) return false;
-      if (end && ts >= end) return false;
-      return ts >= start;
-    });
-  }, [rangeWindow.end, rangeWindow.start, trades]);
+  // Day-granular so rolling ranges (7D/30D/90D) keep one cache key for the whole day.
+  const historyRange = React.useMemo(() => {
+    const from =
+      rangeWindow.start == null ? null : istDateKey(Number(rangeWindow.start));
+    return { from, to: rangeConfig.key === "LAST" ? from : null };
+  }, [rangeConfig.key, rangeWindow.start]);
+  const tradeHistory = useTradeHistory(historyRange);
+  const historyProgress = tradeHistory.progress;
+
+  // History for the selected range plus the live recent window; live rows win per tradeId
+  // so socket pushes and optimistic edits still show.
+  const rangeSourceTrades = React.useMemo(
+    () =>
+      tradeHistory.rows.length
+        ? mergeTrades(tradeHistory.rows, trades, Number.POSITIVE_INFINITY)
+        : trades,
+    [tradeHistory.rows, trades],
+  );
+
+  const historyBadge = React.useMemo(() => {
+    const { state, rows, total, pages, error } = historyProgress;
+    const count = total !== null ? `${rows}/${total}` : String(rows);
+    switch (state) {
+      case "loading":
+        return {
+          tone: "warn",
+          label: `Loading history… ${count} trades`,
+          title: `${pages} page(s) fetched; range figures are partial until paging finishes.`,
+        };
+      case "partial":
+        return {
+          tone: "warn",
+          label: `Newest ${count} trades`,
+          title: `Stopped after ${pages} pages; load the full history for older trades.`,
+        };
+      case "complete":
+        return {
+          tone: "good",
+          label: `Full range · ${rows} trades`,
+          title: "Every trade in the range was fetched from /admin/trades/history.",
+        };
+      case "capped":
+        return {
+          tone: "warn",
+          label: `Capped at ${rows} trades`,
+          title: `Stopped after ${pages} pages; older trades in the range are missing.`,
+        };
+      case "unavailable":
+        return {
+          tone: "bad",
+          label: `Recent window only · ${trades.length} trades`,
+          title: "The backend has no /admin/trades/history; range figures cover /admin/trades/recent only.",
+        };
+      case "error":
+        return {
+          tone: "bad",
+          label: rows ? `History partial · ${count} trades` : "History failed",
+          title: `${error || "Request failed"}. Falling back to the recent window where history is missing.`,
+        };
+      default:
+        return null;
+    }
+  }, [historyProgress, trades.length]);
+
+  const filteredTrades = React.useMemo(
+    () => tradesInWindow(rangeSourceTrades, rangeWindow),
+    [rangeWindow, rangeSourceTrades],
+  );
+
+  const [chargesConfig, setChargesConfig] = React.useState<ChargesConfig>(loadChargesConfig);
+  const [pnlBasis, setPnlBasis] = React.useState<PnlBasis>(loadPnlBasis);
+  React.useEffect(() => {
+    saveChargesConfig(chargesConfig);
+  }, [chargesConfig]);
+  React.useEffect(() => {
+    savePnlBasis(pnlBasis);
+  }, [pnlBasis]);
+  const chargesOf = React.useCallback(
+    (row: TradeRow) => tradeCharges(row, chargesConfig),
+    [chargesConfig],
+  );
+  // Every realised-P&L figure below goes through this, so the gross/net toggle reaches them all.
+  const pnlOf = React.useCallback(
+    (row: TradeRow) =>
+      pnlBasis === "net" ? netOf(tradePnl(row), chargesOf(row)) : tradePnl(row),
+    [pnlBasis, chargesOf],
+  );
+  const rOf = React.useCallback((row: TradeRow) => tradeR(row, pnlOf), [pnlOf]);
+
+  // Stats, truth groups and the market-close report for the range are built in the analytics worker.
+  const [truthBreakdown, setTruthBreakdown] = React.useState("weekday");
+  const latestTruthReport = useTruthReport({
+    trades: rangeSourceTrades,
+    window: rangeWindow,
+    basis: pnlBasis,
+    charges: chargesConfig,
+    breakdown: truthBreakdown,
+    eodOk: Boolean(eodAggregateQ.data?.ok),
+  });
+  const truthLoading = latestTruthReport === null;
+  const truthReport = latestTruthReport ?? EMPTY_TRUTH_REPORT;
 
   const filteredAlertIncidents = React.useMemo(() => {
     const start = rangeWindow.start;
@@ -1432,11 +1335,8 @@ export default function App() {
       .slice(0, 5);
   }, [filteredAlertIncidents]);
 
-  const filteredTradeStats = React.useMemo(
-    () => calcTradeStats(filteredTrades),
-    [filteredTrades],
-  );
-  const allTradeStats = React.useMemo(() => calcTradeStats(trades), [trades]);
+  const filteredTradeStats = truthReport.stats;
+  const allTradeStats = truthReport.allStats;
 
   const remainingTradeCount = Math.max(
     0,
@@ -1506,17 +1406,8 @@ export default function App() {
       if (!map.has(id)) map.set(id, { id, count: 0, wins: 0, pnl: 0 });
       const row = map.get(id)!;
       row.count += 1;
-      const qty = Number(t.qty);
-      const entry = Number(t.entryPrice);
-      const exit = Number(t.exitPrice);
-      const side = (t.side || "").toUpperCase();
-      if (
-        Number.isFinite(qty) &&
-        Number.isFinite(entry) &&
-        Number.isFinite(exit)
-      ) {
-        const raw =
-          side === "SELL" ? (entry - exit) * qty : (exit - entry) * qty;
+      const raw = pnlOf(t);
+      if (raw !== null) {
         row.pnl += raw;
         if (raw >= 0) row.wins += 1;
       }
@@ -1528,7 +1419,7 @@ export default function App() {
       }))
       .sort((a, b) => b.pnl - a.pnl)
       .slice(0, 6);
-  }, [filteredTrades]);
+  }, [filteredTrades, pnlOf]);
 
   const instrumentPulse = React.useMemo(() => {
     const map = new Map<
@@ -1541,159 +1432,26 @@ export default function App() {
       if (!map.has(token)) map.set(token, { token, count: 0, pnl: 0 });
       const row = map.get(token)!;
       row.count += 1;
-      const qty = Number(t.qty);
-      const entry = Number(t.entryPrice);
-      const exit = Number(t.exitPrice);
-      const side = (t.side || "").toUpperCase();
-      if (
-        Number.isFinite(qty) &&
-        Number.isFinite(entry) &&
-        Number.isFinite(exit)
-      ) {
-        const raw =
-          side === "SELL" ? (entry - exit) * qty : (exit - entry) * qty;
-        row.pnl += raw;
-      }
+      const raw = pnlOf(t);
+      if (raw !== null) row.pnl += raw;
     }
     return Array.from(map.values())
       .sort((a, b) => b.pnl - a.pnl)
       .slice(0, 5);
-  }, [filteredTrades]);
-
-  const truthSummary = React.useMemo(() => {
-    const metrics = initTruthMetrics();
-    for (const row of filteredTrades || []) {
-      applyTradeMetrics(metrics, row);
-    }
-    return buildTruthSummary(metrics);
-  }, [filteredTrades]);
-
-  const truthByStrategy = React.useMemo(() => {
-    return buildTruthGroups(filteredTrades || [], (row) =>
-      row.strategyId ? String(row.strategyId) : "unassigned",
-    ).sort((a, b) => (b.expectancy ?? -Infinity) - (a.expectancy ?? -Infinity));
-  }, [filteredTrades]);
-
-  const truthByRegime = React.useMemo(() => {
-    return buildTruthGroups(filteredTrades || [], (row) =>
-      String(tradeRegime(row)).toUpperCase(),
-    ).sort((a, b) => (b.expectancy ?? -Infinity) - (a.expectancy ?? -Infinity));
-  }, [filteredTrades]);
-
-  const truthByTimeBucket = React.useMemo(() => {
-    const rows = buildTruthGroups(filteredTrades || [], tradeTimeBucket);
-    const order = new Map(TIME_BUCKETS.map((b, idx) => [b.label, idx]));
-    return rows.sort(
-      (a, b) => (order.get(a.key) ?? 99) - (order.get(b.key) ?? 99),
-    );
-  }, [filteredTrades]);
-
-  const truthByPremiumBand = React.useMemo(() => {
-    const rows = buildTruthGroups(filteredTrades || [], tradePremiumBand);
-    const order = new Map(PREMIUM_BANDS.map((b, idx) => [b.label, idx]));
-    return rows.sort(
-      (a, b) => (order.get(a.key) ?? 99) - (order.get(b.key) ?? 99),
-    );
-  }, [filteredTrades]);
-
-  const truthByStrategyRegime = React.useMemo(() => {
-    return buildTruthGroups(filteredTrades || [], (row) => {
-      const strat = row.strategyId ? String(row.strategyId) : "unassigned";
-      const regime = String(tradeRegime(row)).toUpperCase();
-      return `${strat} • ${regime}`;
-    }).sort((a, b) => (b.expectancy ?? -Infinity) - (a.expectancy ?? -Infinity));
-  }, [filteredTrades]);
-
-  const truthPerTrade = React.useMemo(() => {
-    return [...(filteredTrades || [])]
-      .sort((a, b) => {
-        const ta = new Date(a.updatedAt || a.createdAt || 0).getTime();
-        const tb = new Date(b.updatedAt || b.createdAt || 0).getTime();
-        return tb - ta;
-      })
-      .slice(0, 8)
-      .map((row) => ({
-        id: row.tradeId,
-        strategy: row.strategyId || "unassigned",
-        regime: String(tradeRegime(row)).toUpperCase(),
-        r: tradeR(row),
-        slippage: (() => {
-          const total = pickTradeNumber(row, ["slippage", "totalSlippage"]);
-          if (Number.isFinite(total as number)) return total;
-          const entry = pickTradeNumber(row, ["entrySlippage", "slippageEntry"]);
-          const exit = pickTradeNumber(row, ["exitSlippage", "slippageExit"]);
-          if (
-            !Number.isFinite(entry as number) &&
-            !Number.isFinite(exit as number)
-          )
-            return null;
-          return (entry || 0) + (exit || 0);
-        })(),
-        spread: pickTradeNumber(row, [
-          "entrySpread",
-          "spreadAtEntry",
-          "spread",
-        ]),
-        mae: pickTradeNumber(row, ["mae", "MAE", "maxAdverseExcursion"]),
-        mfe: pickTradeNumber(row, ["mfe", "MFE", "maxFavorableExcursion"]),
-        holdMin: tradeHoldMin(row),
-      }));
-  }, [filteredTrades]);
-
-  const truthHoldDistribution = React.useMemo(() => {
-    const counts = HOLD_BUCKETS.map((bucket) => ({
-      label: bucket.label,
-      count: 0,
-    }));
-    for (const row of filteredTrades || []) {
-      const hold = tradeHoldMin(row);
-      if (!Number.isFinite(hold as number)) continue;
-      const idx = HOLD_BUCKETS.findIndex(
-        (b) => (hold as number) >= b.min && (hold as number) < b.max,
-      );
-      if (idx >= 0) counts[idx].count += 1;
-    }
-    const total = counts.reduce((sum, row) => sum + row.count, 0);
-    return counts.map((row) => ({
-      ...row,
-      pct: total ? (row.count / total) * 100 : 0,
-    }));
-  }, [filteredTrades]);
-
-  const truthCostInsight = React.useMemo(() => {
-    const wins = initTruthMetrics();
-    const losses = initTruthMetrics();
-    for (const row of filteredTrades || []) {
-      const pnl = tradePnl(row);
-      if (Number.isFinite(pnl as number)) {
-        if ((pnl as number) >= 0) applyTradeMetrics(wins, row);
-        else applyTradeMetrics(losses, row);
-      }
-    }
-    const winSummary = buildTruthSummary(wins);
-    const lossSummary = buildTruthSummary(losses);
-    let verdict = "Signal edge + costs";
-    if (
-      winSummary.avgSlippage !== null &&
-      lossSummary.avgSlippage !== null &&
-      winSummary.avgSpread !== null &&
-      lossSummary.avgSpread !== null
-    ) {
-      if (
-        lossSummary.avgSlippage > winSummary.avgSlippage &&
-        lossSummary.avgSpread > winSummary.avgSpread
-      ) {
-        verdict = "Costs (spread + slippage)";
-      } else if (lossSummary.avgSlippage > winSummary.avgSlippage) {
-        verdict = "Slippage-heavy";
-      } else if (lossSummary.avgSpread > winSummary.avgSpread) {
-        verdict = "Wide spreads";
-      } else {
-        verdict = "Signal edge";
-      }
-    }
-    return { winSummary, lossSummary, verdict };
-  }, [filteredTrades]);
+  }, [filteredTrades, pnlOf]);
+
+  const {
+    summary: truthSummary,
+    byStrategy: truthByStrategy,
+    byRegime: truthByRegime,
+    byTimeBucket: truthByTimeBucket,
+    byPremiumBand: truthByPremiumBand,
+    byStrategyRegime: truthByStrategyRegime,
+    perTrade: truthPerTrade,
+    holdDistribution: truthHoldDistribution,
+    costInsight: truthCostInsight,
+    marketClose: marketCloseReport,
+  } = truthReport;
 
   const truthReportLines = React.useMemo(() => {
     const eligible = truthByStrategyRegime.filter((row) => row.count >= 3);
@@ -1733,87 +1491,8 @@ export default function App() {
     };
   }, [eodAggregateQ.data]);
 
-  const marketCloseReport = React.useMemo(() => {
-    const rows = filteredTrades || [];
-    const realized = rows
-      .map((row) => tradePnl(row))
-      .filter((v) => Number.isFinite(v as number)) as number[];
-
-    const totalPnl = realized.reduce((sum, v) => sum + v, 0);
-    const wins = realized.filter((v) => v >= 0).length;
-    const losses = realized.filter((v) => v < 0).length;
-    const dayStartMs = getIstDayStartMs(Date.now());
-    const todayTrades = rows.filter((row) => {
-      const ts = new Date(row.updatedAt || row.createdAt || 0).getTime();
-      return Number.isFinite(ts) && ts >= dayStartMs;
-    }).length;
-
-    const holdValues = rows
-      .map((row) => tradeHoldMin(row))
-      .filter((v) => Number.isFinite(v as number)) as number[];
-
-    const coverageRows = [
-      {
-        label: "Latency decomposition timestamps (`decisionAt`, `entryAt`, `exitAt`)",
-        have: rows.filter((row) => Boolean((row as any).decisionAt && (row as any).entryAt && (row as any).exitAt)).length,
-      },
-      {
-        label: "Per-trade cost payload (`entrySlippage`, `exitSlippage`, `brokerage`, `taxes`, `feesTotal`)",
-        have: rows.filter((row) => {
-          const entrySlippage = pickTradeNumber(row, ["entrySlippage"]);
-          const exitSlippage = pickTradeNumber(row, ["exitSlippage"]);
-          const brokerage = pickTradeNumber(row, ["brokerage"]);
-          const taxes = pickTradeNumber(row, ["taxes"]);
-          const feesTotal = pickTradeNumber(row, ["feesTotal", "fees_total"]);
-          return [entrySlippage, exitSlippage, brokerage, taxes, feesTotal].every((v) => Number.isFinite(v as number));
-        }).length,
-      },
-      {
-        label: "Entry market context (`spread`, `ivPercentile`, `ATR`, `regimeTag`, `trendState`)",
-        have: rows.filter((row) => {
-          const spread = pickTradeNumber(row, ["entrySpread", "spreadAtEntry", "spread"]);
-          const ivPct = pickTradeNumber(row, ["ivPercentile", "iv_pct"]);
-          const atr = pickTradeNumber(row, ["atr", "ATR"]);
-          const regimeTag = String((row as any).regimeTag || (row as any).regime || "").trim();
-          const trendState = String((row as any).trendState || (row as any).trend || "").trim();
-          return Number.isFinite(spread as number) && Number.isFinite(ivPct as number) && Number.isFinite(atr as number) && Boolean(regimeTag) && Boolean(trendState);
-        }).length,
-      },
-      {
-        label: "EOD aggregates endpoint (`/admin/reports/eod`)",
-        have: eodAggregateQ.data?.ok ? rows.length || 1 : 0,
-      },
-    ].map((row) => ({
-      ...row,
-      pct: rows.length ? (row.have / rows.length) * 100 : 0,
-    }));
-
-    const beSuggestions = [
-      "Persist `entryAt`, `exitAt`, and `decisionAt` timestamps for latency decomposition (signal -> order -> fill).",
-      "Emit per-trade cost payload: `entrySlippage`, `exitSlippage`, `brokerage`, `taxes`, `feesTotal`.",
-      "Store market context at entry: spread, IV percentile, ATR, regime tag, and trend state.",
-      "Publish an EOD aggregate endpoint (`/admin/reports/eod`) with win/loss clusters and anomaly tags.",
-    ];
-
-    return {
-      totalPnl,
-      wins,
-      losses,
-      todayTrades,
-      avgHold: holdValues.length
-        ? holdValues.reduce((sum, v) => sum + v, 0) / holdValues.length
-        : null,
-      coverageRows,
-      beSuggestions,
-    };
-  }, [eodAggregateQ.data?.ok, filteredTrades]);
-
   const downloadEodReport = React.useCallback(() => {
-    const now = new Date();
-    const yyyy = now.getFullYear();
-    const mm = String(now.getMonth() + 1).padStart(2, "0");
-    const dd = String(now.getDate()).padStart(2, "0");
-    const stamp = `${yyyy}-${mm}-${dd}`;
+    const stamp = istDateKey(Date.now());
     const total = filteredTrades.length || 0;
     const doc = new jsPDF({ unit: "pt", format: "a4" });
 
@@ -1866,12 +1545,18 @@ export default function App() {
     doc.text(`End-of-Day Trading Report · ${stamp}`, left, 36);
     doc.setFont("helvetica", "normal");
     doc.setFontSize(10);
-    doc.text("Kite Scalper FE dashboard export", left, 56);
+    doc.text(
+      ["Kite Scalper FE dashboard export", `Range: ${rangeLabel}`, historyBadge?.label]
+        .filter(Boolean)
+        .join(" · "),
+      left,
+      56,
+    );
 
     let y = 106;
     const gap = 10;
     const cardWidth = (contentWidth - gap * 3) / 4;
-    card(left, y, cardWidth, 58, "Realized P&L", fmtCurrency(marketCloseReport.totalPnl));
+    card(left, y, cardWidth, 58, `Realized P&L (${pnlBasis})`, fmtCurrency(marketCloseReport.totalPnl));
     card(left + (cardWidth + gap), y, cardWidth, 58, "Closed trades", fmtCompact(marketCloseReport.todayTrades));
     card(left + 2 * (cardWidth + gap), y, cardWidth, 58, "Win / Loss", `${marketCloseReport.wins} / ${marketCloseReport.losses}`);
     card(left + 3 * (cardWidth + gap), y, cardWidth, 58, "Avg hold", marketCloseReport.avgHold ? `${marketCloseReport.avgHold.toFixed(1)}m` : NO_DATA);
@@ -1958,6 +1643,12 @@ export default function App() {
     doc.text(`Avg R: ${fmtNumber(truthSummary.avgR, 2)} | Expectancy: ${fmtNumber(truthSummary.expectancy, 2)} R`, left, y);
     y += 14;
     doc.text(`Loss driver: ${truthCostInsight.verdict}`, left, y);
+    y += 14;
+    doc.text(
+      `Gross ${fmtCurrency(marketCloseReport.grossPnl)} - modelled charges ${fmtCurrency(marketCloseReport.chargesTotal)} = net ${fmtCurrency(marketCloseReport.grossPnl - marketCloseReport.chargesTotal)}`,
+      left,
+      y,
+    );
 
     doc.save(`eod-report-${stamp}.pdf`);
     pushToast("good", "Downloaded EOD report (PDF)");
@@ -1965,8 +1656,11 @@ export default function App() {
     eodAggregates.anomalyTags,
     eodAggregates.winLossClusters,
     filteredTrades.length,
+    historyBadge?.label,
     marketCloseReport,
+    pnlBasis,
     pushToast,
+    rangeLabel,
     truthCostInsight.verdict,
     truthSummary.avgR,
     truthSummary.expectancy,
@@ -1979,51 +1673,23 @@ export default function App() {
       side: t.side,
       status: t.status,
       updatedAt: t.updatedAt || t.createdAt,
-      pnl: (() => {
-        const qty = Number(t.qty);
-        const entry = Number(t.entryPrice);
-        const exit = Number(t.exitPrice);
-        const side = (t.side || "").toUpperCase();
-        if (
-          Number.isFinite(qty) &&
-          Number.isFinite(entry) &&
-          Number.isFinite(exit)
-        ) {
-          return side === "SELL" ? (entry - exit) * qty : (exit - entry) * qty;
-        }
-        return null;
-      })(),
+      pnl: tradePnl(t),
     }));
   }, [filteredTrades]);
 
-  const defaultCharts: ChartConfig[] = React.useMemo(
-    () => [
-      { token: null, intervalMin: 1 },
-      { token: null, intervalMin: 1 },
-      { token: null, intervalMin: 3 },
-      { token: null, intervalMin: 3 },
-    ],
-    [],
-  );
-
-  const [charts, setCharts] = React.useState<ChartConfig[]>(() => {
-    const c = saved.charts;
-    if (Array.isArray(c) && c.length === 4) {
-      return c.map((x) => ({
-        token: x?.token ?? null,
-        intervalMin: Number(x?.intervalMin || 1),
-      })) as any;
-    }
-    return defaultCharts;
-  });
-
-  const [blotterLimit, setBlotterLimit] = React.useState<20 | 50>(() =>
-    saved.blotterLimit === 50 ? 50 : 20,
+  const [grid, setGrid] = React.useState<GridSize>(saved.grid);
+  const [charts, setCharts] = React.useState<ChartConfig[]>(saved.charts);
+  const [blotterLayout, setBlotterLayout] = React.useState<BlotterLayout>(
+    saved.blotter,
   );
   const [menuOpen, setMenuOpen] = React.useState(false);
   const menuRef = React.useRef<HTMLDivElement | null>(null);
-  const [blotterOpen, setBlotterOpen] = React.useState(() =>
-    saved.blotterOpen === false ? false : true,
+  const [blotterOpen, setBlotterOpen] = React.useState(saved.blotterOpen);
+  const [layoutPresets, setLayoutPresets] = React.useState<LayoutPreset[]>(
+    () => loadLayoutPresets(),
+  );
+  const [activePreset, setActivePreset] = React.useState<string | null>(
+    saved.activePreset,
   );
 
   React.useEffect(() => {
@@ -2037,20 +1703,171 @@ export default function App() {
     return () => window.removeEventListener("mousedown", onDown);
   }, [menuOpen]);
 
+  const currentLayout = React.useMemo<SavedLayout>(
+    () => ({
+      version: LAYOUT_VERSION,
+      grid,
+      charts,
+      blotter: blotterLayout,
+      blotterOpen,
+      activePreset,
+    }),
+    [grid, charts, blotterLayout, blotterOpen, activePreset],
+  );
+
   // Persist layout so refresh doesn't wipe your charts.
   React.useEffect(() => {
     const t = window.setTimeout(() => {
-      saveLayout({ charts, blotterLimit, blotterOpen });
+      saveLayout(currentLayout);
     }, 250);
     return () => window.clearTimeout(t);
-  }, [charts, blotterLimit, blotterOpen]);
+  }, [currentLayout]);
+
+  React.useEffect(() => {
+    saveLayoutPresets(layoutPresets);
+  }, [layoutPresets]);
+
+  const applyLayout = React.useCallback((next: SavedLayout) => {
+    setGrid(next.grid);
+    setCharts(fitChartsToGrid(next.charts, next.grid));
+    setBlotterLayout(next.blotter);
+    setBlotterOpen(next.blotterOpen);
+    setActivePreset(next.activePreset);
+  }, []);
 
   const resetLayout = React.useCallback(() => {
-    setCharts(defaultCharts);
-    setBlotterLimit(20);
-    setBlotterOpen(true);
+    applyLayout(defaultLayout());
     pushToast("warn", "Layout reset to default");
-  }, [defaultCharts, pushToast]);
+  }, [applyLayout, pushToast]);
+
+  // Replay steps by the finest interval on screen so every panel gets a chance to print a bar.
+  const replayStepMin = React.useMemo(
+    () => Math.min(...charts.map((c) => sourceIntervalFor(c.intervalMin || 1))),
+    [charts],
+  );
+
+  const changeGrid = React.useCallback((next: GridSize) => {
+    setGrid(next);
+    setCharts((prev) => fitChartsToGrid(prev, next));
+  }, []);
+
+  const applyPreset = React.useCallback(
+    (name: string) => {
+      const preset = layoutPresets.find((p) => p.name === name);
+      if (!preset) return;
+      applyLayout(preset.layout);
+      pushToast("good", `Layout "${name}" applied`);
+    },
+    [applyLayout, layoutPresets, pushToast],
+  );
+
+  const savePreset = React.useCallback(
+    (name: string) => {
+      setLayoutPresets((prev) => upsertPreset(prev, name, currentLayout));
+      setActivePreset(name);
+      pushToast("good", `Layout "${name}" saved`);
+    },
+    [currentLayout, pushToast],
+  );
+
+  const deletePreset = React.useCallback(
+    (name: string) => {
+      setLayoutPresets((prev) => prev.filter((p) => p.name !== name));
+      setActivePreset((prev) => (prev === name ? null : prev));
+      pushToast("warn", `Layout "${name}" deleted`);
+    },
+    [pushToast],
+  );
+
+  const exportLayouts = React.useCallback(() => {
+    const payload = buildLayoutExport(currentLayout, layoutPresets);
+    const blob = new Blob([JSON.stringify(payload, null, 2)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "kite-scalper-layouts.json";
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    URL.revokeObjectURL(url);
+  }, [currentLayout, layoutPresets]);
+
+  const session = useSessionRecorder();
+
+  const startSessionRecording = React.useCallback(() => {
+    try {
+      startRecording(settings.baseUrl, socketState.connected);
+      pushToast("good", "Recording session traffic");
+    } catch (e: any) {
+      pushToast("bad", e?.message || String(e));
+    }
+  }, [pushToast, settings.baseUrl, socketState.connected]);
+
+  const stopSessionRecording = React.useCallback(() => {
+    const archive = stopRecording();
+    if (!archive) return;
+    const blob = new Blob([JSON.stringify(archive)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = sessionArchiveFileName(archive);
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    URL.revokeObjectURL(url);
+    pushToast("good", `Session saved (${archive.events.length} events)`);
+  }, [pushToast]);
+
+  // Every query refetches on a playback transition, so panels read from the archive (or live) only.
+  const loadSessionRecording = React.useCallback(
+    (text: string) => {
+      try {
+        const archive = parseSessionArchive(text);
+        startPlayback(archive);
+        queryClient.resetQueries();
+        pushToast("warn", `Playing back ${archive.events.length} recorded events; writes are disabled`);
+      } catch (e: any) {
+        pushToast("bad", `Session load failed: ${e?.message || String(e)}`);
+      }
+    },
+    [pushToast, queryClient],
+  );
+
+  const exitSessionPlayback = React.useCallback(() => {
+    stopPlayback();
+    queryClient.resetQueries();
+  }, [queryClient]);
+
+  const restartSessionPlayback = React.useCallback(() => {
+    restartPlayback();
+    queryClient.resetQueries();
+  }, [queryClient]);
+
+  const importLayouts = React.useCallback(
+    (text: string) => {
+      try {
+        const res = parseLayoutImport(text);
+        if (res.presets.length) {
+          setLayoutPresets((prev) =>
+            res.presets.reduce(
+              (acc, p) => upsertPreset(acc, p.name, p.layout),
+              prev,
+            ),
+          );
+        }
+        if (res.current) applyLayout(res.current);
+        pushToast(
+          "good",
+          `Imported ${res.presets.length} preset(s)${res.current ? " + current layout" : ""}`,
+        );
+      } catch (e: any) {
+        pushToast("bad", `Layout import failed: ${e?.message || String(e)}`);
+      }
+    },
+    [applyLayout, pushToast],
+  );
 
   const [selectedToken, setSelectedToken] = React.useState<number | null>(null);
   const [focusedChartIndex, setFocusedChartIndex] = React.useState<
@@ -2078,6 +1895,141 @@ export default function App() {
     [pushToast, tokenLabels],
   );
 
+  const [alertRules, setAlertRules] = React.useState<AlertRule[]>(loadAlertRules);
+  const [alertBanners, setAlertBanners] = React.useState<AlertFire[]>([]);
+  const [alertLog, setAlertLog] = React.useState<AlertFire[]>([]);
+  const [flashUntil, setFlashUntil] = React.useState<Record<number, number>>({});
+
+  React.useEffect(() => {
+    saveAlertRules(alertRules);
+  }, [alertRules]);
+
+  const alertOpenTrades = React.useMemo(() => {
+    const open = trades.filter((t) => isTradeOpen(t));
+    if (activeTradeRow && !open.some((t) => t.tradeId === activeTradeRow.tradeId)) {
+      open.push(activeTradeRow);
+    }
+    return open;
+  }, [trades, activeTradeRow]);
+
+  const heldTokens = React.useMemo(() => {
+    const out = new Set<number>();
+    for (const p of positionsQ.data?.rows || []) {
+      const tok = Number(p.instrument_token);
+      if (Number.isFinite(tok) && Number(p.quantity)) out.add(tok);
+    }
+    for (const t of alertOpenTrades) {
+      const tok = Number(t.instrument_token);
+      if (Number.isFinite(tok)) out.add(tok);
+    }
+    return out;
+  }, [positionsQ.data?.rows, alertOpenTrades]);
+
+  // Greeks need the option's and its underlying index's live LTP for every open trade.
+  const greeksTokens = React.useMemo(() => {
+    const out = new Set<number>();
+    for (const t of alertOpenTrades) {
+      const ctx = optionContextOf(t);
+      if (!ctx) continue;
+      out.add(Number(t.instrument_token));
+      const under = underlyingTokenFor(ctx);
+      if (under !== null) out.add(under);
+    }
+    return Array.from(out).filter(Number.isFinite);
+  }, [alertOpenTrades]);
+  const greeksLtpQs = useLiveLtps(greeksTokens, socketState.connected ? 1000 : 2000);
+  const greeksLtpSig = greeksLtpQs.map((q) => pickLiveLtp(q.data)).join(",");
+  const greeksByTradeId = React.useMemo(() => {
+    const ltpByToken: Record<number, number> = {};
+    const values = greeksLtpSig.split(",");
+    greeksTokens.forEach((tok, i) => {
+      const n = Number(values[i]);
+      if (Number.isFinite(n)) ltpByToken[tok] = n;
+    });
+    const out: Record<string, TradeGreeks> = {};
+    for (const t of alertOpenTrades) {
+      const ctx = optionContextOf(t);
+      const ltp = ltpByToken[Number(t.instrument_token)];
+      if (!ctx || ltp === undefined) continue;
+      const g = tradeGreeks(t, ltp, underlyingSpotFor(ctx, ltpByToken, fnoQ.data?.universe), currentMs);
+      if (g) out[t.tradeId] = g;
+    }
+    return out;
+  }, [greeksLtpSig, greeksTokens, alertOpenTrades, fnoQ.data?.universe, currentMs]);
+  const activeGreeks = activeTradeRow ? greeksByTradeId[activeTradeRow.tradeId] ?? null : null;
+  const activeOptionCtx = React.useMemo(
+    () => (activeTradeRow ? optionContextOf(activeTradeRow) : null),
+    [activeTradeRow],
+  );
+
+  const alertTokens = React.useMemo(
+    () => alertRuleTokens(alertRules, alertOpenTrades),
+    [alertRules, alertOpenTrades],
+  );
+  const alertLtpQs = useLiveLtps(alertTokens, socketState.connected ? 1000 : 1500);
+  // useQueries returns a fresh array every render; key the map on the values instead.
+  const alertLtpSig = alertLtpQs.map((q) => pickLiveLtp(q.data)).join(",");
+  const alertLtpByToken = React.useMemo(() => {
+    const out: Record<number, number> = {};
+    const values = alertLtpSig.split(",");
+    alertTokens.forEach((tok, i) => {
+      const v = Number(values[i]);
+      if (values[i] && Number.isFinite(v)) out[tok] = v;
+    });
+    return out;
+  }, [alertTokens, alertLtpSig]);
+
+  const alertSnapshot = React.useMemo<AlertSnapshot>(() => {
+    const pnl = Number(statusQ.data?.dailyPnL);
+    return {
+      nowMs: currentMs,
+      ltpByToken: alertLtpByToken,
+      openTrades: alertOpenTrades,
+      trades,
+      // A cache seed lands while the first fetch is still in flight; wait for the fetch.
+      tradesLoaded: tradesQ.isSuccess && !tradesQ.isFetching,
+      feedHealth: Object.values(feedHealth),
+      state: statusQ.data?.state ?? null,
+      dailyPnl: statusQ.data && Number.isFinite(pnl) ? pnl : null,
+    };
+  }, [
+    currentMs,
+    alertLtpByToken,
+    alertOpenTrades,
+    trades,
+    tradesQ.isSuccess,
+    tradesQ.isFetching,
+    feedHealth,
+    statusQ.data,
+  ]);
+
+  const onAlertFires = React.useCallback(
+    (fires: AlertFire[]) => {
+      for (const f of fires) {
+        if (f.actions.includes("notify")) showAlertNotification(f);
+        if (f.actions.includes("sound")) playAlertSound(f.sound);
+        if (f.actions.includes("flash") && f.token !== null) {
+          const tok = f.token;
+          setFlashUntil((prev) => ({ ...prev, [tok]: Date.now() + ALERT_FLASH_MS }));
+        }
+        pushToast("warn", `${f.ruleName}: ${f.message}`);
+      }
+      const banners = fires.filter((f) => f.actions.includes("banner"));
+      if (banners.length) setAlertBanners((prev) => [...banners, ...prev].slice(0, 5));
+      setAlertLog((prev) => [...fires, ...prev].slice(0, 20));
+    },
+    [pushToast],
+  );
+
+  useAlertRuleEngine(alertRules, alertSnapshot, `${settings.id}|${settings.baseUrl}`, onAlertFires);
+
+  const reconReady = reconQueriesReady(tradesQ, ordersQ, positionsQ);
+  const reconItems = React.useMemo(
+    () => reconcile(trades, ordersQ.data?.rows || [], positionsQ.data?.rows || []),
+    [trades, ordersQ.data?.rows, positionsQ.data?.rows],
+  );
+  useReconciliationAlerts(reconItems, reconReady, currentMs, `${settings.id}|${settings.baseUrl}`, onAlertFires);
+
   const focusToken = React.useCallback(
     (tok: number) => {
       setSelectedToken(tok);
@@ -2112,7 +2064,47 @@ export default function App() {
     [charts],
   );
 
-  // auto-assign tokens to empty charts (first 4 subscribed tokens)
+  const openTokenOnChart = React.useCallback((tok: number, idx: number) => {
+    setCharts((prev) => {
+      if (!prev[idx]) return prev;
+      const cp = [...prev];
+      cp[idx] = { ...cp[idx], token: tok };
+      return cp;
+    });
+    setSelectedToken(tok);
+    setFocusedChartIndex(idx);
+    window.setTimeout(() => {
+      document.getElementById(`chart-${idx}`)?.scrollIntoView?.({ behavior: "smooth", block: "center" });
+    }, 0);
+    if (focusTimerRef.current) window.clearTimeout(focusTimerRef.current);
+    focusTimerRef.current = window.setTimeout(() => setFocusedChartIndex(null), 2200) as any;
+  }, []);
+
+  // Trade drawer: the open trade id lives in the URL hash so it can be shared as a permalink.
+  const [drawerTradeId, setDrawerTradeId] = React.useState<string | null>(() =>
+    tradeIdFromHash(),
+  );
+  React.useEffect(() => {
+    const onHash = () => setDrawerTradeId(tradeIdFromHash());
+    window.addEventListener("hashchange", onHash);
+    return () => window.removeEventListener("hashchange", onHash);
+  }, []);
+  const openTradeDrawer = React.useCallback((tradeId: string) => {
+    setTradeHash(tradeId);
+    setDrawerTradeId(tradeId);
+  }, []);
+  const closeTradeDrawer = React.useCallback(() => {
+    setTradeHash(null);
+    setDrawerTradeId(null);
+  }, []);
+  const drawerTrade = React.useMemo<TradeRow | null>(() => {
+    if (!drawerTradeId) return null;
+    const found = trades.find((t) => String(t.tradeId) === drawerTradeId);
+    if (found) return found;
+    return activeTradeRow?.tradeId === drawerTradeId ? activeTradeRow : null;
+  }, [drawerTradeId, trades, activeTradeRow]);
+
+  // auto-assign tokens to empty charts (first N subscribed tokens)
   React.useEffect(() => {
     if (!tokens.length) return;
     setCharts((prev) => {
@@ -2241,12 +2233,53 @@ export default function App() {
           ? "good"
           : "";
 
+  const draftProfile = () => ({
+    label: draftLabel.trim() || draftEnv,
+    color: draftColor,
+    env: draftEnv,
+    baseUrl: normalizeBaseUrl(draftBase),
+    apiKey: draftKey.trim(),
+    kiteApiKey: draftKiteApiKey.trim(),
+    socketPath: draftSocketPath.trim(),
+  });
+
   const save = () => {
-    setSettings({
-      baseUrl: normalizeBaseUrl(draftBase),
-      apiKey: draftKey.trim(),
-      kiteApiKey: draftKiteApiKey.trim(),
-    });
+    updateProfile(settings.id, draftProfile());
+  };
+
+  const saveAsNewProfile = () => {
+    const profile = addProfile(draftProfile());
+    pushToast("good", `Profile "${profile.label}" added`);
+  };
+
+  // Reuses an existing mock profile so repeated clicks don't pile up copies.
+  const switchToMockBackend = () => {
+    const existing = profiles.find((p) => isMockBaseUrl(p.baseUrl));
+    if (existing) {
+      selectProfile(existing.id);
+      return;
+    }
+    const profile = addProfile({ label: "Mock", env: "DEV", baseUrl: MOCK_BASE_URL });
+    pushToast("good", `Profile "${profile.label}" added (simulated backend)`);
+  };
+
+  const deleteProfile = () => {
+    if (profiles.length <= 1) return;
+    if (!window.confirm(`Delete profile "${settings.label}"?`)) return;
+    removeProfile(settings.id);
+  };
+
+  const clearLocalCache = async () => {
+    try {
+      await clearDataCache();
+      // Live queries merge into their in-memory rows, so reset them too.
+      await queryClient.resetQueries({ queryKey: ["candles"] });
+      await queryClient.resetQueries({ queryKey: ["tradesRecent"] });
+      await queryClient.resetQueries({ queryKey: ["tradesHistory"] });
+      pushToast("good", "Local candle/trade cache cleared");
+    } catch (e: any) {
+      pushToast("bad", `Clear cache failed: ${e?.message || e}`);
+    }
   };
 
   const onKiteLogin = () => {
@@ -2470,6 +2503,138 @@ export default function App() {
     );
   };
 
+  const orderInstruments = React.useMemo(
+    () => buildOrderInstruments(tokens, tokenLabels, fnoQ.data?.universe),
+    [tokens, tokenLabels, fnoQ.data?.universe],
+  );
+
+  const submitManualOrder = (
+    payload: ManualOrderPayload,
+    onSuccess: () => void,
+  ) => {
+    runAction(
+      "manualOrder",
+      `Manual ${payload.side} ${payload.qty}`,
+      () => postJson<ManualActionResponse>(settings, MANUAL_ORDER_PATH, payload),
+      () => {
+        onSuccess();
+        ordersQ.refetch();
+        tradesQ.refetch();
+      },
+    );
+  };
+
+  // Exits stay available while halted: squaring off is exactly what you need when the bot misbehaves.
+  const runTradeAction = (trade: TradeRow, action: TradeAction) => {
+    if (!connected) {
+      pushToast("warn", "Connect to backend before sending trade actions.");
+      return;
+    }
+    const label = tradeDisplayLabel(trade, tokenLabels);
+    if (action === "MOVE_SL_BE" && !Number.isFinite(Number(trade.entryPrice))) {
+      pushToast("warn", `No entry price for ${label}; cannot move SL to BE.`);
+      return;
+    }
+    if (!window.confirm(describeTradeAction(trade, action, label))) return;
+    const reason = action === "EXIT" ? "manual exit" : "manual move SL to BE";
+    runAction(
+      `trade:${trade.tradeId}`,
+      action === "EXIT" ? `Exit ${label}` : `SL → BE ${label}`,
+      () =>
+        postJson<ManualActionResponse>(
+          settings,
+          tradeActionPath(trade.tradeId, action),
+          buildTradeActionPayload(trade, action, reason),
+        ),
+      () => {
+        statusQ.refetch();
+        tradesQ.refetch();
+        ordersQ.refetch();
+      },
+    );
+  };
+
+  // Level drags patch the cached trade lists (and status.activeTrade) up front so the line
+  // stays where it was dropped while the request is in flight; any failure restores them.
+  const modifyTradeLevel = React.useCallback(
+    async (trade: TradeRow, level: TradeLevelKey, price: number) => {
+      if (!connected) {
+        pushToast("warn", "Connect to backend before modifying trades.");
+        return false;
+      }
+      const label = tradeDisplayLabel(trade, tokenLabels);
+      const current = Number(trade[level]);
+      const ok = window.confirm(
+        describeLevelChange(label, level, Number.isFinite(current) ? current : null, price),
+      );
+      if (!ok) return false;
+
+      const tradesKey = ["tradesRecent", settings.baseUrl, settings.apiKey];
+      const statusKey = ["status", settings.baseUrl, settings.apiKey];
+      const prevTrades = queryClient.getQueriesData({ queryKey: tradesKey });
+      const prevStatus = queryClient.getQueryData(statusKey);
+      const patch = (row: any) =>
+        row && String(row.tradeId) === trade.tradeId ? { ...row, [level]: price } : row;
+
+      queryClient.setQueriesData<{ ok: boolean; rows: TradeRow[] }>(
+        { queryKey: tradesKey },
+        (old) => (old?.rows ? { ...old, rows: old.rows.map(patch) } : old),
+      );
+      queryClient.setQueryData<StatusResponse>(statusKey, (old) =>
+        old?.activeTrade &&
+        String(old.activeTrade.tradeId ?? old.activeTradeId) === trade.tradeId
+          ? { ...old, activeTrade: { ...old.activeTrade, [level]: price } }
+          : old,
+      );
+
+      const busyKey = `trade:${trade.tradeId}`;
+      setActionBusy((prev) => ({ ...prev, [busyKey]: true }));
+      try {
+        const res = await postJson<ManualActionResponse>(
+          settings,
+          tradeActionPath(trade.tradeId, "MODIFY"),
+          buildTradeActionPayload(trade, "MODIFY", `chart drag ${TRADE_LEVEL_LABELS[level]}`, {
+            [level]: price,
+          }),
+        );
+        if (res?.ok === false) throw new Error(res?.error || "Modify rejected");
+        pushToast("good", `${TRADE_LEVEL_LABELS[level]} → ${price.toFixed(2)} for ${label}`);
+        tradesQ.refetch();
+        return true;
+      } catch (e: any) {
+        for (const [key, data] of prevTrades) queryClient.setQueryData(key, data);
+        queryClient.setQueryData(statusKey, prevStatus);
+        pushToast("bad", `Modify ${TRADE_LEVEL_LABELS[level]} failed: ${e?.message || String(e)}`);
+        return false;
+      } finally {
+        setActionBusy((prev) => ({ ...prev, [busyKey]: false }));
+      }
+    },
+    [connected, pushToast, queryClient, settings, tokenLabels, tradesQ],
+  );
+
+  const tradeActionBusy = React.useMemo(() => {
+    const out: Record<string, boolean> = {};
+    for (const [key, busy] of Object.entries(actionBusy)) {
+      if (busy && key.startsWith("trade:")) out[key.slice(6)] = true;
+    }
+    return out;
+  }, [actionBusy]);
+
+  // Charts can share a token; count each token's tick stream once.
+  const tickFeed = React.useMemo(() => {
+    const byToken = new Map<number, FeedHealth>();
+    for (const h of Object.values(feedHealth)) {
+      if (h.token !== null && h.tickRate !== null) byToken.set(h.token, h);
+    }
+    const rows = Array.from(byToken.values());
+    return {
+      tokens: rows.length,
+      rate: rows.reduce((sum, h) => sum + (h.tickRate || 0), 0),
+      oldestAgeSec: rows.length ? Math.max(...rows.map((h) => h.lastTickAgeSec ?? 0)) : null,
+    };
+  }, [feedHealth]);
+
   const staleItems = React.useMemo(() => {
     return Object.values(feedHealth)
       .filter((h) => h.stale && h.token !== null)
@@ -2477,7 +2642,10 @@ export default function App() {
   }, [feedHealth]);
 
   return (
-    <div className="app">
+    <div
+      className={["app", settings.env === "LIVE" ? "envLive" : ""].join(" ")}
+      style={{ "--profile-color": settings.color } as React.CSSProperties}
+    >
       <div className="topbar">
         <div className="topbarMain">
           <div className="brand">
@@ -2490,12 +2658,17 @@ export default function App() {
             <div className="brandText">
               <div className="brandTitle">Kite Scalper Dashboard</div>
               <div className="brandSubtitle">
-                2×2 charts • signals → markers (trades)
+                {gridLabel(grid)} charts • signals → markers (trades)
               </div>
             </div>
           </div>
 
           <div className="controls headerStatusRow">
+            <ProfileSwitcher
+              profiles={profiles}
+              active={settings}
+              onSelect={selectProfile}
+            />
             <span className="pill">
               {connected
                 ? halted
@@ -2640,6 +2813,45 @@ export default function App() {
 
         {showConnectionSettings ? (
           <div className="controls settingsRow">
+            <div className="field">
+              <label>Profile</label>
+              <input
+                className="small"
+                value={draftLabel}
+                onChange={(e) => setDraftLabel(e.target.value)}
+                placeholder="Paper, Render live…"
+              />
+            </div>
+            <div className="field">
+              <label>Environment</label>
+              <select
+                className="small"
+                value={draftEnv}
+                onChange={(e) => {
+                  const env = e.target.value as ProfileEnv;
+                  // Keep a custom colour; only follow the env default if it was the default.
+                  if (draftColor === defaultProfileColor(draftEnv)) {
+                    setDraftColor(defaultProfileColor(env));
+                  }
+                  setDraftEnv(env);
+                }}
+              >
+                {PROFILE_ENVS.map((env) => (
+                  <option key={env} value={env}>
+                    {env}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="field">
+              <label>Colour</label>
+              <input
+                className="profileColorInput"
+                type="color"
+                value={draftColor}
+                onChange={(e) => setDraftColor(e.target.value)}
+              />
+            </div>
             <div className="field">
               <label>Backend URL</label>
               <input
@@ -2675,9 +2887,46 @@ export default function App() {
                 placeholder="kite api_key"
               />
             </div>
+            <div className="field">
+              <label>Socket path</label>
+              <input
+                className="small"
+                value={draftSocketPath}
+                onChange={(e) => setDraftSocketPath(e.target.value)}
+                placeholder="/socket.io"
+              />
+            </div>
             <button className="btn" onClick={save}>
               Save
             </button>
+            <button className="btn" type="button" onClick={saveAsNewProfile}>
+              Save as new profile
+            </button>
+            <button
+              className="btn danger"
+              type="button"
+              onClick={deleteProfile}
+              disabled={profiles.length <= 1}
+            >
+              Delete profile
+            </button>
+            <button
+              className="btn"
+              type="button"
+              onClick={switchToMockBackend}
+              disabled={isMockBaseUrl(settings.baseUrl)}
+              title={`Switch to the in-browser simulated backend (${MOCK_BASE_URL}; add ?seed=N for another session)`}
+            >
+              Mock backend
+            </button>
+            <button
+              className="btn"
+              type="button"
+              onClick={clearLocalCache}
+              title="Drop cached candles and trades stored in this browser"
+            >
+              Clear local cache
+            </button>
           </div>
         ) : null}
       </div>
@@ -2754,28 +3003,47 @@ export default function App() {
               Showing trades updated within{" "}
               {rangeHint}.
             </span>
+            {historyBadge ? (
+              <span
+                className={["pill", historyBadge.tone].join(" ")}
+                title={historyBadge.title}
+              >
+                {historyBadge.label}
+              </span>
+            ) : null}
+            {historyProgress.state === "partial" ? (
+              <button className="btn small" type="button" onClick={tradeHistory.loadFullHistory}>
+                Load full history
+              </button>
+            ) : null}
           </div>
           <div className="rangeSummary">
-            <span className="pill">
-              Trades in range: {filteredTradeStats.total} /{" "}
-              {allTradeStats.total}
-            </span>
-            <span
-              className={[
-                "pill",
-                filteredTradeStats.pnl >= 0 ? "good" : "bad",
-              ].join(" ")}
-            >
-              Range P&amp;L {fmtCurrency(filteredTradeStats.pnl)}
-            </span>
-            <span
-              className={["pill", remainingPnl >= 0 ? "good" : "bad"].join(" ")}
-            >
-              Remaining P&amp;L {fmtCurrency(remainingPnl)}
-            </span>
-            <span className="pill">
-              Outside range: {remainingTradeCount} trades
-            </span>
+            {truthLoading ? (
+              <span className="pill">Computing range stats…</span>
+            ) : (
+              <>
+                <span className="pill">
+                  Trades in range: {filteredTradeStats.total} /{" "}
+                  {allTradeStats.total}
+                </span>
+                <span
+                  className={[
+                    "pill",
+                    filteredTradeStats.pnl >= 0 ? "good" : "bad",
+                  ].join(" ")}
+                >
+                  Range P&amp;L {fmtCurrency(filteredTradeStats.pnl)}
+                </span>
+                <span
+                  className={["pill", remainingPnl >= 0 ? "good" : "bad"].join(" ")}
+                >
+                  Remaining P&amp;L {fmtCurrency(remainingPnl)}
+                </span>
+                <span className="pill">
+                  Outside range: {remainingTradeCount} trades
+                </span>
+              </>
+            )}
           </div>
           <div className="dataFreshness">
             <span className="dataFreshnessLabel">Data freshness</span>
@@ -2824,39 +3092,42 @@ export default function App() {
                 filteredTradeStats.pnl >= 0 ? "goodText" : "badText",
               ].join(" ")}
             >
-              {fmtCurrency(filteredTradeStats.pnl)}
+              {truthLoading ? "…" : fmtCurrency(filteredTradeStats.pnl)}
             </div>
             <div className="metricMeta">
-              Closed trades: {filteredTradeStats.closed} • Range:{" "}
+              Closed trades: {truthLoading ? "…" : filteredTradeStats.closed} • Range:{" "}
               {rangeLabel}
             </div>
           </div>
           <div className="metricCard">
             <div className="metricLabel">🎯 Win Rate</div>
             <div className="metricValue">
-              {fmtPercent(filteredTradeStats.winRate)}
+              {truthLoading ? "…" : fmtPercent(filteredTradeStats.winRate)}
             </div>
             <div className="metricMeta">
-              Wins: {filteredTradeStats.wins} • Losses:{" "}
-              {filteredTradeStats.losses}
+              {truthLoading
+                ? "Computing…"
+                : `Wins: ${filteredTradeStats.wins} • Losses: ${filteredTradeStats.losses}`}
             </div>
           </div>
           <div className="metricCard">
             <div className="metricLabel">⏱ Avg Hold Time</div>
             <div className="metricValue">
-              {filteredTradeStats.avgHoldMin
-                ? `${filteredTradeStats.avgHoldMin.toFixed(1)}m`
-                : NO_DATA}
+              {truthLoading
+                ? "…"
+                : filteredTradeStats.avgHoldMin
+                  ? `${filteredTradeStats.avgHoldMin.toFixed(1)}m`
+                  : NO_DATA}
             </div>
             <div className="metricMeta">Strategy execution speed</div>
           </div>
           <div className="metricCard">
             <div className="metricLabel">📊 Open Exposure</div>
             <div className="metricValue">
-              {fmtCurrency(filteredTradeStats.exposure)}
+              {truthLoading ? "…" : fmtCurrency(filteredTradeStats.exposure)}
             </div>
             <div className="metricMeta">
-              Open trades: {filteredTradeStats.open}
+              Open trades: {truthLoading ? "…" : filteredTradeStats.open}
             </div>
           </div>
           <div className="metricCard">
@@ -2909,6 +3180,11 @@ export default function App() {
                     ),
                   )}
             </div>
+            <div className="metricMeta">
+              {tickFeed.tokens
+                ? `Ticks: ${tickFeed.rate.toFixed(1)}/s on ${tickFeed.tokens} token${tickFeed.tokens === 1 ? "" : "s"} • slowest ${fmtLag(tickFeed.oldestAgeSec)} ago`
+                : "Ticks: none on the socket"}
+            </div>
           </div>
         </div>
 
@@ -2921,6 +3197,26 @@ export default function App() {
                   {statusQ.data?.activeTradeId ? "LIVE" : "NONE"}
                 </span>
               </div>
+              {activeTradeRow ? (
+                <div className="actionsRow">
+                  <button
+                    className="btn small"
+                    type="button"
+                    disabled={!!tradeActionBusy[activeTradeRow.tradeId]}
+                    onClick={() => runTradeAction(activeTradeRow, "MOVE_SL_BE")}
+                  >
+                    Move SL to BE
+                  </button>
+                  <button
+                    className="btn small danger"
+                    type="button"
+                    disabled={!!tradeActionBusy[activeTradeRow.tradeId]}
+                    onClick={() => runTradeAction(activeTradeRow, "EXIT")}
+                  >
+                    Exit now
+                  </button>
+                </div>
+              ) : null}
             </div>
             <div className="panelBody">
               {activeTrade ? (
@@ -2992,6 +3288,52 @@ export default function App() {
                     <span className="stackLabel">Time-stop</span>
                     <div className="stackValue">{timeStopCountdown}</div>
                   </div>
+                  {activeOptionCtx ? (
+                    <>
+                      <div>
+                        <span className="stackLabel">IV / Δ</span>
+                        <div
+                          className="stackValue"
+                          title={
+                            activeGreeks
+                              ? `Black-Scholes on ${activeOptionCtx.underlying} spot ${fmtNumber(activeGreeks.spot)}, ${daysToExpiry(activeOptionCtx, currentMs).toFixed(2)}d to expiry`
+                              : "Needs live option and underlying LTP"
+                          }
+                        >
+                          {activeGreeks
+                            ? `${activeGreeks.iv.toFixed(1)}% / ${activeGreeks.delta.toFixed(2)}`
+                            : NO_DATA}
+                        </div>
+                      </div>
+                      <div>
+                        <span className="stackLabel">Γ / Θ / Vega</span>
+                        <div className="stackValue">
+                          {activeGreeks
+                            ? `${activeGreeks.gamma.toFixed(4)} / ${activeGreeks.theta.toFixed(2)} / ${activeGreeks.vega.toFixed(2)}`
+                            : NO_DATA}
+                        </div>
+                      </div>
+                      <div>
+                        <span className="stackLabel">Position Δ / Θ per day</span>
+                        <div className="stackValue">
+                          {activeGreeks
+                            ? `${activeGreeks.positionDelta.toFixed(1)} / ${fmtCurrency(activeGreeks.positionTheta)}`
+                            : NO_DATA}
+                        </div>
+                      </div>
+                      <div>
+                        <span className="stackLabel">Theta to time-stop</span>
+                        <div
+                          className="stackValue"
+                          title="Premium decay until timeStopAt at the current spot and IV"
+                        >
+                          {activeGreeks?.thetaToTimeStop != null
+                            ? fmtCurrency(activeGreeks.thetaToTimeStop)
+                            : NO_DATA}
+                        </div>
+                      </div>
+                    </>
+                  ) : null}
                 </div>
               ) : (
                 <div className="panelPlaceholder">
@@ -3001,6 +3343,64 @@ export default function App() {
             </div>
           </div>
 
+          <div className="panel miniPanel wide">
+            <div className="panelHeader">
+              <div className="left">
+                <div style={{ fontWeight: 700 }}>🎫 Order Ticket</div>
+                <span className="pill">{MANUAL_ORDER_PATH}</span>
+              </div>
+            </div>
+            <div className="panelBody">
+              <OrderTicket
+                instruments={orderInstruments}
+                busy={!!actionBusy.manualOrder}
+                disabled={!connected || killSwitchEnabled}
+                disabledReason={
+                  !connected
+                    ? "Backend offline"
+                    : killSwitchEnabled
+                      ? "Kill switch is on"
+                      : undefined
+                }
+                onSubmit={submitManualOrder}
+              />
+            </div>
+          </div>
+
+          <ReconciliationPanel
+            items={reconItems}
+            ready={reconReady}
+            onOpenTrade={openTradeDrawer}
+            onFocusToken={focusToken}
+          />
+
+          <PortfolioPanel
+            positions={positionsQ.data?.rows || []}
+            openTrades={alertOpenTrades}
+            riskLimits={riskLimits}
+            universe={fnoQ.data?.universe}
+            socketConnected={socketState.connected}
+            nowMs={currentMs}
+            onFocusToken={focusToken}
+          />
+
+          <OptionChainPanel
+            universe={fnoQ.data?.universe}
+            subscribedTokens={tokens}
+            heldTokens={heldTokens}
+            chartCount={charts.length}
+            socketConnected={socketState.connected}
+            onOpenChart={openTokenOnChart}
+          />
+
+          <AlertRulesPanel
+            rules={alertRules}
+            onChange={setAlertRules}
+            tokens={tokens}
+            tokenLabels={tokenLabels}
+            recent={alertLog}
+          />
+
           <div className="panel miniPanel">
             <div className="panelHeader">
               <div className="left">
@@ -3261,7 +3661,7 @@ export default function App() {
                       >
                         <td className="mono">
                           {incident.createdAt
-                            ? new Date(incident.createdAt).toLocaleString()
+                            ? formatIstDateTime(Date.parse(incident.createdAt), true)
                             : NO_DATA}
                         </td>
                         <td>
@@ -3622,6 +4022,7 @@ export default function App() {
                     <th>Status</th>
                     <th>Records</th>
                     <th>Updated</th>
+                    <th>Drift</th>
                     <th>Error</th>
                   </tr>
                 </thead>
@@ -3671,6 +4072,15 @@ export default function App() {
                         <td className="mono">
                           {formatUpdatedAt(query.dataUpdatedAt)}
                         </td>
+                        <td className="mono">
+                          {driftBySource[check.endpoint] ? (
+                            <span className="pill warn">
+                              {driftBySource[check.endpoint]}
+                            </span>
+                          ) : (
+                            NO_DATA
+                          )}
+                        </td>
                         <td className="integrationError">
                           {query.status === "error"
                             ? formatQueryError(query.error)
@@ -3682,6 +4092,61 @@ export default function App() {
                 </tbody>
               </table>
 
+              <div className="truthSubTitle schemaDriftTitle">
+                <span>Schema drift</span>
+                <span className="pill">{schemaIssues.length} issues</span>
+                {schemaIssues.length ? (
+                  <button
+                    className="btn small"
+                    type="button"
+                    onClick={clearSchemaIssues}
+                  >
+                    Clear
+                  </button>
+                ) : null}
+              </div>
+              {schemaIssues.length ? (
+                <table className="miniTable integrationTable">
+                  <thead>
+                    <tr>
+                      <th>Source</th>
+                      <th>Kind</th>
+                      <th>Field</th>
+                      <th>Detail</th>
+                      <th>Seen</th>
+                      <th>Last</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {sortedSchemaIssues.map((issue) => (
+                      <tr key={issue.id}>
+                        <td className="mono">{issue.source}</td>
+                        <td>
+                          <span
+                            className={[
+                              "pill",
+                              SCHEMA_ISSUE_TONES[issue.kind],
+                            ].join(" ")}
+                          >
+                            {issue.kind}
+                          </span>
+                        </td>
+                        <td className="mono">{issue.path}</td>
+                        <td>{issue.detail}</td>
+                        <td className="mono">{fmtCompact(issue.count)}</td>
+                        <td className="mono">
+                          {formatUpdatedAt(issue.lastSeenMs)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <div className="panelPlaceholder">
+                  All payloads match the expected schema.
+                </div>
+              )}
+
               {activeIntegration ? (
                 <div
                   className="integrationModalBackdrop"
@@ -3797,7 +4262,7 @@ export default function App() {
                         <div className="activityMeta">
                           {row.status || "status n/a"} •{" "}
                           {row.updatedAt
-                            ? new Date(row.updatedAt).toLocaleString()
+                            ? formatIstDateTime(Date.parse(row.updatedAt), true)
                             : NO_DATA}
                         </div>
                       </div>
@@ -3832,13 +4297,15 @@ export default function App() {
             <span className="pill">Range: {rangeLabel}</span>
           </div>
 
-          <div className="truthGrid">
+          {truthLoading ? <div className="panelPlaceholder">Computing truth report…</div> : null}
+          <div className="truthGrid" style={truthLoading ? { display: "none" } : undefined}>
             <div className="panel miniPanel wide truthSummary">
               <div className="panelHeader">
                 <div className="left">
                   <div style={{ fontWeight: 700 }}>Truth Summary</div>
                   <span className="pill">All trades</span>
                 </div>
+                <PnlBasisToggle basis={pnlBasis} onChange={setPnlBasis} />
               </div>
               <div className="panelBody">
                 <div className="truthSummaryGrid">
@@ -3925,6 +4392,26 @@ export default function App() {
               </div>
             </div>
 
+            <EquityPanel
+              trades={filteredTrades}
+              pnlOf={pnlOf}
+              pnlBasis={pnlBasis}
+              onPnlBasisChange={setPnlBasis}
+              strategyOf={tradeStrategyKey}
+              regimeOf={tradeRegimeKey}
+              asOfMs={serverNowMs}
+              rangeLabel={rangeLabel}
+            />
+
+            <ChargesPanel
+              trades={filteredTrades}
+              grossOf={tradePnl}
+              chargesOf={chargesOf}
+              config={chargesConfig}
+              onConfigChange={setChargesConfig}
+              rangeLabel={rangeLabel}
+            />
+
             <div className="panel miniPanel wide">
               <div className="panelHeader">
                 <div className="left">
@@ -3941,7 +4428,7 @@ export default function App() {
                     <div className="truthSubTitle">Session snapshot</div>
                     <div className="truthReport">
                       <div className="truthReportLine">
-                        Realized P&amp;L: {fmtCurrency(marketCloseReport.totalPnl)}
+                        Realized P&amp;L ({pnlBasis}): {fmtCurrency(marketCloseReport.totalPnl)}
                       </div>
                       <div className="truthReportLine">
                         Closed trades today: {fmtCompact(marketCloseReport.todayTrades)}
@@ -4213,6 +4700,12 @@ export default function App() {
               </div>
             </div>
 
+            <TruthBreakdown
+              dimension={truthBreakdown}
+              onDimensionChange={setTruthBreakdown}
+              groups={truthReport.breakdown}
+            />
+
             <div className="panel miniPanel wide">
               <div className="panelHeader">
                 <div className="left">
@@ -4267,8 +4760,59 @@ export default function App() {
         </div>
       </div>
 
+      <AlertBanners
+        banners={alertBanners}
+        onDismiss={(id) => setAlertBanners((prev) => prev.filter((b) => b.id !== id))}
+      />
+
+      <LayoutBar
+        grid={grid}
+        onGridChange={changeGrid}
+        presets={layoutPresets}
+        activePreset={activePreset}
+        onApplyPreset={applyPreset}
+        onSavePreset={savePreset}
+        onDeletePreset={deletePreset}
+        onExport={exportLayouts}
+        onImport={importLayouts}
+      />
+
+      <ReplayBar
+        state={replay.state}
+        serverNowMs={serverNowMs}
+        stepMin={replayStepMin}
+        loading={replayTradesQ.isFetching}
+        tradeCount={replayTrades.length}
+        onStart={replay.start}
+        onStop={replay.stop}
+        onPlayingChange={replay.setPlaying}
+        onSpeedChange={replay.setSpeed}
+        onStep={(dir) => replay.step(dir, replayStepMin)}
+        onSeek={replay.seek}
+      />
+
+      <SessionBar
+        session={session}
+        onStartRecording={startSessionRecording}
+        onStopRecording={stopSessionRecording}
+        onLoad={loadSessionRecording}
+        onExitPlayback={exitSessionPlayback}
+        onRestartPlayback={restartSessionPlayback}
+        onPlayingChange={setPlaybackPlaying}
+        onSpeedChange={setPlaybackSpeed}
+      />
+
       <div className="main">
-        <div className="grid">
+        <div
+          className="grid"
+          style={
+            {
+              "--grid-rows": grid.rows,
+              "--grid-cols": grid.cols,
+              "--grid-count": grid.rows * grid.cols,
+            } as React.CSSProperties
+          }
+        >
           {charts.map((cfg, i) => (
             <ChartPanel
               key={i}
@@ -4277,11 +4821,14 @@ export default function App() {
               config={cfg}
               tokens={tokens}
               tokenLabels={tokenLabels}
-              trades={trades}
-              tradesLoading={tradesQ.isFetching}
+              trades={replay.view ? replayTrades : trades}
+              tradesLoading={replay.view ? replayTradesQ.isFetching : tradesQ.isFetching}
               socketConnected={socketState.connected}
               serverNowMs={serverNowMs}
               currentMs={currentMs}
+              replay={replay.view}
+              onModifyLevel={modifyTradeLevel}
+              flash={cfg.token !== null && (flashUntil[cfg.token] ?? 0) > nowMs}
               isFocused={focusedChartIndex === i}
               onFeedHealth={onFeedHealthReport}
               onChange={(next) =>
@@ -4303,16 +4850,43 @@ export default function App() {
         >
           <TradeBlotter
             trades={filteredTrades}
-            limit={blotterLimit}
-            onLimitChange={setBlotterLimit}
+            layout={blotterLayout}
+            onLayoutChange={setBlotterLayout}
             tokenLabels={tokenLabels}
             selectedToken={selectedToken}
-            onSelectToken={(tok) => focusToken(tok)}
+            onSelectToken={(tok, tradeId) => {
+              focusToken(tok);
+              if (tradeId) openTradeDrawer(String(tradeId));
+            }}
             onClose={() => setBlotterOpen(false)}
             rangeLabel={`Range: ${rangeLabel}`}
+            onExitTrade={(t) => runTradeAction(t, "EXIT")}
+            onMoveSlToBe={(t) => runTradeAction(t, "MOVE_SL_BE")}
+            busyTradeIds={tradeActionBusy}
+            greeksByTradeId={greeksByTradeId}
+            pnlOf={pnlOf}
+            chargesOf={chargesOf}
+            rOf={rOf}
+            holdMinOf={tradeHoldMin}
+            pnlBasis={pnlBasis}
+            onPnlBasisChange={setPnlBasis}
           />
         </div>
 
+        {drawerTradeId ? (
+          <TradeDrawer
+            tradeId={drawerTradeId}
+            trade={drawerTrade}
+            label={drawerTrade ? tradeDisplayLabel(drawerTrade, tokenLabels) : drawerTradeId}
+            orders={ordersQ.data?.rows || []}
+            auditLogs={auditLogsQ.data?.rows || []}
+            pnlOf={pnlOf}
+            charges={drawerTrade ? chargesOf(drawerTrade) : null}
+            onFocusChart={focusToken}
+            onClose={closeTradeDrawer}
+          />
+        ) : null}
+
         {!blotterOpen ? (
           <button
             className="blotterHandle"
@@ -0,0 +1,285 @@
+import React from "react";
+import {
+  ALERT_ACTIONS,
+  ALERT_RULE_KINDS,
+  ALERT_SOUNDS,
+  newAlertRule,
+  type AlertAction,
+  type AlertFire,
+  type AlertRule,
+  type AlertRuleKind,
+  type AlertSound,
+  type CrossDirection,
+} from "../lib/alertRules";
+import {
+  notificationPermission,
+  playAlertSound,
+  requestNotificationPermission,
+} from "../lib/alertEffects";
+
+type PanelProps = {
+  rules: AlertRule[];
+  onChange: (next: AlertRule[]) => void;
+  tokens: number[];
+  tokenLabels: Record<number, string>;
+  recent: AlertFire[];
+};
+
+const ENGINE_STATES = ["HARD_STOP", "SOFT_STOP", "RUNNING"];
+
+function fmtTime(ms: number) {
+  return new Intl.DateTimeFormat("en-IN", {
+    timeZone: "Asia/Kolkata",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hour12: false,
+  }).format(new Date(ms));
+}
+
+function numInput(value: number | null, onChange: (v: number | null) => void, step = "any") {
+  return (
+    <input
+      className="small alertNum"
+      type="number"
+      step={step}
+      value={value ?? ""}
+      onChange={(e) => onChange(e.target.value === "" ? null : Number(e.target.value))}
+    />
+  );
+}
+
+function RuleRow({
+  rule,
+  tokens,
+  tokenLabels,
+  onChange,
+  onRemove,
+}: {
+  rule: AlertRule;
+  tokens: number[];
+  tokenLabels: Record<number, string>;
+  onChange: (next: AlertRule) => void;
+  onRemove: () => void;
+}) {
+  const set = (patch: Partial<AlertRule>) => onChange({ ...rule, ...patch });
+  const toggleAction = (action: AlertAction) =>
+    set({
+      actions: rule.actions.includes(action)
+        ? rule.actions.filter((a) => a !== action)
+        : [...rule.actions, action],
+    });
+
+  const tokenSelect = (allowAny: boolean) => (
+    <select
+      className="small"
+      value={rule.token ?? ""}
+      onChange={(e) => set({ token: e.target.value ? Number(e.target.value) : null })}
+    >
+      <option value="">{allowAny ? "Any instrument" : "Select token"}</option>
+      {tokens.map((t) => (
+        <option key={t} value={t}>
+          {tokenLabels[t] || t}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className={["alertRule", rule.enabled ? "" : "alertRuleOff"].join(" ")}>
+      <div className="alertRuleLine">
+        <input
+          type="checkbox"
+          checked={rule.enabled}
+          onChange={(e) => set({ enabled: e.target.checked })}
+          title="Enabled"
+        />
+        <input
+          className="small alertName"
+          value={rule.name}
+          onChange={(e) => set({ name: e.target.value })}
+        />
+        <select
+          className="small"
+          value={rule.kind}
+          onChange={(e) => onChange({ ...newAlertRule(e.target.value as AlertRuleKind), id: rule.id })}
+        >
+          {ALERT_RULE_KINDS.map((k) => (
+            <option key={k.kind} value={k.kind}>
+              {k.label}
+            </option>
+          ))}
+        </select>
+
+        {rule.kind === "LTP_CROSS" ? (
+          <>
+            {tokenSelect(false)}
+            <select
+              className="small"
+              value={rule.direction}
+              onChange={(e) => set({ direction: e.target.value as CrossDirection })}
+            >
+              <option value="any">either way</option>
+              <option value="up">upwards</option>
+              <option value="down">downwards</option>
+            </select>
+            {numInput(rule.level, (level) => set({ level }), "0.05")}
+          </>
+        ) : null}
+        {rule.kind === "NEAR_SL" ? (
+          <>
+            {tokenSelect(true)}
+            <span className="muted">within</span>
+            {numInput(rule.points, (points) => set({ points }), "0.5")}
+            <span className="muted">pts</span>
+          </>
+        ) : null}
+        {rule.kind === "FEED_LAG" ? (
+          <>
+            {tokenSelect(true)}
+            <span className="muted">&gt;</span>
+            {numInput(rule.seconds, (seconds) => set({ seconds }), "1")}
+            <span className="muted">s</span>
+          </>
+        ) : null}
+        {rule.kind === "STATE_CHANGE" ? (
+          <select className="small" value={rule.state} onChange={(e) => set({ state: e.target.value })}>
+            {ENGINE_STATES.map((s) => (
+              <option key={s} value={s}>
+                {s}
+              </option>
+            ))}
+          </select>
+        ) : null}
+        {rule.kind === "DAILY_PNL_BELOW" ? (
+          <>
+            <span className="muted">₹</span>
+            {numInput(rule.threshold, (threshold) => set({ threshold }), "100")}
+          </>
+        ) : null}
+
+        <button className="btn small" type="button" onClick={onRemove} title="Delete rule">
+          ×
+        </button>
+      </div>
+
+      <div className="alertRuleLine">
+        {ALERT_ACTIONS.map((a) => (
+          <label key={a.action} className="alertCheck">
+            <input
+              type="checkbox"
+              checked={rule.actions.includes(a.action)}
+              onChange={() => toggleAction(a.action)}
+            />
+            {a.label}
+          </label>
+        ))}
+        {rule.actions.includes("sound") ? (
+          <>
+            <select
+              className="small"
+              value={rule.sound}
+              onChange={(e) => set({ sound: e.target.value as AlertSound })}
+            >
+              {ALERT_SOUNDS.map((s) => (
+                <option key={s} value={s}>
+                  {s}
+                </option>
+              ))}
+            </select>
+            <button className="btn small" type="button" onClick={() => playAlertSound(rule.sound)}>
+              ▶
+            </button>
+          </>
+        ) : null}
+        <span className="muted">cooldown</span>
+        {numInput(rule.cooldownSec, (v) => set({ cooldownSec: Math.max(0, v ?? 0) }), "5")}
+        <span className="muted">s</span>
+      </div>
+    </div>
+  );
+}
+
+export function AlertRulesPanel({ rules, onChange, tokens, tokenLabels, recent }: PanelProps) {
+  const [permission, setPermission] = React.useState(notificationPermission);
+  const wantsNotify = rules.some((r) => r.enabled && r.actions.includes("notify"));
+
+  return (
+    <div className="panel miniPanel wide">
+      <div className="panelHeader">
+        <div className="left">
+          <div style={{ fontWeight: 700 }}>🔔 Alert Rules</div>
+          <span className="pill">{rules.filter((r) => r.enabled).length} active</span>
+          {wantsNotify && permission !== "granted" ? (
+            <span className="pill warn">
+              notifications {permission === "unsupported" ? "unsupported" : permission}
+            </span>
+          ) : null}
+        </div>
+        <div className="actionsRow">
+          {permission === "default" ? (
+            <button
+              className="btn small"
+              type="button"
+              onClick={async () => setPermission(await requestNotificationPermission())}
+            >
+              Allow notifications
+            </button>
+          ) : null}
+          <button className="btn small" type="button" onClick={() => onChange([...rules, newAlertRule()])}>
+            Add rule
+          </button>
+        </div>
+      </div>
+      <div className="panelBody">
+        {rules.length ? (
+          <div className="alertRuleList">
+            {rules.map((rule) => (
+              <RuleRow
+                key={rule.id}
+                rule={rule}
+                tokens={tokens}
+                tokenLabels={tokenLabels}
+                onChange={(next) => onChange(rules.map((r) => (r.id === rule.id ? next : r)))}
+                onRemove={() => onChange(rules.filter((r) => r.id !== rule.id))}
+              />
+            ))}
+          </div>
+        ) : (
+          <div className="panelPlaceholder">No alert rules. Rules are stored in this browser.</div>
+        )}
+
+        {recent.length ? (
+          <div style={{ marginTop: 12 }}>
+            <div className="truthSubTitle">Recent alerts</div>
+            <div className="alertRecent">
+              {recent.map((f) => (
+                <div key={f.id} className="truthReportLine">
+                  <span className="mono">{fmtTime(f.firedAt)}</span> {f.ruleName}: {f.message}
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
+
+export function AlertBanners({ banners, onDismiss }: { banners: AlertFire[]; onDismiss: (id: string) => void }) {
+  if (!banners.length) return null;
+  return (
+    <div>
+      {banners.map((b) => (
+        <div key={b.id} className="banner warn">
+          <span className="mono">{fmtTime(b.firedAt)}</span>
+          <strong>{b.ruleName}</strong>
+          <span>{b.message}</span>
+          <button className="btn small" style={{ marginLeft: "auto" }} type="button" onClick={() => onDismiss(b.id)}>
+            Dismiss
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -7,19 +7,28 @@ import {
   type HistogramData,
   LineStyle,
   TickMarkType,
+  type IPriceLine,
   type Time,
 } from "lightweight-charts";
 import type { CandleRow, TradeRow } from "../types/backend";
 import {
-  toLwCandles,
-  toLwVolume,
   buildTradeMarkers,
   getLatestOpenTradeForToken,
   getLastTradesForToken,
-  applyLiveLtpToCandles,
   formatIstDateTime,
   formatIstTick,
+  previewLevelChange,
+  snapToTick,
+  validateLevelPrice,
+  PRICE_TICK,
+  TRADE_LEVEL_LABELS,
+  type LevelPreview,
+  type TradeLevelKey,
 } from "../lib/chartUtils";
+import type { ChartType } from "../lib/timeframes";
+import type { Tick } from "../lib/ticks";
+import { indicatorLabel, type IndicatorSpec } from "../lib/indicators";
+import { useChartFrame } from "../lib/analyticsClient";
 
 type Props = {
   token: number;
@@ -27,11 +36,69 @@ type Props = {
   candles: CandleRow[];
   trades: TradeRow[];
   intervalMin: number;
+  /** Bar construction on top of the interval candles; defaults to plain candles. */
+  chartType?: ChartType;
+  /** Renko box / range-bar size; 0 or unset picks one from ATR. */
+  boxSize?: number;
+  /** Buffered socket ticks, drawn instead of `candles` in the "ticks" chart type. */
+  ticks?: Tick[];
+  ticksPerBar?: number;
   overlayCount?: number;
   liveLtp?: number;
   currentMs?: number | null;
+  indicators?: IndicatorSpec[];
+  /**
+   * Enables dragging the open trade's SL/TGT/TP1/TRAIL lines. Resolves true when the change
+   * was confirmed and accepted; on false the line snaps back to its previous price.
+   */
+  onModifyLevel?: (trade: TradeRow, level: TradeLevelKey, price: number) => Promise<boolean>;
 };
 
+type LevelLine = { line: IPriceLine; price: number };
+
+type LevelDrag = {
+  level: TradeLevelKey;
+  price: number;
+  y: number;
+  preview: LevelPreview;
+  error: string | null;
+};
+
+const HANDLE_SCROLL = { mouseWheel: true, pressedMouseMove: true };
+const HANDLE_SCALE = { axisPressedMouseMove: true, mouseWheel: true, pinch: true };
+const LEVEL_HIT_PX = 6;
+
+function fmtInr(v: number | null) {
+  if (v === null || !Number.isFinite(v)) return "—";
+  const sign = v > 0 ? "+" : v < 0 ? "-" : "";
+  return `${sign}₹${Math.abs(Math.round(v)).toLocaleString("en-IN")}`;
+}
+
+type IndicatorSeriesEntry = {
+  series: ISeriesApi<"Line"> | ISeriesApi<"Histogram">;
+  guides: IPriceLine[];
+};
+
+type ScaleMargins = { top: number; bottom: number };
+
+// lightweight-charts v4 has no panes, so sub-pane indicators (RSI/MACD/ATR) get their own
+// overlay price scale stacked under the candles, the same way volume is pinned to the bottom.
+function subPaneLayout(count: number): { main: ScaleMargins; volume: ScaleMargins; subs: ScaleMargins[] } {
+  if (!count) {
+    return { main: { top: 0.2, bottom: 0.1 }, volume: { top: 0.8, bottom: 0 }, subs: [] };
+  }
+  const paneH = Math.min(0.2, 0.5 / count);
+  const subsTotal = paneH * count;
+  const subs = Array.from({ length: count }, (_, i) => ({
+    top: 1 - subsTotal + i * paneH + 0.02,
+    bottom: subsTotal - (i + 1) * paneH,
+  }));
+  return {
+    main: { top: 0.05, bottom: subsTotal + 0.05 },
+    volume: { top: 1 - subsTotal - 0.12, bottom: subsTotal },
+    subs,
+  };
+}
 
 function computeBreachState(trade: TradeRow | null, ltp: number): 'NORMAL' | 'SL' | 'TGT' {
   if (!trade || !Number.isFinite(ltp)) return 'NORMAL';
@@ -54,9 +121,15 @@ export function CandleChart({
   candles,
   trades,
   intervalMin,
+  chartType = "candles",
+  boxSize,
+  ticks,
+  ticksPerBar = 1,
   overlayCount = 0,
   liveLtp,
   currentMs,
+  indicators,
+  onModifyLevel,
 }: Props) {
   const containerRef = React.useRef<HTMLDivElement | null>(null);
   const chartRef = React.useRef<IChartApi | null>(null);
@@ -64,22 +137,26 @@ export function CandleChart({
   const volSeriesRef = React.useRef<ISeriesApi<"Histogram"> | null>(null);
   const priceLinesRef = React.useRef<any[]>([]);
   const didInitViewRef = React.useRef(false);
-
-  const lwCandles = React.useMemo(() => toLwCandles(candles), [candles]);
-  const liveCandles = React.useMemo(
-    () => applyLiveLtpToCandles(lwCandles, intervalMin, liveLtp, currentMs ?? null),
-    [lwCandles, intervalMin, liveLtp, currentMs],
-  );
-  const lwVol = React.useMemo(() => toLwVolume(candles), [candles]);
-  const liveVol = React.useMemo(() => {
-    if (!liveCandles.length) return lwVol;
-    const lastLive = liveCandles[liveCandles.length - 1];
-    const lastVol = lwVol[lwVol.length - 1];
-    if (!lastVol || lastVol.time !== lastLive.time) {
-      return [...lwVol, { time: lastLive.time, value: lastVol?.value ?? 0 }];
-    }
-    return lwVol;
-  }, [lwVol, liveCandles]);
+  const indicatorSeriesRef = React.useRef(new Map<string, IndicatorSeriesEntry>());
+  const levelLinesRef = React.useRef(new Map<TradeLevelKey, LevelLine>());
+  const dragRef = React.useRef<{ level: TradeLevelKey; origPrice: number; price: number; trade: TradeRow } | null>(null);
+  const [drag, setDrag] = React.useState<LevelDrag | null>(null);
+
+  // Candle conversion, bar construction and indicators run in the analytics worker.
+  const frame = useChartFrame({
+    candles,
+    intervalMin,
+    liveLtp,
+    nowMs: currentMs ?? null,
+    chartType,
+    boxSize,
+    ticks,
+    ticksPerBar,
+    indicators,
+  });
+  const chartBars = frame.bars;
+  const chartVol = frame.volume;
+  const indicatorSeries = frame.indicators;
 
   const lastCandle = candles.length ? candles[candles.length - 1] : null;
   const fallbackLtp = lastCandle ? Number(lastCandle.close) : NaN;
@@ -89,7 +166,7 @@ export function CandleChart({
 
   React.useEffect(() => {
     didInitViewRef.current = false;
-  }, [token, intervalMin]);
+  }, [token, intervalMin, chartType]);
 
   // init chart once
   React.useEffect(() => {
@@ -130,15 +207,8 @@ export function CandleChart({
           style: LineStyle.Solid,
         },
       },
-      handleScroll: {
-        mouseWheel: true,
-        pressedMouseMove: true,
-      },
-      handleScale: {
-        axisPressedMouseMove: true,
-        mouseWheel: true,
-        pinch: true,
-      },
+      handleScroll: HANDLE_SCROLL,
+      handleScale: HANDLE_SCALE,
     });
 
     const candleSeries = chart.addCandlestickSeries({
@@ -185,16 +255,87 @@ export function CandleChart({
       chartRef.current = null;
       candleSeriesRef.current = null;
       volSeriesRef.current = null;
+      indicatorSeriesRef.current.clear();
     };
   }, []);
 
+  // Tick bars are seconds apart; show seconds on the axis and crosshair.
+  React.useEffect(() => {
+    const withSeconds = chartType === "ticks";
+    chartRef.current?.applyOptions({
+      timeScale: { secondsVisible: withSeconds },
+      localization: { timeFormatter: (time: Time) => formatIstDateTime(time, withSeconds) },
+    });
+  }, [chartType]);
+
+  // indicator overlays / sub-panes
+  React.useEffect(() => {
+    const chart = chartRef.current;
+    const cs = candleSeriesRef.current;
+    const vs = volSeriesRef.current;
+    if (!chart || !cs || !vs) return;
+
+    const live = indicatorSeriesRef.current;
+    const wanted = new Set(indicatorSeries.map((s) => s.key));
+    for (const [key, entry] of live) {
+      if (wanted.has(key)) continue;
+      try {
+        chart.removeSeries(entry.series);
+      } catch {}
+      live.delete(key);
+    }
+
+    const subKeys = Array.from(
+      new Set(indicatorSeries.filter((s) => s.pane === "sub").map((s) => s.specKey)),
+    );
+    const layout = subPaneLayout(subKeys.length);
+    cs.priceScale().applyOptions({ scaleMargins: layout.main });
+    vs.priceScale().applyOptions({ scaleMargins: layout.volume });
+
+    for (const s of indicatorSeries) {
+      let entry = live.get(s.key);
+      if (!entry) {
+        const isSub = s.pane === "sub";
+        const common = {
+          priceScaleId: isSub ? `sub:${s.specKey}` : "right",
+          lastValueVisible: isSub,
+          priceLineVisible: false,
+          title: isSub ? s.label : "",
+          color: s.color,
+        };
+        const series =
+          s.style === "histogram"
+            ? chart.addHistogramSeries(common)
+            : chart.addLineSeries({ ...common, lineWidth: 1 });
+        const guides = (s.guides || []).map((price) =>
+          series.createPriceLine({
+            price,
+            color: "rgba(255,255,255,0.25)",
+            lineWidth: 1,
+            lineStyle: LineStyle.Dashed,
+            axisLabelVisible: false,
+            title: "",
+          }),
+        );
+        entry = { series, guides };
+        live.set(s.key, entry);
+      }
+      entry.series.setData(s.points as any);
+      if (s.pane === "sub") {
+        entry.series
+          .priceScale()
+          .applyOptions({ scaleMargins: layout.subs[subKeys.indexOf(s.specKey)] });
+      }
+    }
+  }, [indicatorSeries]);
+
   // update data
   React.useEffect(() => {
     const cs = candleSeriesRef.current;
     const vs = volSeriesRef.current;
     if (!cs || !vs) return;
 
-    const data = liveCandles as CandlestickData[];
+    const data = chartBars as CandlestickData[];
     cs.setData(data);
 
     // If the user drags the price axis, autoscale can get disabled.
@@ -205,7 +346,7 @@ export function CandleChart({
       // ignore
     }
 
-    const volData = liveVol.map((v) => ({
+    const volData = chartVol.map((v) => ({
       time: v.time,
       value: v.value,
       color: "rgba(255,255,255,0.25)",
@@ -215,7 +356,7 @@ export function CandleChart({
     const markers = buildTradeMarkers({
       token,
       trades,
-      candles: liveCandles,
+      candles: chartBars,
       max: 30,
     });
     cs.setMarkers(markers);
@@ -227,9 +368,9 @@ export function CandleChart({
       } catch {}
     }
     priceLinesRef.current = [];
+    levelLinesRef.current.clear();
 
-    const lastBar = liveCandles.length ? liveCandles[liveCandles.length - 1] : null;
-    const fallback = lastBar ? Number((lastBar as any).close) : NaN;
+    const fallback = frame.lastClose ?? NaN;
     const ltp = Number.isFinite(liveLtp) ? Number(liveLtp) : fallback;
 
     const openTrade = getLatestOpenTradeForToken(trades, token);
@@ -286,30 +427,31 @@ export function CandleChart({
         priceLinesRef.current.push(pl);
       }
 
-      if (Number.isFinite(Number(openTrade.stopLoss))) {
+      const addLevel = (level: TradeLevelKey, color: string, lineWidth: 1 | 2, lineStyle: LineStyle) => {
+        const price = Number(openTrade[level]);
+        if (!Number.isFinite(price) || price <= 0) return;
+        // Keep a line that is mid-drag where the user is holding it, even if data refreshed.
+        const dragging = dragRef.current?.level === level ? dragRef.current : null;
         const pl = cs.createPriceLine({
-          price: Number(openTrade.stopLoss),
-          color: 'rgba(255,107,107,0.90)',
-          lineWidth: 2,
-          lineStyle: LineStyle.Dotted,
+          price: dragging ? dragging.price : price,
+          color,
+          lineWidth,
+          lineStyle,
           lineVisible: true,
           axisLabelVisible: true,
-          title: 'SL',
+          title: TRADE_LEVEL_LABELS[level],
         });
         priceLinesRef.current.push(pl);
-      }
+        levelLinesRef.current.set(level, { line: pl, price });
+      };
 
-      if (Number.isFinite(Number(openTrade.targetPrice))) {
-        const pl = cs.createPriceLine({
-          price: Number(openTrade.targetPrice),
-          color: 'rgba(46,229,157,0.90)',
-          lineWidth: 1,
-          lineStyle: LineStyle.Dashed,
-          lineVisible: true,
-          axisLabelVisible: true,
-          title: 'TGT',
-        });
-        priceLinesRef.current.push(pl);
+      addLevel('stopLoss', 'rgba(255,107,107,0.90)', 2, LineStyle.Dotted);
+      addLevel('targetPrice', 'rgba(46,229,157,0.90)', 1, LineStyle.Dashed);
+      if (Number(openTrade.tp1Price) !== Number(openTrade.targetPrice)) {
+        addLevel('tp1Price', 'rgba(46,229,157,0.55)', 1, LineStyle.Dotted);
+      }
+      if (Number(openTrade.trailSl) !== Number(openTrade.stopLoss)) {
+        addLevel('trailSl', 'rgba(255,204,102,0.90)', 1, LineStyle.Dashed);
       }
     }
 
@@ -374,7 +516,124 @@ export function CandleChart({
         chart.timeScale().scrollToRealTime();
       }
     }
-  }, [token, trades, liveCandles, liveVol, overlayCount, liveLtp]);
+  }, [token, trades, frame.lastClose, chartBars, chartVol, overlayCount, liveLtp]);
+
+  // Drag-to-modify for the open trade's levels. Listeners run in the capture phase so a grab
+  // on a level line never reaches the chart's own pan handler.
+  const dragEnabled = !!onModifyLevel;
+  const modifyRef = React.useRef(onModifyLevel);
+  const openTradeRef = React.useRef(openTrade);
+  const ltpRef = React.useRef(ltp);
+  modifyRef.current = onModifyLevel;
+  openTradeRef.current = openTrade;
+  ltpRef.current = ltp;
+
+  React.useEffect(() => {
+    const el = containerRef.current;
+    if (!el || !dragEnabled) return;
+
+    const localY = (event: MouseEvent) => event.clientY - el.getBoundingClientRect().top;
+
+    const hitLevel = (y: number): TradeLevelKey | null => {
+      const cs = candleSeriesRef.current;
+      if (!cs) return null;
+      let best: TradeLevelKey | null = null;
+      let bestDist = LEVEL_HIT_PX + 1;
+      for (const [level, { price }] of levelLinesRef.current) {
+        const coord = cs.priceToCoordinate(price);
+        if (coord === null) continue;
+        const dist = Math.abs(coord - y);
+        if (dist < bestDist) {
+          best = level;
+          bestDist = dist;
+        }
+      }
+      return best;
+    };
+
+    const setLinePrice = (level: TradeLevelKey, price: number) => {
+      try {
+        levelLinesRef.current.get(level)?.line.applyOptions({ price });
+      } catch {
+        // line was replaced by a data refresh
+      }
+    };
+
+    const onMove = (event: MouseEvent) => {
+      const cur = dragRef.current;
+      const cs = candleSeriesRef.current;
+      if (!cur || !cs) return;
+      const y = localY(event);
+      const raw = cs.coordinateToPrice(y);
+      if (raw === null) return;
+      const price = snapToTick(Number(raw));
+      cur.price = price;
+      setLinePrice(cur.level, price);
+      setDrag({
+        level: cur.level,
+        price,
+        y,
+        preview: previewLevelChange(cur.trade, cur.level, price),
+        error: validateLevelPrice(cur.trade, cur.level, price, ltpRef.current),
+      });
+    };
+
+    const endDrag = () => {
+      window.removeEventListener("mousemove", onMove);
+      window.removeEventListener("mouseup", onUp);
+      chartRef.current?.applyOptions({ handleScroll: HANDLE_SCROLL, handleScale: HANDLE_SCALE });
+      setDrag(null);
+    };
+
+    const onUp = async () => {
+      const cur = dragRef.current;
+      endDrag();
+      if (!cur) return;
+      const invalid = validateLevelPrice(cur.trade, cur.level, cur.price, ltpRef.current);
+      const modify = modifyRef.current;
+      let accepted = false;
+      if (!invalid && modify && Math.abs(cur.price - cur.origPrice) >= PRICE_TICK / 2) {
+        try {
+          accepted = await modify(cur.trade, cur.level, cur.price);
+        } catch {
+          accepted = false;
+        }
+      }
+      dragRef.current = null;
+      if (!accepted) setLinePrice(cur.level, cur.origPrice);
+    };
+
+    const onDown = (event: MouseEvent) => {
+      if (event.button !== 0 || dragRef.current) return;
+      const trade = openTradeRef.current;
+      if (!trade) return;
+      const level = hitLevel(localY(event));
+      if (!level) return;
+      const origPrice = levelLinesRef.current.get(level)?.price;
+      if (origPrice === undefined) return;
+      event.preventDefault();
+      event.stopPropagation();
+      chartRef.current?.applyOptions({ handleScroll: false, handleScale: false });
+      dragRef.current = { level, origPrice, price: origPrice, trade };
+      window.addEventListener("mousemove", onMove);
+      window.addEventListener("mouseup", onUp);
+    };
+
+    const onHover = (event: MouseEvent) => {
+      if (dragRef.current) return;
+      el.style.cursor = openTradeRef.current && hitLevel(localY(event)) ? "ns-resize" : "";
+    };
+
+    el.addEventListener("mousedown", onDown, true);
+    el.addEventListener("mousemove", onHover);
+    return () => {
+      el.removeEventListener("mousedown", onDown, true);
+      el.removeEventListener("mousemove", onHover);
+      window.removeEventListener("mousemove", onMove);
+      window.removeEventListener("mouseup", onUp);
+      el.style.cursor = "";
+    };
+  }, [dragEnabled]);
 
   return (
     <div style={{ width: "100%", height: "100%", position: "relative" }}>
@@ -394,8 +653,25 @@ export function CandleChart({
             LTP{Number.isFinite(liveLtp) ? ' (live)' : ''}: {ltp.toFixed(2)} {breach === 'SL' ? '• SL breach' : breach === 'TGT' ? '• target hit' : ''}
           </div>
         ) : null}
+        {indicators?.length ? (
+          <div className="chartLegend">
+            {indicators.map((spec) => indicatorLabel(spec)).join(" • ")}
+          </div>
+        ) : null}
       </div>
       <div ref={containerRef} className="chartContainer" />
+      {drag ? (
+        <div className="levelDragTip" style={{ top: Math.max(4, drag.y - 34) }}>
+          <div className="mono">
+            {TRADE_LEVEL_LABELS[drag.level]} → {drag.price.toFixed(2)}
+          </div>
+          <div className="mono">
+            at level {fmtInr(drag.preview.pnlInr)} • Δ {fmtInr(drag.preview.deltaInr)}
+            {drag.preview.rMultiple !== null ? ` • ${drag.preview.rMultiple.toFixed(2)}R` : ""}
+          </div>
+          {drag.error ? <div className="badText">{drag.error}</div> : null}
+        </div>
+      ) : null}
     </div>
   );
 }
@@ -0,0 +1,221 @@
+import React from "react";
+import type { TradeRow } from "../types/backend";
+import {
+  CHARGE_FIELDS,
+  CHARGE_SEGMENTS,
+  DEFAULT_CHARGES,
+  compareFees,
+  type ChargesConfig,
+  type PnlBasis,
+  type SegmentCharges,
+  type TradeCharges,
+} from "../lib/charges";
+
+type ToggleProps = {
+  basis: PnlBasis;
+  onChange: (next: PnlBasis) => void;
+};
+
+/** Gross/net switch shared by every panel that shows realised P&L. */
+export function PnlBasisToggle({ basis, onChange }: ToggleProps) {
+  return (
+    <div className="field" title="Net subtracts modelled brokerage, STT, exchange, SEBI, stamp and GST">
+      <label>P&amp;L</label>
+      <select className="small" value={basis} onChange={(e) => onChange(e.target.value as PnlBasis)}>
+        <option value="net">Net</option>
+        <option value="gross">Gross</option>
+      </select>
+    </div>
+  );
+}
+
+type PanelProps = {
+  trades: TradeRow[];
+  grossOf: (row: TradeRow) => number | null;
+  chargesOf: (row: TradeRow) => TradeCharges | null;
+  config: ChargesConfig;
+  onConfigChange: (next: ChargesConfig) => void;
+  rangeLabel: string;
+};
+
+function fmtInr(n: number) {
+  return `₹${n.toLocaleString("en-IN", { maximumFractionDigits: 2, minimumFractionDigits: 2 })}`;
+}
+
+export function ChargesPanel({ trades, grossOf, chargesOf, config, onConfigChange, rangeLabel }: PanelProps) {
+  const summary = React.useMemo(() => {
+    const out = {
+      trades: 0,
+      gross: 0,
+      brokerage: 0,
+      stt: 0,
+      exchange: 0,
+      sebi: 0,
+      stamp: 0,
+      gst: 0,
+      total: 0,
+      compared: 0,
+      disagreeing: [] as Array<{ tradeId: string; estimated: number; backend: number }>,
+    };
+    for (const row of trades || []) {
+      const gross = grossOf(row);
+      const c = chargesOf(row);
+      if (gross === null || !c) continue;
+      out.trades += 1;
+      out.gross += gross;
+      out.brokerage += c.brokerage;
+      out.stt += c.stt;
+      out.exchange += c.exchange;
+      out.sebi += c.sebi;
+      out.stamp += c.stamp;
+      out.gst += c.gst;
+      out.total += c.total;
+      const cmp = compareFees(row, c);
+      if (!cmp) continue;
+      out.compared += 1;
+      if (!cmp.agrees) out.disagreeing.push({ tradeId: row.tradeId, estimated: cmp.estimated, backend: cmp.backend });
+    }
+    return out;
+  }, [trades, grossOf, chargesOf]);
+
+  const setRate = (segment: keyof ChargesConfig, key: keyof SegmentCharges, value: number | null) => {
+    const base = DEFAULT_CHARGES[segment][key];
+    const next = value === null || !Number.isFinite(value) || value < 0 ? (key === "brokeragePct" ? null : base) : value;
+    onConfigChange({ ...config, [segment]: { ...config[segment], [key]: next } });
+  };
+
+  const rows: Array<[string, number]> = [
+    ["Brokerage", summary.brokerage],
+    ["STT", summary.stt],
+    ["Exchange txn", summary.exchange],
+    ["SEBI", summary.sebi],
+    ["Stamp duty", summary.stamp],
+    ["GST", summary.gst],
+  ];
+
+  return (
+    <div className="panel miniPanel wide">
+      <div className="panelHeader">
+        <div className="left">
+          <div style={{ fontWeight: 700 }}>Charges &amp; net P&amp;L</div>
+          <span className="pill">{summary.trades} closed</span>
+          <span className="pill">{rangeLabel}</span>
+          {summary.compared ? (
+            <span
+              className={["pill", summary.disagreeing.length ? "warn" : "good"].join(" ")}
+              title="Trades whose backend feesTotal (or brokerage + taxes) is within ₹1 / 5% of the model"
+            >
+              backend fees {summary.compared - summary.disagreeing.length}/{summary.compared} agree
+            </span>
+          ) : null}
+        </div>
+      </div>
+      <div className="panelBody">
+        <div className="truthSummaryGrid">
+          <div>
+            <span className="stackLabel">Gross P&amp;L</span>
+            <div className={["stackValue", summary.gross >= 0 ? "goodText" : "badText"].join(" ")}>
+              {fmtInr(summary.gross)}
+            </div>
+          </div>
+          <div>
+            <span className="stackLabel">Charges</span>
+            <div className="stackValue badText">{fmtInr(-summary.total)}</div>
+          </div>
+          <div>
+            <span className="stackLabel">Net P&amp;L</span>
+            <div className={["stackValue", summary.gross - summary.total >= 0 ? "goodText" : "badText"].join(" ")}>
+              {fmtInr(summary.gross - summary.total)}
+            </div>
+          </div>
+          <div>
+            <span className="stackLabel">Charges / trade</span>
+            <div className="stackValue">{summary.trades ? fmtInr(summary.total / summary.trades) : "—"}</div>
+          </div>
+        </div>
+
+        <div className="truthSubGrid">
+          <div>
+            <div className="truthSubTitle">Breakdown</div>
+            <table className="miniTable">
+              <tbody>
+                {rows.map(([label, value]) => (
+                  <tr key={label}>
+                    <td>{label}</td>
+                    <td className="mono">{fmtInr(value)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div>
+            <div className="truthSubTitle">Backend fees that differ from the model</div>
+            {summary.disagreeing.length ? (
+              <table className="miniTable">
+                <thead>
+                  <tr>
+                    <th>Trade</th>
+                    <th>Model</th>
+                    <th>Backend</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {summary.disagreeing.slice(0, 8).map((d) => (
+                    <tr key={d.tradeId}>
+                      <td className="mono">{d.tradeId}</td>
+                      <td className="mono">{fmtInr(d.estimated)}</td>
+                      <td className="mono">{fmtInr(d.backend)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <div className="panelPlaceholder">
+                {summary.compared ? "All backend fees match the model." : "No trades carry feesTotal yet."}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <details className="chargesConfig">
+          <summary className="truthSubTitle">Rates per segment</summary>
+          <table className="miniTable">
+            <thead>
+              <tr>
+                <th />
+                {CHARGE_SEGMENTS.map((s) => (
+                  <th key={s.key}>{s.label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {CHARGE_FIELDS.map((f) => (
+                <tr key={f.key}>
+                  <td>{f.label}</td>
+                  {CHARGE_SEGMENTS.map((s) => (
+                    <td key={s.key}>
+                      <input
+                        className="small chargesInput"
+                        type="number"
+                        min={0}
+                        step={f.step}
+                        value={config[s.key][f.key] ?? ""}
+                        placeholder={f.key === "brokeragePct" ? "flat" : undefined}
+                        onChange={(e) =>
+                          setRate(s.key, f.key, e.target.value === "" ? null : Number(e.target.value))
+                        }
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <button className="btn small" type="button" onClick={() => onConfigChange(DEFAULT_CHARGES)}>
+            Reset to Zerodha defaults
+          </button>
+        </details>
+      </div>
+    </div>
+  );
+}
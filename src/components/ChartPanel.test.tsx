@@ -0,0 +1,119 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import type { CandleRow } from '../types/backend';
+import { ChartPanel, type ChartConfig, type FeedHealth } from './ChartPanel';
+import { useCandles } from '../lib/hooks';
+
+// The panel's data comes from react-query hooks and its chart draws on a canvas; both are
+// replaced so the feed-health logic can be driven with plain candle rows.
+vi.mock('../lib/hooks', () => ({
+  useCandles: vi.fn(),
+  useLiveLtp: vi.fn(() => ({ data: undefined })),
+}));
+vi.mock('./CandleChart', () => ({ CandleChart: () => null }));
+
+const NOW = Date.parse('2026-02-03T11:00:00+05:30');
+
+function candlesEndingAgo(sec: number, intervalMin = 1): CandleRow[] {
+  return [3, 2, 1, 0].map((n) => ({
+    instrument_token: 256265,
+    interval_min: intervalMin,
+    ts: new Date(NOW - sec * 1000 - n * intervalMin * 60_000).toISOString(),
+    open: 100,
+    high: 101,
+    low: 99,
+    close: 100.5,
+  }));
+}
+
+function renderPanel(
+  rows: CandleRow[],
+  opts: { intervalMin?: number; socketConnected?: boolean; replay?: { date: string; cursorMs: number } } = {},
+) {
+  vi.mocked(useCandles).mockReturnValue({ data: { ok: true, rows }, error: null } as any);
+  const onFeedHealth = vi.fn<(h: FeedHealth) => void>();
+  const config: ChartConfig = { token: 256265, intervalMin: opts.intervalMin ?? 1 };
+  render(
+    <ChartPanel
+      index={0}
+      config={config}
+      tokens={[256265]}
+      tokenLabels={{ 256265: 'NIFTY 50' }}
+      trades={[]}
+      tradesLoading={false}
+      socketConnected={opts.socketConnected ?? true}
+      serverNowMs={NOW}
+      currentMs={NOW}
+      replay={opts.replay ?? null}
+      onFeedHealth={onFeedHealth}
+      onChange={() => {}}
+    />,
+  );
+  return { onFeedHealth, lastHealth: () => onFeedHealth.mock.lastCall?.[0] };
+}
+
+const lagPill = () => screen.getByText(/^lag:/);
+
+beforeEach(() => {
+  vi.mocked(useCandles).mockReset();
+});
+
+describe('ChartPanel feed lag', () => {
+  // 1m bars: good up to 68s (one interval + 8s grace), stale beyond 135s (two intervals + 15s).
+  it.each([
+    { ago: 30, pill: 'good', text: 'lag: 30s', stale: false },
+    { ago: 68, pill: 'good', text: 'lag: 1m 8s', stale: false },
+    { ago: 100, pill: 'warn', text: 'lag: 1m 40s', stale: false },
+    { ago: 135, pill: 'warn', text: 'lag: 2m 15s', stale: false },
+    { ago: 200, pill: 'bad', text: 'lag: 3m 20s', stale: true },
+  ])('$ago s behind → $pill', ({ ago, pill, text, stale }) => {
+    const { lastHealth } = renderPanel(candlesEndingAgo(ago));
+    expect(lagPill().textContent).toBe(text);
+    expect(lagPill().className).toBe(`pill ${pill}`);
+    expect(lastHealth()).toMatchObject({ index: 0, token: 256265, lagSec: ago, stale });
+  });
+
+  it('scales the thresholds with the fetched interval', () => {
+    const { lastHealth } = renderPanel(candlesEndingAgo(200, 5), { intervalMin: 5 });
+    expect(lagPill().className).toBe('pill good');
+    expect(lastHealth()).toMatchObject({ stale: false });
+  });
+
+  it('judges aggregated intervals by the 1m bars they are built from', () => {
+    // 15m is not served natively, so a 1m feed 200s behind is stale even though a 15m bar is not over.
+    const { lastHealth } = renderPanel(candlesEndingAgo(200), { intervalMin: 15 });
+    expect(lastHealth()).toMatchObject({ intervalMin: 15, stale: true });
+  });
+
+  it('reports unknown lag without candles', () => {
+    const { lastHealth } = renderPanel([]);
+    expect(screen.queryByText(/^lag:/)).toBeNull();
+    expect(lastHealth()).toMatchObject({ lagSec: null, stale: false, lastTs: null });
+  });
+
+  it('does not report feed health during replay', () => {
+    const { onFeedHealth } = renderPanel(candlesEndingAgo(30), {
+      replay: { date: '2026-02-02', cursorMs: Date.parse('2026-02-02T10:00:00+05:30') },
+    });
+    expect(onFeedHealth).not.toHaveBeenCalled();
+  });
+});
+
+describe('ChartPanel polling', () => {
+  const lastPollMs = () => vi.mocked(useCandles).mock.lastCall?.[3];
+
+  it('does not poll while the socket pushes candles', () => {
+    renderPanel(candlesEndingAgo(200));
+    expect(lastPollMs()).toBe(false);
+  });
+
+  it('polls faster once the feed is stale', () => {
+    renderPanel(candlesEndingAgo(200), { socketConnected: false });
+    expect(lastPollMs()).toBe(1500);
+  });
+
+  it('keeps the baseline cadence while the feed is fresh', () => {
+    renderPanel(candlesEndingAgo(30), { socketConnected: false });
+    expect(lastPollMs()).toBe(2500);
+  });
+});
@@ -1,12 +1,37 @@
 import React from 'react';
 import { CandleChart } from './CandleChart';
+import { IndicatorPicker } from './IndicatorPicker';
 import { useCandles, useLiveLtp } from '../lib/hooks';
 import type { CandleRow, TradeRow } from '../types/backend';
-import { getIstDayStartMs, getLatestOpenTradeForToken } from '../lib/chartUtils';
+import { getIstDayStartMs, getLatestOpenTradeForToken, type TradeLevelKey } from '../lib/chartUtils';
+import type { IndicatorSpec } from '../lib/indicators';
+import { candlesAsOf, tradesAsOf, type ReplayView } from '../lib/replay';
+import {
+  CHART_TYPES,
+  INTERVAL_PRESETS,
+  MAX_CUSTOM_INTERVAL_MIN,
+  aggregateCandles,
+  intervalLabel,
+  sourceIntervalFor,
+  sourceWindowFor,
+  type ChartType,
+} from '../lib/timeframes';
+import { tickStats, tickTape, useTicks } from '../lib/ticks';
 
 export type ChartConfig = {
   token: number | null;
+  /** Display interval; anything the backend doesn't serve is aggregated from 1m bars. */
   intervalMin: number;
+  chartType?: ChartType;
+  /** Renko box / range-bar size in price points (0 = auto from ATR). */
+  boxSize?: number;
+  /** Ticks per bar in the "ticks" chart type. */
+  ticksPerBar?: number;
+  /** Shows the time & sales tape under the chart. */
+  showTape?: boolean;
+  indicators?: IndicatorSpec[];
+  /** Earlier sessions from the local candle cache to show before today (0 = today only). */
+  historyDays?: number;
 };
 
 export type FeedHealth = {
@@ -16,6 +41,9 @@ export type FeedHealth = {
   lastTs: string | null;
   lagSec: number | null;
   stale: boolean;
+  /** Socket ticks per second over the last minute; null when no ticks have been seen. */
+  tickRate: number | null;
+  lastTickAgeSec: number | null;
 };
 
 type Props = {
@@ -29,8 +57,13 @@ type Props = {
   serverNowMs: number;
   currentMs: number;
   isFocused?: boolean;
+  /** Briefly highlights the tile, e.g. when an alert rule fires for its instrument. */
+  flash?: boolean;
   onFeedHealth?: (h: FeedHealth) => void;
   panelId?: string;
+  /** When set, the panel shows `replay.date` as of `replay.cursorMs` instead of the live feed. */
+  replay?: ReplayView | null;
+  onModifyLevel?: (trade: TradeRow, level: TradeLevelKey, price: number) => Promise<boolean>;
   onChange: (next: ChartConfig) => void;
 };
 
@@ -48,6 +81,23 @@ function formatLagSeconds(sec: number) {
   return `${m}m ${s}s`;
 }
 
+/** Rows kept in the time & sales tape. */
+const TAPE_ROWS = 60;
+
+function formatTapeTime(ms: number) {
+  return new Intl.DateTimeFormat('en-IN', {
+    timeZone: 'Asia/Kolkata',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hour12: false,
+  }).format(new Date(ms));
+}
+
+function signed(n: number) {
+  return `${n > 0 ? '+' : ''}${n.toFixed(2)}`;
+}
+
 function computeBreachState(trade: TradeRow | null, ltp: number): 'NORMAL' | 'SL' | 'TGT' {
   if (!trade || !Number.isFinite(ltp)) return 'NORMAL';
   const side = (trade.side || '').toUpperCase();
@@ -64,7 +114,7 @@ function computeBreachState(trade: TradeRow | null, ltp: number): 'NORMAL' | 'SL
   return 'NORMAL';
 }
 
-function pickLiveLtp(value: any): number {
+export function pickLiveLtp(value: any): number {
   const candidates = [
     value?.ltp,
     value?.lastPrice,
@@ -91,8 +141,11 @@ export function ChartPanel({
   serverNowMs,
   currentMs,
   isFocused,
+  flash,
   onFeedHealth,
   panelId,
+  replay,
+  onModifyLevel,
   onChange,
 }: Props) {
   const [isFullscreen, setIsFullscreen] = React.useState(false);
@@ -103,12 +156,26 @@ export function ChartPanel({
   );
 
   const token = config.token;
+  const historyDays = config.historyDays ?? 0;
   const intervalMin = config.intervalMin;
+  const chartType = config.chartType ?? 'candles';
+  const sourceInterval = sourceIntervalFor(intervalMin);
+  const [customInterval, setCustomInterval] = React.useState(
+    () => !INTERVAL_PRESETS.some((p) => p.value === intervalMin),
+  );
+  const replayDate = replay?.date ?? null;
+  const replayMs = replay ? replay.cursorMs : null;
+  const nowMs = replayMs ?? serverNowMs;
+
+  // Layout presets can swap in a non-preset interval without going through the select.
+  React.useEffect(() => {
+    if (!INTERVAL_PRESETS.some((p) => p.value === intervalMin)) setCustomInterval(true);
+  }, [intervalMin]);
 
   // Reset polling baseline when the feed mode or chart identity changes.
   React.useEffect(() => {
     setPollMs(socketConnected ? false : 2500);
-  }, [socketConnected, token, intervalMin]);
+  }, [socketConnected, token, sourceInterval]);
 
   React.useEffect(() => {
     if (!isFullscreen) return;
@@ -128,38 +195,64 @@ export function ChartPanel({
     };
   }, [isFullscreen]);
 
-  const candlesQ = useCandles(token, intervalMin, 320, pollMs);
-  const liveLtpQ = useLiveLtp(token, socketConnected ? 1000 : 1500);
+  const sourceWindow = sourceWindowFor(intervalMin, historyDays);
+  const candlesQ = useCandles(token, sourceInterval, replayDate ? 400 : sourceWindow.limit, replayDate ? false : pollMs, replayDate);
+  const liveLtpQ = useLiveLtp(replayDate ? null : token, socketConnected ? 1000 : 1500);
   const rows: CandleRow[] = candlesQ.data?.rows || [];
-  const rowsToday = React.useMemo(() => {
+  const sourceRows = React.useMemo(() => {
+    if (replayDate && replayMs !== null) return candlesAsOf(rows, sourceInterval, replayDate, replayMs);
     if (!rows.length || !Number.isFinite(serverNowMs)) return rows;
-    const dayStartMs = getIstDayStartMs(serverNowMs);
-    const dayEndMs = dayStartMs + 24 * 60 * 60 * 1000;
+    const todayStartMs = getIstDayStartMs(serverNowMs);
+    const dayStartMs = todayStartMs - sourceWindow.days * 24 * 60 * 60 * 1000;
+    const dayEndMs = todayStartMs + 24 * 60 * 60 * 1000;
     return rows.filter((row) => {
       const ts = new Date(row.ts).getTime();
       return Number.isFinite(ts) && ts >= dayStartMs && ts < dayEndMs;
     });
-  }, [rows, serverNowMs]);
+  }, [rows, serverNowMs, replayDate, replayMs, sourceInterval, sourceWindow.days]);
+  const rowsToday = React.useMemo(
+    () => (sourceInterval === intervalMin ? sourceRows : aggregateCandles(sourceRows, intervalMin)),
+    [sourceRows, sourceInterval, intervalMin],
+  );
+  const ticks = useTicks(replayDate ? null : token);
+  const tickNowMs = Number.isFinite(currentMs) ? currentMs : Date.now();
+  const stats = React.useMemo(() => tickStats(ticks, tickNowMs), [ticks, tickNowMs]);
+  const sessionOpen = React.useMemo(() => {
+    if (!Number.isFinite(serverNowMs)) return undefined;
+    const todayStartMs = getIstDayStartMs(serverNowMs);
+    const first = sourceRows.find((row) => new Date(row.ts).getTime() >= todayStartMs);
+    return first ? Number(first.open) : undefined;
+  }, [sourceRows, serverNowMs]);
+  const tape = React.useMemo(
+    () => (config.showTape ? tickTape(ticks, TAPE_ROWS, sessionOpen) : []),
+    [config.showTape, ticks, sessionOpen],
+  );
+  const panelTrades = React.useMemo(
+    () => (replayMs !== null ? tradesAsOf(trades, replayMs) : trades),
+    [trades, replayMs],
+  );
 
   const display = token !== null ? labelForToken(token, tokenLabels) : '-';
-  const title = `Chart ${index + 1} • ${display} • ${intervalMin}m`;
+  const typeLabel = chartType === 'candles' ? '' : ` ${CHART_TYPES.find((t) => t.value === chartType)?.label ?? ''}`;
+  const title = `Chart ${index + 1} • ${display} • ${intervalLabel(intervalMin)}${typeLabel}${replayDate ? ` • replay ${replayDate}` : ''}`;
 
   const errorMsg =
     (candlesQ.error as any)?.response?.data?.error || (candlesQ.error as any)?.message || null;
 
-  const lastTs = rows.length ? rows[rows.length - 1]?.ts : null;
+  const feedRows = replayDate ? sourceRows : rows;
+  const lastTs = feedRows.length ? feedRows[feedRows.length - 1]?.ts : null;
   const lastMs = lastTs ? new Date(lastTs).getTime() : NaN;
-  const lagSec = Number.isFinite(lastMs) ? Math.max(0, (serverNowMs - lastMs) / 1000) : NaN;
+  const lagSec = Number.isFinite(lastMs) ? Math.max(0, (nowMs - lastMs) / 1000) : NaN;
 
-  // Stale threshold: > 2 intervals behind (plus small grace).
-  const staleCut = intervalMin * 60 * 2 + 15;
-  const goodCut = intervalMin * 60 + 8;
+  // Stale threshold: > 2 fetched intervals behind (plus small grace); aggregation doesn't slow the feed.
+  const staleCut = sourceInterval * 60 * 2 + 15;
+  const goodCut = sourceInterval * 60 + 8;
 
   // Adaptive polling:
   // - When lag grows (no WS candle updates, or backend slow), speed up polling to catch up.
   // - When feed is healthy again, return to the baseline cadence.
   React.useEffect(() => {
-    if (socketConnected) return;
+    if (socketConnected || replayDate) return;
     if (token === null) return;
     if (!Number.isFinite(lagSec)) return;
 
@@ -168,7 +261,7 @@ export function ChartPanel({
       lagSec > staleCut ? 1500 : lagSec > goodCut ? 2500 : baseline;
 
     if (pollMs !== next) setPollMs(next);
-  }, [token, lagSec, staleCut, goodCut, socketConnected, pollMs]);
+  }, [token, lagSec, staleCut, goodCut, socketConnected, pollMs, replayDate]);
 
   const lagClass = !Number.isFinite(lagSec)
     ? ''
@@ -178,14 +271,17 @@ export function ChartPanel({
         ? 'warn'
         : 'bad';
 
-  const liveLtp = pickLiveLtp(liveLtpQ.data);
+  const liveLtp = replayDate ? NaN : pickLiveLtp(liveLtpQ.data);
   const fallbackLtp = rowsToday.length ? Number(rowsToday[rowsToday.length - 1]?.close) : NaN;
   const ltp = Number.isFinite(liveLtp) ? liveLtp : fallbackLtp;
-  const openTrade = token !== null ? getLatestOpenTradeForToken(trades, token) : null;
+  const openTrade = token !== null ? getLatestOpenTradeForToken(panelTrades, token) : null;
   const breach = computeBreachState(openTrade, ltp);
 
+  const tickRateRounded = Math.round(stats.rate * 10) / 10;
+
   React.useEffect(() => {
-    if (!onFeedHealth) return;
+    // Replay lag is relative to the replay clock, not the live feed; don't report it.
+    if (!onFeedHealth || replayDate) return;
     onFeedHealth({
       index,
       token,
@@ -193,12 +289,14 @@ export function ChartPanel({
       lastTs,
       lagSec: Number.isFinite(lagSec) ? lagSec : null,
       stale: Number.isFinite(lagSec) ? lagSec > staleCut : false,
+      tickRate: ticks.length ? tickRateRounded : null,
+      lastTickAgeSec: stats.lastAgeSec,
     });
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [index, token, intervalMin, lastTs, lagSec, staleCut]);
+  }, [index, token, intervalMin, lastTs, lagSec, staleCut, replayDate, tickRateRounded, ticks.length === 0]);
 
   return (
-    <div id={panelId} className={['panel', isFullscreen ? 'panelFullscreen' : '', isFocused ? 'panelFocus' : ''].join(' ')}>
+    <div id={panelId} className={['panel', isFullscreen ? 'panelFullscreen' : '', isFocused ? 'panelFocus' : '', flash ? 'panelFlash' : ''].join(' ')}>
       <div className="panelHeader">
         <div className="left">
           <div className="field">
@@ -214,6 +312,10 @@ export function ChartPanel({
               }
             >
               <option value="">Select token</option>
+              {/* Tokens opened from elsewhere (option chain) may not be subscribed. */}
+              {token !== null && !(tokens || []).includes(token) ? (
+                <option value={token}>{labelForToken(token, tokenLabels)}</option>
+              ) : null}
               {(tokens || []).map((t) => (
                 <option key={t} value={t}>
                   {labelForToken(t, tokenLabels)}
@@ -226,12 +328,104 @@ export function ChartPanel({
             <label>Interval</label>
             <select
               className="small"
-              value={intervalMin}
-              onChange={(e) => onChange({ ...config, intervalMin: Number(e.target.value) })}
+              value={customInterval ? 'custom' : intervalMin}
+              onChange={(e) => {
+                if (e.target.value === 'custom') {
+                  setCustomInterval(true);
+                  return;
+                }
+                setCustomInterval(false);
+                onChange({ ...config, intervalMin: Number(e.target.value) });
+              }}
+              title="1m/3m/5m come from the backend; longer intervals are built from 1m bars from 09:15 IST"
+            >
+              {INTERVAL_PRESETS.map((p) => (
+                <option key={p.value} value={p.value}>
+                  {p.label}
+                </option>
+              ))}
+              <option value="custom">Custom…</option>
+            </select>
+            {customInterval ? (
+              <input
+                key={intervalMin}
+                className="small intervalInput"
+                type="number"
+                min={1}
+                max={MAX_CUSTOM_INTERVAL_MIN}
+                defaultValue={intervalMin}
+                title="Minutes per bar"
+                onBlur={(e) => {
+                  const n = Math.round(Number(e.target.value));
+                  if (Number.isFinite(n) && n >= 1 && n <= MAX_CUSTOM_INTERVAL_MIN) {
+                    onChange({ ...config, intervalMin: n });
+                  } else {
+                    e.target.value = String(intervalMin);
+                  }
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+                }}
+              />
+            ) : null}
+          </div>
+
+          <div className="field">
+            <label>Type</label>
+            <select
+              className="small"
+              value={chartType}
+              onChange={(e) => onChange({ ...config, chartType: e.target.value as ChartType })}
+            >
+              {CHART_TYPES.map((t) => (
+                <option key={t.value} value={t.value}>
+                  {t.label}
+                </option>
+              ))}
+            </select>
+            {chartType === 'renko' || chartType === 'range' ? (
+              <input
+                className="small intervalInput"
+                type="number"
+                min={0}
+                step={0.05}
+                value={config.boxSize ?? 0}
+                title="Box size in points (0 = auto from ATR)"
+                onChange={(e) => {
+                  const n = Number(e.target.value);
+                  onChange({ ...config, boxSize: Number.isFinite(n) && n > 0 ? n : 0 });
+                }}
+              />
+            ) : null}
+            {chartType === 'ticks' ? (
+              <input
+                className="small intervalInput"
+                type="number"
+                min={1}
+                max={500}
+                value={config.ticksPerBar ?? 1}
+                title="Ticks per bar"
+                onChange={(e) => {
+                  const n = Math.round(Number(e.target.value));
+                  onChange({ ...config, ticksPerBar: Number.isFinite(n) && n >= 1 ? Math.min(n, 500) : 1 });
+                }}
+              />
+            ) : null}
+          </div>
+
+          <div className="field">
+            <label>History</label>
+            <select
+              className="small"
+              value={historyDays}
+              disabled={!!replayDate}
+              onChange={(e) => onChange({ ...config, historyDays: Number(e.target.value) })}
+              title="Earlier sessions are served from the local cache, beyond the backend's recent window"
             >
-              <option value={1}>1m</option>
-              <option value={3}>3m</option>
-              <option value={5}>5m</option>
+              <option value={0}>Today</option>
+              <option value={1}>+1 day</option>
+              <option value={3}>+3 days</option>
+              <option value={5}>+5 days</option>
             </select>
           </div>
 
@@ -250,23 +444,45 @@ export function ChartPanel({
             </select>
           </div>
 
-          <span
-            className={['pill', socketConnected ? 'good' : 'warn'].join(' ')}
-            title={
-              socketConnected
-                ? 'WS connected • polling disabled'
-                : `Polling ${pollMs}ms`
-            }
-          >
-            {socketConnected ? 'WS' : 'POLL'}
-          </span>
+          <IndicatorPicker
+            value={config.indicators || []}
+            onChange={(next) => onChange({ ...config, indicators: next })}
+          />
+
+          {replayDate ? (
+            <span className="pill warn" title="Bar replay • live feed paused for this panel">
+              REPLAY
+            </span>
+          ) : (
+            <span
+              className={['pill', socketConnected ? 'good' : 'warn'].join(' ')}
+              title={
+                socketConnected
+                  ? 'WS connected • polling disabled'
+                  : `Polling ${pollMs}ms`
+              }
+            >
+              {socketConnected ? 'WS' : 'POLL'}
+            </span>
+          )}
 
-          {token !== null && rows.length ? (
+          {token !== null && feedRows.length ? (
             <span className={['pill', lagClass].join(' ')} title={lastTs ? `Last candle ts: ${lastTs}` : 'Last candle ts: n/a'}>
               lag: {formatLagSeconds(lagSec)}
             </span>
           ) : null}
 
+          {token !== null && !replayDate && ticks.length ? (
+            <span
+              className={['pill', stats.lastAgeSec !== null && stats.lastAgeSec > 10 ? 'warn' : ''].join(' ')}
+              title={`Last 60s: ↑${stats.upticks} ↓${stats.downticks} =${stats.unchanged} • last tick ${
+                stats.lastAgeSec !== null ? formatLagSeconds(stats.lastAgeSec) : '-'
+              } ago • ${ticks.length} buffered`}
+            >
+              {stats.rate.toFixed(1)} t/s
+            </span>
+          ) : null}
+
           {breach !== 'NORMAL' ? (
             <span
               className={['pill', breach === 'SL' ? 'bad' : 'good'].join(' ')}
@@ -291,6 +507,15 @@ export function ChartPanel({
 
         <div className="panelHeaderActions">
           <div className="smallText">{tradesLoading ? 'trades…' : trades.length ? `trades: ${trades.length}` : ''}</div>
+          <button
+            className={['btn small', config.showTape ? 'good' : ''].join(' ')}
+            type="button"
+            disabled={!!replayDate}
+            onClick={() => onChange({ ...config, showTape: !config.showTape })}
+            title="Time & sales from the socket tick stream"
+          >
+            T&amp;S
+          </button>
           <button className="btn small" type="button" onClick={() => setIsFullscreen((prev) => !prev)}>
             {isFullscreen ? 'Close' : 'Full screen'}
           </button>
@@ -298,27 +523,80 @@ export function ChartPanel({
       </div>
 
       <div className="chartWrap">
-        {token !== null && rowsToday.length ? (
+        {token !== null && chartType === 'ticks' && !ticks.length ? (
+          <div className="panelPlaceholder">
+            {replayDate ? 'Tick charts need the live socket; not available in replay' : 'Waiting for socket ticks…'}
+          </div>
+        ) : token !== null && rowsToday.length ? (
           <CandleChart
-            key={`${token}-${intervalMin}`}
+            key={`${token}-${intervalMin}-${chartType}`}
             token={token}
             title={title}
             candles={rowsToday}
-            trades={trades}
+            trades={panelTrades}
             intervalMin={intervalMin}
+            chartType={chartType}
+            boxSize={config.boxSize}
+            ticks={ticks}
+            ticksPerBar={config.ticksPerBar}
             overlayCount={overlayN}
             liveLtp={Number.isFinite(liveLtp) ? liveLtp : undefined}
-            currentMs={Number.isFinite(currentMs) ? currentMs : null}
+            currentMs={replayMs ?? (Number.isFinite(currentMs) ? currentMs : null)}
+            indicators={config.indicators}
+            onModifyLevel={replayDate ? undefined : onModifyLevel}
           />
         ) : (
           <div className="panelPlaceholder">
-            {token !== null
+            {token !== null && replayDate
+              ? candlesQ.isFetching
+                ? `Loading ${replayDate}…`
+                : 'No closed bars yet at this replay time'
+              : token !== null
               ? 'Waiting for today’s candles… (need /admin/candles/recent)'
               : 'Select a token to load candles'}
           </div>
         )}
       </div>
 
+      {config.showTape && !replayDate ? (
+        <div className="tickTape">
+          <div className="tickTapeSummary smallText">
+            <span className="goodText">↑ {stats.upticks}</span>
+            <span className="badText">↓ {stats.downticks}</span>
+            <span>= {stats.unchanged}</span>
+            <span>• {stats.rate.toFixed(1)} ticks/s (60s)</span>
+          </div>
+          {tape.length ? (
+            <table className="miniTable">
+              <thead>
+                <tr>
+                  <th>Time</th>
+                  <th>Price</th>
+                  <th>Chg</th>
+                  <th>Δ</th>
+                </tr>
+              </thead>
+              <tbody>
+                {tape.map((row, i) => (
+                  <tr key={`${row.ts}-${i}`}>
+                    <td className="mono">{formatTapeTime(row.ts)}</td>
+                    <td className={['mono', row.delta > 0 ? 'goodText' : row.delta < 0 ? 'badText' : ''].join(' ')}>
+                      {row.price.toFixed(2)}
+                    </td>
+                    <td className={['mono', row.change > 0 ? 'goodText' : row.change < 0 ? 'badText' : ''].join(' ')}>
+                      {signed(row.change)}
+                    </td>
+                    <td className="mono">{row.delta ? signed(row.delta) : '·'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <div className="panelPlaceholder">No ticks yet (needs the socket ltp/tick stream)</div>
+          )}
+        </div>
+      ) : null}
+
       {errorMsg ? <div className="errorBox">{String(errorMsg)}</div> : null}
     </div>
   );
@@ -0,0 +1,286 @@
+import React from "react";
+import type { TradeRow } from "../types/backend";
+import {
+  EQUITY_MODES,
+  buildDailyEquityCurve,
+  buildDailyPnl,
+  buildEquityCurve,
+  buildGroupedCurves,
+  buildPnlHeatmap,
+  drawdownStats,
+  rollingExpectancy,
+  toEquityTrades,
+  type EquityMode,
+} from "../lib/equity";
+import type { PnlBasis } from "../lib/charges";
+import { PnlBasisToggle } from "./ChargesPanel";
+
+type Props = {
+  trades: TradeRow[];
+  pnlOf: (row: TradeRow) => number | null;
+  pnlBasis?: PnlBasis;
+  onPnlBasisChange?: (next: PnlBasis) => void;
+  strategyOf: (row: TradeRow) => string;
+  regimeOf: (row: TradeRow) => string;
+  asOfMs: number;
+  rangeLabel: string;
+};
+
+type Series = { key: string; color: string; points: Array<{ x: number; y: number }> };
+
+const ROLLING_WINDOW = 20;
+const SERIES_COLORS = ["#6aa6ff", "#2ee59d", "#ffcc66", "#ff6b6b", "#c38bff", "#4dd0e1", "#f48fb1"];
+const WEEKDAYS = ["M", "T", "W", "T", "F", "S", "S"];
+const CHART_W = 600;
+
+function fmtInr(n: number | null | undefined) {
+  if (!Number.isFinite(n as number)) return "—";
+  return new Intl.NumberFormat("en-IN", {
+    style: "currency",
+    currency: "INR",
+    maximumFractionDigits: 0,
+  }).format(Number(n));
+}
+
+function fmtDuration(ms: number) {
+  if (!Number.isFinite(ms) || ms <= 0) return "—";
+  const min = Math.round(ms / 60000);
+  if (min < 60) return `${min}m`;
+  const hours = Math.floor(min / 60);
+  if (hours < 24) return `${hours}h ${min % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+function fmtIstDay(ms: number) {
+  return new Intl.DateTimeFormat("en-IN", {
+    timeZone: "Asia/Kolkata",
+    day: "2-digit",
+    month: "short",
+  }).format(new Date(ms));
+}
+
+function LineChart({
+  series,
+  height,
+  area,
+}: {
+  series: Series[];
+  height: number;
+  area?: boolean;
+}) {
+  const all = series.flatMap((s) => s.points);
+  if (!all.length) return <div className="panelPlaceholder">No closed trades in range.</div>;
+
+  let minX = Math.min(...all.map((p) => p.x));
+  let maxX = Math.max(...all.map((p) => p.x));
+  if (minX === maxX) {
+    minX -= 1;
+    maxX += 1;
+  }
+  const minY = Math.min(0, ...all.map((p) => p.y));
+  const maxY = Math.max(0, ...all.map((p) => p.y));
+  const spanY = maxY - minY || 1;
+  const sx = (x: number) => ((x - minX) / (maxX - minX)) * CHART_W;
+  const sy = (y: number) => 4 + (1 - (y - minY) / spanY) * (height - 8);
+  const zeroY = sy(0);
+
+  return (
+    <svg className="equitySvg" viewBox={`0 0 ${CHART_W} ${height}`} preserveAspectRatio="none" style={{ height }}>
+      <line x1={0} x2={CHART_W} y1={zeroY} y2={zeroY} className="equityZero" />
+      {series.map((s) => {
+        const d = s.points.map((p, i) => `${i ? "L" : "M"}${sx(p.x).toFixed(1)},${sy(p.y).toFixed(1)}`).join(" ");
+        if (!d) return null;
+        const first = s.points[0];
+        const last = s.points[s.points.length - 1];
+        return (
+          <g key={s.key}>
+            {area ? (
+              <path
+                d={`${d} L${sx(last.x).toFixed(1)},${zeroY.toFixed(1)} L${sx(first.x).toFixed(1)},${zeroY.toFixed(1)} Z`}
+                fill={s.color}
+                fillOpacity={0.25}
+              />
+            ) : null}
+            <path d={d} fill="none" stroke={s.color} strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+export function EquityPanel({
+  trades,
+  pnlOf,
+  pnlBasis,
+  onPnlBasisChange,
+  strategyOf,
+  regimeOf,
+  asOfMs,
+  rangeLabel,
+}: Props) {
+  const [mode, setMode] = React.useState<EquityMode>("TRADE");
+
+  const equityTrades = React.useMemo(() => toEquityTrades(trades, pnlOf), [trades, pnlOf]);
+  const days = React.useMemo(() => buildDailyPnl(equityTrades), [equityTrades]);
+  const tradeCurve = React.useMemo(() => buildEquityCurve(equityTrades), [equityTrades]);
+  const dayCurve = React.useMemo(() => buildDailyEquityCurve(days), [days]);
+  const baseCurve = mode === "DAY" ? dayCurve : tradeCurve;
+  const stats = React.useMemo(() => drawdownStats(tradeCurve, asOfMs), [tradeCurve, asOfMs]);
+  const rolling = React.useMemo(() => rollingExpectancy(equityTrades, ROLLING_WINDOW), [equityTrades]);
+  const heatmap = React.useMemo(() => buildPnlHeatmap(days), [days]);
+
+  const equitySeries = React.useMemo<Series[]>(() => {
+    if (mode === "STRATEGY" || mode === "REGIME") {
+      const keyOf = mode === "STRATEGY" ? strategyOf : regimeOf;
+      return buildGroupedCurves(equityTrades, keyOf).map((c, i) => ({
+        key: c.key,
+        color: SERIES_COLORS[i % SERIES_COLORS.length],
+        points: c.points.map((p) => ({ x: p.ts, y: p.equity })),
+      }));
+    }
+    return [
+      {
+        key: "Equity",
+        color: SERIES_COLORS[0],
+        points: baseCurve.map((p) => ({ x: p.ts, y: p.equity })),
+      },
+    ];
+  }, [mode, equityTrades, strategyOf, regimeOf, baseCurve]);
+
+  const underwater = React.useMemo<Series[]>(
+    () => [
+      {
+        key: "Drawdown",
+        color: "#ff6b6b",
+        points: baseCurve.map((p) => ({ x: p.ts, y: p.drawdown })),
+      },
+    ],
+    [baseCurve],
+  );
+
+  const rollingSeries = React.useMemo<Series[]>(
+    () => [{ key: "Expectancy", color: "#ffcc66", points: rolling.map((p) => ({ x: p.ts, y: p.value })) }],
+    [rolling],
+  );
+
+  const lastRolling = rolling.length ? rolling[rolling.length - 1].value : null;
+
+  return (
+    <div className="panel miniPanel wide equityPanel">
+      <div className="panelHeader">
+        <div className="left">
+          <div style={{ fontWeight: 700 }}>Equity &amp; Drawdown</div>
+          <span className="pill">{equityTrades.length} closed</span>
+          <span className="pill">{rangeLabel}</span>
+        </div>
+        <div className="panelHeaderActions">
+          {pnlBasis && onPnlBasisChange ? <PnlBasisToggle basis={pnlBasis} onChange={onPnlBasisChange} /> : null}
+          <div className="field">
+            <label>Curve</label>
+            <select className="small" value={mode} onChange={(e) => setMode(e.target.value as EquityMode)}>
+              {EQUITY_MODES.map((m) => (
+                <option key={m.key} value={m.key}>
+                  {m.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+      <div className="panelBody">
+        <div className="truthSummaryGrid">
+          <div>
+            <span className="stackLabel">{pnlBasis === "gross" ? "Gross" : "Net"} P&amp;L</span>
+            <div className={["stackValue", stats.netPnl >= 0 ? "goodText" : "badText"].join(" ")}>
+              {fmtInr(stats.netPnl)}
+            </div>
+          </div>
+          <div>
+            <span className="stackLabel">Max drawdown</span>
+            <div className="stackValue badText">{fmtInr(stats.maxDrawdown)}</div>
+          </div>
+          <div>
+            <span className="stackLabel">Max DD duration</span>
+            <div className="stackValue">{fmtDuration(stats.maxDrawdownDurationMs)}</div>
+          </div>
+          <div>
+            <span className="stackLabel">Recovery factor</span>
+            <div className="stackValue">
+              {stats.recoveryFactor === null ? "—" : stats.recoveryFactor.toFixed(2)}
+            </div>
+          </div>
+          <div>
+            <span className="stackLabel">Current drawdown</span>
+            <div className="stackValue">{fmtInr(stats.currentDrawdown)}</div>
+          </div>
+          <div>
+            <span className="stackLabel">Rolling {ROLLING_WINDOW} exp.</span>
+            <div className="stackValue">{lastRolling === null ? "—" : fmtInr(lastRolling)}</div>
+          </div>
+        </div>
+
+        <div className="equityCharts">
+          <div>
+            <div className="truthSubTitle">Equity curve</div>
+            <LineChart series={equitySeries} height={140} />
+            {equitySeries.length > 1 ? (
+              <div className="equityLegend">
+                {equitySeries.map((s) => (
+                  <span key={s.key} style={{ color: s.color }}>
+                    ● {s.key}
+                  </span>
+                ))}
+              </div>
+            ) : null}
+          </div>
+          <div>
+            <div className="truthSubTitle">Underwater</div>
+            <LineChart series={underwater} height={80} area />
+          </div>
+          <div>
+            <div className="truthSubTitle">Rolling {ROLLING_WINDOW}-trade expectancy</div>
+            {rolling.length ? (
+              <LineChart series={rollingSeries} height={80} />
+            ) : (
+              <div className="panelPlaceholder">Needs {ROLLING_WINDOW} closed trades.</div>
+            )}
+          </div>
+          <div>
+            <div className="truthSubTitle">Daily P&amp;L</div>
+            {heatmap.cells.length ? (
+              <div
+                className="pnlHeatmap"
+                style={{ gridTemplateColumns: `auto repeat(${heatmap.weeks}, 14px)` }}
+              >
+                {WEEKDAYS.map((d, i) => (
+                  <span key={`wd-${i}`} className="pnlHeatmapLabel" style={{ gridRow: i + 1, gridColumn: 1 }}>
+                    {d}
+                  </span>
+                ))}
+                {heatmap.cells.map((c) => {
+                  const alpha = heatmap.maxAbs ? 0.2 + 0.8 * (Math.abs(c.pnl) / heatmap.maxAbs) : 0.2;
+                  const rgb = c.pnl >= 0 ? "46,229,157" : "255,107,107";
+                  return (
+                    <span
+                      key={c.dayStartMs}
+                      className="pnlHeatmapCell"
+                      style={{
+                        gridRow: c.weekday + 1,
+                        gridColumn: c.week + 2,
+                        background: `rgba(${rgb},${alpha.toFixed(2)})`,
+                      }}
+                      title={`${fmtIstDay(c.dayStartMs)} • ${fmtInr(c.pnl)} • ${c.trades} trade${c.trades === 1 ? "" : "s"}`}
+                    />
+                  );
+                })}
+              </div>
+            ) : (
+              <div className="panelPlaceholder">No closed trades in range.</div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
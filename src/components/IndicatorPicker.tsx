@@ -0,0 +1,143 @@
+import React from 'react';
+import {
+  INDICATOR_KINDS,
+  indicatorLabel,
+  indicatorSpecKey,
+  normalizeIndicatorSpec,
+  type IndicatorKind,
+  type IndicatorSpec,
+} from '../lib/indicators';
+
+type Props = {
+  value: IndicatorSpec[];
+  onChange: (next: IndicatorSpec[]) => void;
+};
+
+const QUICK_ADD: IndicatorSpec[] = [
+  { kind: 'EMA', period: 9 },
+  { kind: 'EMA', period: 21 },
+  { kind: 'VWAP' },
+  { kind: 'BB', period: 20, mult: 2 },
+  { kind: 'SUPERTREND', period: 10, mult: 3 },
+  { kind: 'RSI', period: 14 },
+  { kind: 'MACD', fast: 12, slow: 26, signal: 9 },
+];
+
+export function IndicatorPicker({ value, onChange }: Props) {
+  const [open, setOpen] = React.useState(false);
+  const [kind, setKind] = React.useState<IndicatorKind>('EMA');
+  const [draft, setDraft] = React.useState<IndicatorSpec>(INDICATOR_KINDS[0].defaults);
+  const wrapRef = React.useRef<HTMLDivElement | null>(null);
+
+  React.useEffect(() => {
+    if (!open) return;
+    const onDown = (event: MouseEvent) => {
+      if (wrapRef.current?.contains(event.target as Node)) return;
+      setOpen(false);
+    };
+    window.addEventListener('mousedown', onDown);
+    return () => window.removeEventListener('mousedown', onDown);
+  }, [open]);
+
+  const activeKeys = React.useMemo(() => new Set(value.map(indicatorSpecKey)), [value]);
+
+  const add = (raw: IndicatorSpec) => {
+    const spec = normalizeIndicatorSpec(raw);
+    if (!spec || activeKeys.has(indicatorSpecKey(spec))) return;
+    onChange([...value, spec]);
+  };
+
+  const remove = (key: string) => onChange(value.filter((s) => indicatorSpecKey(s) !== key));
+
+  const pickKind = (next: IndicatorKind) => {
+    setKind(next);
+    setDraft(INDICATOR_KINDS.find((k) => k.kind === next)?.defaults ?? { kind: next });
+  };
+
+  const numField = (field: keyof IndicatorSpec, label: string, step = 1) =>
+    draft[field] !== undefined ? (
+      <div className="field" key={field}>
+        <label>{label}</label>
+        <input
+          className="small indicatorParam"
+          type="number"
+          min={step < 1 ? 0.1 : 1}
+          step={step}
+          value={String(draft[field])}
+          onChange={(e) => setDraft((prev) => ({ ...prev, [field]: Number(e.target.value) }))}
+        />
+      </div>
+    ) : null;
+
+  return (
+    <div className="indicatorPicker" ref={wrapRef}>
+      <button
+        className="btn small"
+        type="button"
+        onClick={() => setOpen((v) => !v)}
+        title="Chart indicators (saved with layout)"
+      >
+        Ind{value.length ? ` (${value.length})` : ''}
+      </button>
+      {open ? (
+        <div className="indicatorMenu">
+          <div className="indicatorActive">
+            {value.length ? (
+              value.map((spec) => {
+                const key = indicatorSpecKey(spec);
+                return (
+                  <span key={key} className="pill indicatorChip">
+                    {indicatorLabel(spec)}
+                    <button type="button" className="indicatorRemove" onClick={() => remove(key)} title="Remove">
+                      ×
+                    </button>
+                  </span>
+                );
+              })
+            ) : (
+              <span className="muted">No indicators</span>
+            )}
+          </div>
+
+          <div className="indicatorQuick">
+            {QUICK_ADD.map((spec) => {
+              const key = indicatorSpecKey(spec);
+              const on = activeKeys.has(key);
+              return (
+                <button
+                  key={key}
+                  type="button"
+                  className={['btn small', on ? 'good' : ''].join(' ')}
+                  onClick={() => (on ? remove(key) : add(spec))}
+                >
+                  {indicatorLabel(spec)}
+                </button>
+              );
+            })}
+          </div>
+
+          <div className="indicatorCustom">
+            <div className="field">
+              <label>Custom</label>
+              <select className="small" value={kind} onChange={(e) => pickKind(e.target.value as IndicatorKind)}>
+                {INDICATOR_KINDS.map((k) => (
+                  <option key={k.kind} value={k.kind}>
+                    {k.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {numField('period', 'Period')}
+            {numField('mult', 'Mult', 0.5)}
+            {numField('fast', 'Fast')}
+            {numField('slow', 'Slow')}
+            {numField('signal', 'Signal')}
+            <button className="btn small" type="button" onClick={() => add(draft)}>
+              Add
+            </button>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
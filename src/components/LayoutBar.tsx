@@ -0,0 +1,152 @@
+import React from "react";
+import {
+  GRID_OPTIONS,
+  MAX_GRID_DIM,
+  gridLabel,
+  type GridSize,
+  type LayoutPreset,
+} from "../lib/layout";
+
+type Props = {
+  grid: GridSize;
+  onGridChange: (next: GridSize) => void;
+  presets: LayoutPreset[];
+  activePreset: string | null;
+  onApplyPreset: (name: string) => void;
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (name: string) => void;
+  onExport: () => void;
+  onImport: (text: string) => void;
+};
+
+const CUSTOM = "custom";
+
+export function LayoutBar({
+  grid,
+  onGridChange,
+  presets,
+  activePreset,
+  onApplyPreset,
+  onSavePreset,
+  onDeletePreset,
+  onExport,
+  onImport,
+}: Props) {
+  const fileRef = React.useRef<HTMLInputElement | null>(null);
+  const matched = GRID_OPTIONS.find((g) => g.rows === grid.rows && g.cols === grid.cols);
+  const [custom, setCustom] = React.useState(!matched);
+
+  const dims = Array.from({ length: MAX_GRID_DIM }, (_, i) => i + 1);
+
+  const saveAs = () => {
+    const name = window.prompt("Save current layout as preset:", activePreset || "");
+    if (name && name.trim()) onSavePreset(name.trim());
+  };
+
+  const remove = () => {
+    if (!activePreset) return;
+    if (!window.confirm(`Delete layout preset "${activePreset}"?`)) return;
+    onDeletePreset(activePreset);
+  };
+
+  const onFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    onImport(await file.text());
+  };
+
+  return (
+    <div className="layoutBar">
+      <div className="field">
+        <label>Grid</label>
+        <select
+          className="small"
+          value={custom || !matched ? CUSTOM : gridLabel(grid)}
+          onChange={(e) => {
+            if (e.target.value === CUSTOM) {
+              setCustom(true);
+              return;
+            }
+            const next = GRID_OPTIONS.find((g) => g.label === e.target.value);
+            if (!next) return;
+            setCustom(false);
+            onGridChange({ rows: next.rows, cols: next.cols });
+          }}
+        >
+          {GRID_OPTIONS.map((g) => (
+            <option key={g.label} value={g.label}>
+              {g.label}
+            </option>
+          ))}
+          <option value={CUSTOM}>Custom…</option>
+        </select>
+      </div>
+
+      {custom || !matched ? (
+        <>
+          <div className="field">
+            <label>Rows</label>
+            <select
+              className="small"
+              value={grid.rows}
+              onChange={(e) => onGridChange({ ...grid, rows: Number(e.target.value) })}
+            >
+              {dims.map((n) => (
+                <option key={n} value={n}>
+                  {n}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="field">
+            <label>Cols</label>
+            <select
+              className="small"
+              value={grid.cols}
+              onChange={(e) => onGridChange({ ...grid, cols: Number(e.target.value) })}
+            >
+              {dims.map((n) => (
+                <option key={n} value={n}>
+                  {n}
+                </option>
+              ))}
+            </select>
+          </div>
+        </>
+      ) : null}
+
+      <div className="field">
+        <label>Preset</label>
+        <select
+          className="small"
+          value={activePreset ?? ""}
+          onChange={(e) => {
+            if (e.target.value) onApplyPreset(e.target.value);
+          }}
+        >
+          <option value="">{presets.length ? "Unsaved layout" : "No presets"}</option>
+          {presets.map((p) => (
+            <option key={p.name} value={p.name}>
+              {p.name} ({gridLabel(p.layout.grid)})
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <button className="btn small" type="button" onClick={saveAs} title="Save grid, charts and blotter as a named preset">
+        Save as…
+      </button>
+      <button className="btn small" type="button" onClick={remove} disabled={!activePreset} title="Delete selected preset">
+        Delete
+      </button>
+      <button className="btn small" type="button" onClick={onExport} title="Download current layout + presets as JSON">
+        Export
+      </button>
+      <button className="btn small" type="button" onClick={() => fileRef.current?.click()} title="Import layouts from JSON">
+        Import
+      </button>
+      <input ref={fileRef} type="file" accept="application/json,.json" hidden onChange={onFile} />
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+import React from "react";
+import type { FnoUniverseResponse } from "../types/backend";
+import { useLiveLtps } from "../lib/hooks";
+import { pickLiveLtp } from "./ChartPanel";
+import {
+  buildOptionChain,
+  chainExpiries,
+  formatExpiry,
+  optionContractsFromUniverse,
+  underlyingSpots,
+  type OptionContract,
+} from "../lib/optionChain";
+
+type Props = {
+  universe: FnoUniverseResponse["universe"];
+  /** Tokens the bot is subscribed to. */
+  subscribedTokens: number[];
+  /** Tokens with an open position or open trade. */
+  heldTokens: Set<number>;
+  chartCount: number;
+  socketConnected: boolean;
+  onOpenChart: (token: number, chartIndex: number) => void;
+};
+
+const WIDTHS = [5, 10, 15];
+
+function fmt(n: number | null | undefined, digits = 2) {
+  return n === null || n === undefined || !Number.isFinite(n) ? "—" : n.toFixed(digits);
+}
+
+function fmtOi(n: number | null) {
+  if (n === null || !Number.isFinite(n)) return "—";
+  const abs = Math.abs(n);
+  if (abs >= 1e7) return `${(n / 1e7).toFixed(2)}Cr`;
+  if (abs >= 1e5) return `${(n / 1e5).toFixed(2)}L`;
+  if (abs >= 1e3) return `${(n / 1e3).toFixed(1)}K`;
+  return String(Math.round(n));
+}
+
+function greeksTitle(c: OptionContract) {
+  const g = c.greeks;
+  const parts = [c.tradingsymbol || String(c.token), `lot ${c.lotSize}`];
+  if (g) {
+    parts.push(`Δ ${fmt(g.delta, 3)}`, `Γ ${fmt(g.gamma, 4)}`, `Θ ${fmt(g.theta)}`, `V ${fmt(g.vega)}`);
+  }
+  return parts.join(" • ");
+}
+
+export function OptionChainPanel({
+  universe,
+  subscribedTokens,
+  heldTokens,
+  chartCount,
+  socketConnected,
+  onOpenChart,
+}: Props) {
+  const contracts = React.useMemo(() => optionContractsFromUniverse(universe), [universe]);
+  const spots = React.useMemo(() => underlyingSpots(universe), [universe]);
+  const underlyings = React.useMemo(
+    () => Array.from(new Set(contracts.map((c) => c.underlying))).sort(),
+    [contracts],
+  );
+
+  const [underlying, setUnderlying] = React.useState("");
+  const [expiry, setExpiry] = React.useState("");
+  const [width, setWidth] = React.useState(WIDTHS[0]);
+  const [chartIndex, setChartIndex] = React.useState(0);
+
+  const activeUnderlying = underlyings.includes(underlying) ? underlying : underlyings[0] || "";
+  const expiries = React.useMemo(
+    () => chainExpiries(contracts, activeUnderlying),
+    [contracts, activeUnderlying],
+  );
+  const activeExpiry = expiries.includes(expiry) ? expiry : expiries[0] || "";
+  const slot = Math.min(chartIndex, Math.max(0, chartCount - 1));
+
+  // Visible strikes come from the universe snapshot first, then live LTPs refine ATM and prices.
+  const draft = React.useMemo(
+    () => buildOptionChain(contracts, activeUnderlying, activeExpiry, spots[activeUnderlying] ?? null, width),
+    [contracts, activeUnderlying, activeExpiry, spots, width],
+  );
+  const visibleTokens = React.useMemo(
+    () =>
+      draft.rows.flatMap((r) => [r.ce?.token, r.pe?.token]).filter((t): t is number => t !== undefined),
+    [draft],
+  );
+  const ltpQueries = useLiveLtps(visibleTokens, socketConnected ? false : 5000);
+  const liveSig = ltpQueries.map((q, i) => `${visibleTokens[i]}:${pickLiveLtp(q.data)}`).join("|");
+  const liveLtp = React.useMemo(() => {
+    const out = new Map<number, number>();
+    for (const part of liveSig ? liveSig.split("|") : []) {
+      const [tok, px] = part.split(":");
+      const n = Number(px);
+      if (Number.isFinite(n)) out.set(Number(tok), n);
+    }
+    return out;
+  }, [liveSig]);
+  const ltpOf = React.useCallback(
+    (c: OptionContract) => liveLtp.get(c.token) ?? c.ltp,
+    [liveLtp],
+  );
+  const chain = React.useMemo(
+    () =>
+      buildOptionChain(contracts, activeUnderlying, activeExpiry, spots[activeUnderlying] ?? null, width, ltpOf),
+    [contracts, activeUnderlying, activeExpiry, spots, width, ltpOf],
+  );
+
+  const subscribed = React.useMemo(() => new Set(subscribedTokens), [subscribedTokens]);
+  const hasIv = chain.rows.some((r) => r.ce?.iv != null || r.pe?.iv != null);
+  const hasDelta = chain.rows.some((r) => r.ce?.greeks?.delta != null || r.pe?.greeks?.delta != null);
+
+  const cellClass = (c: OptionContract | null, itm: boolean) =>
+    [
+      "chainCell",
+      itm ? "chainItm" : "",
+      c && heldTokens.has(c.token) ? "chainHeld" : c && subscribed.has(c.token) ? "chainSubscribed" : "",
+    ].join(" ");
+
+  const ltpButton = (c: OptionContract | null) =>
+    c ? (
+      <button
+        type="button"
+        className="chainLtp mono"
+        onClick={() => onOpenChart(c.token, slot)}
+        title={`${greeksTitle(c)} • open on chart ${slot + 1}`}
+      >
+        {fmt(ltpOf(c))}
+      </button>
+    ) : (
+      "—"
+    );
+
+  const side = (c: OptionContract | null, itm: boolean, order: "ce" | "pe") => {
+    const cells = [
+      <td key="oi" className={cellClass(c, itm)}>{c ? fmtOi(c.oi) : "—"}</td>,
+      <td key="doi" className={cellClass(c, itm)}>{c ? fmtOi(c.oiChange) : "—"}</td>,
+      hasIv ? <td key="iv" className={cellClass(c, itm)}>{fmt(c?.iv, 1)}</td> : null,
+      hasDelta ? <td key="delta" className={cellClass(c, itm)}>{fmt(c?.greeks?.delta, 2)}</td> : null,
+      <td key="ltp" className={cellClass(c, itm)}>{ltpButton(c)}</td>,
+    ];
+    return order === "ce" ? cells : cells.reverse();
+  };
+
+  const headers = ["OI", "ΔOI", hasIv ? "IV" : null, hasDelta ? "Δ" : null, "LTP"].filter(
+    (h): h is string => h !== null,
+  );
+
+  return (
+    <div className="panel miniPanel wide">
+      <div className="panelHeader">
+        <div className="left">
+          <div style={{ fontWeight: 700 }}>⛓️ Option Chain</div>
+          {chain.atmStrike !== null ? (
+            <span className="pill" title={chain.atmSource === "spot" ? "From underlying spot" : "From CE/PE parity"}>
+              ATM {chain.atmStrike}
+            </span>
+          ) : null}
+          {spots[activeUnderlying] ? <span className="pill">spot {fmt(spots[activeUnderlying])}</span> : null}
+        </div>
+        <div className="actionsRow">
+          <div className="field">
+            <select className="small" value={activeUnderlying} onChange={(e) => setUnderlying(e.target.value)}>
+              {underlyings.map((u) => (
+                <option key={u} value={u}>
+                  {u}
+                </option>
+              ))}
+            </select>
+            <select className="small" value={activeExpiry} onChange={(e) => setExpiry(e.target.value)}>
+              {expiries.map((x) => (
+                <option key={x} value={x}>
+                  {formatExpiry(x)}
+                </option>
+              ))}
+            </select>
+            <select
+              className="small"
+              value={width}
+              onChange={(e) => setWidth(Number(e.target.value))}
+              title="Strikes either side of ATM"
+            >
+              {WIDTHS.map((w) => (
+                <option key={w} value={w}>
+                  ±{w}
+                </option>
+              ))}
+            </select>
+            <select
+              className="small"
+              value={slot}
+              onChange={(e) => setChartIndex(Number(e.target.value))}
+              title="Chart slot that clicked strikes open on"
+            >
+              {Array.from({ length: chartCount }, (_, i) => (
+                <option key={i} value={i}>
+                  → Chart {i + 1}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+      <div className="panelBody">
+        {!contracts.length ? (
+          <div className="panelPlaceholder">No option contracts in the F&amp;O universe (/admin/fno).</div>
+        ) : (
+          <>
+            <div className="smallText chainLegend">
+              <span className="chainSwatch chainSubscribed" /> subscribed
+              <span className="chainSwatch chainHeld" /> holding
+              <span className="chainSwatch chainItm" /> in the money • click an LTP to chart it
+            </div>
+            <table className="miniTable chainTable">
+              <thead>
+                <tr>
+                  <th colSpan={headers.length}>CALLS</th>
+                  <th />
+                  <th colSpan={headers.length}>PUTS</th>
+                </tr>
+                <tr>
+                  {headers.map((h) => (
+                    <th key={`ce-${h}`}>{h}</th>
+                  ))}
+                  <th>Strike</th>
+                  {[...headers].reverse().map((h) => (
+                    <th key={`pe-${h}`}>{h}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {chain.rows.map((row) => {
+                  const ceItm = chain.atmStrike !== null && row.strike < chain.atmStrike;
+                  const peItm = chain.atmStrike !== null && row.strike > chain.atmStrike;
+                  return (
+                    <tr key={row.strike} className={row.atm ? "chainAtm" : ""}>
+                      {side(row.ce, ceItm, "ce")}
+                      <td className="chainStrike mono">{row.strike}</td>
+                      {side(row.pe, peItm, "pe")}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
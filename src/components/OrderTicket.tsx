@@ -0,0 +1,205 @@
+import React from "react";
+import {
+  ORDER_PRODUCTS,
+  ORDER_TYPES,
+  buildManualOrderPayload,
+  defaultOrderDraft,
+  newIdempotencyKey,
+  validateOrderDraft,
+  type ManualOrderPayload,
+  type OrderDraft,
+  type OrderInstrument,
+  type OrderProduct,
+  type OrderType,
+} from "../lib/orders";
+
+type Props = {
+  instruments: OrderInstrument[];
+  busy: boolean;
+  disabled?: boolean;
+  disabledReason?: string;
+  onSubmit: (payload: ManualOrderPayload, onSuccess: () => void) => void;
+};
+
+export function OrderTicket({ instruments, busy, disabled, disabledReason, onSubmit }: Props) {
+  const [draft, setDraft] = React.useState<OrderDraft>(defaultOrderDraft);
+  // The reviewed payload keeps its idempotency key across retries until the draft changes.
+  const [review, setReview] = React.useState<ManualOrderPayload | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const instrument = instruments.find((i) => i.token === draft.token);
+
+  const update = (patch: Partial<OrderDraft>) => {
+    setDraft((prev) => ({ ...prev, ...patch }));
+    setReview(null);
+    setError(null);
+  };
+
+  const startReview = () => {
+    const problem = validateOrderDraft(draft, instrument);
+    if (problem || !instrument) {
+      setError(problem);
+      return;
+    }
+    setReview(buildManualOrderPayload(draft, instrument, newIdempotencyKey()));
+  };
+
+  const confirm = () => {
+    if (!review) return;
+    onSubmit(review, () => {
+      setReview(null);
+      setDraft((prev) => ({ ...defaultOrderDraft(), token: prev.token, product: prev.product }));
+    });
+  };
+
+  return (
+    <div className="orderTicket">
+      <div className="orderTicketFields">
+        <div className="field">
+          <label>Instrument</label>
+          <select
+            className="small"
+            value={draft.token ?? ""}
+            onChange={(e) => update({ token: e.target.value ? Number(e.target.value) : null })}
+          >
+            <option value="">Select instrument</option>
+            {instruments.map((i) => (
+              <option key={i.token} value={i.token}>
+                {i.label}
+                {i.lotSize > 1 ? ` • lot ${i.lotSize}` : ""}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="field">
+          <label>Side</label>
+          <div className="orderSide">
+            {(["BUY", "SELL"] as const).map((side) => (
+              <button
+                key={side}
+                type="button"
+                className={["btn small", draft.side === side ? (side === "BUY" ? "good" : "danger") : ""].join(" ")}
+                onClick={() => update({ side })}
+              >
+                {side}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="field">
+          <label>Lots</label>
+          <input
+            className="small orderNum"
+            type="number"
+            min={1}
+            step={1}
+            value={draft.lots}
+            onChange={(e) => update({ lots: Math.floor(Number(e.target.value)) })}
+          />
+        </div>
+
+        <div className="field">
+          <label>Type</label>
+          <select
+            className="small"
+            value={draft.orderType}
+            onChange={(e) => update({ orderType: e.target.value as OrderType })}
+          >
+            {ORDER_TYPES.map((t) => (
+              <option key={t} value={t}>
+                {t}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {draft.orderType === "LIMIT" ? (
+          <div className="field">
+            <label>Price</label>
+            <input
+              className="small orderNum"
+              type="number"
+              step="0.05"
+              value={draft.price}
+              onChange={(e) => update({ price: e.target.value })}
+            />
+          </div>
+        ) : null}
+
+        {draft.orderType === "SL-M" ? (
+          <div className="field">
+            <label>Trigger</label>
+            <input
+              className="small orderNum"
+              type="number"
+              step="0.05"
+              value={draft.triggerPrice}
+              onChange={(e) => update({ triggerPrice: e.target.value })}
+            />
+          </div>
+        ) : null}
+
+        <div className="field">
+          <label>Product</label>
+          <select
+            className="small"
+            value={draft.product}
+            onChange={(e) => update({ product: e.target.value as OrderProduct })}
+          >
+            {ORDER_PRODUCTS.map((p) => (
+              <option key={p} value={p}>
+                {p}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="field orderNote">
+          <label>Reason</label>
+          <input
+            className="small"
+            value={draft.note}
+            onChange={(e) => update({ note: e.target.value })}
+            placeholder="why (audit log)"
+          />
+        </div>
+      </div>
+
+      {review ? (
+        <div className="orderReview">
+          <div>
+            <span className={review.side === "BUY" ? "goodText" : "badText"}>{review.side}</span>{" "}
+            {review.lots} lot{review.lots === 1 ? "" : "s"} ({review.qty} qty) of{" "}
+            <span className="mono">{instrument?.label ?? review.instrument_token}</span> • {review.orderType}
+            {review.price !== undefined ? ` @ ${review.price}` : ""}
+            {review.triggerPrice !== undefined ? ` trig ${review.triggerPrice}` : ""} • {review.product}
+          </div>
+          <div className="actionNote mono">key {review.idempotencyKey}</div>
+          <div className="actionsRow">
+            <button
+              className={["btn small", review.side === "BUY" ? "good" : "danger"].join(" ")}
+              type="button"
+              onClick={confirm}
+              disabled={busy || disabled}
+            >
+              {busy ? "Sending…" : "Confirm & send"}
+            </button>
+            <button className="btn small" type="button" onClick={() => setReview(null)} disabled={busy}>
+              Back
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="actionsRow">
+          <button className="btn small" type="button" onClick={startReview} disabled={disabled}>
+            Review order
+          </button>
+          {error ? <span className="actionNote badText">{error}</span> : null}
+          {disabled && disabledReason ? <span className="actionNote">{disabledReason}</span> : null}
+        </div>
+      )}
+    </div>
+  );
+}
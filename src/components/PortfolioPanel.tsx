@@ -0,0 +1,248 @@
+import React from "react";
+import type { FnoUniverseResponse, PositionRow, RiskLimitsResponse, TradeRow } from "../types/backend";
+import { useLiveLtps } from "../lib/hooks";
+import { pickLiveLtp } from "./ChartPanel";
+import { UNDERLYING_INDEX_TOKENS } from "../lib/optionsMath";
+import {
+  SCENARIO_IV_SHOCKS,
+  SCENARIO_MOVES,
+  bookByUnderlying,
+  buildPositionLegs,
+  positionMismatches,
+  scenarioGrid,
+} from "../lib/portfolio";
+
+type Props = {
+  positions: PositionRow[];
+  openTrades: TradeRow[];
+  riskLimits?: RiskLimitsResponse;
+  universe: FnoUniverseResponse["universe"];
+  socketConnected: boolean;
+  nowMs: number;
+  onFocusToken?: (token: number) => void;
+};
+
+const MISMATCH_LABELS = {
+  untracked: "No open trade",
+  missing: "Not at broker",
+  qty: "Qty differs",
+};
+
+function inr(n: number | null | undefined, digits = 0) {
+  if (n === null || n === undefined || !Number.isFinite(n)) return "—";
+  return `₹${n.toLocaleString("en-IN", { maximumFractionDigits: digits, minimumFractionDigits: digits })}`;
+}
+
+function signedInr(n: number) {
+  return `${n > 0 ? "+" : n < 0 ? "−" : ""}${inr(Math.abs(n))}`;
+}
+
+function pnlClass(n: number | null | undefined) {
+  return n === null || n === undefined || !Number.isFinite(n) || n === 0 ? "" : n > 0 ? "goodText" : "badText";
+}
+
+export function PortfolioPanel({
+  positions,
+  openTrades,
+  riskLimits,
+  universe,
+  socketConnected,
+  nowMs,
+  onFocusToken,
+}: Props) {
+  // Live prices for every leg plus the index underlyings behind them.
+  const ltpTokens = React.useMemo(() => {
+    const out = new Set<number>();
+    for (const p of positions) {
+      const tok = Number(p.instrument_token);
+      if (Number.isFinite(tok) && Number(p.quantity)) out.add(tok);
+    }
+    if (out.size) Object.values(UNDERLYING_INDEX_TOKENS).forEach((t) => out.add(t));
+    return Array.from(out);
+  }, [positions]);
+  const ltpQs = useLiveLtps(ltpTokens, socketConnected ? 1000 : 3000);
+  const ltpSig = ltpQs.map((q) => pickLiveLtp(q.data)).join(",");
+  const ltpByToken = React.useMemo(() => {
+    const out: Record<number, number> = {};
+    const values = ltpSig.split(",");
+    ltpTokens.forEach((tok, i) => {
+      const n = Number(values[i]);
+      if (Number.isFinite(n)) out[tok] = n;
+    });
+    return out;
+  }, [ltpSig, ltpTokens]);
+
+  const legs = React.useMemo(
+    () => buildPositionLegs(positions, ltpByToken, universe, nowMs),
+    [positions, ltpByToken, universe, nowMs],
+  );
+  const books = React.useMemo(() => bookByUnderlying(legs, ltpByToken, universe), [legs, ltpByToken, universe]);
+  const openLegs = legs.filter((l) => l.qty !== 0).length;
+  const grid = React.useMemo(() => scenarioGrid(books, nowMs), [books, nowMs]);
+  const mismatches = React.useMemo(() => positionMismatches(positions, openTrades), [positions, openTrades]);
+
+  const total = books.reduce(
+    (acc, b) => ({
+      pnl: acc.pnl + b.pnl,
+      exposure: acc.exposure + b.exposureInr,
+      theta: acc.theta + b.theta,
+      vega: acc.vega + b.vega,
+      unpriced: acc.unpriced + b.unpriced,
+    }),
+    { pnl: 0, exposure: 0, theta: 0, vega: 0, unpriced: 0 },
+  );
+  const maxExposure = Number(riskLimits?.maxExposureInr);
+  const utilisation = Number.isFinite(maxExposure) && maxExposure > 0 ? total.exposure / maxExposure : null;
+  const utilClass = utilisation === null ? "" : utilisation > 1 ? "bad" : utilisation > 0.8 ? "warn" : "good";
+
+  return (
+    <div className="panel miniPanel wide">
+      <div className="panelHeader">
+        <div className="left">
+          <div style={{ fontWeight: 700 }}>📦 Portfolio</div>
+          <span className="pill">{openLegs} legs</span>
+          <span className={["pill", utilClass].join(" ")} title="Σ |exposure| vs risk limit maxExposureInr">
+            exposure {inr(total.exposure)}
+            {utilisation !== null ? ` / ${inr(maxExposure)} (${(utilisation * 100).toFixed(0)}%)` : ""}
+          </span>
+          {mismatches.length ? <span className="pill bad">{mismatches.length} mismatch</span> : null}
+        </div>
+      </div>
+      <div className="panelBody">
+        {!legs.length && !mismatches.length ? (
+          <div className="panelPlaceholder">No open broker positions.</div>
+        ) : (
+          <>
+            <div className="truthSubTitle">By underlying</div>
+            <table className="miniTable">
+              <thead>
+                <tr>
+                  <th>Underlying</th>
+                  <th>Spot</th>
+                  <th>Legs</th>
+                  <th>P&amp;L</th>
+                  <th>Exposure</th>
+                  <th title="Σ delta × qty, in underlying units">Δ</th>
+                  <th title="Δ × spot">Δ ₹</th>
+                  <th>Γ</th>
+                  <th title="₹ per day">Θ</th>
+                  <th title="₹ per vol point">Vega</th>
+                </tr>
+              </thead>
+              <tbody>
+                {books.map((b) => (
+                  <tr key={b.underlying}>
+                    <td>
+                      {b.underlying}
+                      {b.unpriced ? (
+                        <span className="pill warn" title="Option legs without a solvable IV (missing spot or LTP)">
+                          {b.unpriced} unpriced
+                        </span>
+                      ) : null}
+                    </td>
+                    <td className="mono">{b.spot !== null ? b.spot.toFixed(2) : "—"}</td>
+                    <td className="mono" title={b.legs.map((l) => `${l.tradingsymbol} × ${l.qty}`).join("\n")}>
+                      {b.legs.length}
+                    </td>
+                    <td className={["mono", pnlClass(b.pnl)].join(" ")}>{signedInr(b.pnl)}</td>
+                    <td className="mono">{inr(b.exposureInr)}</td>
+                    <td className="mono">{b.delta.toFixed(1)}</td>
+                    <td className="mono">{b.spot !== null ? signedInr(b.delta * b.spot) : "—"}</td>
+                    <td className="mono">{b.gamma.toFixed(3)}</td>
+                    <td className={["mono", pnlClass(b.theta)].join(" ")}>{signedInr(b.theta)}</td>
+                    <td className="mono">{signedInr(b.vega)}</td>
+                  </tr>
+                ))}
+                {books.length > 1 ? (
+                  <tr className="portfolioTotal">
+                    <td>Total</td>
+                    <td />
+                    <td className="mono">{openLegs}</td>
+                    <td className={["mono", pnlClass(total.pnl)].join(" ")}>{signedInr(total.pnl)}</td>
+                    <td className="mono">{inr(total.exposure)}</td>
+                    <td />
+                    <td />
+                    <td />
+                    <td className={["mono", pnlClass(total.theta)].join(" ")}>{signedInr(total.theta)}</td>
+                    <td className="mono">{signedInr(total.vega)}</td>
+                  </tr>
+                ) : null}
+              </tbody>
+            </table>
+
+            {books.length ? (
+              <>
+                <div className="truthSubTitle">
+                  Scenario P&amp;L{" "}
+                  <span className="muted">
+                    • underlying move × IV shock, full revaluation
+                    {total.unpriced ? ` (excludes ${total.unpriced} unpriced legs)` : ""}
+                  </span>
+                </div>
+                <table className="miniTable scenarioTable">
+                  <thead>
+                    <tr>
+                      <th>IV \ move</th>
+                      {SCENARIO_MOVES.map((m) => (
+                        <th key={m}>{m > 0 ? `+${m}%` : `${m}%`}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {SCENARIO_IV_SHOCKS.map((iv) => (
+                      <tr key={iv}>
+                        <th>{iv > 0 ? `+${iv}` : iv} vol</th>
+                        {SCENARIO_MOVES.map((m) => {
+                          const cell = grid.find((c) => c.move === m && c.ivShock === iv);
+                          return (
+                            <td key={m} className={["mono", pnlClass(cell?.pnl)].join(" ")}>
+                              {cell ? signedInr(cell.pnl) : "—"}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </>
+            ) : null}
+
+            {mismatches.length ? (
+              <>
+                <div className="truthSubTitle">Broker vs trades</div>
+                <table className="miniTable">
+                  <thead>
+                    <tr>
+                      <th>Instrument</th>
+                      <th>Broker qty</th>
+                      <th>Open trades qty</th>
+                      <th>Issue</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {mismatches.map((m) => (
+                      <tr
+                        key={m.token}
+                        className={onFocusToken ? "rowClickable" : ""}
+                        onClick={() => onFocusToken?.(m.token)}
+                      >
+                        <td className="mono">{m.tradingsymbol}</td>
+                        <td className="mono">{m.brokerQty}</td>
+                        <td className="mono">{m.tradeQty}</td>
+                        <td>
+                          <span className={["pill", m.kind === "qty" ? "warn" : "bad"].join(" ")}>
+                            {MISMATCH_LABELS[m.kind]}
+                          </span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </>
+            ) : null}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import type { ConnectionProfile } from "../lib/settings";
+
+type Props = {
+  profiles: ConnectionProfile[];
+  active: ConnectionProfile;
+  onSelect: (id: string) => void;
+};
+
+export function ProfileSwitcher({ profiles, active, onSelect }: Props) {
+  return (
+    <div className="profileSwitcher" title={`${active.label} • ${active.baseUrl}`}>
+      <span className="profileDot" style={{ background: active.color }} />
+      <select
+        value={active.id}
+        onChange={(e) => {
+          const next = profiles.find((p) => p.id === e.target.value);
+          if (!next) return;
+          if (
+            next.env === "LIVE" &&
+            active.env !== "LIVE" &&
+            !window.confirm(`Switch to LIVE profile "${next.label}" (${next.baseUrl})?`)
+          ) {
+            return;
+          }
+          onSelect(next.id);
+        }}
+      >
+        {profiles.map((p) => (
+          <option key={p.id} value={p.id}>
+            {p.label} · {p.env}
+          </option>
+        ))}
+      </select>
+      <span className={["pill", active.env === "LIVE" ? "bad liveBadge" : active.env === "PAPER" ? "warn" : ""].join(" ")}>
+        {active.env}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import React from "react";
+import { RECON_KIND_LABELS, type ReconItem, type ReconKind, type ReconSeverity } from "../lib/reconcile";
+
+type Props = {
+  items: ReconItem[];
+  /** False until trades, orders and positions have all loaded once. */
+  ready: boolean;
+  onOpenTrade?: (tradeId: string) => void;
+  onFocusToken?: (token: number) => void;
+};
+
+const SEVERITY_PILL: Record<ReconSeverity, string> = { critical: "bad", warn: "warn", ok: "good" };
+const KIND_ORDER: ReconKind[] = ["ghost_trade", "orphan_order", "qty_mismatch", "price_mismatch", "matched"];
+
+function fmtQty(n: number | null) {
+  return n === null ? "—" : String(n);
+}
+
+export function ReconciliationPanel({ items, ready, onOpenTrade, onFocusToken }: Props) {
+  const [showMatched, setShowMatched] = React.useState(false);
+  const counts = React.useMemo(() => {
+    const out: Partial<Record<ReconKind, number>> = {};
+    for (const i of items) out[i.kind] = (out[i.kind] ?? 0) + 1;
+    return out;
+  }, [items]);
+  const visible = showMatched ? items : items.filter((i) => i.kind !== "matched");
+  const issues = items.length - (counts.matched ?? 0);
+
+  const onRow = (item: ReconItem) => {
+    if (item.tradeId && onOpenTrade) onOpenTrade(item.tradeId);
+    else if (item.token !== null) onFocusToken?.(item.token);
+  };
+
+  return (
+    <div className="panel miniPanel wide">
+      <div className="panelHeader">
+        <div className="left">
+          <div style={{ fontWeight: 700 }}>🧾 Reconciliation</div>
+          <span className={["pill", !ready ? "" : issues ? "bad" : "good"].join(" ")}>
+            {!ready ? "loading" : issues ? `${issues} discrepancies` : "all clear"}
+          </span>
+          {KIND_ORDER.filter((k) => counts[k]).map((k) => (
+            <span key={k} className="pill">
+              {RECON_KIND_LABELS[k]} {counts[k]}
+            </span>
+          ))}
+        </div>
+        <div className="actionsRow">
+          <label className="smallText">
+            <input type="checkbox" checked={showMatched} onChange={(e) => setShowMatched(e.target.checked)} /> show
+            matched
+          </label>
+        </div>
+      </div>
+      <div className="panelBody">
+        {!visible.length ? (
+          <div className="panelPlaceholder">
+            {!ready
+              ? "Waiting for trades, orders and positions…"
+              : "Bot trades, broker orders and positions agree."}
+          </div>
+        ) : (
+          <table className="miniTable">
+            <thead>
+              <tr>
+                <th>Severity</th>
+                <th>Kind</th>
+                <th>Instrument</th>
+                <th>Trade</th>
+                <th>Order</th>
+                <th title="Net signed quantity from the bot's open trades">Trade qty</th>
+                <th title="Broker position, or the order's quantity">Broker qty</th>
+                <th>Detail</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map((item) => (
+                <tr
+                  key={item.key}
+                  className={item.tradeId || item.token !== null ? "rowClickable" : ""}
+                  onClick={() => onRow(item)}
+                  title={item.tradeId ? "Open trade details" : item.token !== null ? "Focus instrument" : undefined}
+                >
+                  <td>
+                    <span className={["pill", SEVERITY_PILL[item.severity]].join(" ")}>{item.severity}</span>
+                  </td>
+                  <td>{RECON_KIND_LABELS[item.kind]}</td>
+                  <td className="mono">{item.tradingsymbol}</td>
+                  <td className="mono">{item.tradeId ?? "—"}</td>
+                  <td className="mono">{item.orderId ?? "—"}</td>
+                  <td className="mono">{fmtQty(item.tradeQty)}</td>
+                  <td className="mono">{fmtQty(item.brokerQty)}</td>
+                  <td className="muted">{item.detail}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
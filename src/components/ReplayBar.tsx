@@ -0,0 +1,125 @@
+import React from "react";
+import {
+  REPLAY_SPEEDS,
+  istDateKey,
+  istSessionBounds,
+  type ReplayState,
+} from "../lib/replay";
+
+type Props = {
+  state: ReplayState | null;
+  /** Used to default the date picker to the previous IST session. */
+  serverNowMs: number;
+  stepMin: number;
+  loading: boolean;
+  tradeCount: number;
+  onStart: (date: string) => void;
+  onStop: () => void;
+  onPlayingChange: (playing: boolean) => void;
+  onSpeedChange: (speed: number) => void;
+  onStep: (dir: 1 | -1) => void;
+  onSeek: (ms: number) => void;
+};
+
+function formatIstClock(ms: number) {
+  return new Intl.DateTimeFormat("en-IN", {
+    timeZone: "Asia/Kolkata",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hour12: false,
+  }).format(new Date(ms));
+}
+
+export function ReplayBar({
+  state,
+  serverNowMs,
+  stepMin,
+  loading,
+  tradeCount,
+  onStart,
+  onStop,
+  onPlayingChange,
+  onSpeedChange,
+  onStep,
+  onSeek,
+}: Props) {
+  const [date, setDate] = React.useState(() =>
+    istDateKey((Number.isFinite(serverNowMs) ? serverNowMs : Date.now()) - 24 * 60 * 60 * 1000),
+  );
+  const bounds = state ? istSessionBounds(state.date) : null;
+
+  if (!state || !bounds) {
+    return (
+      <div className="replayBar">
+        <div className="field">
+          <label>Replay date</label>
+          <input
+            className="small"
+            type="date"
+            value={date}
+            max={istDateKey(Number.isFinite(serverNowMs) ? serverNowMs : Date.now())}
+            onChange={(e) => setDate(e.target.value)}
+          />
+        </div>
+        <button
+          className="btn small"
+          type="button"
+          disabled={!istSessionBounds(date)}
+          onClick={() => onStart(date)}
+          title="Step through this session's candles and trades bar by bar"
+        >
+          Start replay
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="replayBar replayBarActive">
+      <span className="pill warn">REPLAY {state.date}</span>
+      <button className="btn small" type="button" onClick={() => onStep(-1)} title={`Back ${stepMin}m`}>
+        ◀ Bar
+      </button>
+      <button
+        className={["btn small", state.playing ? "" : "good"].join(" ")}
+        type="button"
+        onClick={() => onPlayingChange(!state.playing)}
+        disabled={!state.playing && state.cursorMs >= bounds.endMs}
+      >
+        {state.playing ? "Pause" : "Play"}
+      </button>
+      <button className="btn small" type="button" onClick={() => onStep(1)} title={`Forward ${stepMin}m`}>
+        Bar ▶
+      </button>
+      <div className="field">
+        <label>Speed</label>
+        <select
+          className="small"
+          value={state.speed}
+          onChange={(e) => onSpeedChange(Number(e.target.value))}
+        >
+          {REPLAY_SPEEDS.map((s) => (
+            <option key={s} value={s}>
+              {s}x
+            </option>
+          ))}
+        </select>
+      </div>
+      <input
+        className="replayScrubber"
+        type="range"
+        min={bounds.startMs}
+        max={bounds.endMs}
+        step={60_000}
+        value={state.cursorMs}
+        onChange={(e) => onSeek(Number(e.target.value))}
+      />
+      <span className="mono">{formatIstClock(state.cursorMs)} IST</span>
+      <span className="muted">{loading ? "loading…" : `trades: ${tradeCount}`}</span>
+      <button className="btn small danger" type="button" onClick={onStop}>
+        Exit replay
+      </button>
+    </div>
+  );
+}
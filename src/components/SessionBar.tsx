@@ -0,0 +1,146 @@
+import React from "react";
+import { PLAYBACK_SPEEDS, type SessionSnapshot } from "../lib/sessionRecorder";
+
+type Props = {
+  session: SessionSnapshot;
+  onStartRecording: () => void;
+  /** Ends the recording and downloads the archive. */
+  onStopRecording: () => void;
+  onLoad: (text: string) => void;
+  onExitPlayback: () => void;
+  onRestartPlayback: () => void;
+  onPlayingChange: (playing: boolean) => void;
+  onSpeedChange: (speed: number) => void;
+};
+
+function formatIstClock(ms: number) {
+  return new Intl.DateTimeFormat("en-IN", {
+    timeZone: "Asia/Kolkata",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hour12: false,
+  }).format(new Date(ms));
+}
+
+function formatElapsed(ms: number) {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const mmss = `${String(m).padStart(2, "0")}:${String(s).padStart(2, "0")}`;
+  return h ? `${h}:${mmss}` : mmss;
+}
+
+export function SessionBar({
+  session,
+  onStartRecording,
+  onStopRecording,
+  onLoad,
+  onExitPlayback,
+  onRestartPlayback,
+  onPlayingChange,
+  onSpeedChange,
+}: Props) {
+  const fileRef = React.useRef<HTMLInputElement | null>(null);
+  const [now, setNow] = React.useState(() => Date.now());
+  const { recording, playback } = session;
+
+  // The recording pill shows elapsed time; event counts alone only move while traffic flows.
+  React.useEffect(() => {
+    if (!recording) return;
+    const id = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(id);
+  }, [recording]);
+
+  const onFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    onLoad(await file.text());
+  };
+
+  if (playback) {
+    const span = Math.max(1, playback.endedAt - playback.startedAt);
+    const pct = Math.min(100, ((playback.cursorMs - playback.startedAt) / span) * 100);
+    return (
+      <div className="replayBar replayBarActive">
+        <span className="pill warn" title={playback.baseUrl}>
+          PLAYBACK
+        </span>
+        <button
+          className={["btn small", playback.playing ? "" : "good"].join(" ")}
+          type="button"
+          onClick={() => onPlayingChange(!playback.playing)}
+          disabled={!playback.playing && playback.cursorMs >= playback.endedAt}
+        >
+          {playback.playing ? "Pause" : "Play"}
+        </button>
+        <button className="btn small" type="button" onClick={onRestartPlayback} title="Play the recording again from the start">
+          Restart
+        </button>
+        <div className="field">
+          <label>Speed</label>
+          <select
+            className="small"
+            value={playback.speed}
+            onChange={(e) => onSpeedChange(Number(e.target.value))}
+          >
+            {PLAYBACK_SPEEDS.map((s) => (
+              <option key={s} value={s}>
+                {s}x
+              </option>
+            ))}
+          </select>
+        </div>
+        <progress className="sessionProgress" max={100} value={pct} />
+        <span className="mono">
+          {formatIstClock(playback.cursorMs)} IST · {formatElapsed(playback.cursorMs - playback.startedAt)} /{" "}
+          {formatElapsed(span)}
+        </span>
+        <span className="muted">events: {playback.events}</span>
+        <button className="btn small danger" type="button" onClick={onExitPlayback}>
+          Exit playback
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="replayBar replayBarActive">
+      {recording ? (
+        <>
+          <span className="pill bad" title={recording.baseUrl}>
+            ● REC {formatElapsed(now - recording.startedAt)}
+          </span>
+          <span className="muted">
+            events: {recording.events} • {(recording.bytes / (1024 * 1024)).toFixed(1)} MB
+            {recording.truncated ? " (oldest dropped)" : ""}
+          </span>
+          <button className="btn small" type="button" onClick={onStopRecording}>
+            Stop & download
+          </button>
+        </>
+      ) : (
+        <button
+          className="btn small"
+          type="button"
+          onClick={onStartRecording}
+          title="Capture socket events and REST traffic for later playback"
+        >
+          Record session
+        </button>
+      )}
+      <button
+        className="btn small"
+        type="button"
+        disabled={Boolean(recording)}
+        onClick={() => fileRef.current?.click()}
+        title="Play back a recorded session"
+      >
+        Load recording
+      </button>
+      <input ref={fileRef} type="file" accept="application/json,.json" hidden onChange={onFile} />
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { TradeBlotter } from './TradeBlotter';
+import { defaultBlotterLayout, type BlotterLayout } from '../lib/blotter';
+import type { TradeRow } from '../types/backend';
+import { closedLoser, closedWinner, openTrade, sessionTrades } from '../test/fixtures/trades';
+
+function renderBlotter(trades: TradeRow[] = sessionTrades, layout: BlotterLayout = defaultBlotterLayout()) {
+  return render(<TradeBlotter trades={trades} layout={layout} onLayoutChange={() => {}} tokenLabels={{}} />);
+}
+
+function rowIds(container: HTMLElement) {
+  return Array.from(container.querySelectorAll('tbody tr.rowClickable')).map((tr) => tr.textContent);
+}
+
+function readBlob(blob: Blob) {
+  return new Promise<string>((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.readAsText(blob);
+  });
+}
+
+describe('TradeBlotter filtering', () => {
+  it('lists every trade, newest first', () => {
+    const { container } = renderBlotter();
+    const rows = rowIds(container);
+    expect(rows).toHaveLength(5);
+    expect(rows[0]).toContain('ENTRY_OPEN');
+    expect(rows[4]).toContain('ENTRY_REJECTED');
+  });
+
+  it.each([
+    ['symbol', 'nifty 03 feb 24800', 2],
+    ['strategy', 'orb', 2],
+    ['trade id', 'T-20260203-0005', 1],
+    ['status', 'closed', 3],
+  ])('matches the query against %s', (_label, query, count) => {
+    const { container } = renderBlotter();
+    fireEvent.change(screen.getByPlaceholderText('symbol / strategy / status'), { target: { value: query } });
+    expect(rowIds(container)).toHaveLength(count);
+    expect(screen.getByText(`${count} / 5`)).toBeTruthy();
+  });
+
+  it.each([
+    ['All', 'OPEN', 1],
+    ['All', 'CLOSED', 3],
+    ['All', 'REJECT', 1],
+    ['Both', 'SELL', 1],
+    ['Any', 'WIN', 2],
+    ['Any', 'LOSS', 1],
+  ])('filters by the %s select = %s', (current, value, count) => {
+    const { container } = renderBlotter();
+    fireEvent.change(screen.getByDisplayValue(current), { target: { value } });
+    expect(rowIds(container)).toHaveLength(count);
+  });
+
+  it('filters by IST date range', () => {
+    const nextDay = { ...closedLoser, tradeId: 'T-20260204-0001', updatedAt: '2026-02-04T00:10:00+05:30' };
+    const { container } = renderBlotter([closedWinner, nextDay]);
+    const [from] = container.querySelectorAll('input[type="date"]');
+    fireEvent.change(from, { target: { value: '2026-02-04' } });
+    expect(rowIds(container)).toEqual([expect.stringContaining('24900 Call')]);
+  });
+
+  it('says so when nothing matches, and clears back to everything', () => {
+    const { container } = renderBlotter();
+    fireEvent.change(screen.getByPlaceholderText('symbol / strategy / status'), { target: { value: 'sensex' } });
+    expect(screen.getByText('No trades match the filters.')).toBeTruthy();
+    fireEvent.click(screen.getByText('Clear'));
+    expect(rowIds(container)).toHaveLength(5);
+  });
+});
+
+describe('TradeBlotter CSV', () => {
+  let blobs: Blob[];
+
+  beforeEach(() => {
+    blobs = [];
+    URL.createObjectURL = vi.fn((blob: Blob) => {
+      blobs.push(blob);
+      return 'blob:csv';
+    });
+    URL.revokeObjectURL = vi.fn();
+    vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  async function downloadCsv() {
+    fireEvent.click(screen.getByText('CSV'));
+    expect(blobs).toHaveLength(1);
+    return (await readBlob(blobs[0])).split('\n');
+  }
+
+  it('exports the visible columns plus reconciliation fields', async () => {
+    renderBlotter();
+    const [header, ...lines] = await downloadCsv();
+    expect(header).toBe(
+      'time,symbol,side,qty,entry,exit,status,pnl,gross_pnl,charges,backend_fees,token,tradingsymbol,tradeId',
+    );
+    expect(lines).toHaveLength(5);
+    expect(lines[3]).toContain(
+      'NIFTY 03 Feb 24800 Put,BUY,75,120.00,135.00,CLOSED,+1125.00,1125.00,,,12091650,NIFTY2620324800PE,T-20260203-0001',
+    );
+  });
+
+  it('leaves P&L blank for trades without an exit', async () => {
+    renderBlotter([openTrade]);
+    const [, line] = await downloadCsv();
+    expect(line).toContain('ENTRY_OPEN,-,,,,12092418,NIFTY2620324900CE,T-20260203-0004');
+  });
+
+  it('exports only the filtered rows', async () => {
+    renderBlotter();
+    fireEvent.change(screen.getByPlaceholderText('symbol / strategy / status'), { target: { value: 'vwap' } });
+    const [, ...lines] = await downloadCsv();
+    expect(lines).toHaveLength(1);
+    expect(lines[0]).toContain('T-20260203-0002');
+  });
+
+  it('quotes cells with commas, quotes or newlines', async () => {
+    const odd = { ...closedLoser, closeReason: 'SL, "gap" down' };
+    renderBlotter([odd], { ...defaultBlotterLayout(), columns: ['tradeId', 'closeReason'] });
+    const [header, line] = await downloadCsv();
+    expect(header).toBe('tradeId,closeReason,gross_pnl,charges,backend_fees,token,tradingsymbol');
+    expect(line).toBe('T-20260203-0002,"SL, ""gap"" down",-900.00,,,12092418,NIFTY2620324900CE');
+  });
+});
@@ -1,34 +1,79 @@
 import React from "react";
 import type { TradeRow } from "../types/backend";
 import { formatPrettyInstrumentFromTrade } from "../lib/instrumentFormat";
-
-type Limit = 20 | 50;
+import type { TradeGreeks } from "../lib/optionsMath";
+import { tradePnl } from "../lib/tradeAnalytics";
+import { compareFees, describeCharges, type PnlBasis, type TradeCharges } from "../lib/charges";
+import {
+  BLOTTER_COLUMNS,
+  BLOTTER_GROUPS,
+  DEFAULT_BLOTTER_FILTERS,
+  MIN_COLUMN_WIDTH,
+  blotterValue,
+  buildBlotterItems,
+  columnWidth,
+  filterBlotterTrades,
+  isClosedStatus,
+  isOpenStatus,
+  isRejectStatus,
+  moveColumn,
+  sortBlotterTrades,
+  tradeSlippage,
+  type BlotterColumnKey,
+  type BlotterContext,
+  type BlotterFilters,
+  type BlotterGroupBy,
+  type BlotterLayout,
+} from "../lib/blotter";
+import { PnlBasisToggle } from "./ChargesPanel";
 
 type Props = {
   trades: TradeRow[];
-  limit: Limit;
-  onLimitChange: (next: Limit) => void;
+  /** Columns, widths, sort and grouping; persisted with the dashboard layout. */
+  layout: BlotterLayout;
+  onLayoutChange: (next: BlotterLayout) => void;
   tokenLabels: Record<number, string>;
   selectedToken?: number | null;
   onSelectToken?: (token: number, tradeId?: string) => void;
   onClose?: () => void;
   rangeLabel?: string;
+  /** Row actions for open trades; the column is hidden when neither is provided. */
+  onExitTrade?: (trade: TradeRow) => void;
+  onMoveSlToBe?: (trade: TradeRow) => void;
+  busyTradeIds?: Record<string, boolean>;
+  /** Live Black-Scholes Greeks for open option trades; the column is hidden when empty. */
+  greeksByTradeId?: Record<string, TradeGreeks>;
+  /** Realised P&L on the selected basis; defaults to gross. */
+  pnlOf?: (trade: TradeRow) => number | null;
+  chargesOf?: (trade: TradeRow) => TradeCharges | null;
+  rOf?: (trade: TradeRow) => number | null;
+  holdMinOf?: (trade: TradeRow) => number | null;
+  pnlBasis?: PnlBasis;
+  onPnlBasisChange?: (next: PnlBasis) => void;
 };
 
 const IST_TZ = "Asia/Kolkata";
+/** Every row (trade or group header) is this tall so the visible window can be computed from scrollTop. */
+const ROW_HEIGHT = 32;
+const OVERSCAN_ROWS = 12;
 
 function fmtNumber(n: number | string | null | undefined, digits = 2) {
   const v = Number(n);
-  if (!Number.isFinite(v)) return "-";
+  if (n === null || n === undefined || n === "" || !Number.isFinite(v)) return "-";
   return v.toFixed(digits);
 }
 
 function fmtInt(n: number | string | null | undefined) {
   const v = Number(n);
-  if (!Number.isFinite(v)) return "-";
+  if (n === null || n === undefined || n === "" || !Number.isFinite(v)) return "-";
   return String(Math.round(v));
 }
 
+function fmtSigned(n: number | null) {
+  if (n === null || !Number.isFinite(n)) return "-";
+  return n >= 0 ? `+${n.toFixed(2)}` : n.toFixed(2);
+}
+
 function fmtIst(ts?: string) {
   if (!ts) return "-";
   const d = new Date(ts);
@@ -52,183 +97,307 @@ function labelFor(trade: TradeRow, tokenLabels: Record<number, string>) {
   return fallback ? String(fallback) : String(tok);
 }
 
-function calcPnl(trade: TradeRow) {
-  const side = (trade.side || "").toUpperCase();
-  const qty = Number(trade.qty);
-  const entry = Number(trade.entryPrice);
-  const exit = Number(trade.exitPrice);
-
-  if (!Number.isFinite(qty) || !Number.isFinite(entry) || !Number.isFinite(exit))
-    return null;
-
-  const raw =
-    side === "SELL"
-      ? (entry - exit) * qty
-      : side === "BUY"
-        ? (exit - entry) * qty
-        : null;
+function statusClass(status?: string) {
+  if (!status) return "";
+  if (isOpenStatus(status)) return "warn";
+  if (isClosedStatus(status)) return "good";
+  if (isRejectStatus(status)) return "bad";
+  return "";
+}
 
-  if (!Number.isFinite(Number(raw))) return null;
-  return Number(raw);
+function csvSafe(v: unknown) {
+  const s = String(v ?? "");
+  const escaped = s.replace(/"/g, '""');
+  return /[",\n]/.test(s) ? `"${escaped}"` : escaped;
 }
 
-function statusClass(status?: string) {
-  const s = (status || "").toUpperCase();
-  if (!s) return "";
-  if (s.includes("OPEN") || s.includes("ACTIVE")) return "warn";
-  if (s.includes("CLOSED") || s.includes("DONE") || s.includes("EXIT")) return "good";
-  if (s.includes("REJECT") || s.includes("CANCEL") || s.includes("FAIL")) return "bad";
-  return "";
+/** Tracks the scroll container's offset and height for windowed rendering. */
+function useScrollViewport(ref: React.RefObject<HTMLDivElement>) {
+  const [viewport, setViewport] = React.useState({ top: 0, height: 600 });
+  React.useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    const update = () => setViewport({ top: el.scrollTop, height: el.clientHeight });
+    update();
+    el.addEventListener("scroll", update, { passive: true });
+    const ro = typeof ResizeObserver !== "undefined" ? new ResizeObserver(update) : null;
+    ro?.observe(el);
+    return () => {
+      el.removeEventListener("scroll", update);
+      ro?.disconnect();
+    };
+  }, [ref]);
+  return viewport;
 }
 
 export function TradeBlotter({
   trades,
-  limit,
-  onLimitChange,
+  layout,
+  onLayoutChange,
   tokenLabels,
   selectedToken,
   onSelectToken,
   onClose,
   rangeLabel,
+  onExitTrade,
+  onMoveSlToBe,
+  busyTradeIds,
+  greeksByTradeId,
+  pnlOf = tradePnl,
+  chargesOf,
+  rOf,
+  holdMinOf,
+  pnlBasis,
+  onPnlBasisChange,
 }: Props) {
-  const [query, setQuery] = React.useState("");
-  const [statusFilter, setStatusFilter] = React.useState<"ALL" | "OPEN" | "CLOSED" | "REJECT">("ALL");
-
-  const filtered = React.useMemo(() => {
-    const q = query.trim().toLowerCase();
-    return (trades || []).filter((t) => {
-      const st = (t.status || "").toUpperCase();
-      if (statusFilter === "OPEN" && !(st.includes("OPEN") || st.includes("ACTIVE"))) return false;
-      if (statusFilter === "CLOSED" && !(st.includes("CLOSED") || st.includes("DONE") || st.includes("EXIT"))) return false;
-      if (statusFilter === "REJECT" && !(st.includes("REJECT") || st.includes("CANCEL") || st.includes("FAIL"))) return false;
-
-      if (!q) return true;
-      const tok = String(t.instrument_token || "");
-      const sym = String(t.instrument?.tradingsymbol || "");
-      const pretty = formatPrettyInstrumentFromTrade(t);
-      const strat = String(t.strategyId || "");
-      const id = String(t.tradeId || "");
-      const side = String(t.side || "");
-      const reason = String(t.closeReason || "");
-      return (
-        tok.toLowerCase().includes(q) ||
-        sym.toLowerCase().includes(q) ||
-        pretty.toLowerCase().includes(q) ||
-        strat.toLowerCase().includes(q) ||
-        id.toLowerCase().includes(q) ||
-        side.toLowerCase().includes(q) ||
-        reason.toLowerCase().includes(q)
-      );
+  const showActions = !!(onExitTrade || onMoveSlToBe);
+  const hasGreeks = !!greeksByTradeId && Object.keys(greeksByTradeId).length > 0;
+  const [filters, setFilters] = React.useState<BlotterFilters>(DEFAULT_BLOTTER_FILTERS);
+  const [collapsed, setCollapsed] = React.useState<Set<string>>(() => new Set());
+  const [dragKey, setDragKey] = React.useState<BlotterColumnKey | null>(null);
+  // Width being dragged; committed to the layout on mouseup so localStorage isn't written per pixel.
+  const [resizing, setResizing] = React.useState<{ key: BlotterColumnKey; width: number } | null>(null);
+  const bodyRef = React.useRef<HTMLDivElement>(null);
+  const viewport = useScrollViewport(bodyRef);
+
+  const setFilter = <K extends keyof BlotterFilters>(key: K, value: BlotterFilters[K]) =>
+    setFilters((prev) => ({ ...prev, [key]: value }));
+
+  const ctx = React.useMemo<BlotterContext>(
+    () => ({
+      labelOf: (t) => labelFor(t, tokenLabels),
+      pnlOf,
+      chargesOf,
+      rOf,
+      holdMinOf,
+      ivOf: (t) => greeksByTradeId?.[t.tradeId]?.iv ?? null,
+    }),
+    [tokenLabels, pnlOf, chargesOf, rOf, holdMinOf, greeksByTradeId],
+  );
+
+  // The IV column only makes sense while some open option trade has live Greeks.
+  const columns = React.useMemo(
+    () => layout.columns.filter((k) => k !== "greeks" || hasGreeks),
+    [layout.columns, hasGreeks],
+  );
+  const widthOf = (key: BlotterColumnKey) =>
+    resizing?.key === key ? resizing.width : columnWidth(layout, key);
+  const tableWidth = columns.reduce((sum, k) => sum + widthOf(k), 0) + (showActions ? 96 : 0);
+
+  const filtered = React.useMemo(() => filterBlotterTrades(trades, filters, ctx), [trades, filters, ctx]);
+  const sorted = React.useMemo(() => sortBlotterTrades(filtered, layout.sort, ctx), [filtered, layout.sort, ctx]);
+  const items = React.useMemo(
+    () => buildBlotterItems(sorted, layout.groupBy, ctx, collapsed),
+    [sorted, layout.groupBy, ctx, collapsed],
+  );
+
+  const first = Math.max(0, Math.floor(viewport.top / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const last = Math.min(items.length, Math.ceil((viewport.top + viewport.height) / ROW_HEIGHT) + OVERSCAN_ROWS);
+  const visibleItems = items.slice(first, last);
+  const colSpan = columns.length + (showActions ? 1 : 0);
+
+  const cellText = (key: BlotterColumnKey, t: TradeRow): string => {
+    switch (key) {
+      case "time":
+        return fmtIst(t.updatedAt || t.createdAt);
+      case "symbol":
+        return ctx.labelOf(t);
+      case "side":
+        return t.side || "-";
+      case "qty":
+        return fmtInt(t.qty);
+      case "entry":
+        return fmtNumber(t.entryPrice);
+      case "exit":
+        return fmtNumber(t.exitPrice);
+      case "status":
+        return t.status || "-";
+      case "pnl":
+        return fmtSigned(pnlOf(t));
+      case "greeks": {
+        const g = greeksByTradeId?.[t.tradeId];
+        return g ? `${g.iv.toFixed(1)}% / ${g.delta.toFixed(2)}` : "-";
+      }
+      case "r":
+        return fmtNumber(rOf?.(t), 2);
+      case "hold": {
+        const m = holdMinOf?.(t);
+        return m === null || m === undefined ? "-" : `${m.toFixed(1)}m`;
+      }
+      case "slippage":
+        return fmtNumber(tradeSlippage(t));
+      case "fees":
+        return fmtNumber(chargesOf?.(t)?.total);
+      case "mae":
+        return fmtNumber(t.mae);
+      case "mfe":
+        return fmtNumber(t.mfe);
+      default: {
+        const v = blotterValue(t, key, ctx);
+        return v === null ? "-" : String(v);
+      }
+    }
+  };
+
+  const cycleSort = (key: BlotterColumnKey) => {
+    const numeric = key === "time" || !!BLOTTER_COLUMNS.find((c) => c.key === key)?.numeric;
+    const firstDir = numeric ? "desc" : "asc";
+    const cur = layout.sort;
+    const next =
+      cur?.key !== key
+        ? { key, dir: firstDir as "asc" | "desc" }
+        : cur.dir === firstDir
+          ? { key, dir: (firstDir === "asc" ? "desc" : "asc") as "asc" | "desc" }
+          : null;
+    onLayoutChange({ ...layout, sort: next });
+  };
+
+  const toggleColumn = (key: BlotterColumnKey) => {
+    const on = layout.columns.includes(key);
+    if (on && layout.columns.length === 1) return;
+    onLayoutChange({
+      ...layout,
+      columns: on ? layout.columns.filter((k) => k !== key) : [...layout.columns, key],
     });
-  }, [trades, query, statusFilter]);
-
-  const rows = React.useMemo(() => filtered.slice(0, limit), [filtered, limit]);
-
-  const downloadCsv = React.useCallback(() => {
-    const header = [
-      "time_ist",
-      "label",
-      "side",
-      "qty",
-      "entry",
-      "exit",
-      "status",
-      "pnl",
-      "tradeId",
-      "strategyId",
-      "closeReason",
-      "stopLoss",
-      "target",
-      "token",
-      "tradingsymbol",
-    ];
+  };
 
+  const startResize = (e: React.MouseEvent, key: BlotterColumnKey) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const startX = e.clientX;
+    const startW = columnWidth(layout, key);
+    let width = startW;
+    const onMove = (ev: MouseEvent) => {
+      width = Math.max(MIN_COLUMN_WIDTH, startW + ev.clientX - startX);
+      setResizing({ key, width });
+    };
+    const onUp = () => {
+      window.removeEventListener("mousemove", onMove);
+      window.removeEventListener("mouseup", onUp);
+      setResizing(null);
+      onLayoutChange({ ...layout, widths: { ...layout.widths, [key]: Math.round(width) } });
+    };
+    window.addEventListener("mousemove", onMove);
+    window.addEventListener("mouseup", onUp);
+  };
+
+  const toggleGroup = (key: string) =>
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+
+  const downloadCsv = () => {
+    const header = [...columns, "gross_pnl", "charges", "backend_fees", "token", "tradingsymbol"];
+    if (!columns.includes("tradeId")) header.push("tradeId");
     const lines = [header.join(",")];
-    for (const t of rows) {
-      const when = t.updatedAt || t.createdAt;
-      const label = formatPrettyInstrumentFromTrade(t);
-      const pnl = calcPnl(t);
-      const safe = (v: any) => {
-        const s = String(v ?? "");
-        const needs = /[",\n]/.test(s);
-        const escaped = s.replace(/"/g, '""');
-        return needs ? `"${escaped}"` : escaped;
-      };
-      lines.push(
-        [
-          safe(fmtIst(when)),
-          safe(label),
-          safe(t.side),
-          safe(t.qty),
-          safe(t.entryPrice),
-          safe(t.exitPrice),
-          safe(t.status),
-          safe(pnl === null ? "" : pnl.toFixed(2)),
-          safe(t.tradeId),
-          safe(t.strategyId),
-          safe(t.closeReason),
-          safe(t.stopLoss),
-          safe(t.targetPrice),
-          safe(t.instrument_token),
-          safe(t.instrument?.tradingsymbol),
-        ].join(",")
-      );
+    for (const t of sorted) {
+      const charges = chargesOf?.(t) ?? null;
+      const fees = compareFees(t, charges);
+      const gross = tradePnl(t);
+      const cells = [
+        ...columns.map((k) => cellText(k, t)),
+        gross === null ? "" : gross.toFixed(2),
+        charges ? charges.total.toFixed(2) : "",
+        fees ? fees.backend.toFixed(2) : "",
+        t.instrument_token,
+        t.instrument?.tradingsymbol,
+      ];
+      if (!columns.includes("tradeId")) cells.push(t.tradeId);
+      lines.push(cells.map(csvSafe).join(","));
     }
 
     const blob = new Blob([lines.join("\n")], { type: "text/csv;charset=utf-8" });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
-    a.download = `trade_blotter_${limit}.csv`;
+    a.download = `trade_blotter_${sorted.length}.csv`;
     document.body.appendChild(a);
     a.click();
     a.remove();
     URL.revokeObjectURL(url);
-  }, [rows, limit]);
+  };
+
+  const renderCell = (key: BlotterColumnKey, t: TradeRow) => {
+    if (key === "side") {
+      const side = (t.side || "").toUpperCase();
+      return (
+        <td key={key} className={["mono", side === "BUY" ? "goodText" : side === "SELL" ? "badText" : ""].join(" ")}>
+          {t.side || "-"}
+        </td>
+      );
+    }
+    if (key === "status") {
+      return (
+        <td key={key}>
+          <span className={["pill", statusClass(t.status)].join(" ")}>{t.status || "-"}</span>
+        </td>
+      );
+    }
+    if (key === "pnl") {
+      const charges = chargesOf?.(t) ?? null;
+      const fees = compareFees(t, charges);
+      const pnl = pnlOf(t);
+      return (
+        <td
+          key={key}
+          className={["mono", pnl === null ? "" : pnl >= 0 ? "goodText" : "badText"].join(" ")}
+          title={
+            charges
+              ? [
+                  `gross ${fmtNumber(tradePnl(t))} • charges ${charges.total.toFixed(2)}`,
+                  describeCharges(charges),
+                  fees
+                    ? `backend fees ${fees.backend.toFixed(2)}${fees.agrees ? "" : ` (differs by ${fees.diff.toFixed(2)})`}`
+                    : "",
+                ]
+                  .filter(Boolean)
+                  .join("\n")
+              : undefined
+          }
+        >
+          {fmtSigned(pnl)}
+          {fees && !fees.agrees ? <span className="warnText"> ⚠</span> : null}
+        </td>
+      );
+    }
+    if (key === "greeks") {
+      const g = greeksByTradeId?.[t.tradeId];
+      return (
+        <td
+          key={key}
+          className="mono"
+          title={g ? `Γ ${g.gamma.toFixed(4)} • Θ ${g.theta.toFixed(2)}/day • vega ${g.vega.toFixed(2)}` : undefined}
+        >
+          {cellText(key, t)}
+        </td>
+      );
+    }
+    const text = cellText(key, t);
+    return (
+      <td key={key} className={key === "symbol" || BLOTTER_COLUMNS.find((c) => c.key === key)?.numeric ? "mono" : ""} title={text}>
+        {text}
+      </td>
+    );
+  };
 
   return (
     <div className="panel blotter">
       <div className="panelHeader blotterHeader">
         <div className="left">
           <div style={{ fontWeight: 700 }}>Trade Blotter</div>
-          <span className="pill">last {limit}</span>
+          <span className="pill">
+            {filtered.length === trades.length ? trades.length : `${filtered.length} / ${trades.length}`}
+          </span>
           {rangeLabel ? <span className="pill">{rangeLabel}</span> : null}
         </div>
 
         <div className="panelHeaderActions">
-          <div className="field">
-            <label>Filter</label>
-            <input
-              className="small"
-              value={query}
-              onChange={(e) => setQuery(e.target.value)}
-              placeholder="symbol / strategy / status"
-            />
-          </div>
+          {pnlBasis && onPnlBasisChange ? <PnlBasisToggle basis={pnlBasis} onChange={onPnlBasisChange} /> : null}
 
-          <div className="field">
-            <label>Status</label>
-            <select className="small" value={statusFilter} onChange={(e) => setStatusFilter(e.target.value as any)}>
-              <option value="ALL">All</option>
-              <option value="OPEN">Open/Active</option>
-              <option value="CLOSED">Closed</option>
-              <option value="REJECT">Rejected/Cancelled</option>
-            </select>
-          </div>
-
-          <div className="field">
-            <label>Show</label>
-            <select
-              className="small"
-              value={limit}
-              onChange={(e) => onLimitChange(Number(e.target.value) as Limit)}
-            >
-              <option value={20}>20</option>
-              <option value={50}>50</option>
-            </select>
-          </div>
-
-          <button className="btn small" type="button" onClick={downloadCsv} title="Download visible rows as CSV">
+          <button className="btn small" type="button" onClick={downloadCsv} title="Download filtered rows as CSV">
             CSV
           </button>
 
@@ -240,31 +409,180 @@ export function TradeBlotter({
         </div>
       </div>
 
-      <div className="blotterBody">
-        {rows.length ? (
-          <table className="blotterTable">
+      <div className="blotterFilters">
+        <div className="field">
+          <label>Filter</label>
+          <input
+            className="small"
+            value={filters.query}
+            onChange={(e) => setFilter("query", e.target.value)}
+            placeholder="symbol / strategy / status"
+          />
+        </div>
+
+        <div className="field">
+          <label>Status</label>
+          <select
+            className="small"
+            value={filters.status}
+            onChange={(e) => setFilter("status", e.target.value as BlotterFilters["status"])}
+          >
+            <option value="ALL">All</option>
+            <option value="OPEN">Open/Active</option>
+            <option value="CLOSED">Closed</option>
+            <option value="REJECT">Rejected/Cancelled</option>
+          </select>
+        </div>
+
+        <div className="field">
+          <label>Side</label>
+          <select
+            className="small"
+            value={filters.side}
+            onChange={(e) => setFilter("side", e.target.value as BlotterFilters["side"])}
+          >
+            <option value="ALL">Both</option>
+            <option value="BUY">Buy</option>
+            <option value="SELL">Sell</option>
+          </select>
+        </div>
+
+        <div className="field">
+          <label>P&amp;L</label>
+          <select
+            className="small"
+            value={filters.pnl}
+            onChange={(e) => setFilter("pnl", e.target.value as BlotterFilters["pnl"])}
+          >
+            <option value="ALL">Any</option>
+            <option value="WIN">Winners</option>
+            <option value="LOSS">Losers</option>
+          </select>
+        </div>
+
+        <div className="field">
+          <label>From</label>
+          <input className="small" type="date" value={filters.from} onChange={(e) => setFilter("from", e.target.value)} />
+        </div>
+        <div className="field">
+          <label>To</label>
+          <input className="small" type="date" value={filters.to} onChange={(e) => setFilter("to", e.target.value)} />
+        </div>
+
+        <div className="field">
+          <label>Group</label>
+          <select
+            className="small"
+            value={layout.groupBy}
+            onChange={(e) => onLayoutChange({ ...layout, groupBy: e.target.value as BlotterGroupBy })}
+          >
+            {BLOTTER_GROUPS.map((g) => (
+              <option key={g.key} value={g.key}>
+                {g.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <details className="blotterColumnPicker">
+          <summary className="btn small">Columns</summary>
+          <div className="blotterColumnMenu">
+            {BLOTTER_COLUMNS.map((c) => (
+              <label key={c.key} title={c.title}>
+                <input
+                  type="checkbox"
+                  checked={layout.columns.includes(c.key)}
+                  onChange={() => toggleColumn(c.key)}
+                />{" "}
+                {c.label}
+              </label>
+            ))}
+          </div>
+        </details>
+
+        {filters !== DEFAULT_BLOTTER_FILTERS ? (
+          <button className="btn small" type="button" onClick={() => setFilters(DEFAULT_BLOTTER_FILTERS)}>
+            Clear
+          </button>
+        ) : null}
+      </div>
+
+      <div className="blotterBody" ref={bodyRef}>
+        {items.length ? (
+          <table className="blotterTable blotterVirtual" style={{ width: tableWidth }}>
+            <colgroup>
+              {columns.map((k) => (
+                <col key={k} style={{ width: widthOf(k) }} />
+              ))}
+              {showActions ? <col style={{ width: 96 }} /> : null}
+            </colgroup>
             <thead>
               <tr>
-                <th>Time</th>
-                <th>Symbol</th>
-                <th>Side</th>
-                <th>Qty</th>
-                <th>Entry</th>
-                <th>Exit</th>
-                <th>Status</th>
-                <th>P&amp;L</th>
+                {columns.map((k) => {
+                  const col = BLOTTER_COLUMNS.find((c) => c.key === k);
+                  const sortDir = layout.sort?.key === k ? layout.sort.dir : null;
+                  return (
+                    <th
+                      key={k}
+                      draggable
+                      title={[col?.title, "Click to sort, drag to reorder"].filter(Boolean).join(" • ")}
+                      className={dragKey && dragKey !== k ? "blotterDropTarget" : ""}
+                      onClick={() => cycleSort(k)}
+                      onDragStart={(e) => {
+                        setDragKey(k);
+                        e.dataTransfer.effectAllowed = "move";
+                      }}
+                      onDragEnd={() => setDragKey(null)}
+                      onDragOver={(e) => {
+                        if (dragKey) e.preventDefault();
+                      }}
+                      onDrop={(e) => {
+                        e.preventDefault();
+                        if (dragKey) onLayoutChange({ ...layout, columns: moveColumn(layout.columns, dragKey, k) });
+                        setDragKey(null);
+                      }}
+                    >
+                      {k === "pnl" && pnlBasis === "net" ? "Net P&L" : col?.label ?? k}
+                      {sortDir ? (sortDir === "asc" ? " ▲" : " ▼") : ""}
+                      <span
+                        className="colResizer"
+                        onMouseDown={(e) => startResize(e, k)}
+                        onClick={(e) => e.stopPropagation()}
+                      />
+                    </th>
+                  );
+                })}
+                {showActions ? <th /> : null}
               </tr>
             </thead>
             <tbody>
-              {rows.map((t) => {
+              {first > 0 ? (
+                <tr className="blotterSpacer" style={{ height: first * ROW_HEIGHT }}>
+                  <td colSpan={colSpan} />
+                </tr>
+              ) : null}
+              {visibleItems.map((item) => {
+                if (item.kind === "group") {
+                  const g = item.group;
+                  return (
+                    <tr key={`g:${g.key}`} className="blotterGroupRow rowClickable" onClick={() => toggleGroup(g.key)}>
+                      <td colSpan={colSpan}>
+                        {item.collapsed ? "▸" : "▾"} <strong>{g.label}</strong>
+                        <span className="muted"> • {g.count} trades</span>
+                        <span className={g.pnl >= 0 ? "goodText" : "badText"}> • {fmtSigned(g.pnl)}</span>
+                        {g.closed ? (
+                          <span className="muted"> • win {((g.wins / g.closed) * 100).toFixed(0)}%</span>
+                        ) : null}
+                        {g.fees ? <span className="muted"> • fees {g.fees.toFixed(2)}</span> : null}
+                      </td>
+                    </tr>
+                  );
+                }
+                const t = item.trade;
                 const tok = Number(t.instrument_token);
-                const sym = labelFor(t, tokenLabels);
-                const pnl = calcPnl(t);
-                const st = t.status || "-";
-                const stClass = statusClass(t.status);
-                const when = t.updatedAt || t.createdAt;
-                const isSel = Number.isFinite(tok) && selectedToken !== null && selectedToken !== undefined && tok === selectedToken;
-
+                const isSel =
+                  Number.isFinite(tok) && selectedToken !== null && selectedToken !== undefined && tok === selectedToken;
+                const rowBusy = !!busyTradeIds?.[t.tradeId];
                 return (
                   <tr
                     key={t.tradeId}
@@ -272,46 +590,52 @@ export function TradeBlotter({
                     onClick={() => {
                       if (Number.isFinite(tok)) onSelectToken?.(tok, t.tradeId);
                     }}
-                    title={[
-                      `tradeId: ${t.tradeId}`,
-                      t.strategyId ? `strategy: ${t.strategyId}` : "",
-                      t.closeReason ? `close: ${t.closeReason}` : "",
-                      Number.isFinite(Number(t.stopLoss)) ? `SL: ${t.stopLoss}` : "",
-                      Number.isFinite(Number(t.targetPrice)) ? `TGT: ${t.targetPrice}` : "",
-                    ]
-                      .filter(Boolean)
-                      .join("\n")}
                   >
-                    <td className="mono">{fmtIst(when)}</td>
-                    <td className="mono">{sym}</td>
-                    <td
-                      className={[
-                        "mono",
-                        (t.side || "").toUpperCase() === "BUY"
-                          ? "goodText"
-                          : (t.side || "").toUpperCase() === "SELL"
-                            ? "badText"
-                            : "",
-                      ].join(" ")}
-                    >
-                      {t.side || "-"}
-                    </td>
-                    <td className="mono">{fmtInt(t.qty)}</td>
-                    <td className="mono">{fmtNumber(t.entryPrice)}</td>
-                    <td className="mono">{fmtNumber(t.exitPrice)}</td>
-                    <td>
-                      <span className={["pill", stClass].join(" ")}>{st}</span>
-                    </td>
-                    <td className="mono">
-                      {pnl === null ? "-" : pnl >= 0 ? `+${pnl.toFixed(2)}` : pnl.toFixed(2)}
-                    </td>
+                    {columns.map((k) => renderCell(k, t))}
+                    {showActions ? (
+                      <td className="blotterActions" onClick={(e) => e.stopPropagation()}>
+                        {isOpenStatus(t.status) ? (
+                          <>
+                            {onMoveSlToBe ? (
+                              <button
+                                className="btn small"
+                                type="button"
+                                disabled={rowBusy}
+                                onClick={() => onMoveSlToBe(t)}
+                                title="Move stop-loss to entry price"
+                              >
+                                BE
+                              </button>
+                            ) : null}
+                            {onExitTrade ? (
+                              <button
+                                className="btn small danger"
+                                type="button"
+                                disabled={rowBusy}
+                                onClick={() => onExitTrade(t)}
+                                title="Square off at market"
+                              >
+                                Exit
+                              </button>
+                            ) : null}
+                          </>
+                        ) : null}
+                      </td>
+                    ) : null}
                   </tr>
                 );
               })}
+              {last < items.length ? (
+                <tr className="blotterSpacer" style={{ height: (items.length - last) * ROW_HEIGHT }}>
+                  <td colSpan={colSpan} />
+                </tr>
+              ) : null}
             </tbody>
           </table>
         ) : (
-          <div className="panelPlaceholder">No trades yet. Waiting for /admin/trades/recent…</div>
+          <div className="panelPlaceholder">
+            {trades.length ? "No trades match the filters." : "No trades yet. Waiting for /admin/trades/recent…"}
+          </div>
         )}
       </div>
     </div>
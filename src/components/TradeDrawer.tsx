@@ -0,0 +1,415 @@
+import React from "react";
+import type { AuditLogRow, CandleRow, OrderRow, TradeRow } from "../types/backend";
+import { useCandles } from "../lib/hooks";
+import { istDateKey } from "../lib/replay";
+import {
+  TRADE_FIELD_GROUPS,
+  buildTradeTimeline,
+  linkTradeAuditLogs,
+  linkTradeOrders,
+  tradeExcursions,
+  tradePermalink,
+  tradeWindow,
+  ungroupedTradeFields,
+  type Excursions,
+} from "../lib/tradeDetail";
+import { compareFees, type TradeCharges } from "../lib/charges";
+
+type Props = {
+  tradeId: string;
+  trade: TradeRow | null;
+  label: string;
+  orders: OrderRow[];
+  auditLogs: AuditLogRow[];
+  pnlOf: (row: TradeRow) => number | null;
+  /** Modelled charges for the round trip; shown beside the backend's cost fields. */
+  charges?: TradeCharges | null;
+  onFocusChart?: (token: number) => void;
+  onClose: () => void;
+};
+
+/** Bars shown either side of the trade in the mini chart. */
+const CONTEXT_BARS = 10;
+const CHART_W = 560;
+const CHART_H = 180;
+
+function fmtValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? String(value) : value.toFixed(2);
+  }
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function fmtTs(value: unknown) {
+  if (value === null || value === undefined || value === "") return "—";
+  const d = new Date(typeof value === "number" ? value : String(value));
+  if (!Number.isFinite(d.getTime())) return String(value);
+  return new Intl.DateTimeFormat("en-IN", {
+    timeZone: "Asia/Kolkata",
+    day: "2-digit",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hour12: false,
+  }).format(d);
+}
+
+function fmtGap(ms: number | null) {
+  if (ms === null || !Number.isFinite(ms)) return "";
+  if (ms < 1000) return `+${Math.round(ms)}ms`;
+  if (ms < 60_000) return `+${(ms / 1000).toFixed(1)}s`;
+  const min = Math.floor(ms / 60_000);
+  return `+${min}m ${Math.round((ms % 60_000) / 1000)}s`;
+}
+
+function TradeMiniChart({
+  trade,
+  candles,
+  excursions,
+}: {
+  trade: TradeRow;
+  candles: CandleRow[];
+  excursions: Excursions;
+}) {
+  const { startMs, endMs } = tradeWindow(trade);
+  const bars = React.useMemo(() => {
+    const sorted = candles
+      .map((c) => ({ ...c, ms: new Date(c.ts).getTime() }))
+      .filter((c) => Number.isFinite(c.ms))
+      .sort((a, b) => a.ms - b.ms);
+    const first = sorted.findIndex((c) => c.ms >= startMs - 60_000);
+    if (first === -1) return [];
+    let last = sorted.length - 1;
+    while (last > first && sorted[last].ms > endMs) last -= 1;
+    return sorted.slice(Math.max(0, first - CONTEXT_BARS), last + CONTEXT_BARS + 1);
+  }, [candles, startMs, endMs]);
+
+  if (!bars.length) return <div className="panelPlaceholder">No candles for the trade window.</div>;
+
+  const entry = Number(trade.entryPrice);
+  const levels = [
+    { key: "SL", value: Number(trade.stopLoss), color: "#ff6b6b" },
+    { key: "TGT", value: Number(trade.targetPrice), color: "#2ee59d" },
+    { key: "EXIT", value: Number(trade.exitPrice), color: "rgba(255,255,255,0.8)" },
+    { key: "ENTRY", value: entry, color: "#6aa6ff" },
+  ].filter((l) => Number.isFinite(l.value));
+
+  const prices = [
+    ...bars.flatMap((b) => [Number(b.low), Number(b.high)]),
+    ...levels.map((l) => l.value),
+    excursions.adversePrice ?? NaN,
+    excursions.favorablePrice ?? NaN,
+  ].filter(Number.isFinite);
+  const min = Math.min(...prices);
+  const max = Math.max(...prices);
+  const span = max - min || 1;
+  const y = (p: number) => 6 + (1 - (p - min) / span) * (CHART_H - 12);
+  const slot = CHART_W / bars.length;
+  const xOfMs = (ms: number) => {
+    const i = bars.findIndex((b) => b.ms > ms);
+    return (i === -1 ? bars.length : Math.max(0, i - 1)) * slot + slot / 2;
+  };
+
+  const band = (to: number | null, color: string) =>
+    Number.isFinite(entry) && to !== null ? (
+      <rect
+        x={xOfMs(startMs)}
+        width={Math.max(2, xOfMs(endMs) - xOfMs(startMs))}
+        y={Math.min(y(entry), y(to))}
+        height={Math.abs(y(entry) - y(to))}
+        fill={color}
+        fillOpacity={0.15}
+      />
+    ) : null;
+
+  return (
+    <svg className="tradeMiniChart" viewBox={`0 0 ${CHART_W} ${CHART_H}`} preserveAspectRatio="none">
+      {band(excursions.adversePrice, "#ff6b6b")}
+      {band(excursions.favorablePrice, "#2ee59d")}
+      {bars.map((b, i) => {
+        const up = Number(b.close) >= Number(b.open);
+        const cx = i * slot + slot / 2;
+        const top = y(Math.max(Number(b.open), Number(b.close)));
+        const bottom = y(Math.min(Number(b.open), Number(b.close)));
+        return (
+          <g key={b.ts} stroke={up ? "#2ee59d" : "#ff6b6b"} fill={up ? "#2ee59d" : "#ff6b6b"}>
+            <line x1={cx} x2={cx} y1={y(Number(b.high))} y2={y(Number(b.low))} vectorEffect="non-scaling-stroke" />
+            <rect x={cx - slot * 0.3} width={slot * 0.6} y={top} height={Math.max(1, bottom - top)} />
+          </g>
+        );
+      })}
+      {levels.map((l) => (
+        <g key={l.key}>
+          <line
+            x1={0}
+            x2={CHART_W}
+            y1={y(l.value)}
+            y2={y(l.value)}
+            stroke={l.color}
+            strokeDasharray={l.key === "ENTRY" || l.key === "EXIT" ? undefined : "4 3"}
+            vectorEffect="non-scaling-stroke"
+          />
+          <text x={4} y={y(l.value) - 2} className="tradeMiniChartLabel" fill={l.color}>
+            {l.key} {l.value}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+}
+
+export function TradeDrawer({
+  tradeId,
+  trade,
+  label,
+  orders,
+  auditLogs,
+  pnlOf,
+  charges,
+  onFocusChart,
+  onClose,
+}: Props) {
+  const [copied, setCopied] = React.useState(false);
+
+  React.useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  const token = trade ? Number(trade.instrument_token) : NaN;
+  const { startMs } = trade ? tradeWindow(trade) : { startMs: Date.now() };
+  const day = istDateKey(startMs);
+  // Past sessions are fetched date-pinned; today's window comes from the live candle cache.
+  const candlesQ = useCandles(
+    Number.isFinite(token) ? token : null,
+    1,
+    400,
+    false,
+    day === istDateKey(Date.now()) ? null : day,
+  );
+  const candles = candlesQ.data?.rows || [];
+
+  const audit = React.useMemo(() => (trade ? linkTradeAuditLogs(trade, auditLogs) : []), [trade, auditLogs]);
+  const linkedOrders = React.useMemo(() => (trade ? linkTradeOrders(trade, orders) : []), [trade, orders]);
+  const timeline = React.useMemo(() => (trade ? buildTradeTimeline(trade, audit) : []), [trade, audit]);
+  const excursions = React.useMemo(
+    () => (trade ? tradeExcursions(trade, candles) : { adversePrice: null, favorablePrice: null, fromCandles: true }),
+    [trade, candles],
+  );
+  const extraFields = React.useMemo(() => (trade ? ungroupedTradeFields(trade) : []), [trade]);
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(tradePermalink(tradeId));
+      setCopied(true);
+      window.setTimeout(() => setCopied(false), 1500);
+    } catch {
+      window.prompt("Copy trade link", tradePermalink(tradeId));
+    }
+  };
+
+  const pnl = trade ? pnlOf(trade) : null;
+  const fees = trade ? compareFees(trade, charges ?? null) : null;
+  const modelFields: Array<[string, number]> = charges
+    ? [
+        ["model brokerage", charges.brokerage],
+        ["model STT", charges.stt],
+        ["model exchange", charges.exchange],
+        ["model SEBI", charges.sebi],
+        ["model stamp", charges.stamp],
+        ["model GST", charges.gst],
+        ["model total", charges.total],
+      ]
+    : [];
+
+  return (
+    <div className="drawerBackdrop" onClick={onClose}>
+      <aside className="tradeDrawer" onClick={(e) => e.stopPropagation()}>
+        <div className="panelHeader">
+          <div className="left">
+            <div style={{ fontWeight: 700 }}>{label}</div>
+            {trade?.side ? (
+              <span className={["pill", trade.side === "BUY" ? "good" : "bad"].join(" ")}>{trade.side}</span>
+            ) : null}
+            {trade?.status ? <span className="pill">{trade.status}</span> : null}
+            {pnl !== null ? (
+              <span className={["pill", pnl >= 0 ? "good" : "bad"].join(" ")}>₹{pnl.toFixed(0)}</span>
+            ) : null}
+          </div>
+          <div className="actionsRow">
+            {onFocusChart && Number.isFinite(token) ? (
+              <button className="btn small" type="button" onClick={() => onFocusChart(token)}>
+                Show on chart
+              </button>
+            ) : null}
+            <button className="btn small" type="button" onClick={copyLink} title="Copy a link that reopens this trade">
+              {copied ? "Copied" : "🔗 Link"}
+            </button>
+            <button className="btn small" type="button" onClick={onClose} title="Close (Esc)">
+              ✕
+            </button>
+          </div>
+        </div>
+
+        <div className="tradeDrawerBody">
+          {!trade ? (
+            <div className="panelPlaceholder">
+              Trade <span className="mono">{tradeId}</span> is not in the loaded trades. Widen the date range or
+              wait for trades to load.
+            </div>
+          ) : (
+            <>
+              <div className="truthSubTitle">Lifecycle</div>
+              {timeline.length ? (
+                <ol className="tradeTimeline">
+                  {timeline.map((step) => (
+                    <li key={step.key}>
+                      <span className="tradeTimelineLabel">{step.label}</span>
+                      <span className="mono">{fmtTs(step.ts)}</span>
+                      <span className="mono muted">{fmtGap(step.sincePrevMs)}</span>
+                      {step.detail ? <span className="muted">{step.detail}</span> : null}
+                    </li>
+                  ))}
+                </ol>
+              ) : (
+                <div className="panelPlaceholder">No lifecycle timestamps on this trade.</div>
+              )}
+
+              <div className="truthSubTitle">
+                Trade window{" "}
+                <span className="muted">
+                  • MAE/MFE {excursions.fromCandles ? "from candles" : "from trade"}
+                </span>
+              </div>
+              {candlesQ.isLoading ? (
+                <div className="panelPlaceholder">Loading candles…</div>
+              ) : (
+                <TradeMiniChart trade={trade} candles={candles} excursions={excursions} />
+              )}
+
+              {TRADE_FIELD_GROUPS.map((group) => (
+                <div key={group.title}>
+                  <div className="truthSubTitle">{group.title}</div>
+                  <div className="tradeFieldGrid">
+                    {group.fields.map((field) => (
+                      <div key={field}>
+                        <span className="stackLabel">{field}</span>
+                        <div className="mono">
+                          {group.title === "Timestamps" ? fmtTs(trade[field]) : fmtValue(trade[field])}
+                        </div>
+                      </div>
+                    ))}
+                    {group.title === "Identity" ? (
+                      <div>
+                        <span className="stackLabel">instrument</span>
+                        <div className="mono">{fmtValue(trade.instrument?.tradingsymbol)}</div>
+                      </div>
+                    ) : null}
+                    {group.title === "Costs"
+                      ? modelFields.map(([name, value]) => (
+                          <div key={name}>
+                            <span className="stackLabel">{name}</span>
+                            <div className="mono">{value.toFixed(2)}</div>
+                          </div>
+                        ))
+                      : null}
+                    {group.title === "Costs" && fees ? (
+                      <div>
+                        <span className="stackLabel">backend vs model</span>
+                        <div className={["mono", fees.agrees ? "" : "warnText"].join(" ")}>
+                          {fees.diff >= 0 ? "+" : ""}
+                          {fees.diff.toFixed(2)}
+                        </div>
+                      </div>
+                    ) : null}
+                  </div>
+                </div>
+              ))}
+
+              {extraFields.length ? (
+                <div>
+                  <div className="truthSubTitle">Other fields</div>
+                  <div className="tradeFieldGrid">
+                    {extraFields.map(([key, value]) => (
+                      <div key={key}>
+                        <span className="stackLabel">{key}</span>
+                        <div className="mono">{fmtValue(value)}</div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ) : null}
+
+              <div className="truthSubTitle">Linked orders</div>
+              {linkedOrders.length ? (
+                <table className="miniTable">
+                  <thead>
+                    <tr>
+                      <th>Order</th>
+                      <th>Side</th>
+                      <th>Type</th>
+                      <th>Status</th>
+                      <th>Qty</th>
+                      <th>Price</th>
+                      <th>Time</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {linkedOrders.map((o, i) => (
+                      <tr key={o.order_id || i}>
+                        <td className="mono">{o.order_id || "—"}</td>
+                        <td>{o.transaction_type || "—"}</td>
+                        <td>{o.order_type || "—"}</td>
+                        <td>{o.status || "—"}</td>
+                        <td className="mono">
+                          {fmtValue(o.filled_quantity)}/{fmtValue(o.quantity)}
+                        </td>
+                        <td className="mono">{fmtValue(o.average_price ?? o.price)}</td>
+                        <td className="mono">{fmtTs(o.order_timestamp)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <div className="panelPlaceholder">No orders from /admin/orders match this trade.</div>
+              )}
+
+              <div className="truthSubTitle">Audit log</div>
+              {audit.length ? (
+                <table className="miniTable">
+                  <thead>
+                    <tr>
+                      <th>Time</th>
+                      <th>Action</th>
+                      <th>Actor</th>
+                      <th>Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {audit.map((row, i) => (
+                      <tr key={`${row.createdAt}-${i}`}>
+                        <td className="mono">{fmtTs(row.createdAt)}</td>
+                        <td>{row.action || "—"}</td>
+                        <td>{row.actor || "—"}</td>
+                        <td>{row.status || "—"}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <div className="panelPlaceholder">No audit rows reference this trade.</div>
+              )}
+            </>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import {
+  formatTruthValue,
+  truthColumns,
+  truthDimensions,
+  type TruthGroup,
+} from "../lib/tradeAnalytics";
+
+type Props = {
+  /** Registered dimension id the groups were built for. */
+  dimension: string;
+  onDimensionChange: (next: string) => void;
+  groups: TruthGroup[];
+};
+
+/** Truth metrics for any registered dimension, one row per group and one column per registered metric. */
+export function TruthBreakdown({ dimension, onDimensionChange, groups }: Props) {
+  const dimensions = truthDimensions();
+  const columns = truthColumns();
+  const current = dimensions.find((d) => d.id === dimension);
+
+  return (
+    <div className="panel miniPanel wide">
+      <div className="panelHeader">
+        <div className="left">
+          <div style={{ fontWeight: 700 }}>Breakdown</div>
+          <select className="small" value={dimension} onChange={(e) => onDimensionChange(e.target.value)}>
+            {dimensions.map((d) => (
+              <option key={d.id} value={d.id}>
+                {d.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div className="panelBody">
+        {groups.length ? (
+          <table className="miniTable truthTable">
+            <thead>
+              <tr>
+                <th>{current?.label ?? dimension}</th>
+                {columns.map((c) => (
+                  <th key={c.id} title={c.title}>
+                    {c.label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {groups.map((g) => (
+                <tr key={g.key}>
+                  <td className="mono">{g.key}</td>
+                  {columns.map((c) => (
+                    <td key={c.id} className="mono">
+                      {formatTruthValue(c.value(g), c.format)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <div className="panelPlaceholder">No trades to break down yet.</div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import type { AlertFire, AlertSound } from './alertRules';
+
+// Each sound is a short oscillator pattern: [frequency Hz, duration s] pairs played back to back.
+const SOUND_PATTERNS: Record<AlertSound, Array<[number, number]>> = {
+  chime: [
+    [880, 0.12],
+    [1320, 0.18],
+  ],
+  beep: [
+    [1000, 0.1],
+    [0, 0.08],
+    [1000, 0.1],
+  ],
+  alarm: [
+    [660, 0.18],
+    [440, 0.18],
+    [660, 0.18],
+    [440, 0.18],
+  ],
+};
+
+let audioCtx: AudioContext | null = null;
+
+function getAudioContext(): AudioContext | null {
+  if (audioCtx) return audioCtx;
+  const Ctor: typeof AudioContext | undefined =
+    (window as any).AudioContext || (window as any).webkitAudioContext;
+  if (!Ctor) return null;
+  audioCtx = new Ctor();
+  return audioCtx;
+}
+
+export function playAlertSound(sound: AlertSound) {
+  const ctx = getAudioContext();
+  if (!ctx) return;
+  // Browsers start the context suspended until a user gesture; resume is a no-op afterwards.
+  void ctx.resume?.();
+  let t = ctx.currentTime;
+  for (const [freq, dur] of SOUND_PATTERNS[sound] || SOUND_PATTERNS.chime) {
+    if (freq > 0) {
+      const osc = ctx.createOscillator();
+      const gain = ctx.createGain();
+      osc.type = sound === 'alarm' ? 'square' : 'sine';
+      osc.frequency.value = freq;
+      gain.gain.setValueAtTime(0.0001, t);
+      gain.gain.exponentialRampToValueAtTime(0.2, t + 0.01);
+      gain.gain.exponentialRampToValueAtTime(0.0001, t + dur);
+      osc.connect(gain).connect(ctx.destination);
+      osc.start(t);
+      osc.stop(t + dur);
+    }
+    t += dur;
+  }
+}
+
+export function notificationPermission(): NotificationPermission | 'unsupported' {
+  return typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+}
+
+export async function requestNotificationPermission(): Promise<NotificationPermission | 'unsupported'> {
+  if (typeof Notification === 'undefined') return 'unsupported';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+}
+
+export function showAlertNotification(fire: AlertFire) {
+  if (notificationPermission() !== 'granted') return;
+  try {
+    // `tag` collapses repeats of the same rule into one OS notification.
+    new Notification(fire.ruleName, { body: fire.message, tag: fire.ruleId });
+  } catch {
+    // some browsers only allow notifications from a service worker
+  }
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateAlertRules, initAlertMemory, newAlertRule, type AlertMemory, type AlertSnapshot } from './alertRules';
+import { closedWinner, rejectedTrade } from '../test/fixtures/trades';
+import type { TradeRow } from '../types/backend';
+
+const NOW = Date.parse('2026-02-03T10:00:00+05:30');
+
+function snapshot(trades: TradeRow[], tradesLoaded: boolean, nowMs = NOW): AlertSnapshot {
+  return { nowMs, ltpByToken: {}, openTrades: [], trades, tradesLoaded, feedHealth: [], state: null, dailyPnl: null };
+}
+
+describe('TRADE_REJECT rule', () => {
+  const rules = [newAlertRule('TRADE_REJECT')];
+
+  /** Feeds snapshots in order and returns the messages fired by each. */
+  function run(snaps: AlertSnapshot[]) {
+    let mem: AlertMemory = initAlertMemory();
+    return snaps.map((snap) => {
+      const { fired, memory } = evaluateAlertRules(rules, snap, mem);
+      mem = memory;
+      return fired.map((f) => f.message);
+    });
+  }
+
+  it('treats rejects present when trades first load as history', () => {
+    const fired = run([
+      snapshot([], false),
+      // IndexedDB seed while the first fetch is still in flight.
+      snapshot([closedWinner], false, NOW + 1000),
+      snapshot([closedWinner, rejectedTrade], true, NOW + 2000),
+    ]);
+    expect(fired).toEqual([[], [], []]);
+  });
+
+  it('fires for a reject that shows up after trades loaded', () => {
+    const fired = run([snapshot([closedWinner], true), snapshot([closedWinner, rejectedTrade], true, NOW + 2000)]);
+    expect(fired[0]).toEqual([]);
+    expect(fired[1]).toHaveLength(1);
+    expect(fired[1][0]).toMatch(/^Trade rejected: /);
+  });
+});
@@ -0,0 +1,342 @@
+import React from 'react';
+import type { TradeRow } from '../types/backend';
+import type { FeedHealth } from '../components/ChartPanel';
+
+const RULES_KEY = 'kite_scalper_fe_alert_rules_v1';
+
+export type AlertRuleKind =
+  | 'LTP_CROSS'
+  | 'NEAR_SL'
+  | 'FEED_LAG'
+  | 'STATE_CHANGE'
+  | 'DAILY_PNL_BELOW'
+  | 'TRADE_REJECT';
+
+export type AlertAction = 'notify' | 'sound' | 'banner' | 'flash';
+export type AlertSound = 'chime' | 'beep' | 'alarm';
+export type CrossDirection = 'up' | 'down' | 'any';
+
+export type AlertRule = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  kind: AlertRuleKind;
+  /** LTP_CROSS: instrument to watch. NEAR_SL / FEED_LAG: optional filter. */
+  token: number | null;
+  level: number | null;
+  direction: CrossDirection;
+  /** NEAR_SL: distance to SL in points. */
+  points: number | null;
+  /** FEED_LAG: lag threshold in seconds. */
+  seconds: number | null;
+  /** STATE_CHANGE: status.state to alert on. */
+  state: string;
+  /** DAILY_PNL_BELOW: rupee threshold (usually negative). */
+  threshold: number | null;
+  actions: AlertAction[];
+  sound: AlertSound;
+  cooldownSec: number;
+};
+
+export type AlertFire = {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  message: string;
+  actions: AlertAction[];
+  sound: AlertSound;
+  /** Instrument the alert is about, used to flash the matching chart tile. */
+  token: number | null;
+  firedAt: number;
+};
+
+export type AlertSnapshot = {
+  nowMs: number;
+  ltpByToken: Record<number, number>;
+  openTrades: TradeRow[];
+  trades: TradeRow[];
+  /** False until the first trades fetch lands; until then `trades` is empty or a stale cache seed. */
+  tradesLoaded: boolean;
+  feedHealth: FeedHealth[];
+  state: string | null;
+  dailyPnl: number | null;
+};
+
+/**
+ * Evaluator state carried between snapshots. Conditions are edge-triggered per key (rule +
+ * instrument/trade): a key fires when it turns true, not again until it has cleared, and
+ * never more often than the rule's cooldown.
+ */
+export type AlertMemory = {
+  active: Record<string, boolean>;
+  lastFired: Record<string, number>;
+  prevLtp: Record<number, number>;
+  prevState: string | null;
+  seenRejects: Record<string, true> | null;
+};
+
+export const ALERT_RULE_KINDS: Array<{ kind: AlertRuleKind; label: string }> = [
+  { kind: 'LTP_CROSS', label: 'LTP crosses level' },
+  { kind: 'NEAR_SL', label: 'Open trade near SL' },
+  { kind: 'FEED_LAG', label: 'Feed lag above' },
+  { kind: 'STATE_CHANGE', label: 'Engine state becomes' },
+  { kind: 'DAILY_PNL_BELOW', label: 'Daily P&L below' },
+  { kind: 'TRADE_REJECT', label: 'New rejected trade' },
+];
+
+export const ALERT_ACTIONS: Array<{ action: AlertAction; label: string }> = [
+  { action: 'notify', label: 'Notification' },
+  { action: 'sound', label: 'Sound' },
+  { action: 'banner', label: 'Banner' },
+  { action: 'flash', label: 'Flash chart' },
+];
+
+export const ALERT_SOUNDS: AlertSound[] = ['chime', 'beep', 'alarm'];
+
+export function initAlertMemory(): AlertMemory {
+  return { active: {}, lastFired: {}, prevLtp: {}, prevState: null, seenRejects: null };
+}
+
+export function newAlertRule(kind: AlertRuleKind = 'LTP_CROSS'): AlertRule {
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name: ALERT_RULE_KINDS.find((k) => k.kind === kind)?.label ?? kind,
+    enabled: true,
+    kind,
+    token: null,
+    level: null,
+    direction: 'any',
+    points: kind === 'NEAR_SL' ? 5 : null,
+    seconds: kind === 'FEED_LAG' ? 120 : null,
+    state: 'HARD_STOP',
+    threshold: kind === 'DAILY_PNL_BELOW' ? -5000 : null,
+    actions: kind === 'STATE_CHANGE' || kind === 'DAILY_PNL_BELOW' ? ['notify', 'sound', 'banner'] : ['notify', 'sound'],
+    sound: kind === 'STATE_CHANGE' ? 'alarm' : 'chime',
+    cooldownSec: 60,
+  };
+}
+
+function numOrNull(v: unknown): number | null {
+  if (v === null || v === undefined || v === '') return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+function normalizeRule(raw: any): AlertRule | null {
+  const kind = ALERT_RULE_KINDS.find((k) => k.kind === raw?.kind)?.kind;
+  if (!kind || typeof raw?.id !== 'string') return null;
+  const base = newAlertRule(kind);
+  const actions = Array.isArray(raw.actions)
+    ? (raw.actions as unknown[]).filter((a): a is AlertAction => ALERT_ACTIONS.some((x) => x.action === a))
+    : base.actions;
+  return {
+    ...base,
+    id: raw.id,
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name : base.name,
+    enabled: raw.enabled !== false,
+    token: numOrNull(raw.token),
+    level: numOrNull(raw.level),
+    direction: raw.direction === 'up' || raw.direction === 'down' ? raw.direction : 'any',
+    points: numOrNull(raw.points),
+    seconds: numOrNull(raw.seconds),
+    state: typeof raw.state === 'string' && raw.state ? raw.state : base.state,
+    threshold: numOrNull(raw.threshold),
+    actions,
+    sound: ALERT_SOUNDS.includes(raw.sound) ? raw.sound : base.sound,
+    cooldownSec: Math.max(0, numOrNull(raw.cooldownSec) ?? base.cooldownSec),
+  };
+}
+
+export function loadAlertRules(): AlertRule[] {
+  try {
+    const raw = localStorage.getItem(RULES_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.map(normalizeRule).filter((r): r is AlertRule => !!r);
+  } catch {
+    return [];
+  }
+}
+
+export function saveAlertRules(rules: AlertRule[]) {
+  try {
+    localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+  } catch {
+    // ignore
+  }
+}
+
+/** Tokens whose LTP the rule set needs (explicit LTP rules plus open trades for NEAR_SL). */
+export function alertRuleTokens(rules: AlertRule[], openTrades: TradeRow[]): number[] {
+  const out = new Set<number>();
+  for (const r of rules) {
+    if (!r.enabled) continue;
+    if (r.kind === 'LTP_CROSS' && r.token !== null) out.add(r.token);
+    if (r.kind === 'NEAR_SL') {
+      for (const t of openTrades) {
+        const tok = Number(t.instrument_token);
+        if (Number.isFinite(tok) && (r.token === null || r.token === tok)) out.add(tok);
+      }
+    }
+  }
+  return Array.from(out);
+}
+
+function isReject(status?: string) {
+  const s = (status || '').toUpperCase();
+  return s.includes('REJECT');
+}
+
+type Hit = { key: string; message: string; token: number | null };
+
+function ruleHits(rule: AlertRule, snap: AlertSnapshot, mem: AlertMemory): Hit[] {
+  switch (rule.kind) {
+    case 'LTP_CROSS': {
+      if (rule.token === null || rule.level === null) return [];
+      const cur = snap.ltpByToken[rule.token];
+      const prev = mem.prevLtp[rule.token];
+      if (!Number.isFinite(cur) || !Number.isFinite(prev)) return [];
+      const up = prev < rule.level && cur >= rule.level;
+      const down = prev > rule.level && cur <= rule.level;
+      if ((rule.direction !== 'down' && up) || (rule.direction !== 'up' && down)) {
+        // Crosses are instantaneous, so key on the direction to let a cross back re-arm.
+        return [{ key: `${rule.id}:${up ? 'up' : 'down'}`, token: rule.token, message: `LTP ${cur} crossed ${up ? 'above' : 'below'} ${rule.level}` }];
+      }
+      return [];
+    }
+    case 'NEAR_SL': {
+      if (rule.points === null) return [];
+      const hits: Hit[] = [];
+      for (const t of snap.openTrades) {
+        const tok = Number(t.instrument_token);
+        if (rule.token !== null && rule.token !== tok) continue;
+        const ltp = snap.ltpByToken[tok];
+        const sl = Number(t.trailSl ?? t.stopLoss);
+        if (!Number.isFinite(ltp) || !Number.isFinite(sl)) continue;
+        const dist = Math.abs(ltp - sl);
+        if (dist <= rule.points) {
+          const sym = t.instrument?.tradingsymbol || String(tok);
+          hits.push({ key: `${rule.id}:${t.tradeId}`, token: tok, message: `${sym} is ${dist.toFixed(2)} pts from SL ${sl}` });
+        }
+      }
+      return hits;
+    }
+    case 'FEED_LAG': {
+      if (rule.seconds === null) return [];
+      return snap.feedHealth
+        .filter((h) => h.token !== null && h.lagSec !== null && h.lagSec > (rule.seconds as number))
+        .filter((h) => rule.token === null || rule.token === h.token)
+        .map((h) => ({
+          key: `${rule.id}:${h.index}:${h.token}`,
+          token: h.token,
+          message: `Chart ${h.index + 1} feed lag ${Math.round(h.lagSec as number)}s`,
+        }));
+    }
+    case 'STATE_CHANGE': {
+      const want = rule.state.toUpperCase();
+      const cur = (snap.state || '').toUpperCase();
+      if (cur === want && (mem.prevState || '').toUpperCase() !== want) {
+        return [{ key: `${rule.id}:${cur}`, token: null, message: `Engine state changed to ${cur}` }];
+      }
+      return [];
+    }
+    case 'DAILY_PNL_BELOW': {
+      if (rule.threshold === null || snap.dailyPnl === null) return [];
+      if (snap.dailyPnl >= rule.threshold) return [];
+      return [{ key: rule.id, token: null, message: `Daily P&L ${Math.round(snap.dailyPnl)} below ${rule.threshold}` }];
+    }
+    case 'TRADE_REJECT': {
+      if (!mem.seenRejects) return [];
+      return snap.trades
+        .filter((t) => isReject(t.status) && !mem.seenRejects?.[t.tradeId])
+        .map((t) => ({
+          key: `${rule.id}:${t.tradeId}`,
+          token: Number(t.instrument_token) || null,
+          message: `Trade rejected: ${t.instrument?.tradingsymbol || t.instrument_token}${t.closeReason ? ` (${t.closeReason})` : ''}`,
+        }));
+    }
+    default:
+      return [];
+  }
+}
+
+export function evaluateAlertRules(
+  rules: AlertRule[],
+  snap: AlertSnapshot,
+  mem: AlertMemory,
+): { fired: AlertFire[]; memory: AlertMemory } {
+  const fired: AlertFire[] = [];
+  const active: Record<string, boolean> = {};
+  const lastFired = { ...mem.lastFired };
+
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+    for (const hit of ruleHits(rule, snap, mem)) {
+      active[hit.key] = true;
+      if (mem.active[hit.key]) continue;
+      const last = lastFired[hit.key];
+      if (last !== undefined && snap.nowMs - last < rule.cooldownSec * 1000) continue;
+      lastFired[hit.key] = snap.nowMs;
+      fired.push({
+        id: `${hit.key}@${snap.nowMs}`,
+        ruleId: rule.id,
+        ruleName: rule.name,
+        message: hit.message,
+        actions: rule.actions,
+        sound: rule.sound,
+        token: hit.token,
+        firedAt: snap.nowMs,
+      });
+    }
+  }
+
+  // Rejects already in the first loaded snapshot are history, not news.
+  let seenRejects = mem.seenRejects;
+  if (snap.tradesLoaded) {
+    seenRejects = { ...(seenRejects || {}) };
+    for (const t of snap.trades) if (isReject(t.status)) seenRejects[t.tradeId] = true;
+  }
+
+  const prevLtp = { ...mem.prevLtp };
+  for (const [tok, ltp] of Object.entries(snap.ltpByToken)) {
+    if (Number.isFinite(ltp)) prevLtp[Number(tok)] = ltp;
+  }
+
+  return {
+    fired,
+    memory: {
+      active,
+      lastFired,
+      prevLtp,
+      prevState: snap.state ?? mem.prevState,
+      seenRejects,
+    },
+  };
+}
+
+/**
+ * Re-evaluates on every snapshot change and hands new fires to `onFire`. Memory starts over
+ * when `scope` (the backend being watched) changes, so another profile's history is not news.
+ */
+export function useAlertRuleEngine(
+  rules: AlertRule[],
+  snapshot: AlertSnapshot,
+  scope: string,
+  onFire: (fires: AlertFire[]) => void,
+) {
+  const memRef = React.useRef<AlertMemory>(initAlertMemory());
+  const scopeRef = React.useRef(scope);
+  const onFireRef = React.useRef(onFire);
+  onFireRef.current = onFire;
+
+  React.useEffect(() => {
+    if (scopeRef.current !== scope) {
+      scopeRef.current = scope;
+      memRef.current = initAlertMemory();
+    }
+    const { fired, memory } = evaluateAlertRules(rules, snapshot, memRef.current);
+    memRef.current = memory;
+    if (fired.length) onFireRef.current(fired);
+  }, [rules, snapshot, scope]);
+}
@@ -0,0 +1,20 @@
+import { createAnalyticsHost } from './analyticsHost';
+import type { AnalyticsReply, AnalyticsRequest } from './analyticsProtocol';
+
+// The project compiles against the DOM lib, so type the worker scope by hand.
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<AnalyticsRequest>) => void) | null;
+  postMessage: (reply: AnalyticsReply) => void;
+};
+
+const host = createAnalyticsHost();
+
+scope.onmessage = (event) => {
+  const req = event.data;
+  try {
+    const reply = host.handle(req);
+    if (reply) scope.postMessage(reply);
+  } catch (err) {
+    if ('id' in req) scope.postMessage({ type: 'error', id: req.id, message: String((err as Error)?.message || err) });
+  }
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { CandleRow } from '../types/backend';
+import { requestChartFrame, requestTruthReport } from './analyticsClient';
+import type { ChartFrame, ChartFrameInput } from './analyticsProtocol';
+import { normalizeChargesConfig } from './charges';
+import { sessionTrades } from '../test/fixtures/trades';
+
+const OPEN_MS = Date.parse('2026-02-03T09:15:00+05:30');
+
+function input(n: number): ChartFrameInput {
+  const candles: CandleRow[] = Array.from({ length: n }, (_, i) => ({
+    instrument_token: 256265,
+    interval_min: 1,
+    ts: new Date(OPEN_MS + i * 60_000).toISOString(),
+    open: 100,
+    high: 101,
+    low: 99,
+    close: 100.5,
+  }));
+  return { candles, intervalMin: 1, nowMs: null, chartType: 'candles', ticksPerBar: 1 };
+}
+
+// jsdom has no Worker, so these run against the in-thread fallback, which replies asynchronously too.
+describe('analytics client', () => {
+  it('collapses inputs that arrive while a request is in flight into one follow-up', async () => {
+    const frames: ChartFrame[] = [];
+    const onFrame = (frame: ChartFrame) => frames.push(frame);
+    requestChartFrame('coalesce', input(3), onFrame);
+    requestChartFrame('coalesce', input(4), onFrame);
+    requestChartFrame('coalesce', input(5), onFrame);
+
+    await vi.waitFor(() => expect(frames.map((f) => f.bars.length)).toEqual([3, 5]));
+  });
+
+  it('delivers truth reports for a trade range', async () => {
+    const onReport = vi.fn();
+    requestTruthReport(
+      'range',
+      {
+        trades: sessionTrades,
+        window: { start: null, end: null },
+        basis: 'gross',
+        charges: normalizeChargesConfig(null),
+        breakdown: 'strategy',
+        eodOk: false,
+      },
+      onReport,
+    );
+
+    await vi.waitFor(() => expect(onReport).toHaveBeenCalledTimes(1));
+    expect(onReport.mock.lastCall?.[0]).toMatchObject({ stats: { total: 5, closed: 3 }, summary: { pnl: 975 } });
+  });
+});
@@ -0,0 +1,265 @@
+import { useEffect, useId, useState } from 'react';
+import type { CandleRow, TradeRow } from '../types/backend';
+import { createAnalyticsHost } from './analyticsHost';
+import type { Tick } from './ticks';
+import {
+  diffCandles,
+  diffTicks,
+  diffTrades,
+  EMPTY_CHART_FRAME,
+  type AnalyticsReply,
+  type AnalyticsRequest,
+  type ChartFrame,
+  type ChartFrameInput,
+  type TruthInput,
+} from './analyticsProtocol';
+import type { TruthReport } from './tradeAnalytics';
+
+/**
+ * UI side of the analytics worker. Each chart and report is a channel with at most one
+ * request in flight; inputs that arrive meanwhile collapse into one follow-up request, so a
+ * burst of LTP ticks or trade polls never queues up behind a slow computation.
+ */
+
+type Channel = {
+  key: string;
+  busy: boolean;
+  queued: boolean;
+  /** Builds the next request from the latest input, diffed against what this channel sent. */
+  build: (id: number) => AnalyticsRequest;
+  /** Forgets what was sent, so the next request carries everything. */
+  reset: () => void;
+  deliver: (reply: AnalyticsReply) => void;
+};
+
+type Transport = { post: (req: AnalyticsRequest) => void };
+
+export type TruthRequestInput = Omit<TruthInput, 'nowMs'>;
+
+let transport: Transport | null = null;
+const channels = new Map<string, Channel>();
+const inFlight = new Map<number, Channel>();
+let nextId = 1;
+
+function localTransport(): Transport {
+  const host = createAnalyticsHost();
+  return {
+    post: (req) => {
+      // Stay asynchronous like the worker, so callers see one behaviour either way.
+      void Promise.resolve().then(() => {
+        let reply: AnalyticsReply | null;
+        try {
+          reply = host.handle(req);
+        } catch (err) {
+          reply = 'id' in req ? { type: 'error', id: req.id, message: String((err as Error)?.message || err) } : null;
+        }
+        if (reply) onReply(reply);
+      });
+    },
+  };
+}
+
+function workerTransport(): Transport | null {
+  if (typeof Worker === 'undefined') return null;
+  try {
+    const worker = new Worker(new URL('./analytics.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<AnalyticsReply>) => onReply(event.data);
+    // A worker that fails to load or crashes hands its channels to the in-thread host.
+    worker.onerror = (event) => {
+      event.preventDefault();
+      worker.terminate();
+      fallBackToLocal();
+    };
+    return { post: (req) => worker.postMessage(req) };
+  } catch {
+    return null;
+  }
+}
+
+function getTransport(): Transport {
+  if (!transport) transport = workerTransport() ?? localTransport();
+  return transport;
+}
+
+function fallBackToLocal() {
+  transport = localTransport();
+  inFlight.clear();
+  for (const channel of channels.values()) {
+    channel.reset();
+    channel.busy = false;
+    channel.queued = false;
+    pump(channel);
+  }
+}
+
+function pump(channel: Channel) {
+  if (channel.busy) {
+    channel.queued = true;
+    return;
+  }
+  channel.busy = true;
+  channel.queued = false;
+  const id = nextId++;
+  inFlight.set(id, channel);
+  getTransport().post(channel.build(id));
+}
+
+function onReply(reply: AnalyticsReply) {
+  const channel = inFlight.get(reply.id);
+  inFlight.delete(reply.id);
+  // Replies for a channel disposed since (an unmounted chart) are dropped.
+  if (!channel || channels.get(channel.key) !== channel) return;
+  channel.busy = false;
+  if (reply.type === 'error') {
+    // The host may have applied part of the delta; resend everything next time.
+    channel.reset();
+  } else {
+    channel.deliver(reply);
+  }
+  if (channel.queued) pump(channel);
+}
+
+function chartChannel(chart: string) {
+  let input: ChartFrameInput | null = null;
+  let onFrame: (frame: ChartFrame) => void = () => {};
+  let sent: CandleRow[] = [];
+  let sentTicks: Tick[] = [];
+  const channel: Channel = {
+    key: `chart:${chart}`,
+    busy: false,
+    queued: false,
+    build: (id) => {
+      const { candles, ticks, ...rest } = input!;
+      const req: AnalyticsRequest = {
+        type: 'chart',
+        id,
+        chart,
+        candles: diffCandles(sent, candles),
+        // Without ticks (other chart types) the host keeps what it holds.
+        ticks: ticks ? diffTicks(sentTicks, ticks) : undefined,
+        ...rest,
+      };
+      sent = candles;
+      if (ticks) sentTicks = ticks;
+      return req;
+    },
+    reset: () => {
+      sent = [];
+      sentTicks = [];
+    },
+    deliver: (reply) => {
+      if (reply.type === 'chart') onFrame(reply.frame);
+    },
+  };
+  const update = (next: ChartFrameInput, listener: (frame: ChartFrame) => void) => {
+    input = next;
+    onFrame = listener;
+    pump(channel);
+  };
+  return { channel, update };
+}
+
+function truthChannel(key: string) {
+  let input: TruthRequestInput | null = null;
+  let onReport: (report: TruthReport) => void = () => {};
+  const sent = new Map<string, TradeRow>();
+  const channel: Channel = {
+    key: `truth:${key}`,
+    busy: false,
+    queued: false,
+    build: (id) => {
+      const { trades, ...rest } = input!;
+      const req: AnalyticsRequest = { type: 'truth', id, key, trades: diffTrades(sent, trades), ...rest, nowMs: Date.now() };
+      sent.clear();
+      for (const row of trades) if (!sent.has(row.tradeId)) sent.set(row.tradeId, row);
+      return req;
+    },
+    reset: () => {
+      sent.clear();
+    },
+    deliver: (reply) => {
+      if (reply.type === 'truth') onReport(reply.report);
+    },
+  };
+  const update = (next: TruthRequestInput, listener: (report: TruthReport) => void) => {
+    input = next;
+    onReport = listener;
+    pump(channel);
+  };
+  return { channel, update };
+}
+
+const chartUpdaters = new Map<string, ReturnType<typeof chartChannel>['update']>();
+const truthUpdaters = new Map<string, ReturnType<typeof truthChannel>['update']>();
+
+/** Asks for a chart's frame; `onFrame` gets the result of this or a newer input. */
+export function requestChartFrame(chart: string, input: ChartFrameInput, onFrame: (frame: ChartFrame) => void) {
+  let update = chartUpdaters.get(chart);
+  if (!update) {
+    const created = chartChannel(chart);
+    channels.set(created.channel.key, created.channel);
+    chartUpdaters.set(chart, created.update);
+    update = created.update;
+  }
+  update(input, onFrame);
+}
+
+/** Drops a chart's candles and indicator state, here and in the worker. */
+export function disposeChartFrame(chart: string) {
+  if (!chartUpdaters.delete(chart)) return;
+  channels.delete(`chart:${chart}`);
+  getTransport().post({ type: 'disposeChart', chart });
+}
+
+export function requestTruthReport(key: string, input: TruthRequestInput, onReport: (report: TruthReport) => void) {
+  let update = truthUpdaters.get(key);
+  if (!update) {
+    const created = truthChannel(key);
+    channels.set(created.channel.key, created.channel);
+    truthUpdaters.set(key, created.update);
+    update = created.update;
+  }
+  update(input, onReport);
+}
+
+export function disposeTruthReport(key: string) {
+  if (!truthUpdaters.delete(key)) return;
+  channels.delete(`truth:${key}`);
+  getTransport().post({ type: 'disposeTruth', key });
+}
+
+/** The chart's bars and indicators, computed off the main thread; empty until the first reply. */
+export function useChartFrame(input: ChartFrameInput): ChartFrame {
+  const chart = useId();
+  const [frame, setFrame] = useState<ChartFrame>(EMPTY_CHART_FRAME);
+  const { candles, intervalMin, liveLtp, nowMs, chartType, boxSize, ticksPerBar, indicators } = input;
+  const ticks = chartType === 'ticks' ? input.ticks : undefined;
+
+  useEffect(() => () => disposeChartFrame(chart), [chart]);
+  useEffect(() => {
+    requestChartFrame(
+      chart,
+      { candles, intervalMin, liveLtp, nowMs, chartType, boxSize, ticks, ticksPerBar, indicators },
+      setFrame,
+    );
+  }, [chart, candles, intervalMin, liveLtp, nowMs, chartType, boxSize, ticks, ticksPerBar, indicators]);
+
+  return frame;
+}
+
+/**
+ * Truth Dashboard and EOD figures for a trade range, computed off the main thread. Null until
+ * the first reply; after that the last report stays up while a newer one is computed.
+ */
+export function useTruthReport(input: TruthRequestInput): TruthReport | null {
+  const key = useId();
+  const [report, setReport] = useState<TruthReport | null>(null);
+  const { trades, window, basis, charges, breakdown, eodOk } = input;
+
+  useEffect(() => () => disposeTruthReport(key), [key]);
+  useEffect(() => {
+    requestTruthReport(key, { trades, window, basis, charges, breakdown, eodOk }, setReport);
+  }, [key, trades, window, basis, charges, breakdown, eodOk]);
+
+  return report;
+}
@@ -0,0 +1,213 @@
+import { describe, expect, it } from 'vitest';
+import type { CandleRow, TradeRow } from '../types/backend';
+import { createAnalyticsHost } from './analyticsHost';
+import { diffCandles, diffTicks, diffTrades, type AnalyticsReply, type AnalyticsRequest, type ChartFrame } from './analyticsProtocol';
+import { normalizeChargesConfig, tradeCharges } from './charges';
+import { computeIndicators, toIndicatorBars, type IndicatorSpec } from './indicators';
+import { buildTruthReport, tradePnl, type TruthReport } from './tradeAnalytics';
+import { toLwCandles, toLwVolume } from './chartUtils';
+import { closedLoser, closedShort, closedWinner, openTrade, sessionTrades } from '../test/fixtures/trades';
+
+const OPEN_MS = Date.parse('2026-02-03T09:15:00+05:30');
+const INDICATORS: IndicatorSpec[] = [
+  { kind: 'EMA', period: 5 },
+  { kind: 'RSI', period: 3 },
+];
+
+function candles(n: number, offset = 0): CandleRow[] {
+  return Array.from({ length: n }, (_, i) => ({
+    instrument_token: 256265,
+    interval_min: 1,
+    ts: new Date(OPEN_MS + (i + offset) * 60_000).toISOString(),
+    open: 100 + i,
+    high: 102 + i,
+    low: 99 + i,
+    close: 101 + ((i * 7) % 5),
+    volume: 1000 + i,
+  }));
+}
+
+const CHARGES = normalizeChargesConfig(null);
+
+const truthOpts = {
+  window: { start: null, end: null },
+  breakdown: 'side',
+  nowMs: Date.parse('2026-02-03T15:30:00+05:30'),
+  eodOk: false,
+};
+
+function truthRequest(id: number, sent: Map<string, TradeRow>, trades: TradeRow[]): AnalyticsRequest {
+  const req: AnalyticsRequest = {
+    type: 'truth',
+    id,
+    key: 'main',
+    trades: diffTrades(sent, trades),
+    basis: 'gross',
+    charges: CHARGES,
+    ...truthOpts,
+  };
+  sent.clear();
+  for (const row of trades) sent.set(row.tradeId, row);
+  return req;
+}
+
+function report(reply: AnalyticsReply | null): TruthReport {
+  if (reply?.type !== 'truth') throw new Error(`expected a truth reply, got ${reply?.type}`);
+  return reply.report;
+}
+
+function frame(reply: AnalyticsReply | null): ChartFrame {
+  if (reply?.type !== 'chart') throw new Error(`expected a chart reply, got ${reply?.type}`);
+  return reply.frame;
+}
+
+function ticksFrom(start: number, n: number) {
+  return Array.from({ length: n }, (_, i) => ({ ts: OPEN_MS + (start + i) * 1000, price: 100 + ((start + i) % 7) }));
+}
+
+describe('trade, candle and tick deltas', () => {
+  it('sends only new or replaced trades, and ids that went away', () => {
+    const sent = new Map([closedWinner, closedLoser].map((t) => [t.tradeId, t] as const));
+    const amended = { ...closedLoser, exitPrice: 85 };
+    expect(diffTrades(sent, [amended, closedShort])).toEqual({
+      upserts: [amended, closedShort],
+      removed: [closedWinner.tradeId],
+      order: [closedLoser.tradeId, closedShort.tradeId],
+    });
+  });
+
+  it('sends candles from the first row that changed', () => {
+    const prev = candles(5);
+    const next = [...prev.slice(0, 4), { ...prev[4], close: 200 }, ...candles(1, 5)];
+    expect(diffCandles(prev, next)).toEqual({ from: 4, rows: next.slice(4) });
+    expect(diffCandles(prev, prev)).toEqual({ from: 5, rows: [] });
+    expect(diffCandles([], prev)).toEqual({ from: 0, rows: prev });
+  });
+
+  it('sends only new ticks when a full buffer slides', () => {
+    const all = ticksFrom(0, 8);
+    const prev = all.slice(0, 6);
+    expect(diffTicks(prev, all.slice(2))).toEqual({ drop: 2, rows: all.slice(6) });
+    expect(diffTicks(prev, all)).toEqual({ drop: 0, rows: all.slice(6) });
+    expect(diffTicks(prev, prev)).toEqual({ drop: 0, rows: [] });
+  });
+
+  it('resends every tick when the buffer was replaced', () => {
+    const prev = ticksFrom(0, 4);
+    const next = ticksFrom(0, 3);
+    expect(diffTicks(prev, next)).toEqual({ drop: null, rows: next });
+    expect(diffTicks(prev, [])).toEqual({ drop: null, rows: [] });
+    // A channel that was reset has sent nothing, while the host may still hold ticks.
+    expect(diffTicks([], next)).toEqual({ drop: null, rows: next });
+  });
+});
+
+describe('analytics host: truth report', () => {
+  const direct = (rows: TradeRow[]) => buildTruthReport(rows, tradePnl, (row) => tradeCharges(row, CHARGES), truthOpts);
+
+  it('matches a main-thread build across incremental updates', () => {
+    const host = createAnalyticsHost();
+    const sent = new Map<string, TradeRow>();
+
+    expect(report(host.handle(truthRequest(1, sent, sessionTrades)))).toEqual(direct(sessionTrades));
+
+    const closed = { ...openTrade, status: 'CLOSED', exitPrice: 110 };
+    const next = [closedWinner, closedLoser, closedShort, closed];
+    const req = truthRequest(2, sent, next);
+    expect(req.type === 'truth' && req.trades.upserts).toEqual([closed]);
+    expect(report(host.handle(req))).toEqual(direct(next));
+  });
+
+  it('groups the breakdown by the requested dimension', () => {
+    const host = createAnalyticsHost();
+    const { breakdown } = report(host.handle(truthRequest(1, new Map(), [closedWinner, closedShort])));
+    expect(breakdown.map((g) => [g.key, g.count])).toEqual([
+      ['BUY', 1],
+      ['SELL', 1],
+    ]);
+  });
+
+  it('forgets a disposed report', () => {
+    const host = createAnalyticsHost();
+    const sent = new Map<string, TradeRow>();
+    host.handle(truthRequest(1, sent, sessionTrades));
+    host.handle({ type: 'disposeTruth', key: 'main' });
+    // Only ids, no rows: a host that kept nothing has nothing to report.
+    expect(report(host.handle(truthRequest(2, sent, sessionTrades))).summary.count).toBe(0);
+  });
+});
+
+describe('analytics host: chart frames', () => {
+  const chartRequest = (id: number, delta: ReturnType<typeof diffCandles>, extra: Partial<AnalyticsRequest> = {}) =>
+    ({
+      type: 'chart',
+      id,
+      chart: 'c1',
+      candles: delta,
+      intervalMin: 1,
+      nowMs: null,
+      chartType: 'candles',
+      ticksPerBar: 1,
+      indicators: INDICATORS,
+      ...extra,
+    }) as AnalyticsRequest;
+
+  it('builds bars, volume and indicators from candle deltas', () => {
+    const host = createAnalyticsHost();
+    const first = candles(30);
+    host.handle(chartRequest(1, diffCandles([], first)));
+
+    const next = [...first, ...candles(2, 30)];
+    const out = frame(host.handle(chartRequest(2, diffCandles(first, next))));
+    const bars = toLwCandles(next);
+    expect(out.bars).toEqual(bars);
+    expect(out.volume).toEqual(toLwVolume(next));
+    expect(out.lastClose).toBe(bars[bars.length - 1].close);
+    expect(out.indicators).toEqual(computeIndicators(toIndicatorBars(bars, toLwVolume(next)), INDICATORS));
+  });
+
+  it('folds the live LTP into the forming bar', () => {
+    const host = createAnalyticsHost();
+    const rows = candles(10);
+    const nowMs = OPEN_MS + 9 * 60_000 + 30_000;
+    const out = frame(host.handle(chartRequest(1, diffCandles([], rows), { liveLtp: 150, nowMs })));
+    expect(out.bars[9]).toMatchObject({ close: 150, high: 150 });
+    expect(out.lastClose).toBe(150);
+  });
+
+  it('draws tick bars without volume for the ticks chart type', () => {
+    const host = createAnalyticsHost();
+    const ticks = [100, 101, 99, 102].map((price, i) => ({ ts: OPEN_MS + i * 1000, price }));
+    const out = frame(
+      host.handle(
+        chartRequest(1, diffCandles([], candles(3)), { chartType: 'ticks', ticks: diffTicks([], ticks), ticksPerBar: 2, indicators: [] }),
+      ),
+    );
+    expect(out.bars).toEqual([
+      { time: OPEN_MS / 1000, open: 100, high: 101, low: 100, close: 101 },
+      { time: OPEN_MS / 1000 + 2, open: 99, high: 102, low: 99, close: 102 },
+    ]);
+    expect(out.volume).toEqual([]);
+    expect(out.indicators).toEqual([]);
+  });
+
+  it('rebuilds tick bars from tick deltas', () => {
+    const host = createAnalyticsHost();
+    const rows = diffCandles([], candles(3));
+    const opts = { chartType: 'ticks' as const, ticksPerBar: 1, indicators: [] };
+    const first = ticksFrom(0, 5);
+    host.handle(chartRequest(1, rows, { ...opts, ticks: diffTicks([], first) }));
+    const slid = [...first.slice(2), ...ticksFrom(5, 2)];
+    const out = frame(host.handle(chartRequest(2, { from: 3, rows: [] }, { ...opts, ticks: diffTicks(first, slid) })));
+    expect(out.bars.map((b) => b.close)).toEqual(slid.map((t) => t.price));
+  });
+
+  it('starts over after a chart is disposed', () => {
+    const host = createAnalyticsHost();
+    const rows = candles(5);
+    host.handle(chartRequest(1, diffCandles([], rows)));
+    host.handle({ type: 'disposeChart', chart: 'c1' });
+    const out = frame(host.handle(chartRequest(2, diffCandles(rows, [...rows, ...candles(1, 5)]))));
+    expect(out.bars).toEqual(toLwCandles(candles(1, 5)));
+  });
+});
@@ -0,0 +1,107 @@
+import type { CandleRow, TradeRow } from '../types/backend';
+import { applyLiveLtpToCandles, toLwCandles, toLwVolume } from './chartUtils';
+import { netOf, tradeCharges } from './charges';
+import { createIndicatorEngine, toIndicatorBars, type IndicatorEngine } from './indicators';
+import type { Tick } from './ticks';
+import { isTimeBasedChart, tickBars, toChartBars } from './timeframes';
+import { buildTruthReport, tradePnl } from './tradeAnalytics';
+import {
+  applyCandleDelta,
+  applyTickDelta,
+  applyTradeDelta,
+  type AnalyticsReply,
+  type AnalyticsRequest,
+  type ChartFrame,
+  type ChartFrameInput,
+} from './analyticsProtocol';
+
+type ChartState = {
+  candles: CandleRow[];
+  ticks: Tick[];
+  engine: IndicatorEngine;
+};
+
+export type AnalyticsHost = {
+  handle: (req: AnalyticsRequest) => AnalyticsReply | null;
+};
+
+/**
+ * Bars, volume and indicators for one chart. The engine carries indicator state between
+ * calls, so a tick that only moves the forming bar costs one step per indicator.
+ */
+export function buildChartFrame(input: ChartFrameInput, engine: IndicatorEngine): ChartFrame {
+  const lwCandles = toLwCandles(input.candles);
+  const liveCandles = applyLiveLtpToCandles(lwCandles, input.intervalMin, input.liveLtp, input.nowMs);
+  let volume = toLwVolume(input.candles);
+  const lastLive = liveCandles.length ? liveCandles[liveCandles.length - 1] : null;
+  if (lastLive) {
+    const lastVol = volume[volume.length - 1];
+    if (!lastVol || lastVol.time !== lastLive.time) {
+      volume = [...volume, { time: lastLive.time, value: lastVol?.value ?? 0 }];
+    }
+  }
+  const bars =
+    input.chartType === 'ticks'
+      ? tickBars(input.ticks || [], input.ticksPerBar)
+      : toChartBars(liveCandles, input.chartType, input.boxSize);
+  // Volume only lines up with time buckets; Renko/range bars have no meaningful volume column.
+  const chartVol = isTimeBasedChart(input.chartType) ? volume : [];
+  return {
+    bars,
+    volume: chartVol,
+    lastClose: lastLive ? lastLive.close : null,
+    indicators: input.indicators?.length ? engine.update(toIndicatorBars(bars, chartVol), input.indicators) : [],
+  };
+}
+
+/**
+ * Request handler behind the analytics worker, holding the candles and trades each chart
+ * and report was last sent. Runs in the worker, or in-thread where workers are unavailable.
+ */
+export function createAnalyticsHost(): AnalyticsHost {
+  const charts = new Map<string, ChartState>();
+  const tradeSets = new Map<string, Map<string, TradeRow>>();
+
+  const handle = (req: AnalyticsRequest): AnalyticsReply | null => {
+    switch (req.type) {
+      case 'chart': {
+        let state = charts.get(req.chart);
+        if (!state) {
+          state = { candles: [], ticks: [], engine: createIndicatorEngine() };
+          charts.set(req.chart, state);
+        }
+        state.candles = applyCandleDelta(state.candles, req.candles);
+        if (req.ticks) state.ticks = applyTickDelta(state.ticks, req.ticks);
+        const { type: _type, id, chart, candles: _delta, ticks: _ticks, ...input } = req;
+        const frame = buildChartFrame({ ...input, candles: state.candles, ticks: state.ticks }, state.engine);
+        return { type: 'chart', id, chart, frame };
+      }
+      case 'disposeChart':
+        charts.delete(req.chart);
+        return null;
+      case 'truth': {
+        let held = tradeSets.get(req.key);
+        if (!held) {
+          held = new Map();
+          tradeSets.set(req.key, held);
+        }
+        const rows = applyTradeDelta(held, req.trades);
+        const chargesOf = (row: TradeRow) => tradeCharges(row, req.charges);
+        const pnlOf = (row: TradeRow) =>
+          req.basis === 'net' ? netOf(tradePnl(row), chargesOf(row)) : tradePnl(row);
+        const report = buildTruthReport(rows, pnlOf, chargesOf, {
+          window: req.window,
+          breakdown: req.breakdown,
+          nowMs: req.nowMs,
+          eodOk: req.eodOk,
+        });
+        return { type: 'truth', id: req.id, key: req.key, report };
+      }
+      case 'disposeTruth':
+        tradeSets.delete(req.key);
+        return null;
+    }
+  };
+
+  return { handle };
+}
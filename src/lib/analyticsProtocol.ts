@@ -0,0 +1,133 @@
+import type { CandleRow, TradeRow } from '../types/backend';
+import type { LwCandle, LwVolume } from './chartUtils';
+import type { ChargesConfig, PnlBasis } from './charges';
+import type { IndicatorSeries, IndicatorSpec } from './indicators';
+import type { ChartType } from './timeframes';
+import type { Tick } from './ticks';
+import type { TruthReport, TruthReportOptions } from './tradeAnalytics';
+
+/**
+ * Messages between the UI and the analytics worker. The worker keeps the last trades and
+ * candles it was sent per key, so each request carries only what changed since then.
+ */
+
+/**
+ * Trades added or replaced since the last request (matched by `tradeId`), ids no longer in
+ * the set, and the full id order (cheap next to the rows, and grouping follows it).
+ */
+export type TradeDelta = { upserts: TradeRow[]; removed: string[]; order: string[] };
+
+/** Candle rows from index `from` onwards; everything before it is unchanged. */
+export type CandleDelta = { from: number; rows: CandleRow[] };
+
+/**
+ * Ticks to append after dropping the oldest `drop` held ones (the tick buffer only appends
+ * and evicts from the front); `drop: null` replaces whatever is held.
+ */
+export type TickDelta = { drop: number | null; rows: Tick[] };
+
+export type ChartFrameInput = {
+  candles: CandleRow[];
+  intervalMin: number;
+  liveLtp?: number;
+  nowMs: number | null;
+  chartType: ChartType;
+  boxSize?: number;
+  /** Only read by the "ticks" chart type. */
+  ticks?: Tick[];
+  ticksPerBar: number;
+  indicators?: IndicatorSpec[];
+};
+
+/** What a chart draws: bars for its chart type, volume, the live bar's close and indicators. */
+export type ChartFrame = {
+  bars: LwCandle[];
+  volume: LwVolume[];
+  lastClose: number | null;
+  indicators: IndicatorSeries[];
+};
+
+export type TruthInput = TruthReportOptions & {
+  trades: TradeRow[];
+  basis: PnlBasis;
+  charges: ChargesConfig;
+};
+
+export type AnalyticsRequest =
+  | ({ type: 'chart'; id: number; chart: string; candles: CandleDelta; ticks?: TickDelta } & Omit<
+      ChartFrameInput,
+      'candles' | 'ticks'
+    >)
+  | { type: 'disposeChart'; chart: string }
+  | ({ type: 'truth'; id: number; key: string; trades: TradeDelta } & Omit<TruthInput, 'trades'>)
+  | { type: 'disposeTruth'; key: string };
+
+export type AnalyticsReply =
+  | { type: 'chart'; id: number; chart: string; frame: ChartFrame }
+  | { type: 'truth'; id: number; key: string; report: TruthReport }
+  | { type: 'error'; id: number; message: string };
+
+export const EMPTY_CHART_FRAME: ChartFrame = { bars: [], volume: [], lastClose: null, indicators: [] };
+
+/**
+ * Rows are compared by reference: react-query's structural sharing hands back the same
+ * object for a trade that didn't change, so a 2s poll of 10k trades sends a handful.
+ */
+export function diffTrades(sent: Map<string, TradeRow>, next: TradeRow[]): TradeDelta {
+  const upserts: TradeRow[] = [];
+  const order: string[] = [];
+  const seen = new Set<string>();
+  for (const row of next) {
+    order.push(row.tradeId);
+    if (seen.has(row.tradeId)) continue;
+    seen.add(row.tradeId);
+    if (sent.get(row.tradeId) !== row) upserts.push(row);
+  }
+  const removed: string[] = [];
+  for (const id of sent.keys()) {
+    if (!seen.has(id)) removed.push(id);
+  }
+  return { upserts, removed, order };
+}
+
+export function applyTradeDelta(held: Map<string, TradeRow>, delta: TradeDelta): TradeRow[] {
+  for (const id of delta.removed) held.delete(id);
+  for (const row of delta.upserts) held.set(row.tradeId, row);
+  const rows: TradeRow[] = [];
+  for (const id of delta.order) {
+    const row = held.get(id);
+    if (row) rows.push(row);
+  }
+  return rows;
+}
+
+/** First index where `next` stops sharing rows with `prev`, and the rows from there. */
+export function diffCandles(prev: CandleRow[], next: CandleRow[]): CandleDelta {
+  const max = Math.min(prev.length, next.length);
+  let from = 0;
+  while (from < max && prev[from] === next[from]) from += 1;
+  return { from, rows: next.slice(from) };
+}
+
+export function applyCandleDelta(held: CandleRow[], delta: CandleDelta): CandleRow[] {
+  return held.slice(0, delta.from).concat(delta.rows);
+}
+
+/**
+ * Ticks are compared by reference too: buffer snapshots share tick objects, so a full buffer
+ * that slid by a few ticks sends just those. Anything else (a cleared buffer, another token)
+ * drops everything held and resends.
+ */
+export function diffTicks(prev: Tick[], next: Tick[]): TickDelta {
+  const drop = next.length ? prev.indexOf(next[0]) : -1;
+  const kept = prev.length - drop;
+  if (drop < 0 || kept > next.length) return { drop: null, rows: next };
+  for (let i = 0; i < kept; i += 1) {
+    if (prev[drop + i] !== next[i]) return { drop: null, rows: next };
+  }
+  return { drop, rows: next.slice(kept) };
+}
+
+export function applyTickDelta(held: Tick[], delta: TickDelta): Tick[] {
+  return delta.drop === null ? delta.rows : held.slice(delta.drop).concat(delta.rows);
+}
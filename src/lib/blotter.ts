@@ -0,0 +1,350 @@
+import type { TradeRow } from '../types/backend';
+import type { TradeCharges } from './charges';
+import { formatPrettyInstrumentFromTrade } from './instrumentFormat';
+import { istDateKey } from './replay';
+
+export type BlotterColumnKey =
+  | 'time'
+  | 'symbol'
+  | 'side'
+  | 'qty'
+  | 'entry'
+  | 'exit'
+  | 'status'
+  | 'pnl'
+  | 'greeks'
+  | 'strategy'
+  | 'r'
+  | 'hold'
+  | 'slippage'
+  | 'fees'
+  | 'regime'
+  | 'closeReason'
+  | 'mae'
+  | 'mfe'
+  | 'tradeId';
+
+export type SortDir = 'asc' | 'desc';
+export type BlotterSort = { key: BlotterColumnKey; dir: SortDir } | null;
+export type BlotterGroupBy = 'none' | 'day' | 'strategy' | 'instrument';
+
+/** Column order, widths, sort and grouping; saved with the dashboard layout. */
+export type BlotterLayout = {
+  columns: BlotterColumnKey[];
+  widths: Partial<Record<BlotterColumnKey, number>>;
+  sort: BlotterSort;
+  groupBy: BlotterGroupBy;
+};
+
+export type BlotterColumn = {
+  key: BlotterColumnKey;
+  label: string;
+  title?: string;
+  width: number;
+  numeric?: boolean;
+};
+
+export const BLOTTER_COLUMNS: BlotterColumn[] = [
+  { key: 'time', label: 'Time', width: 118 },
+  { key: 'symbol', label: 'Symbol', width: 150 },
+  { key: 'side', label: 'Side', width: 56 },
+  { key: 'qty', label: 'Qty', width: 56, numeric: true },
+  { key: 'entry', label: 'Entry', width: 72, numeric: true },
+  { key: 'exit', label: 'Exit', width: 72, numeric: true },
+  { key: 'status', label: 'Status', width: 90 },
+  { key: 'pnl', label: 'P&L', width: 86, numeric: true },
+  { key: 'greeks', label: 'IV / Δ', title: 'Live Black-Scholes IV and delta for open option trades', width: 96 },
+  { key: 'strategy', label: 'Strategy', width: 110 },
+  { key: 'r', label: 'R', title: 'P&L over initial risk (entry to stop)', width: 56, numeric: true },
+  { key: 'hold', label: 'Hold', title: 'Minutes from open to last update', width: 64, numeric: true },
+  { key: 'slippage', label: 'Slippage', width: 72, numeric: true },
+  { key: 'fees', label: 'Fees', title: 'Modelled charges for the round trip', width: 72, numeric: true },
+  { key: 'regime', label: 'Regime', width: 90 },
+  { key: 'closeReason', label: 'Close reason', width: 110 },
+  { key: 'mae', label: 'MAE', width: 60, numeric: true },
+  { key: 'mfe', label: 'MFE', width: 60, numeric: true },
+  { key: 'tradeId', label: 'Trade id', width: 120 },
+];
+
+const COLUMN_KEYS = new Set<string>(BLOTTER_COLUMNS.map((c) => c.key));
+export const MIN_COLUMN_WIDTH = 40;
+const MAX_COLUMN_WIDTH = 480;
+
+export const BLOTTER_GROUPS: Array<{ key: BlotterGroupBy; label: string }> = [
+  { key: 'none', label: 'No grouping' },
+  { key: 'day', label: 'Day' },
+  { key: 'strategy', label: 'Strategy' },
+  { key: 'instrument', label: 'Instrument' },
+];
+
+export function defaultBlotterLayout(): BlotterLayout {
+  return {
+    columns: ['time', 'symbol', 'side', 'qty', 'entry', 'exit', 'status', 'pnl', 'greeks'],
+    widths: {},
+    sort: null,
+    groupBy: 'none',
+  };
+}
+
+export function normalizeBlotterLayout(raw: any): BlotterLayout {
+  const base = defaultBlotterLayout();
+  if (!raw || typeof raw !== 'object') return base;
+  const columns = Array.isArray(raw.columns)
+    ? Array.from(new Set(raw.columns.filter((k: unknown) => typeof k === 'string' && COLUMN_KEYS.has(k))))
+    : [];
+  const widths: BlotterLayout['widths'] = {};
+  for (const [k, v] of Object.entries(raw.widths && typeof raw.widths === 'object' ? raw.widths : {})) {
+    const w = Math.round(Number(v));
+    if (COLUMN_KEYS.has(k) && Number.isFinite(w)) {
+      widths[k as BlotterColumnKey] = Math.max(MIN_COLUMN_WIDTH, Math.min(MAX_COLUMN_WIDTH, w));
+    }
+  }
+  const sortKey = raw.sort?.key;
+  return {
+    columns: columns.length ? (columns as BlotterColumnKey[]) : base.columns,
+    widths,
+    sort:
+      typeof sortKey === 'string' && COLUMN_KEYS.has(sortKey)
+        ? { key: sortKey as BlotterColumnKey, dir: raw.sort.dir === 'asc' ? 'asc' : 'desc' }
+        : null,
+    groupBy: BLOTTER_GROUPS.some((g) => g.key === raw.groupBy) ? raw.groupBy : base.groupBy,
+  };
+}
+
+export function columnWidth(layout: BlotterLayout, key: BlotterColumnKey): number {
+  return layout.widths[key] ?? BLOTTER_COLUMNS.find((c) => c.key === key)?.width ?? 80;
+}
+
+/** Moves `key` to sit just before `before` (or to the end when `before` is null). */
+export function moveColumn(
+  columns: BlotterColumnKey[],
+  key: BlotterColumnKey,
+  before: BlotterColumnKey | null,
+): BlotterColumnKey[] {
+  if (key === before) return columns;
+  const rest = columns.filter((c) => c !== key);
+  const idx = before ? rest.indexOf(before) : -1;
+  if (idx === -1) return [...rest, key];
+  return [...rest.slice(0, idx), key, ...rest.slice(idx)];
+}
+
+/** Per-row accessors the App computes (P&L basis, charges, R, hold time). */
+export type BlotterContext = {
+  labelOf: (t: TradeRow) => string;
+  pnlOf: (t: TradeRow) => number | null;
+  chargesOf?: (t: TradeRow) => TradeCharges | null;
+  rOf?: (t: TradeRow) => number | null;
+  holdMinOf?: (t: TradeRow) => number | null;
+  ivOf?: (t: TradeRow) => number | null;
+};
+
+function num(v: unknown): number | null {
+  if (v === null || v === undefined || v === '') return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+export function tradeTimeMs(t: TradeRow): number {
+  const ms = new Date(t.updatedAt || t.createdAt || '').getTime();
+  return Number.isFinite(ms) ? ms : NaN;
+}
+
+export function tradeSlippage(t: TradeRow): number | null {
+  const total = num(t.slippage);
+  if (total !== null) return total;
+  const entry = num(t.entrySlippage);
+  const exit = num(t.exitSlippage);
+  if (entry === null && exit === null) return null;
+  return (entry ?? 0) + (exit ?? 0);
+}
+
+/** The value a column sorts and groups by; formatting is the component's job. */
+export function blotterValue(t: TradeRow, key: BlotterColumnKey, ctx: BlotterContext): string | number | null {
+  switch (key) {
+    case 'time': {
+      const ms = tradeTimeMs(t);
+      return Number.isFinite(ms) ? ms : null;
+    }
+    case 'symbol':
+      return ctx.labelOf(t);
+    case 'side':
+      return t.side || null;
+    case 'qty':
+      return num(t.qty);
+    case 'entry':
+      return num(t.entryPrice);
+    case 'exit':
+      return num(t.exitPrice);
+    case 'status':
+      return t.status || null;
+    case 'pnl':
+      return ctx.pnlOf(t);
+    case 'greeks':
+      return ctx.ivOf?.(t) ?? null;
+    case 'strategy':
+      return t.strategyId || null;
+    case 'r':
+      return ctx.rOf?.(t) ?? null;
+    case 'hold':
+      return ctx.holdMinOf?.(t) ?? null;
+    case 'slippage':
+      return tradeSlippage(t);
+    case 'fees':
+      return ctx.chargesOf?.(t)?.total ?? null;
+    case 'regime':
+      return t.regimeTag ? String(t.regimeTag).toUpperCase() : null;
+    case 'closeReason':
+      return t.closeReason || null;
+    case 'mae':
+      return num(t.mae);
+    case 'mfe':
+      return num(t.mfe);
+    case 'tradeId':
+      return t.tradeId;
+  }
+}
+
+export type BlotterFilters = {
+  query: string;
+  status: 'ALL' | 'OPEN' | 'CLOSED' | 'REJECT';
+  side: 'ALL' | 'BUY' | 'SELL';
+  pnl: 'ALL' | 'WIN' | 'LOSS';
+  /** IST dates, `YYYY-MM-DD`, inclusive; empty for open-ended. */
+  from: string;
+  to: string;
+};
+
+export const DEFAULT_BLOTTER_FILTERS: BlotterFilters = {
+  query: '',
+  status: 'ALL',
+  side: 'ALL',
+  pnl: 'ALL',
+  from: '',
+  to: '',
+};
+
+export function isOpenStatus(status?: string) {
+  const s = (status || '').toUpperCase();
+  return s.includes('OPEN') || s.includes('ACTIVE');
+}
+
+export function isClosedStatus(status?: string) {
+  const s = (status || '').toUpperCase();
+  return s.includes('CLOSED') || s.includes('DONE') || s.includes('EXIT');
+}
+
+export function isRejectStatus(status?: string) {
+  const s = (status || '').toUpperCase();
+  return s.includes('REJECT') || s.includes('CANCEL') || s.includes('FAIL');
+}
+
+export function filterBlotterTrades(trades: TradeRow[], f: BlotterFilters, ctx: BlotterContext): TradeRow[] {
+  const q = f.query.trim().toLowerCase();
+  return (trades || []).filter((t) => {
+    if (f.status === 'OPEN' && !isOpenStatus(t.status)) return false;
+    if (f.status === 'CLOSED' && !isClosedStatus(t.status)) return false;
+    if (f.status === 'REJECT' && !isRejectStatus(t.status)) return false;
+    if (f.side !== 'ALL' && (t.side || '').toUpperCase() !== f.side) return false;
+    if (f.pnl !== 'ALL') {
+      const pnl = ctx.pnlOf(t);
+      if (pnl === null || (f.pnl === 'WIN' ? pnl < 0 : pnl >= 0)) return false;
+    }
+    if (f.from || f.to) {
+      const ms = tradeTimeMs(t);
+      if (!Number.isFinite(ms)) return false;
+      const day = istDateKey(ms);
+      if (f.from && day < f.from) return false;
+      if (f.to && day > f.to) return false;
+    }
+
+    if (!q) return true;
+    return [
+      t.instrument_token,
+      t.instrument?.tradingsymbol,
+      formatPrettyInstrumentFromTrade(t),
+      t.strategyId,
+      t.tradeId,
+      t.side,
+      t.closeReason,
+      t.status,
+    ].some((v) => String(v ?? '').toLowerCase().includes(q));
+  });
+}
+
+/** Stable sort; rows with no value for the column always go last. Unsorted means newest first. */
+export function sortBlotterTrades(trades: TradeRow[], sort: BlotterSort, ctx: BlotterContext): TradeRow[] {
+  const key = sort?.key ?? 'time';
+  const dir = sort ? (sort.dir === 'asc' ? 1 : -1) : -1;
+  return trades
+    .map((t, i) => ({ t, i, v: blotterValue(t, key, ctx) }))
+    .sort((a, b) => {
+      if (a.v === null || b.v === null) return a.v === b.v ? a.i - b.i : a.v === null ? 1 : -1;
+      const cmp =
+        typeof a.v === 'number' && typeof b.v === 'number' ? a.v - b.v : String(a.v).localeCompare(String(b.v));
+      return cmp ? cmp * dir : a.i - b.i;
+    })
+    .map((x) => x.t);
+}
+
+export type BlotterGroup = {
+  key: string;
+  label: string;
+  count: number;
+  pnl: number;
+  fees: number;
+  wins: number;
+  closed: number;
+};
+
+export type BlotterItem =
+  | { kind: 'group'; group: BlotterGroup; collapsed: boolean }
+  | { kind: 'trade'; trade: TradeRow };
+
+function groupKeyOf(t: TradeRow, groupBy: BlotterGroupBy, ctx: BlotterContext): string {
+  if (groupBy === 'day') {
+    const ms = tradeTimeMs(t);
+    return Number.isFinite(ms) ? istDateKey(ms) : 'Unknown day';
+  }
+  if (groupBy === 'strategy') return t.strategyId || 'unassigned';
+  return ctx.labelOf(t);
+}
+
+/**
+ * Flattens sorted trades into the rows the virtual list renders: one header per group
+ * (with subtotals) followed by its trades unless collapsed. Groups keep the order in which
+ * their first trade appears, so the active sort decides group order too.
+ */
+export function buildBlotterItems(
+  trades: TradeRow[],
+  groupBy: BlotterGroupBy,
+  ctx: BlotterContext,
+  collapsed: Set<string>,
+): BlotterItem[] {
+  if (groupBy === 'none') return trades.map((trade) => ({ kind: 'trade', trade }));
+  const groups = new Map<string, { group: BlotterGroup; trades: TradeRow[] }>();
+  for (const t of trades) {
+    const key = groupKeyOf(t, groupBy, ctx);
+    let entry = groups.get(key);
+    if (!entry) {
+      entry = { group: { key, label: key, count: 0, pnl: 0, fees: 0, wins: 0, closed: 0 }, trades: [] };
+      groups.set(key, entry);
+    }
+    entry.trades.push(t);
+    const g = entry.group;
+    g.count += 1;
+    const pnl = ctx.pnlOf(t);
+    if (pnl !== null && Number.isFinite(pnl)) {
+      g.pnl += pnl;
+      g.closed += 1;
+      if (pnl >= 0) g.wins += 1;
+    }
+    g.fees += ctx.chargesOf?.(t)?.total ?? 0;
+  }
+  const out: BlotterItem[] = [];
+  for (const { group, trades: rows } of groups.values()) {
+    const isCollapsed = collapsed.has(group.key);
+    out.push({ kind: 'group', group, collapsed: isCollapsed });
+    if (!isCollapsed) rows.forEach((trade) => out.push({ kind: 'trade', trade }));
+  }
+  return out;
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { CHARGE_SEGMENTS, netOf, tradeCharges, type ChargesConfig, type SegmentCharges, type TradeCharges } from './charges';
+import { closedShort, closedWinner, openTrade } from '../test/fixtures/trades';
+import type { TradeRow } from '../types/backend';
+
+const ZERO: SegmentCharges = {
+  brokeragePerOrder: 0,
+  brokeragePct: null,
+  sttSellPct: 0,
+  exchangeTxnPct: 0,
+  sebiPerCrore: 0,
+  stampBuyPct: 0,
+  gstPct: 0,
+};
+
+/** Every segment at zero except the given rates, so each case isolates one charge. */
+function rates(overrides: Partial<SegmentCharges>): ChargesConfig {
+  const out = {} as ChargesConfig;
+  for (const { key } of CHARGE_SEGMENTS) out[key] = { ...ZERO, ...overrides };
+  return out;
+}
+
+// closedWinner: BUY 75 @ 120 -> 135, buy turnover 9000, sell turnover 10125.
+// closedShort: SELL 75 @ 140 -> 130, buy turnover 9750, sell turnover 10500.
+const CASES: Array<[string, TradeRow, Partial<SegmentCharges>, keyof TradeCharges, number]> = [
+  ['STT on the exit of a long', closedWinner, { sttSellPct: 1 }, 'stt', 101.25],
+  ['STT on the entry of a short', closedShort, { sttSellPct: 1 }, 'stt', 105],
+  ['stamp duty on the entry of a long', closedWinner, { stampBuyPct: 1 }, 'stamp', 90],
+  ['stamp duty on the exit of a short', closedShort, { stampBuyPct: 1 }, 'stamp', 97.5],
+  ['exchange charges on both legs', closedWinner, { exchangeTxnPct: 0.1 }, 'exchange', 19.125],
+  ['SEBI fee per crore of turnover', closedWinner, { sebiPerCrore: 10_000 }, 'sebi', 19.125],
+  ['flat brokerage per order', closedWinner, { brokeragePerOrder: 20 }, 'brokerage', 40],
+  ['percentage brokerage under the cap', closedWinner, { brokeragePerOrder: 20, brokeragePct: 0.1 }, 'brokerage', 19.125],
+  ['percentage brokerage capped per order', closedWinner, { brokeragePerOrder: 20, brokeragePct: 0.2 }, 'brokerage', 38],
+  [
+    'GST on brokerage, exchange and SEBI only',
+    closedWinner,
+    { brokeragePerOrder: 20, exchangeTxnPct: 0.1, sebiPerCrore: 10_000, sttSellPct: 1, stampBuyPct: 1, gstPct: 10 },
+    'gst',
+    7.825,
+  ],
+];
+
+describe('tradeCharges', () => {
+  it.each(CASES)('%s', (_label, trade, overrides, field, expected) => {
+    expect(tradeCharges(trade, rates(overrides))?.[field]).toBeCloseTo(expected, 6);
+  });
+
+  it('totals every component', () => {
+    const c = tradeCharges(closedWinner, rates({ brokeragePerOrder: 20, sttSellPct: 1, stampBuyPct: 1, gstPct: 10 }));
+    expect(c?.total).toBeCloseTo(40 + 101.25 + 90 + 4, 6);
+  });
+
+  it.each([
+    ['no exit price', openTrade],
+    ['zero qty', { ...closedWinner, qty: 0 }],
+    ['missing entry price', { ...closedWinner, entryPrice: undefined }],
+  ])('is null with %s', (_label, trade) => {
+    expect(tradeCharges(trade as TradeRow, rates({ brokeragePerOrder: 20 }))).toBeNull();
+  });
+});
+
+describe('netOf', () => {
+  const charges = tradeCharges(closedWinner, rates({ brokeragePerOrder: 20 }));
+
+  it('takes charges off gross', () => {
+    expect(netOf(1125, charges)).toBe(1085);
+  });
+
+  it('is null when charges cannot be computed', () => {
+    expect(netOf(1125, null)).toBeNull();
+  });
+
+  it('is null without a gross figure', () => {
+    expect(netOf(null, charges)).toBeNull();
+  });
+});
@@ -0,0 +1,266 @@
+import type { TradeRow } from '../types/backend';
+import { parseTradingSymbol } from './instrumentFormat';
+
+const CHARGES_KEY = 'kite_scalper_fe_charges_v1';
+const PNL_BASIS_KEY = 'kite_scalper_fe_pnl_basis_v1';
+const CRORE = 1e7;
+/** Backend fees within this much of the estimate (₹, or 5%) count as agreeing. */
+const FEES_MATCH_ABS = 1;
+const FEES_MATCH_PCT = 5;
+
+export type PnlBasis = 'gross' | 'net';
+
+export type ChargeSegment = 'NFO_OPT' | 'NFO_FUT' | 'BFO_OPT' | 'BFO_FUT' | 'EQ_INTRADAY';
+
+/** Rates for one segment. Percentages are of turnover (premium × qty for options). */
+export type SegmentCharges = {
+  /** Flat ₹ per executed order. */
+  brokeragePerOrder: number;
+  /** When set, brokerage per order is min(flat, this % of the order's turnover). */
+  brokeragePct: number | null;
+  /** STT on the sell side only. */
+  sttSellPct: number;
+  exchangeTxnPct: number;
+  sebiPerCrore: number;
+  /** Stamp duty on the buy side only. */
+  stampBuyPct: number;
+  /** GST on brokerage + exchange transaction charges + SEBI fees. */
+  gstPct: number;
+};
+
+export type ChargesConfig = Record<ChargeSegment, SegmentCharges>;
+
+export type TradeCharges = {
+  segment: ChargeSegment;
+  brokerage: number;
+  stt: number;
+  exchange: number;
+  sebi: number;
+  stamp: number;
+  gst: number;
+  total: number;
+};
+
+export const CHARGE_SEGMENTS: Array<{ key: ChargeSegment; label: string }> = [
+  { key: 'NFO_OPT', label: 'NSE options' },
+  { key: 'NFO_FUT', label: 'NSE futures' },
+  { key: 'BFO_OPT', label: 'BSE options' },
+  { key: 'BFO_FUT', label: 'BSE futures' },
+  { key: 'EQ_INTRADAY', label: 'Equity intraday' },
+];
+
+export const CHARGE_FIELDS: Array<{ key: keyof SegmentCharges; label: string; step: number }> = [
+  { key: 'brokeragePerOrder', label: 'Brokerage ₹/order', step: 1 },
+  { key: 'brokeragePct', label: 'Brokerage % cap', step: 0.01 },
+  { key: 'sttSellPct', label: 'STT % (sell)', step: 0.005 },
+  { key: 'exchangeTxnPct', label: 'Exchange txn %', step: 0.0001 },
+  { key: 'sebiPerCrore', label: 'SEBI ₹/crore', step: 1 },
+  { key: 'stampBuyPct', label: 'Stamp % (buy)', step: 0.001 },
+  { key: 'gstPct', label: 'GST %', step: 1 },
+];
+
+// Zerodha's published schedule (Oct 2024 revision).
+export const DEFAULT_CHARGES: ChargesConfig = {
+  NFO_OPT: {
+    brokeragePerOrder: 20,
+    brokeragePct: null,
+    sttSellPct: 0.1,
+    exchangeTxnPct: 0.03503,
+    sebiPerCrore: 10,
+    stampBuyPct: 0.003,
+    gstPct: 18,
+  },
+  NFO_FUT: {
+    brokeragePerOrder: 20,
+    brokeragePct: 0.03,
+    sttSellPct: 0.02,
+    exchangeTxnPct: 0.00173,
+    sebiPerCrore: 10,
+    stampBuyPct: 0.002,
+    gstPct: 18,
+  },
+  BFO_OPT: {
+    brokeragePerOrder: 20,
+    brokeragePct: null,
+    sttSellPct: 0.1,
+    exchangeTxnPct: 0.0325,
+    sebiPerCrore: 10,
+    stampBuyPct: 0.003,
+    gstPct: 18,
+  },
+  BFO_FUT: {
+    brokeragePerOrder: 20,
+    brokeragePct: 0.03,
+    sttSellPct: 0.02,
+    exchangeTxnPct: 0,
+    sebiPerCrore: 10,
+    stampBuyPct: 0.002,
+    gstPct: 18,
+  },
+  EQ_INTRADAY: {
+    brokeragePerOrder: 20,
+    brokeragePct: 0.03,
+    sttSellPct: 0.025,
+    exchangeTxnPct: 0.00297,
+    sebiPerCrore: 10,
+    stampBuyPct: 0.003,
+    gstPct: 18,
+  },
+};
+
+function numOr(v: unknown, fallback: number | null): number | null {
+  if (v === null || v === undefined || v === '') return fallback;
+  const n = Number(v);
+  return Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+/** Saved rates merged over the defaults, so segments or fields added later pick up sane values. */
+export function normalizeChargesConfig(raw: unknown): ChargesConfig {
+  const src = raw && typeof raw === 'object' ? (raw as Record<string, any>) : {};
+  const out = {} as ChargesConfig;
+  for (const { key } of CHARGE_SEGMENTS) {
+    const base = DEFAULT_CHARGES[key];
+    const seg = src[key] && typeof src[key] === 'object' ? src[key] : {};
+    out[key] = {
+      brokeragePerOrder: numOr(seg.brokeragePerOrder, base.brokeragePerOrder) as number,
+      brokeragePct: seg.brokeragePct === null ? null : numOr(seg.brokeragePct, base.brokeragePct),
+      sttSellPct: numOr(seg.sttSellPct, base.sttSellPct) as number,
+      exchangeTxnPct: numOr(seg.exchangeTxnPct, base.exchangeTxnPct) as number,
+      sebiPerCrore: numOr(seg.sebiPerCrore, base.sebiPerCrore) as number,
+      stampBuyPct: numOr(seg.stampBuyPct, base.stampBuyPct) as number,
+      gstPct: numOr(seg.gstPct, base.gstPct) as number,
+    };
+  }
+  return out;
+}
+
+export function loadChargesConfig(): ChargesConfig {
+  try {
+    const raw = localStorage.getItem(CHARGES_KEY);
+    return normalizeChargesConfig(raw ? JSON.parse(raw) : null);
+  } catch {
+    return normalizeChargesConfig(null);
+  }
+}
+
+export function saveChargesConfig(config: ChargesConfig) {
+  try {
+    localStorage.setItem(CHARGES_KEY, JSON.stringify(config));
+  } catch {
+    // ignore
+  }
+}
+
+export function loadPnlBasis(): PnlBasis {
+  try {
+    return localStorage.getItem(PNL_BASIS_KEY) === 'gross' ? 'gross' : 'net';
+  } catch {
+    return 'net';
+  }
+}
+
+export function savePnlBasis(basis: PnlBasis) {
+  try {
+    localStorage.setItem(PNL_BASIS_KEY, basis);
+  } catch {
+    // ignore
+  }
+}
+
+/** Segment from the instrument's segment/exchange/type, falling back to the trading symbol. */
+export function chargeSegmentOf(trade: TradeRow): ChargeSegment {
+  const inst = trade.instrument;
+  const sym = String(inst?.tradingsymbol || '').toUpperCase();
+  const segment = String(inst?.segment || '').toUpperCase();
+  const exchange = String(inst?.exchange || segment.split('-')[0] || '').toUpperCase();
+  const type = String(inst?.instrument_type || parseTradingSymbol(sym)?.optType || '').toUpperCase();
+  const bse = exchange === 'BFO' || (!exchange && /^(SENSEX|BANKEX)/.test(sym));
+  if (type === 'CE' || type === 'PE' || segment.endsWith('-OPT')) return bse ? 'BFO_OPT' : 'NFO_OPT';
+  if (type === 'FUT' || segment.endsWith('-FUT') || /FUT$/.test(sym)) return bse ? 'BFO_FUT' : 'NFO_FUT';
+  if (exchange === 'NSE' || exchange === 'BSE' || type === 'EQ') return 'EQ_INTRADAY';
+  // The bot trades index options; an unidentifiable instrument is most likely one.
+  return bse ? 'BFO_OPT' : 'NFO_OPT';
+}
+
+function orderBrokerage(rates: SegmentCharges, turnover: number): number {
+  if (turnover <= 0) return 0;
+  if (rates.brokeragePct === null) return rates.brokeragePerOrder;
+  return Math.min(rates.brokeragePerOrder, (turnover * rates.brokeragePct) / 100);
+}
+
+/**
+ * Charges for the round trip (entry + exit order) of a closed trade. Null while the trade
+ * has no exit price or lacks qty/entry.
+ */
+export function tradeCharges(trade: TradeRow, config: ChargesConfig): TradeCharges | null {
+  const qty = Number(trade.qty);
+  const entry = Number(trade.entryPrice);
+  const exit = Number(trade.exitPrice);
+  if (trade.exitPrice === null || trade.exitPrice === undefined) return null;
+  if (!Number.isFinite(qty) || !Number.isFinite(entry) || !Number.isFinite(exit) || qty <= 0) return null;
+
+  const segment = chargeSegmentOf(trade);
+  const rates = config[segment] ?? DEFAULT_CHARGES[segment];
+  const sell = (trade.side || '').toUpperCase() === 'SELL';
+  const buyTurnover = (sell ? exit : entry) * qty;
+  const sellTurnover = (sell ? entry : exit) * qty;
+  const turnover = buyTurnover + sellTurnover;
+
+  const brokerage = orderBrokerage(rates, buyTurnover) + orderBrokerage(rates, sellTurnover);
+  const stt = (sellTurnover * rates.sttSellPct) / 100;
+  const exchange = (turnover * rates.exchangeTxnPct) / 100;
+  const sebi = (turnover * rates.sebiPerCrore) / CRORE;
+  const stamp = (buyTurnover * rates.stampBuyPct) / 100;
+  const gst = ((brokerage + exchange + sebi) * rates.gstPct) / 100;
+  return {
+    segment,
+    brokerage,
+    stt,
+    exchange,
+    sebi,
+    stamp,
+    gst,
+    total: brokerage + stt + exchange + sebi + stamp + gst,
+  };
+}
+
+/** What the backend says the trade cost: `feesTotal`, else `brokerage` + `taxes`. */
+export function backendFees(trade: TradeRow): number | null {
+  const total = numOr(trade.feesTotal, null);
+  if (total !== null) return total;
+  const brokerage = numOr(trade.brokerage, null);
+  const taxes = numOr(trade.taxes, null);
+  if (brokerage === null && taxes === null) return null;
+  return (brokerage ?? 0) + (taxes ?? 0);
+}
+
+export type FeesComparison = { estimated: number; backend: number; diff: number; agrees: boolean };
+
+export function compareFees(trade: TradeRow, charges: TradeCharges | null): FeesComparison | null {
+  const backend = backendFees(trade);
+  if (!charges || backend === null) return null;
+  const diff = backend - charges.total;
+  const agrees =
+    Math.abs(diff) <= FEES_MATCH_ABS || Math.abs(diff) <= (Math.max(backend, charges.total) * FEES_MATCH_PCT) / 100;
+  return { estimated: charges.total, backend, diff, agrees };
+}
+
+/**
+ * Gross P&L less modelled charges. Null when charges can't be computed: passing gross through
+ * would count the trade as net when it isn't.
+ */
+export function netOf(gross: number | null, charges: TradeCharges | null): number | null {
+  if (gross === null || !Number.isFinite(gross) || !charges) return null;
+  return gross - charges.total;
+}
+
+export function describeCharges(c: TradeCharges): string {
+  return [
+    `brokerage ${c.brokerage.toFixed(2)}`,
+    `STT ${c.stt.toFixed(2)}`,
+    `exchange ${c.exchange.toFixed(2)}`,
+    `SEBI ${c.sebi.toFixed(2)}`,
+    `stamp ${c.stamp.toFixed(2)}`,
+    `GST ${c.gst.toFixed(2)}`,
+  ].join(' • ');
+}
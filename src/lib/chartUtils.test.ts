@@ -0,0 +1,200 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import {
+  applyLiveLtpToCandles,
+  getIstDayStartMs,
+  nearestCandleTime,
+  sessionBucketStartMs,
+  snapToTick,
+  toLwCandles,
+  type LwCandle,
+} from './chartUtils';
+
+/** Epoch ms for an IST wall-clock time. */
+function ist(y: number, mo: number, d: number, h: number, mi: number, s = 0) {
+  return Date.UTC(y, mo - 1, d, h, mi, s) - 5.5 * 60 * 60 * 1000;
+}
+
+const OPEN = ist(2026, 2, 3, 9, 15);
+
+describe('getIstDayStartMs', () => {
+  it.each([
+    ['session open', ist(2026, 2, 3, 9, 15)],
+    ['just after IST midnight (still the previous UTC day)', ist(2026, 2, 3, 0, 5)],
+    ['just before IST midnight', ist(2026, 2, 3, 23, 59, 59)],
+  ])('maps %s to IST midnight', (_label, ms) => {
+    expect(getIstDayStartMs(ms)).toBe(ist(2026, 2, 3, 0, 0));
+  });
+});
+
+describe('sessionBucketStartMs', () => {
+  it.each([
+    { at: ist(2026, 2, 3, 9, 15), intervalMin: 1, expected: ist(2026, 2, 3, 9, 15) },
+    { at: ist(2026, 2, 3, 9, 15, 59), intervalMin: 1, expected: ist(2026, 2, 3, 9, 15) },
+    { at: ist(2026, 2, 3, 9, 19, 59), intervalMin: 5, expected: ist(2026, 2, 3, 9, 15) },
+    { at: ist(2026, 2, 3, 9, 20), intervalMin: 5, expected: ist(2026, 2, 3, 9, 20) },
+    // 15m buckets count from 09:15, not from the top of the hour.
+    { at: ist(2026, 2, 3, 10, 5), intervalMin: 15, expected: ist(2026, 2, 3, 10, 0) },
+    { at: ist(2026, 2, 3, 10, 44), intervalMin: 15, expected: ist(2026, 2, 3, 10, 30) },
+    { at: ist(2026, 2, 3, 11, 20), intervalMin: 60, expected: ist(2026, 2, 3, 11, 15) },
+    // Daily and longer bars are stamped at the open.
+    { at: ist(2026, 2, 3, 14, 0), intervalMin: 1440, expected: ist(2026, 2, 3, 9, 15) },
+  ])('$intervalMin m bucket', ({ at, intervalMin, expected }) => {
+    expect(sessionBucketStartMs(at, intervalMin)).toBe(expected);
+  });
+});
+
+describe('toLwCandles', () => {
+  it('converts ISO timestamps to epoch seconds and drops rows with bad numbers', () => {
+    const out = toLwCandles([
+      { ts: '2026-02-03T09:15:00+05:30', open: 100, high: 102, low: 99, close: 101 },
+      { ts: 'not a date', open: 1, high: 1, low: 1, close: 1 },
+      { ts: '2026-02-03T09:16:00+05:30', open: 101, high: Number.NaN, low: 100, close: 100.5 },
+    ] as any);
+    expect(out).toEqual([{ time: OPEN / 1000, open: 100, high: 102, low: 99, close: 101 }]);
+  });
+});
+
+/** Sorted, de-duplicated candle times on a minute grid around the session open. */
+const candleTimesArb = fc
+  .uniqueArray(fc.integer({ min: 0, max: 400 }), { minLength: 1, maxLength: 60 })
+  .map((mins) => mins.sort((a, b) => a - b).map((m) => OPEN / 1000 + m * 60));
+
+function candlesAt(times: number[]): LwCandle[] {
+  return times.map((time, i) => ({ time, open: 100 + i, high: 102 + i, low: 98 + i, close: 101 + i }));
+}
+
+describe('nearestCandleTime', () => {
+  it.each([
+    { target: 0, expected: 600 },
+    { target: 600, expected: 600 },
+    { target: 700, expected: 720 },
+    // Equidistant: the earlier bar wins.
+    { target: 690, expected: 660 },
+    { target: 691, expected: 720 },
+    { target: 5_000, expected: 900 },
+  ])('picks $expected for $target s', ({ target, expected }) => {
+    const candles = candlesAt([600, 660, 720, 900]);
+    expect(nearestCandleTime(candles, target * 1000)).toBe(expected);
+  });
+
+  it('returns null without candles or a finite target', () => {
+    expect(nearestCandleTime([], OPEN)).toBeNull();
+    expect(nearestCandleTime(candlesAt([600]), Number.NaN)).toBeNull();
+  });
+
+  it('returns a candle time no further from the target than any other', () => {
+    fc.assert(
+      fc.property(candleTimesArb, fc.integer({ min: -3600, max: 30 * 3600 }), (times, offsetSec) => {
+        const targetMs = OPEN + offsetSec * 1000;
+        const got = nearestCandleTime(candlesAt(times), targetMs);
+        expect(times).toContain(got);
+        const target = Math.floor(targetMs / 1000);
+        const best = Math.min(...times.map((t) => Math.abs(t - target)));
+        expect(Math.abs((got as number) - target)).toBe(best);
+      }),
+    );
+  });
+});
+
+describe('applyLiveLtpToCandles', () => {
+  const base = candlesAt([OPEN / 1000, OPEN / 1000 + 60]);
+
+  it.each([
+    ['no candles', [], 1, 100, OPEN],
+    ['non-finite LTP', base, 1, Number.NaN, OPEN],
+    ['zero interval', base, 0, 100, OPEN],
+    ['no clock', base, 1, 100, null],
+  ] as const)('leaves candles untouched with %s', (_label, candles, intervalMin, ltp, nowMs) => {
+    const input = candles as LwCandle[];
+    expect(applyLiveLtpToCandles(input, intervalMin, ltp, nowMs)).toBe(input);
+  });
+
+  it('updates the forming bar in place', () => {
+    const out = applyLiveLtpToCandles(base, 1, 110, OPEN + 90_000);
+    expect(out).toHaveLength(2);
+    expect(out[1]).toEqual({ time: OPEN / 1000 + 60, open: 101, high: 110, low: 99, close: 110 });
+  });
+
+  it('opens a new bar at the previous close when the bucket rolls over', () => {
+    const out = applyLiveLtpToCandles(base, 1, 95, OPEN + 5 * 60_000 + 1_000);
+    expect(out).toHaveLength(3);
+    expect(out[2]).toEqual({ time: OPEN / 1000 + 300, open: 102, high: 102, low: 95, close: 95 });
+  });
+
+  const scenarioArb = fc.record({
+    times: candleTimesArb,
+    intervalMin: fc.constantFrom(1, 3, 5, 15),
+    nowOffsetSec: fc.integer({ min: 0, max: 7 * 3600 }),
+    ltp: fc.double({ min: 1, max: 1000, noNaN: true }),
+  });
+
+  it('keeps history intact and leaves a consistent last bar', () => {
+    fc.assert(
+      fc.property(scenarioArb, ({ times, intervalMin, nowOffsetSec, ltp }) => {
+        // Real candles sit on bucket boundaries; snap the generated minutes to the interval.
+        const snapped = Array.from(new Set(times.map((t) => sessionBucketStartMs(t * 1000, intervalMin) / 1000)));
+        const candles = candlesAt(snapped);
+        const nowMs = OPEN + nowOffsetSec * 1000;
+        const bucket = sessionBucketStartMs(nowMs, intervalMin) / 1000;
+        const last = candles[candles.length - 1];
+        const out = applyLiveLtpToCandles(candles, intervalMin, ltp, nowMs);
+
+        // Earlier bars are never rewritten.
+        expect(out.slice(0, candles.length - 1)).toEqual(candles.slice(0, -1));
+
+        if (last.time > bucket) {
+          expect(out).toBe(candles);
+          return;
+        }
+        const bar = out[out.length - 1];
+        expect(bar.time).toBe(bucket);
+        expect(bar.close).toBe(ltp);
+        expect(bar.high).toBeGreaterThanOrEqual(Math.max(bar.open, bar.close));
+        expect(bar.low).toBeLessThanOrEqual(Math.min(bar.open, bar.close));
+        if (last.time === bucket) {
+          expect(out).toHaveLength(candles.length);
+          expect(bar.open).toBe(last.open);
+          expect(bar.high).toBe(Math.max(last.high, ltp));
+          expect(bar.low).toBe(Math.min(last.low, ltp));
+        } else {
+          expect(out).toHaveLength(candles.length + 1);
+          expect(bar.open).toBe(last.close);
+        }
+      }),
+    );
+  });
+
+  it('is idempotent for a repeated LTP', () => {
+    fc.assert(
+      fc.property(scenarioArb, ({ times, intervalMin, nowOffsetSec, ltp }) => {
+        const nowMs = OPEN + nowOffsetSec * 1000;
+        const once = applyLiveLtpToCandles(candlesAt(times), intervalMin, ltp, nowMs);
+        expect(applyLiveLtpToCandles(once, intervalMin, ltp, nowMs)).toBe(once);
+      }),
+    );
+  });
+});
+
+describe('snapToTick', () => {
+  it.each([
+    [101.34, 101.35],
+    [101.32, 101.3],
+    [2027.08, 2027.1],
+    [0.07, 0.05],
+    [99.999, 100],
+  ])('snaps %s to %s exactly', (raw, expected) => {
+    expect(snapToTick(raw)).toBe(expected);
+  });
+
+  it('always lands on a two-decimal multiple of the tick', () => {
+    fc.assert(
+      fc.property(fc.double({ min: 0.01, max: 100_000, noNaN: true }), (raw) => {
+        const snapped = snapToTick(raw);
+        expect(Math.abs(snapped - raw)).toBeLessThanOrEqual(0.025 + 1e-9);
+        expect(String(snapped)).toMatch(/^\d+(\.\d{1,2})?$/);
+        expect(Math.round(snapped * 100) % 5).toBe(0);
+      }),
+    );
+  });
+});
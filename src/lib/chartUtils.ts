@@ -11,6 +11,20 @@ export function getIstDayStartMs(ms: number): number {
   return startUtcMs - IST_OFFSET_MS;
 }
 
+const SESSION_OPEN_MS = (9 * 60 + 15) * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Start of the `intervalMin` bucket containing `ms`, counted from the 09:15 IST session open.
+ * Intervals of a day or more bucket by IST date and are stamped at the open.
+ */
+export function sessionBucketStartMs(ms: number, intervalMin: number): number {
+  const openMs = getIstDayStartMs(ms) + SESSION_OPEN_MS;
+  const intervalMs = Math.max(1, Math.round(intervalMin * 60)) * 1000;
+  if (intervalMs >= DAY_MS) return openMs;
+  return openMs + Math.floor((ms - openMs) / intervalMs) * intervalMs;
+}
+
 function toIstDate(time: Time): Date {
   if (typeof time === 'number') {
     return new Date(time * 1000);
@@ -111,9 +125,7 @@ export function applyLiveLtpToCandles(
   if (!Number.isFinite(intervalMin) || intervalMin <= 0) return candles;
   if (!Number.isFinite(nowMs)) return candles;
 
-  const intervalSec = Math.max(1, Math.round(intervalMin * 60));
-  const nowSec = Math.floor(Number(nowMs) / 1000);
-  const bucketStart = Math.floor(nowSec / intervalSec) * intervalSec;
+  const bucketStart = Math.floor(sessionBucketStartMs(Number(nowMs), intervalMin) / 1000);
   const last = candles[candles.length - 1];
 
   if (!Number.isFinite(last.time)) return candles;
@@ -297,3 +309,76 @@ export function getLatestTradeForToken(trades: TradeRow[], token: number): Trade
   rows.sort((a, b) => new Date(b.updatedAt || b.createdAt || 0).getTime() - new Date(a.updatedAt || a.createdAt || 0).getTime());
   return rows[0] || null;
 }
+
+/** Exchange tick size for option premiums. */
+export const PRICE_TICK = 0.05;
+
+/** Rounds a price to the nearest tick, without the float residue `Math.round(x / tick) * tick` leaves. */
+export function snapToTick(price: number, tick = PRICE_TICK): number {
+  return Number((Math.round(price / tick) * tick).toFixed(2));
+}
+
+export type TradeLevelKey = 'stopLoss' | 'targetPrice' | 'tp1Price' | 'trailSl';
+
+export const TRADE_LEVEL_LABELS: Record<TradeLevelKey, string> = {
+  stopLoss: 'SL',
+  targetPrice: 'TGT',
+  tp1Price: 'TP1',
+  trailSl: 'TRAIL',
+};
+
+export type LevelPreview = {
+  price: number;
+  /** P&L (₹) if the level is hit at `price`. */
+  pnlInr: number | null;
+  /** Change in that P&L versus the level's current price. */
+  deltaInr: number | null;
+  /** `pnlInr` in units of the trade's current initial risk (entry → SL). */
+  rMultiple: number | null;
+};
+
+function levelPnl(side: string, entry: number, qty: number, price: number): number | null {
+  if (!Number.isFinite(entry) || !Number.isFinite(qty) || !Number.isFinite(price)) return null;
+  if (side === 'BUY') return (price - entry) * qty;
+  if (side === 'SELL') return (entry - price) * qty;
+  return null;
+}
+
+export function previewLevelChange(trade: TradeRow, level: TradeLevelKey, price: number): LevelPreview {
+  const side = (trade.side || '').toUpperCase();
+  const entry = Number(trade.entryPrice);
+  const qty = Number(trade.qty);
+  const current = Number(trade[level]);
+  const sl = Number(trade.stopLoss);
+
+  const pnlInr = levelPnl(side, entry, qty, price);
+  const currentPnl = Number.isFinite(current) ? levelPnl(side, entry, qty, current) : null;
+  const riskInr = Number.isFinite(sl) && Number.isFinite(entry) && Number.isFinite(qty) ? Math.abs(entry - sl) * qty : NaN;
+
+  return {
+    price,
+    pnlInr,
+    deltaInr: pnlInr !== null && currentPnl !== null ? pnlInr - currentPnl : null,
+    rMultiple: pnlInr !== null && riskInr > 0 ? pnlInr / riskInr : null,
+  };
+}
+
+/**
+ * Sanity-check a dragged level against the last price: protective levels (SL/trail) must
+ * stay on the losing side of LTP, profit levels (TGT/TP1) on the winning side.
+ */
+export function validateLevelPrice(trade: TradeRow, level: TradeLevelKey, price: number, ltp: number): string | null {
+  if (!Number.isFinite(price) || price <= 0) return 'Price must be positive';
+  if (!Number.isFinite(ltp)) return null;
+  const side = (trade.side || '').toUpperCase();
+  const protective = level === 'stopLoss' || level === 'trailSl';
+  const label = TRADE_LEVEL_LABELS[level];
+  if (side === 'BUY') {
+    if (protective && price >= ltp) return `${label} must be below LTP ${ltp.toFixed(2)} for a BUY`;
+    if (!protective && price <= ltp) return `${label} must be above LTP ${ltp.toFixed(2)} for a BUY`;
+  } else if (side === 'SELL') {
+    if (protective && price <= ltp) return `${label} must be above LTP ${ltp.toFixed(2)} for a SELL`;
+    if (!protective && price >= ltp) return `${label} must be below LTP ${ltp.toFixed(2)} for a SELL`;
+  }
+  return null;
+}
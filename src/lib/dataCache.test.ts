@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { dropStaleOpenTrades, refreshTrades } from './dataCache';
+import { closedLoser, closedWinner, openTrade } from '../test/fixtures/trades';
+
+describe('refreshTrades', () => {
+  it('keeps closed history the response dropped, but not open rows', () => {
+    const rows = refreshTrades([closedWinner, openTrade], [closedLoser], 50);
+    expect(rows.map((r) => r.tradeId).sort()).toEqual([closedLoser.tradeId, closedWinner.tradeId].sort());
+  });
+
+  it('takes the fresh copy of a row the response still carries', () => {
+    const closed = { ...openTrade, status: 'CLOSED', exitPrice: 110 };
+    expect(refreshTrades([openTrade], [closed], 50)).toEqual([closed]);
+  });
+
+  it("caps the result at the caller's limit", () => {
+    expect(refreshTrades([closedWinner, closedLoser], [openTrade], 2)).toHaveLength(2);
+  });
+});
+
+describe('dropStaleOpenTrades', () => {
+  const SAME_DAY = Date.parse('2026-02-03T15:20:00+05:30');
+  const NEXT_DAY = Date.parse('2026-02-04T09:20:00+05:30');
+
+  it('keeps open rows from the current session', () => {
+    expect(dropStaleOpenTrades([openTrade, closedWinner], SAME_DAY)).toEqual([openTrade, closedWinner]);
+  });
+
+  it('drops open rows from an earlier session but keeps closed ones', () => {
+    expect(dropStaleOpenTrades([openTrade, closedWinner], NEXT_DAY)).toEqual([closedWinner]);
+  });
+});
@@ -0,0 +1,212 @@
+import type { CandleRow, TradeRow } from '../types/backend';
+import { getIstDayStartMs, isTradeOpen } from './chartUtils';
+
+const DB_NAME = 'kite_scalper_fe_cache';
+const DB_VERSION = 1;
+const CANDLE_STORE = 'candles';
+const TRADE_STORE = 'trades';
+const FLUSH_MS = 1000;
+
+/** Bars kept per token/interval; several sessions of 1m bars. */
+export const CACHED_CANDLES_MAX = 3000;
+/** Trades kept per backend, newest first. */
+export const CACHED_TRADES_MAX = 2000;
+
+type CacheEntry<T> = { key: string; rows: T[] };
+
+export function mergeTrades(existing: TradeRow[], incoming: TradeRow[], limit: number) {
+  const map = new Map<string, TradeRow>();
+  for (const row of existing || []) {
+    if (row?.tradeId) map.set(String(row.tradeId), row);
+  }
+  for (const row of incoming || []) {
+    if (row?.tradeId) map.set(String(row.tradeId), row);
+  }
+  const merged = Array.from(map.values());
+  merged.sort(
+    (a, b) =>
+      new Date(b.updatedAt || b.createdAt || 0).getTime() -
+      new Date(a.updatedAt || a.createdAt || 0).getTime(),
+  );
+  return merged.slice(0, limit);
+}
+
+/**
+ * Folds a fresh `/recent` response over cached rows. A cached row the response no longer
+ * carries is kept only once closed: an open one has an unknown outcome since, and must not
+ * pass for a live position.
+ */
+export function refreshTrades(cached: TradeRow[], fresh: TradeRow[], limit: number) {
+  const freshIds = new Set(fresh.map((row) => String(row?.tradeId)));
+  const kept = (cached || []).filter((row) => freshIds.has(String(row?.tradeId)) || !isTradeOpen(row));
+  return mergeTrades(kept, fresh, limit);
+}
+
+/**
+ * Drops open rows last touched before the current IST session. The cache holds no word on
+ * how they ended, so like the rows `refreshTrades` drops they must not read as live.
+ */
+export function dropStaleOpenTrades(rows: TradeRow[], nowMs = Date.now()) {
+  const sessionStartMs = getIstDayStartMs(nowMs);
+  return (rows || []).filter(
+    (row) => !isTradeOpen(row) || new Date(row.updatedAt || row.createdAt || 0).getTime() >= sessionStartMs,
+  );
+}
+
+export function mergeCandles(existing: CandleRow[], incoming: CandleRow[], limit: number) {
+  const map = new Map<string, CandleRow>();
+  for (const row of existing || []) {
+    if (row?.ts) map.set(String(row.ts), row);
+  }
+  for (const row of incoming || []) {
+    if (row?.ts) map.set(String(row.ts), row);
+  }
+  const merged = Array.from(map.values());
+  merged.sort((a, b) => new Date(a.ts).getTime() - new Date(b.ts).getTime());
+  return merged.slice(-limit);
+}
+
+/** Cache entries are per backend so switching base URLs never mixes data. */
+export function cacheScope(baseUrl: string) {
+  return baseUrl.trim().replace(/\/$/, '');
+}
+
+function candleKey(scope: string, token: number, intervalMin: number) {
+  return `${scope}|${token}|${intervalMin}`;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+/** Set during session playback: the cache is neither read nor written while it is. */
+let suspended = false;
+
+export function suspendDataCache(next: boolean) {
+  suspended = next;
+}
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+    try {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(CANDLE_STORE)) db.createObjectStore(CANDLE_STORE, { keyPath: 'key' });
+        if (!db.objectStoreNames.contains(TRADE_STORE)) db.createObjectStore(TRADE_STORE, { keyPath: 'key' });
+      };
+      req.onsuccess = () => resolve(req.result);
+      // Private windows and locked-down browsers refuse IndexedDB; run without a cache.
+      req.onerror = () => resolve(null);
+      req.onblocked = () => resolve(null);
+    } catch {
+      resolve(null);
+    }
+  });
+  return dbPromise;
+}
+
+function requestResult<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function readEntry<T>(store: string, key: string): Promise<T[]> {
+  if (suspended) return [];
+  const db = await openDb();
+  if (!db) return [];
+  try {
+    const entry = await requestResult<CacheEntry<T> | undefined>(
+      db.transaction(store, 'readonly').objectStore(store).get(key),
+    );
+    return Array.isArray(entry?.rows) ? entry.rows : [];
+  } catch {
+    return [];
+  }
+}
+
+export function readCachedCandles(scope: string, token: number, intervalMin: number): Promise<CandleRow[]> {
+  return readEntry<CandleRow>(CANDLE_STORE, candleKey(scope, token, intervalMin));
+}
+
+export function readCachedTrades(scope: string): Promise<TradeRow[]> {
+  return readEntry<TradeRow>(TRADE_STORE, scope).then((rows) => dropStaleOpenTrades(rows));
+}
+
+/**
+ * Writes are batched: socket pushes arrive many times a second, so rows are collected per
+ * entry and merged into IndexedDB once per FLUSH_MS.
+ */
+type PendingWrite = {
+  store: string;
+  key: string;
+  rows: any[];
+  merge: (existing: any[], incoming: any[]) => any[];
+};
+
+const pending = new Map<string, PendingWrite>();
+let flushTimer: number | null = null;
+
+function queueWrite(write: PendingWrite) {
+  if (suspended) return;
+  const id = `${write.store}:${write.key}`;
+  const cur = pending.get(id);
+  pending.set(id, cur ? { ...cur, rows: write.merge(cur.rows, write.rows) } : write);
+  if (flushTimer === null) flushTimer = window.setTimeout(() => void flushPending(), FLUSH_MS);
+}
+
+async function flushPending() {
+  flushTimer = null;
+  const writes = Array.from(pending.values());
+  pending.clear();
+  const db = await openDb();
+  if (!db || !writes.length) return;
+  for (const w of writes) {
+    try {
+      const tx = db.transaction(w.store, 'readwrite');
+      const store = tx.objectStore(w.store);
+      const existing = await requestResult<CacheEntry<unknown> | undefined>(store.get(w.key));
+      const rows = w.merge(Array.isArray(existing?.rows) ? existing.rows : [], w.rows);
+      await requestResult(store.put({ key: w.key, rows }));
+    } catch {
+      // quota exceeded or the store went away; the next push retries
+    }
+  }
+}
+
+export function cacheCandles(scope: string, token: number, intervalMin: number, rows: CandleRow[]) {
+  if (!rows.length) return;
+  queueWrite({
+    store: CANDLE_STORE,
+    key: candleKey(scope, token, intervalMin),
+    rows,
+    merge: (a, b) => mergeCandles(a, b, CACHED_CANDLES_MAX),
+  });
+}
+
+export function cacheTrades(scope: string, rows: TradeRow[]) {
+  if (!rows.length) return;
+  queueWrite({
+    store: TRADE_STORE,
+    key: scope,
+    rows,
+    merge: (a, b) => dropStaleOpenTrades(mergeTrades(a, b, CACHED_TRADES_MAX)),
+  });
+}
+
+export async function clearDataCache() {
+  pending.clear();
+  const db = await openDb();
+  if (!db) return;
+  const tx = db.transaction([CANDLE_STORE, TRADE_STORE], 'readwrite');
+  tx.objectStore(CANDLE_STORE).clear();
+  tx.objectStore(TRADE_STORE).clear();
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
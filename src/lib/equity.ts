@@ -0,0 +1,161 @@
+import type { TradeRow } from '../types/backend';
+import { getIstDayStartMs } from './chartUtils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const IST_OFFSET_MS = 5.5 * 60 * 60 * 1000;
+
+export type EquityMode = 'TRADE' | 'DAY' | 'STRATEGY' | 'REGIME';
+
+export const EQUITY_MODES: Array<{ key: EquityMode; label: string }> = [
+  { key: 'TRADE', label: 'Per trade' },
+  { key: 'DAY', label: 'Per day' },
+  { key: 'STRATEGY', label: 'Per strategy' },
+  { key: 'REGIME', label: 'Per regime' },
+];
+
+export type EquityTrade = { ts: number; pnl: number; row: TradeRow };
+
+export type EquityPoint = {
+  ts: number;
+  pnl: number;
+  equity: number;
+  peak: number;
+  /** Distance below the running peak (≤ 0). */
+  drawdown: number;
+};
+
+export type EquityCurve = { key: string; points: EquityPoint[] };
+
+export type DailyPnl = { dayStartMs: number; pnl: number; trades: number };
+
+export type DrawdownStats = {
+  netPnl: number;
+  maxDrawdown: number;
+  /** Longest peak-to-recovery span; an unrecovered drawdown runs to `asOfMs`. */
+  maxDrawdownDurationMs: number;
+  currentDrawdown: number;
+  /** Net P&L / |max drawdown|; null while there has been no drawdown. */
+  recoveryFactor: number | null;
+};
+
+export type HeatmapCell = DailyPnl & { week: number; weekday: number };
+
+export function tradeCloseMs(row: TradeRow): number {
+  const ts = row.exitAt || row.updatedAt || row.createdAt;
+  return ts ? new Date(ts).getTime() : NaN;
+}
+
+/** Closed trades with a realised P&L, oldest first. */
+export function toEquityTrades(rows: TradeRow[], pnlOf: (row: TradeRow) => number | null): EquityTrade[] {
+  const out: EquityTrade[] = [];
+  for (const row of rows || []) {
+    const pnl = pnlOf(row);
+    const ts = tradeCloseMs(row);
+    if (pnl === null || !Number.isFinite(pnl) || !Number.isFinite(ts)) continue;
+    out.push({ ts, pnl, row });
+  }
+  return out.sort((a, b) => a.ts - b.ts);
+}
+
+function accumulate(steps: Array<{ ts: number; pnl: number }>): EquityPoint[] {
+  let equity = 0;
+  let peak = 0;
+  return steps.map(({ ts, pnl }) => {
+    equity += pnl;
+    peak = Math.max(peak, equity);
+    return { ts, pnl, equity, peak, drawdown: equity - peak };
+  });
+}
+
+export function buildEquityCurve(trades: EquityTrade[]): EquityPoint[] {
+  return accumulate(trades);
+}
+
+export function buildDailyPnl(trades: EquityTrade[]): DailyPnl[] {
+  const byDay = new Map<number, DailyPnl>();
+  for (const t of trades) {
+    const day = getIstDayStartMs(t.ts);
+    const cur = byDay.get(day) ?? { dayStartMs: day, pnl: 0, trades: 0 };
+    cur.pnl += t.pnl;
+    cur.trades += 1;
+    byDay.set(day, cur);
+  }
+  return Array.from(byDay.values()).sort((a, b) => a.dayStartMs - b.dayStartMs);
+}
+
+export function buildDailyEquityCurve(days: DailyPnl[]): EquityPoint[] {
+  return accumulate(days.map((d) => ({ ts: d.dayStartMs, pnl: d.pnl })));
+}
+
+/** One curve per group key, largest trade count first. */
+export function buildGroupedCurves(trades: EquityTrade[], keyOf: (row: TradeRow) => string): EquityCurve[] {
+  const groups = new Map<string, EquityTrade[]>();
+  for (const t of trades) {
+    const key = keyOf(t.row) || 'UNKNOWN';
+    const list = groups.get(key);
+    if (list) list.push(t);
+    else groups.set(key, [t]);
+  }
+  return Array.from(groups.entries())
+    .sort((a, b) => b[1].length - a[1].length)
+    .map(([key, list]) => ({ key, points: accumulate(list) }));
+}
+
+export function drawdownStats(points: EquityPoint[], asOfMs: number): DrawdownStats {
+  if (!points.length) {
+    return { netPnl: 0, maxDrawdown: 0, maxDrawdownDurationMs: 0, currentDrawdown: 0, recoveryFactor: null };
+  }
+  let maxDrawdown = 0;
+  let maxDuration = 0;
+  // The curve starts flat at 0 before the first trade, so that is the first peak.
+  let peakTs = points[0].ts;
+  let underwater = false;
+  for (const p of points) {
+    maxDrawdown = Math.min(maxDrawdown, p.drawdown);
+    if (p.drawdown < 0) {
+      underwater = true;
+      continue;
+    }
+    if (underwater) maxDuration = Math.max(maxDuration, p.ts - peakTs);
+    underwater = false;
+    peakTs = p.ts;
+  }
+  if (underwater) maxDuration = Math.max(maxDuration, Math.max(asOfMs, points[points.length - 1].ts) - peakTs);
+
+  const last = points[points.length - 1];
+  return {
+    netPnl: last.equity,
+    maxDrawdown,
+    maxDrawdownDurationMs: maxDuration,
+    currentDrawdown: last.drawdown,
+    recoveryFactor: maxDrawdown < 0 ? last.equity / Math.abs(maxDrawdown) : null,
+  };
+}
+
+/** Mean P&L of the trailing `window` trades; starts once a full window is available. */
+export function rollingExpectancy(trades: EquityTrade[], window = 20): Array<{ ts: number; value: number }> {
+  const out: Array<{ ts: number; value: number }> = [];
+  let sum = 0;
+  for (let i = 0; i < trades.length; i += 1) {
+    sum += trades[i].pnl;
+    if (i >= window) sum -= trades[i - window].pnl;
+    if (i >= window - 1) out.push({ ts: trades[i].ts, value: sum / window });
+  }
+  return out;
+}
+
+/** Lay daily P&L on a week × weekday grid (Mon = 0) starting at the first traded week. */
+export function buildPnlHeatmap(days: DailyPnl[]): { cells: HeatmapCell[]; weeks: number; maxAbs: number } {
+  if (!days.length) return { cells: [], weeks: 0, maxAbs: 0 };
+  const weekdayOf = (dayStartMs: number) => (new Date(dayStartMs + IST_OFFSET_MS).getUTCDay() + 6) % 7;
+  const firstMonday = days[0].dayStartMs - weekdayOf(days[0].dayStartMs) * DAY_MS;
+  let maxAbs = 0;
+  let weeks = 0;
+  const cells = days.map((d) => {
+    const week = Math.floor(Math.round((d.dayStartMs - firstMonday) / DAY_MS) / 7);
+    weeks = Math.max(weeks, week + 1);
+    maxAbs = Math.max(maxAbs, Math.abs(d.pnl));
+    return { ...d, week, weekday: weekdayOf(d.dayStartMs) };
+  });
+  return { cells, weeks, maxAbs };
+}
@@ -1,36 +1,32 @@
-import { useQuery } from '@tanstack/react-query';
+import { useEffect, useMemo, useState } from 'react';
+import {
+  useInfiniteQuery,
+  useQueries,
+  useQuery,
+  useQueryClient,
+  type QueryClient,
+} from '@tanstack/react-query';
 import { getJson } from './http';
+import { parsePayload } from './schema';
+import {
+  CACHED_CANDLES_MAX,
+  cacheCandles,
+  cacheScope,
+  cacheTrades,
+  mergeCandles,
+  mergeTrades,
+  readCachedCandles,
+  readCachedTrades,
+  refreshTrades,
+} from './dataCache';
 import { useSettings } from './settingsContext';
-import type {
-  CandleRow,
-  TradeRow,
-  StatusResponse,
-  EquitySnapshot,
-  PositionRow,
-  OrderRow,
-  RiskLimitsResponse,
-  StrategyKpisResponse,
-  ExecutionQualityResponse,
-  MarketHealthResponse,
-  AuditLogRow,
-  AlertChannel,
-  AlertIncident,
-  TelemetrySnapshot,
-  OptimizerSnapshot,
-  RejectionsSnapshot,
-  CostCalibrationResponse,
-  MarketCalendarResponse,
-  FnoUniverseResponse,
-  CriticalHealthResponse,
-  LiveLtpResponse,
-  EodAggregateResponse,
-} from '../types/backend';
+import type { CandleRow, TradeHistoryPage, TradeRow } from '../types/backend';
 
 export function useStatus(pollMs: number | false = 2000) {
   const { settings } = useSettings();
   return useQuery({
     queryKey: ['status', settings.baseUrl, settings.apiKey],
-    queryFn: () => getJson<StatusResponse>(settings, '/admin/status'),
+    queryFn: async () => parsePayload('status', await getJson<unknown>(settings, '/admin/status')),
     refetchInterval: pollMs,
     retry: false
   });
@@ -40,38 +36,227 @@ export function useSubscriptions(pollMs: number | false = 5000) {
   const { settings } = useSettings();
   return useQuery({
     queryKey: ['subs', settings.baseUrl, settings.apiKey],
-    queryFn: () => getJson<{ ok: boolean; count: number; tokens: number[] }>(settings, '/admin/subscriptions'),
+    queryFn: async () => parsePayload('subscriptions', await getJson<unknown>(settings, '/admin/subscriptions')),
     refetchInterval: pollMs,
     retry: false
   });
 }
 
-export function useTradesRecent(limit = 50, pollMs: number | false = 2000) {
+/** `seeded` marks rows read back from IndexedDB rather than fetched. */
+type RowsResponse<T> = { ok: boolean; rows: T[]; seeded?: boolean };
+
+/**
+ * Seed an empty query from IndexedDB so a reload renders the last known rows while the
+ * first HTTP request is still in flight. Seeded data is stamped `dataUpdatedAt: 0`, so it
+ * counts as stale and readers can tell it from a completed fetch.
+ */
+function useCacheSeed<T>(
+  queryClient: QueryClient,
+  queryKey: readonly unknown[],
+  read: (() => Promise<T[]>) | null,
+) {
+  const keyId = JSON.stringify(queryKey);
+  useEffect(() => {
+    if (!read) return;
+    let cancelled = false;
+    void read().then((rows) => {
+      if (cancelled || !rows.length || queryClient.getQueryData(queryKey)) return;
+      queryClient.setQueryData<RowsResponse<T>>(queryKey, { ok: true, rows, seeded: true }, { updatedAt: 0 });
+    });
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [queryClient, keyId, !!read]);
+}
+
+/**
+ * `date` (IST `YYYY-MM-DD`) pins the query to a past session for bar replay; those
+ * cache entries are skipped by the socket bridge so live pushes never leak into them.
+ * Live (undated) queries are backed by the IndexedDB cache, which fills in closed trades
+ * when the backend trims its recent window; rows are still capped at `limit`.
+ */
+export function useTradesRecent(
+  limit = 50,
+  pollMs: number | false = 2000,
+  opts: { date?: string | null; enabled?: boolean } = {},
+) {
   const { settings } = useSettings();
+  const queryClient = useQueryClient();
+  const date = opts.date || null;
+  const enabled = opts.enabled ?? true;
+  const scope = cacheScope(settings.baseUrl);
+  const queryKey = ['tradesRecent', settings.baseUrl, settings.apiKey, limit, date];
+
+  useCacheSeed<TradeRow>(queryClient, queryKey, enabled && !date && scope ? () => readCachedTrades(scope) : null);
+
   return useQuery({
-    queryKey: ['tradesRecent', settings.baseUrl, settings.apiKey, limit],
-    queryFn: () => getJson<{ ok: boolean; rows: TradeRow[] }>(settings, '/admin/trades/recent', { limit }),
+    queryKey,
+    enabled,
+    queryFn: async () => {
+      if (date) {
+        return parsePayload('trades', await getJson<unknown>(settings, '/admin/trades/recent', { limit, date }));
+      }
+      const current = queryClient.getQueryData<RowsResponse<TradeRow>>(queryKey)?.rows;
+      const prev = current?.length ? current : await readCachedTrades(scope);
+      const res = parsePayload('trades', await getJson<unknown>(settings, '/admin/trades/recent', { limit }));
+      const fresh = res?.rows || [];
+      cacheTrades(scope, fresh);
+      return { ...res, ok: res?.ok ?? true, rows: refreshTrades(prev, fresh, limit) };
+    },
     refetchInterval: pollMs,
     retry: false
   });
 }
 
+const HISTORY_PAGE_SIZE = 500;
+/** Hard stop for auto-paging (100k trades); beyond it the range is reported as capped. */
+const HISTORY_MAX_PAGES = 200;
+/** Pages an open-ended (all-time) range fetches before waiting for `loadFullHistory`. */
+const HISTORY_AUTO_PAGES = 4;
+const HISTORY_STALE_MS = 5 * 60 * 1000;
+
+export type TradeHistoryState = 'idle' | 'loading' | 'partial' | 'complete' | 'capped' | 'unavailable' | 'error';
+
+export type TradeHistoryProgress = {
+  state: TradeHistoryState;
+  pages: number;
+  rows: number;
+  /** Backend's count for the range, when it reports one. */
+  total: number | null;
+  error: string | null;
+};
+
+/**
+ * Every trade in an IST date range (`YYYY-MM-DD`, inclusive; null for open-ended), paged
+ * through `/admin/trades/history` by cursor until the backend stops returning one. Pages
+ * stay in the query cache, so switching back to a range already walked costs nothing.
+ * A backend without the endpoint (404) reports `unavailable` and callers should fall back
+ * to the recent window. An open-ended range stops at HISTORY_AUTO_PAGES as `partial` until
+ * `loadFullHistory` is called, since all-time history can run to tens of thousands of trades.
+ */
+export function useTradeHistory(range: { from: string | null; to: string | null }, enabled = true) {
+  const { settings } = useSettings();
+  const rangeKey = `${settings.baseUrl}|${range.from}|${range.to}`;
+  const [fullRangeKey, setFullRangeKey] = useState<string | null>(null);
+  const pageLimit = range.from !== null || fullRangeKey === rangeKey ? HISTORY_MAX_PAGES : HISTORY_AUTO_PAGES;
+  const q = useInfiniteQuery({
+    queryKey: ['tradesHistory', settings.baseUrl, settings.apiKey, range.from, range.to],
+    enabled,
+    initialPageParam: null as string | null,
+    queryFn: async ({ pageParam }) =>
+      parsePayload(
+        'tradeHistory',
+        await getJson<unknown>(settings, '/admin/trades/history', {
+          from: range.from || undefined,
+          to: range.to || undefined,
+          cursor: pageParam || undefined,
+          limit: HISTORY_PAGE_SIZE,
+        }),
+      ),
+    getNextPageParam: (last, pages) =>
+      last?.nextCursor && last.rows?.length && pages.length < HISTORY_MAX_PAGES ? last.nextCursor : undefined,
+    staleTime: HISTORY_STALE_MS,
+    retry: false,
+  });
+
+  const { hasNextPage, isFetchingNextPage, isError, fetchNextPage } = q;
+  const pages = q.data?.pages;
+  const waiting = !!hasNextPage && !isFetchingNextPage && (pages?.length ?? 0) >= pageLimit;
+  useEffect(() => {
+    if (enabled && hasNextPage && !isFetchingNextPage && !isError && !waiting) void fetchNextPage();
+  }, [enabled, hasNextPage, isFetchingNextPage, isError, waiting, fetchNextPage]);
+
+  const rows = useMemo(
+    () => (pages ? mergeTrades([], pages.flatMap((p) => p?.rows || []), Number.POSITIVE_INFINITY) : []),
+    [pages],
+  );
+
+  const progress = useMemo<TradeHistoryProgress>(() => {
+    const last: TradeHistoryPage | undefined = pages?.[pages.length - 1];
+    const status = (q.error as any)?.response?.status;
+    const state: TradeHistoryState = !enabled
+      ? 'idle'
+      : q.isError
+        ? status === 404 || status === 501
+          ? 'unavailable'
+          : 'error'
+        : waiting
+          ? 'partial'
+          : !pages || q.hasNextPage || q.isFetchingNextPage
+            ? 'loading'
+            : last?.nextCursor && last.rows?.length
+              ? 'capped'
+              : 'complete';
+    const total = pages?.find((p) => Number.isFinite(Number(p?.total)))?.total;
+    return {
+      state,
+      pages: pages?.length ?? 0,
+      rows: rows.length,
+      total: total === undefined || total === null ? null : Number(total),
+      error: q.error ? String((q.error as any)?.message || q.error) : null,
+    };
+  }, [enabled, pages, rows.length, waiting, q.isError, q.error, q.hasNextPage, q.isFetchingNextPage]);
+
+  return { rows, progress, refetch: q.refetch, loadFullHistory: () => setFullRangeKey(rangeKey) };
+}
+
+/**
+ * Start of the incremental window: the last cached bar (re-fetched, since it may still be
+ * forming), or null when the cache is too old for `limit` bars to bridge the gap.
+ */
+function candleDeltaSince(rows: CandleRow[], intervalMin: number, limit: number): string | null {
+  const last = rows[rows.length - 1];
+  const lastMs = last ? new Date(last.ts).getTime() : NaN;
+  if (!Number.isFinite(lastMs)) return null;
+  return Date.now() - lastMs < limit * intervalMin * 60 * 1000 ? last.ts : null;
+}
+
 export function useCandles(
   token: number | null,
   intervalMin: number,
   limit = 300,
   pollMs: number | false = 3000,
+  date: string | null = null,
 ) {
   const { settings } = useSettings();
+  const queryClient = useQueryClient();
+  const scope = cacheScope(settings.baseUrl);
+  const queryKey = ['candles', settings.baseUrl, settings.apiKey, token, intervalMin, limit, date];
+
+  useCacheSeed<CandleRow>(
+    queryClient,
+    queryKey,
+    token && !date && scope ? () => readCachedCandles(scope, token, intervalMin) : null,
+  );
+
   return useQuery({
-    queryKey: ['candles', settings.baseUrl, settings.apiKey, token, intervalMin, limit],
+    queryKey,
     enabled: !!token,
-    queryFn: () =>
-      getJson<{ ok: boolean; rows: CandleRow[] }>(settings, '/admin/candles/recent', {
+    queryFn: async () => {
+      if (date || !token) {
+        const raw = await getJson<unknown>(settings, '/admin/candles/recent', {
+          token,
+          intervalMin,
+          limit,
+          ...(date ? { date } : {}),
+        });
+        return parsePayload('candles', raw);
+      }
+      const current = queryClient.getQueryData<RowsResponse<CandleRow>>(queryKey)?.rows;
+      const prev = current?.length ? current : await readCachedCandles(scope, token, intervalMin);
+      const since = candleDeltaSince(prev, intervalMin, limit);
+      const raw = await getJson<unknown>(settings, '/admin/candles/recent', {
         token,
         intervalMin,
         limit,
-      }),
+        ...(since ? { since } : {}),
+      });
+      const res = parsePayload('candles', raw);
+      const fresh = res?.rows || [];
+      cacheCandles(scope, token, intervalMin, fresh);
+      return { ...res, ok: res?.ok ?? true, rows: mergeCandles(prev, fresh, CACHED_CANDLES_MAX) };
+    },
     refetchInterval: pollMs,
     retry: false,
   });
@@ -82,20 +267,30 @@ export function useLiveLtp(token: number | null, pollMs: number | false = 1000)
   return useQuery({
     queryKey: ['ltp', settings.baseUrl, settings.apiKey, token],
     enabled: !!token,
-    queryFn: () =>
-      getJson<LiveLtpResponse>(settings, '/admin/ltp', {
-        token,
-      }),
+    queryFn: async () => parsePayload('ltp', await getJson<unknown>(settings, '/admin/ltp', { token })),
     refetchInterval: pollMs,
     retry: false,
   });
 }
 
+/** Same cache entries as useLiveLtp, for callers that watch a dynamic set of tokens. */
+export function useLiveLtps(tokens: number[], pollMs: number | false = 1500) {
+  const { settings } = useSettings();
+  return useQueries({
+    queries: tokens.map((token) => ({
+      queryKey: ['ltp', settings.baseUrl, settings.apiKey, token],
+      queryFn: async () => parsePayload('ltp', await getJson<unknown>(settings, '/admin/ltp', { token })),
+      refetchInterval: pollMs,
+      retry: false,
+    })),
+  });
+}
+
 export function useEquity(pollMs: number | false = 5000) {
   const { settings } = useSettings();
   return useQuery({
     queryKey: ['equity', settings.baseUrl, settings.apiKey],
-    queryFn: () => getJson<EquitySnapshot>(settings, '/admin/account/equity'),
+    queryFn: async () => parsePayload('equity', await getJson<unknown>(settings, '/admin/account/equity')),
     refetchInterval: pollMs,
     retry: false,
   });
@@ -105,7 +300,7 @@ export function usePositions(pollMs: number | false = 5000) {
   const { settings } = useSettings();
   return useQuery({
     queryKey: ['positions', settings.baseUrl, settings.apiKey],
-    queryFn: () => getJson<{ ok: boolean; rows: PositionRow[] }>(settings, '/admin/positions'),
+    queryFn: async () => parsePayload('positions', await getJson<unknown>(settings, '/admin/positions')),
     refetchInterval: pollMs,
     retry: false,
   });
@@ -115,7 +310,7 @@ export function useOrders(pollMs: number | false = 5000) {
   const { settings } = useSettings();
   return useQuery({
     queryKey: ['orders', settings.baseUrl, settings.apiKey],
-    queryFn: () => getJson<{ ok: boolean; rows: OrderRow[] }>(settings, '/admin/orders'),
+    queryFn: async () => parsePayload('orders', await getJson<unknown>(settings, '/admin/orders')),
     refetchInterval: pollMs,
     retry: false,
   });
@@ -125,7 +320,7 @@ export function useRiskLimits(pollMs: number | false = 8000) {
   const { settings } = useSettings();
   return useQuery({
     queryKey: ['riskLimits', settings.baseUrl, settings.apiKey],
-    queryFn: () => getJson<RiskLimitsResponse>(settings, '/admin/risk/limits'),
+    queryFn: async () => parsePayload('riskLimits', await getJson<unknown>(settings, '/admin/risk/limits')),
     refetchInterval: pollMs,
     retry: false,
   });
@@ -135,7 +330,7 @@ export function useStrategyKpis(pollMs: number | false = 8000) {
   const { settings } = useSettings();
   return useQuery({
     queryKey: ['strategyKpis', settings.baseUrl, settings.apiKey],
-    queryFn: () => getJson<StrategyKpisResponse>(settings, '/admin/strategy/kpis', { limit: 200 }),
+    queryFn: async () => parsePayload('strategyKpis', await getJson<unknown>(settings, '/admin/strategy/kpis', { limit: 200 })),
     refetchInterval: pollMs,
     retry: false,
   });
@@ -145,7 +340,7 @@ export function useExecutionQuality(pollMs: number | false = 8000) {
   const { settings } = useSettings();
   return useQuery({
     queryKey: ['executionQuality', settings.baseUrl, settings.apiKey],
-    queryFn: () => getJson<ExecutionQualityResponse>(settings, '/admin/execution/quality', { limit: 200 }),
+    queryFn: async () => parsePayload('executionQuality', await getJson<unknown>(settings, '/admin/execution/quality', { limit: 200 })),
     refetchInterval: pollMs,
     retry: false,
   });
@@ -155,7 +350,7 @@ export function useMarketHealth(pollMs: number | false = 6000) {
   const { settings } = useSettings();
   return useQuery({
     queryKey: ['marketHealth', settings.baseUrl, settings.apiKey],
-    queryFn: () => getJson<MarketHealthResponse>(settings, '/admin/market/health'),
+    queryFn: async () => parsePayload('marketHealth', await getJson<unknown>(settings, '/admin/market/health')),
     refetchInterval: pollMs,
     retry: false,
   });
@@ -165,7 +360,7 @@ export function useAuditLogs(pollMs: number | false = 10000) {
   const { settings } = useSettings();
   return useQuery({
     queryKey: ['auditLogs', settings.baseUrl, settings.apiKey],
-    queryFn: () => getJson<{ ok: boolean; rows: AuditLogRow[] }>(settings, '/admin/audit/logs', { limit: 50 }),
+    queryFn: async () => parsePayload('auditLogs', await getJson<unknown>(settings, '/admin/audit/logs', { limit: 50 })),
     refetchInterval: pollMs,
     retry: false,
   });
@@ -175,7 +370,7 @@ export function useAlertChannels(pollMs: number | false = 12000) {
   const { settings } = useSettings();
   return useQuery({
     queryKey: ['alertChannels', settings.baseUrl, settings.apiKey],
-    queryFn: () => getJson<{ ok: boolean; rows: AlertChannel[] }>(settings, '/admin/alerts/channels'),
+    queryFn: async () => parsePayload('alertChannels', await getJson<unknown>(settings, '/admin/alerts/channels')),
     refetchInterval: pollMs,
     retry: false,
   });
@@ -185,7 +380,7 @@ export function useAlertIncidents(pollMs: number | false = 12000) {
   const { settings } = useSettings();
   return useQuery({
     queryKey: ['alertIncidents', settings.baseUrl, settings.apiKey],
-    queryFn: () => getJson<{ ok: boolean; rows: AlertIncident[] }>(settings, '/admin/alerts/incidents', { limit: 50 }),
+    queryFn: async () => parsePayload('alertIncidents', await getJson<unknown>(settings, '/admin/alerts/incidents', { limit: 50 })),
     refetchInterval: pollMs,
     retry: false,
   });
@@ -195,7 +390,7 @@ export function useTelemetrySnapshot(pollMs: number | false = 12000) {
   const { settings } = useSettings();
   return useQuery({
     queryKey: ['telemetrySnapshot', settings.baseUrl, settings.apiKey],
-    queryFn: () => getJson<TelemetrySnapshot>(settings, '/admin/telemetry/snapshot'),
+    queryFn: async () => parsePayload('telemetry', await getJson<unknown>(settings, '/admin/telemetry/snapshot')),
     refetchInterval: pollMs,
     retry: false,
   });
@@ -205,7 +400,7 @@ export function useTradeTelemetrySnapshot(pollMs: number | false = 12000) {
   const { settings } = useSettings();
   return useQuery({
     queryKey: ['tradeTelemetrySnapshot', settings.baseUrl, settings.apiKey],
-    queryFn: () => getJson<TelemetrySnapshot>(settings, '/admin/trade-telemetry/snapshot'),
+    queryFn: async () => parsePayload('tradeTelemetry', await getJson<unknown>(settings, '/admin/trade-telemetry/snapshot')),
     refetchInterval: pollMs,
     retry: false,
   });
@@ -215,7 +410,7 @@ export function useOptimizerSnapshot(pollMs: number | false = 12000) {
   const { settings } = useSettings();
   return useQuery({
     queryKey: ['optimizerSnapshot', settings.baseUrl, settings.apiKey],
-    queryFn: () => getJson<OptimizerSnapshot>(settings, '/admin/optimizer/snapshot'),
+    queryFn: async () => parsePayload('optimizer', await getJson<unknown>(settings, '/admin/optimizer/snapshot')),
     refetchInterval: pollMs,
     retry: false,
   });
@@ -225,7 +420,7 @@ export function useRejections(pollMs: number | false = 15000) {
   const { settings } = useSettings();
   return useQuery({
     queryKey: ['rejections', settings.baseUrl, settings.apiKey],
-    queryFn: () => getJson<RejectionsSnapshot>(settings, '/admin/rejections', { top: 20 }),
+    queryFn: async () => parsePayload('rejections', await getJson<unknown>(settings, '/admin/rejections', { top: 20 })),
     refetchInterval: pollMs,
     retry: false,
   });
@@ -235,7 +430,7 @@ export function useCostCalibration(pollMs: number | false = 20000) {
   const { settings } = useSettings();
   return useQuery({
     queryKey: ['costCalibration', settings.baseUrl, settings.apiKey],
-    queryFn: () => getJson<CostCalibrationResponse>(settings, '/admin/cost/calibration'),
+    queryFn: async () => parsePayload('costCalibration', await getJson<unknown>(settings, '/admin/cost/calibration')),
     refetchInterval: pollMs,
     retry: false,
   });
@@ -245,7 +440,7 @@ export function useMarketCalendar(pollMs: number | false = 20000) {
   const { settings } = useSettings();
   return useQuery({
     queryKey: ['marketCalendar', settings.baseUrl, settings.apiKey],
-    queryFn: () => getJson<MarketCalendarResponse>(settings, '/admin/market/calendar'),
+    queryFn: async () => parsePayload('marketCalendar', await getJson<unknown>(settings, '/admin/market/calendar')),
     refetchInterval: pollMs,
     retry: false,
   });
@@ -255,7 +450,7 @@ export function useFnoUniverse(pollMs: number | false = 20000) {
   const { settings } = useSettings();
   return useQuery({
     queryKey: ['fnoUniverse', settings.baseUrl, settings.apiKey],
-    queryFn: () => getJson<FnoUniverseResponse>(settings, '/admin/fno'),
+    queryFn: async () => parsePayload('fno', await getJson<unknown>(settings, '/admin/fno')),
     refetchInterval: pollMs,
     retry: false,
   });
@@ -265,7 +460,7 @@ export function useCriticalHealth(pollMs: number | false = 12000) {
   const { settings } = useSettings();
   return useQuery({
     queryKey: ['criticalHealth', settings.baseUrl, settings.apiKey],
-    queryFn: () => getJson<CriticalHealthResponse>(settings, '/admin/health/critical'),
+    queryFn: async () => parsePayload('criticalHealth', await getJson<unknown>(settings, '/admin/health/critical')),
     refetchInterval: pollMs,
     retry: false,
   });
@@ -275,7 +470,7 @@ export function useEodAggregateReport(pollMs: number | false = 60000) {
   const { settings } = useSettings();
   return useQuery({
     queryKey: ['eodAggregateReport', settings.baseUrl, settings.apiKey],
-    queryFn: () => getJson<EodAggregateResponse>(settings, '/admin/reports/eod'),
+    queryFn: async () => parsePayload('eodAggregate', await getJson<unknown>(settings, '/admin/reports/eod')),
     refetchInterval: pollMs,
     retry: false,
   });
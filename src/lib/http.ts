@@ -1,5 +1,12 @@
 import axios from 'axios';
-import type { AppSettings } from './settings';
+import { isPlaybackActive, playbackResponse, recordHttp } from './sessionRecorder';
+import { isMockBaseUrl, type AppSettings } from './settings';
+
+/** The mock backend is loaded on first use, so real connections never download the simulator. */
+async function mockRequest(settings: AppSettings, method: 'GET' | 'POST', path: string, payload?: any) {
+  const mock = await import('./mockBackend');
+  return mock.mockRequest(settings.baseUrl.trim().replace(/\/$/, ''), method, path, payload);
+}
 
 export function buildUrl(baseUrl: string, path: string) {
   const b = baseUrl.replace(/\/$/, '');
@@ -8,17 +15,25 @@ export function buildUrl(baseUrl: string, path: string) {
 }
 
 export async function getJson<T>(settings: AppSettings, path: string, params?: any): Promise<T> {
-  const url = buildUrl(settings.baseUrl, path);
-  const headers: Record<string, string> = {};
-  if (settings.apiKey) headers['x-api-key'] = settings.apiKey;
-  const res = await axios.get(url, { params, headers });
-  return res.data as T;
+  if (isPlaybackActive()) return playbackResponse('GET', path, params) as T;
+  return recordHttp('GET', path, params, async () => {
+    if (isMockBaseUrl(settings.baseUrl)) return (await mockRequest(settings, 'GET', path, params)) as T;
+    const url = buildUrl(settings.baseUrl, path);
+    const headers: Record<string, string> = {};
+    if (settings.apiKey) headers['x-api-key'] = settings.apiKey;
+    const res = await axios.get(url, { params, headers });
+    return res.data as T;
+  });
 }
 
 export async function postJson<T>(settings: AppSettings, path: string, body?: any): Promise<T> {
-  const url = buildUrl(settings.baseUrl, path);
-  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
-  if (settings.apiKey) headers['x-api-key'] = settings.apiKey;
-  const res = await axios.post(url, body ?? {}, { headers });
-  return res.data as T;
+  if (isPlaybackActive()) return playbackResponse('POST', path, body) as T;
+  return recordHttp('POST', path, body, async () => {
+    if (isMockBaseUrl(settings.baseUrl)) return (await mockRequest(settings, 'POST', path, body)) as T;
+    const url = buildUrl(settings.baseUrl, path);
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (settings.apiKey) headers['x-api-key'] = settings.apiKey;
+    const res = await axios.post(url, body ?? {}, { headers });
+    return res.data as T;
+  });
 }
@@ -0,0 +1,512 @@
+import { getIstDayStartMs, type LwCandle, type LwVolume } from './chartUtils';
+
+export type IndicatorKind = 'EMA' | 'SMA' | 'VWAP' | 'BB' | 'SUPERTREND' | 'ATR' | 'RSI' | 'MACD';
+
+export type IndicatorSpec = {
+  kind: IndicatorKind;
+  period?: number;
+  mult?: number;
+  fast?: number;
+  slow?: number;
+  signal?: number;
+};
+
+export type IndicatorBar = LwCandle & { volume?: number };
+
+export type IndicatorPoint = { time: number; value: number; color?: string };
+
+export type IndicatorSeries = {
+  key: string;
+  specKey: string;
+  label: string;
+  pane: 'price' | 'sub';
+  style: 'line' | 'histogram';
+  color: string;
+  points: IndicatorPoint[];
+  // Horizontal guides (e.g. RSI 30/70) drawn on the sub-pane.
+  guides?: number[];
+};
+
+export const INDICATOR_KINDS: Array<{ kind: IndicatorKind; label: string; pane: 'price' | 'sub'; defaults: IndicatorSpec }> = [
+  { kind: 'EMA', label: 'EMA', pane: 'price', defaults: { kind: 'EMA', period: 20 } },
+  { kind: 'SMA', label: 'SMA', pane: 'price', defaults: { kind: 'SMA', period: 20 } },
+  { kind: 'VWAP', label: 'VWAP', pane: 'price', defaults: { kind: 'VWAP' } },
+  { kind: 'BB', label: 'Bollinger', pane: 'price', defaults: { kind: 'BB', period: 20, mult: 2 } },
+  { kind: 'SUPERTREND', label: 'SuperTrend', pane: 'price', defaults: { kind: 'SUPERTREND', period: 10, mult: 3 } },
+  { kind: 'ATR', label: 'ATR', pane: 'sub', defaults: { kind: 'ATR', period: 14 } },
+  { kind: 'RSI', label: 'RSI', pane: 'sub', defaults: { kind: 'RSI', period: 14 } },
+  { kind: 'MACD', label: 'MACD', pane: 'sub', defaults: { kind: 'MACD', fast: 12, slow: 26, signal: 9 } },
+];
+
+const PRICE_COLORS = ['#ffcc66', '#6aa6ff', '#c792ea', '#4dd0e1', '#f78c6c', '#addb67'];
+const UP_COLOR = '#2ee59d';
+const DOWN_COLOR = '#ff6b6b';
+
+function posInt(v: unknown, fallback: number, max = 500) {
+  const n = Math.round(Number(v));
+  if (!Number.isFinite(n) || n < 1) return fallback;
+  return Math.min(n, max);
+}
+
+function posNum(v: unknown, fallback: number) {
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+/**
+ * Fill in defaults and clamp parameters so a spec read from localStorage (or typed by hand)
+ * always produces a well-formed calculation.
+ */
+export function normalizeIndicatorSpec(raw: any): IndicatorSpec | null {
+  const def = INDICATOR_KINDS.find((k) => k.kind === String(raw?.kind || '').toUpperCase());
+  if (!def) return null;
+  const d = def.defaults;
+  switch (def.kind) {
+    case 'EMA':
+    case 'SMA':
+    case 'ATR':
+    case 'RSI':
+      return { kind: def.kind, period: posInt(raw?.period, d.period as number) };
+    case 'VWAP':
+      return { kind: 'VWAP' };
+    case 'BB':
+    case 'SUPERTREND':
+      return { kind: def.kind, period: posInt(raw?.period, d.period as number), mult: posNum(raw?.mult, d.mult as number) };
+    case 'MACD':
+      return {
+        kind: 'MACD',
+        fast: posInt(raw?.fast, d.fast as number),
+        slow: posInt(raw?.slow, d.slow as number),
+        signal: posInt(raw?.signal, d.signal as number),
+      };
+    default:
+      return null;
+  }
+}
+
+export function normalizeIndicatorSpecs(raw: unknown): IndicatorSpec[] {
+  if (!Array.isArray(raw)) return [];
+  const out: IndicatorSpec[] = [];
+  const seen = new Set<string>();
+  for (const item of raw) {
+    const spec = normalizeIndicatorSpec(item);
+    if (!spec) continue;
+    const key = indicatorSpecKey(spec);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    out.push(spec);
+  }
+  return out;
+}
+
+export function indicatorSpecKey(spec: IndicatorSpec): string {
+  switch (spec.kind) {
+    case 'VWAP':
+      return 'VWAP';
+    case 'BB':
+    case 'SUPERTREND':
+      return `${spec.kind}:${spec.period}:${spec.mult}`;
+    case 'MACD':
+      return `MACD:${spec.fast}:${spec.slow}:${spec.signal}`;
+    default:
+      return `${spec.kind}:${spec.period}`;
+  }
+}
+
+export function indicatorLabel(spec: IndicatorSpec): string {
+  switch (spec.kind) {
+    case 'VWAP':
+      return 'VWAP';
+    case 'BB':
+      return `BB ${spec.period},${spec.mult}`;
+    case 'SUPERTREND':
+      return `ST ${spec.period},${spec.mult}`;
+    case 'MACD':
+      return `MACD ${spec.fast},${spec.slow},${spec.signal}`;
+    default:
+      return `${spec.kind} ${spec.period}`;
+  }
+}
+
+export function indicatorPane(spec: IndicatorSpec): 'price' | 'sub' {
+  return INDICATOR_KINDS.find((k) => k.kind === spec.kind)?.pane ?? 'price';
+}
+
+/** Merge LwVolume rows onto candles by time (volume is optional for every indicator except VWAP). */
+export function toIndicatorBars(candles: LwCandle[], volumes?: LwVolume[]): IndicatorBar[] {
+  if (!volumes?.length) return candles;
+  const byTime = new Map<number, number>();
+  for (const v of volumes) byTime.set(v.time, v.value);
+  return candles.map((c) => ({ ...c, volume: byTime.get(c.time) ?? 0 }));
+}
+
+// ---- Steppers ---------------------------------------------------------------
+//
+// Every indicator is expressed as a pure (state, bar) -> (state, values) step so the engine
+// can keep the state after the last *closed* bar and only re-run the forming bar when
+// applyLiveLtpToCandles rewrites it.
+
+type StepResult = { state: any; values: Array<number | null>; colors?: Array<string | undefined> };
+type Stepper = { init: any; step: (state: any, bar: IndicatorBar) => StepResult };
+
+type AvgState = { n: number; sum: number; value: number | null };
+const AVG_INIT: AvgState = { n: 0, sum: 0, value: null };
+
+// Seeds with the SMA of the first `period` inputs, then smooths with factor k.
+function smoothStep(s: AvgState, x: number, period: number, k: number): AvgState {
+  const n = s.n + 1;
+  if (s.value === null) {
+    const sum = s.sum + x;
+    return { n, sum, value: n >= period ? sum / period : null };
+  }
+  return { n, sum: s.sum, value: s.value + k * (x - s.value) };
+}
+
+function emaStep(s: AvgState, x: number, period: number) {
+  return smoothStep(s, x, period, 2 / (period + 1));
+}
+
+function rmaStep(s: AvgState, x: number, period: number) {
+  return smoothStep(s, x, period, 1 / period);
+}
+
+function windowPush(win: number[], x: number, period: number) {
+  const next = win.length >= period ? win.slice(win.length - period + 1) : win.slice();
+  next.push(x);
+  return next;
+}
+
+function trueRange(bar: IndicatorBar, prevClose: number | null) {
+  if (prevClose === null) return bar.high - bar.low;
+  return Math.max(bar.high - bar.low, Math.abs(bar.high - prevClose), Math.abs(bar.low - prevClose));
+}
+
+function emaStepper(period: number): Stepper {
+  return {
+    init: AVG_INIT,
+    step: (s: AvgState, bar) => {
+      const state = emaStep(s, bar.close, period);
+      return { state, values: [state.value] };
+    },
+  };
+}
+
+function smaStepper(period: number): Stepper {
+  return {
+    init: [] as number[],
+    step: (win: number[], bar) => {
+      const state = windowPush(win, bar.close, period);
+      const value = state.length >= period ? state.reduce((a, b) => a + b, 0) / period : null;
+      return { state, values: [value] };
+    },
+  };
+}
+
+function bollingerStepper(period: number, mult: number): Stepper {
+  return {
+    init: [] as number[],
+    step: (win: number[], bar) => {
+      const state = windowPush(win, bar.close, period);
+      if (state.length < period) return { state, values: [null, null, null] };
+      const mean = state.reduce((a, b) => a + b, 0) / period;
+      const variance = state.reduce((a, b) => a + (b - mean) * (b - mean), 0) / period;
+      const dev = Math.sqrt(variance) * mult;
+      return { state, values: [mean + dev, mean, mean - dev] };
+    },
+  };
+}
+
+type VwapState = { dayStart: number | null; pv: number; vol: number; tpSum: number; count: number };
+
+function vwapStepper(): Stepper {
+  return {
+    init: { dayStart: null, pv: 0, vol: 0, tpSum: 0, count: 0 } as VwapState,
+    step: (s: VwapState, bar) => {
+      const dayStart = getIstDayStartMs(bar.time * 1000);
+      const base = s.dayStart === dayStart ? s : { dayStart, pv: 0, vol: 0, tpSum: 0, count: 0 };
+      const tp = (bar.high + bar.low + bar.close) / 3;
+      const v = Number.isFinite(bar.volume) && (bar.volume as number) > 0 ? (bar.volume as number) : 0;
+      const state: VwapState = {
+        dayStart,
+        pv: base.pv + tp * v,
+        vol: base.vol + v,
+        tpSum: base.tpSum + tp,
+        count: base.count + 1,
+      };
+      // Index tokens carry no volume; fall back to the session's average typical price.
+      const value = state.vol > 0 ? state.pv / state.vol : state.tpSum / state.count;
+      return { state, values: [value] };
+    },
+  };
+}
+
+type AtrState = { prevClose: number | null; atr: AvgState };
+
+function atrStepper(period: number): Stepper {
+  return {
+    init: { prevClose: null, atr: AVG_INIT } as AtrState,
+    step: (s: AtrState, bar) => {
+      const atr = rmaStep(s.atr, trueRange(bar, s.prevClose), period);
+      return { state: { prevClose: bar.close, atr }, values: [atr.value] };
+    },
+  };
+}
+
+type SuperTrendState = {
+  prevClose: number | null;
+  atr: AvgState;
+  upper: number | null;
+  lower: number | null;
+  dir: 1 | -1;
+};
+
+function superTrendStepper(period: number, mult: number): Stepper {
+  return {
+    init: { prevClose: null, atr: AVG_INIT, upper: null, lower: null, dir: 1 } as SuperTrendState,
+    step: (s: SuperTrendState, bar) => {
+      const atr = rmaStep(s.atr, trueRange(bar, s.prevClose), period);
+      if (atr.value === null) {
+        return { state: { ...s, prevClose: bar.close, atr }, values: [null] };
+      }
+      const hl2 = (bar.high + bar.low) / 2;
+      const basicUpper = hl2 + mult * atr.value;
+      const basicLower = hl2 - mult * atr.value;
+      const pc = s.prevClose ?? bar.close;
+      const upper = s.upper === null || basicUpper < s.upper || pc > s.upper ? basicUpper : s.upper;
+      const lower = s.lower === null || basicLower > s.lower || pc < s.lower ? basicLower : s.lower;
+      let dir = s.dir;
+      if (dir === 1 && bar.close < lower) dir = -1;
+      else if (dir === -1 && bar.close > upper) dir = 1;
+      const state: SuperTrendState = { prevClose: bar.close, atr, upper, lower, dir };
+      return {
+        state,
+        values: [dir === 1 ? lower : upper],
+        colors: [dir === 1 ? UP_COLOR : DOWN_COLOR],
+      };
+    },
+  };
+}
+
+type RsiState = { prevClose: number | null; gain: AvgState; loss: AvgState };
+
+function rsiStepper(period: number): Stepper {
+  return {
+    init: { prevClose: null, gain: AVG_INIT, loss: AVG_INIT } as RsiState,
+    step: (s: RsiState, bar) => {
+      if (s.prevClose === null) {
+        return { state: { ...s, prevClose: bar.close }, values: [null] };
+      }
+      const change = bar.close - s.prevClose;
+      const gain = rmaStep(s.gain, Math.max(0, change), period);
+      const loss = rmaStep(s.loss, Math.max(0, -change), period);
+      const state: RsiState = { prevClose: bar.close, gain, loss };
+      if (gain.value === null || loss.value === null) return { state, values: [null] };
+      const value = loss.value === 0 ? 100 : 100 - 100 / (1 + gain.value / loss.value);
+      return { state, values: [value] };
+    },
+  };
+}
+
+type MacdState = { fast: AvgState; slow: AvgState; signal: AvgState };
+
+function macdStepper(fast: number, slow: number, signal: number): Stepper {
+  return {
+    init: { fast: AVG_INIT, slow: AVG_INIT, signal: AVG_INIT } as MacdState,
+    step: (s: MacdState, bar) => {
+      const f = emaStep(s.fast, bar.close, fast);
+      const sl = emaStep(s.slow, bar.close, slow);
+      if (f.value === null || sl.value === null) {
+        return { state: { ...s, fast: f, slow: sl }, values: [null, null, null] };
+      }
+      const macd = f.value - sl.value;
+      const sig = emaStep(s.signal, macd, signal);
+      const hist = sig.value === null ? null : macd - sig.value;
+      return {
+        state: { fast: f, slow: sl, signal: sig },
+        values: [macd, sig.value, hist],
+        colors: [undefined, undefined, hist === null ? undefined : hist >= 0 ? 'rgba(46,229,157,0.55)' : 'rgba(255,107,107,0.55)'],
+      };
+    },
+  };
+}
+
+type OutputDef = { suffix: string; label: string; style: 'line' | 'histogram'; color: string };
+
+function describe(spec: IndicatorSpec, colorIdx: number): { stepper: Stepper; outputs: OutputDef[]; guides?: number[] } {
+  const label = indicatorLabel(spec);
+  const color = PRICE_COLORS[colorIdx % PRICE_COLORS.length];
+  switch (spec.kind) {
+    case 'EMA':
+      return { stepper: emaStepper(spec.period as number), outputs: [{ suffix: '', label, style: 'line', color }] };
+    case 'SMA':
+      return { stepper: smaStepper(spec.period as number), outputs: [{ suffix: '', label, style: 'line', color }] };
+    case 'VWAP':
+      return { stepper: vwapStepper(), outputs: [{ suffix: '', label, style: 'line', color: '#ff9ff3' }] };
+    case 'BB':
+      return {
+        stepper: bollingerStepper(spec.period as number, spec.mult as number),
+        outputs: [
+          { suffix: ':upper', label: `${label} upper`, style: 'line', color: 'rgba(106,166,255,0.75)' },
+          { suffix: ':mid', label: `${label} mid`, style: 'line', color: 'rgba(106,166,255,0.45)' },
+          { suffix: ':lower', label: `${label} lower`, style: 'line', color: 'rgba(106,166,255,0.75)' },
+        ],
+      };
+    case 'SUPERTREND':
+      return {
+        stepper: superTrendStepper(spec.period as number, spec.mult as number),
+        outputs: [{ suffix: '', label, style: 'line', color: UP_COLOR }],
+      };
+    case 'ATR':
+      return { stepper: atrStepper(spec.period as number), outputs: [{ suffix: '', label, style: 'line', color: '#ffcc66' }] };
+    case 'RSI':
+      return {
+        stepper: rsiStepper(spec.period as number),
+        outputs: [{ suffix: '', label, style: 'line', color: '#c792ea' }],
+        guides: [30, 70],
+      };
+    case 'MACD':
+      return {
+        stepper: macdStepper(spec.fast as number, spec.slow as number, spec.signal as number),
+        outputs: [
+          { suffix: ':macd', label, style: 'line', color: '#6aa6ff' },
+          { suffix: ':signal', label: `${label} signal`, style: 'line', color: '#ffcc66' },
+          { suffix: ':hist', label: `${label} hist`, style: 'histogram', color: 'rgba(255,255,255,0.35)' },
+        ],
+      };
+    default:
+      return { stepper: { init: null, step: (s) => ({ state: s, values: [] }) }, outputs: [] };
+  }
+}
+
+// ---- Engine -----------------------------------------------------------------
+
+type SpecRun = {
+  specKey: string;
+  spec: IndicatorSpec;
+  stepper: Stepper;
+  outputs: OutputDef[];
+  guides?: number[];
+  // State after the last committed (closed) bar and the points produced up to it.
+  committedState: any;
+  committedPoints: IndicatorPoint[][];
+};
+
+export type IndicatorEngine = {
+  update: (bars: IndicatorBar[], specs: IndicatorSpec[]) => IndicatorSeries[];
+  reset: () => void;
+};
+
+function sameBar(a: IndicatorBar | undefined, b: IndicatorBar | undefined) {
+  if (!a || !b) return false;
+  return (
+    a.time === b.time &&
+    a.open === b.open &&
+    a.high === b.high &&
+    a.low === b.low &&
+    a.close === b.close &&
+    (a.volume ?? 0) === (b.volume ?? 0)
+  );
+}
+
+function stepInto(run: SpecRun, state: any, bar: IndicatorBar, into: IndicatorPoint[][]) {
+  const res = run.stepper.step(state, bar);
+  res.values.forEach((v, i) => {
+    if (v === null || !Number.isFinite(v)) return;
+    const color = res.colors?.[i];
+    into[i].push(color ? { time: bar.time, value: v, color } : { time: bar.time, value: v });
+  });
+  return res.state;
+}
+
+/**
+ * Stateful calculator for one chart. All bars but the last are treated as closed: their
+ * indicator state is kept, so a live LTP tick that rewrites (or appends) the forming bar
+ * costs one step per indicator instead of a full recompute. Any change to the closed
+ * prefix (backfill, token/interval switch) falls back to a full pass.
+ */
+export function createIndicatorEngine(): IndicatorEngine {
+  let committedBars: IndicatorBar[] = [];
+  let runs: SpecRun[] = [];
+  let specsKey = '';
+
+  const rebuild = (specs: IndicatorSpec[]) => {
+    let priceIdx = 0;
+    runs = specs.map((spec) => {
+      const d = describe(spec, indicatorPane(spec) === 'price' ? priceIdx++ : 0);
+      return {
+        specKey: indicatorSpecKey(spec),
+        spec,
+        stepper: d.stepper,
+        outputs: d.outputs,
+        guides: d.guides,
+        committedState: d.stepper.init,
+        committedPoints: d.outputs.map(() => []),
+      };
+    });
+    committedBars = [];
+  };
+
+  const update = (bars: IndicatorBar[], specs: IndicatorSpec[]): IndicatorSeries[] => {
+    const nextSpecsKey = specs.map(indicatorSpecKey).join('|');
+    if (nextSpecsKey !== specsKey) {
+      specsKey = nextSpecsKey;
+      rebuild(specs);
+    }
+    if (!runs.length) return [];
+
+    const closedCount = Math.max(0, bars.length - 1);
+    let prefixOk = closedCount >= committedBars.length;
+    for (let i = 0; prefixOk && i < committedBars.length; i += 1) {
+      if (!sameBar(committedBars[i], bars[i])) prefixOk = false;
+    }
+    if (!prefixOk) {
+      for (const run of runs) {
+        run.committedState = run.stepper.init;
+        run.committedPoints = run.outputs.map(() => []);
+      }
+      committedBars = [];
+    }
+
+    // Commit bars that have closed since the last update.
+    for (let i = committedBars.length; i < closedCount; i += 1) {
+      for (const run of runs) {
+        run.committedState = stepInto(run, run.committedState, bars[i], run.committedPoints);
+      }
+    }
+    committedBars = bars.slice(0, closedCount);
+
+    const forming = bars.length ? bars[bars.length - 1] : null;
+    const out: IndicatorSeries[] = [];
+    for (const run of runs) {
+      const tail: IndicatorPoint[][] = run.outputs.map(() => []);
+      if (forming) stepInto(run, run.committedState, forming, tail);
+      run.outputs.forEach((o, i) => {
+        out.push({
+          key: `${run.specKey}${o.suffix}`,
+          specKey: run.specKey,
+          label: o.label,
+          pane: indicatorPane(run.spec),
+          style: o.style,
+          color: o.color,
+          points: tail[i].length ? run.committedPoints[i].concat(tail[i]) : run.committedPoints[i].slice(),
+          guides: i === 0 ? run.guides : undefined,
+        });
+      });
+    }
+    return out;
+  };
+
+  return {
+    update,
+    reset: () => {
+      specsKey = '';
+      runs = [];
+      committedBars = [];
+    },
+  };
+}
+
+/** One-shot calculation over a full bar array. */
+export function computeIndicators(bars: IndicatorBar[], specs: IndicatorSpec[]): IndicatorSeries[] {
+  return createIndicatorEngine().update(bars, specs);
+}
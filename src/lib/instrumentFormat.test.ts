@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatPrettyInstrumentFromTrade,
+  formatPrettyInstrumentFromTradingSymbol,
+  formatPrettyTokenLabel,
+  parseTradingSymbol,
+} from './instrumentFormat';
+import { closedWinner, rejectedTrade } from '../test/fixtures/trades';
+
+describe('parseTradingSymbol', () => {
+  it.each([
+    ['NIFTY2620324800PE', { underlying: 'NIFTY', year: '26', mon: 'Feb', day: '03', strike: '24800', optType: 'PE' }],
+    ['BANKNIFTY2620552000CE', { underlying: 'BANKNIFTY', year: '26', mon: 'Feb', day: '05', strike: '52000', optType: 'CE' }],
+    // Single-digit month followed by a day that starts with 1 or 2.
+    ['NIFTY2611224800CE', { underlying: 'NIFTY', year: '26', mon: 'Jan', day: '12', strike: '24800', optType: 'CE' }],
+    ['NIFTY26O2024500CE', { underlying: 'NIFTY', year: '26', mon: 'Oct', day: '20', strike: '24500', optType: 'CE' }],
+    ['NIFTY26N0324500PE', { underlying: 'NIFTY', year: '26', mon: 'Nov', day: '03', strike: '24500', optType: 'PE' }],
+    ['NIFTY26D2925000CE', { underlying: 'NIFTY', year: '26', mon: 'Dec', day: '29', strike: '25000', optType: 'CE' }],
+    ['BANKNIFTY26FEB52000CE', { underlying: 'BANKNIFTY', year: '26', mon: 'Feb', strike: '52000', optType: 'CE' }],
+    ['FINNIFTY26MAR24000PE', { underlying: 'FINNIFTY', year: '26', mon: 'Mar', strike: '24000', optType: 'PE' }],
+    [' nifty2620324800pe ', { underlying: 'NIFTY', year: '26', mon: 'Feb', day: '03', strike: '24800', optType: 'PE' }],
+  ])('%s', (symbol, expected) => {
+    expect(parseTradingSymbol(symbol)).toEqual(expected);
+  });
+
+  it.each([[''], [null], [undefined], ['NIFTY 50'], ['RELIANCE'], ['NIFTY26FEBFUT']])('rejects %s', (symbol) => {
+    expect(parseTradingSymbol(symbol)).toBeNull();
+  });
+});
+
+describe('formatPrettyInstrumentFromTradingSymbol', () => {
+  it.each([
+    ['NIFTY2620324800PE', 'NIFTY 03 Feb 24800 Put'],
+    ['BANKNIFTY26FEB52000CE', 'BANKNIFTY 52000 Call'],
+    ['NIFTY26O2024500CE', 'NIFTY 20 Oct 24500 Call'],
+    ['RELIANCE', null],
+  ])('%s → %s', (symbol, expected) => {
+    expect(formatPrettyInstrumentFromTradingSymbol(symbol)).toBe(expected);
+  });
+});
+
+describe('formatPrettyInstrumentFromTrade', () => {
+  it('prefers the backend instrument fields', () => {
+    expect(formatPrettyInstrumentFromTrade(closedWinner)).toBe('NIFTY 03 Feb 24800 Put');
+  });
+
+  it('falls back to the tradingsymbol when expiry is missing', () => {
+    expect(formatPrettyInstrumentFromTrade(rejectedTrade)).toBe('BANKNIFTY 52000 Call');
+  });
+
+  it('reads top-level symbol aliases', () => {
+    const trade = { tradeId: 'x', instrument_token: 1, tradingsymbol: 'NIFTY2620324800PE' } as any;
+    expect(formatPrettyInstrumentFromTrade(trade)).toBe('NIFTY 03 Feb 24800 Put');
+  });
+
+  it('falls back to the token, then to a dash', () => {
+    expect(formatPrettyInstrumentFromTrade({ tradeId: 'x', instrument_token: 256265 })).toBe('256265');
+    expect(formatPrettyInstrumentFromTrade({ tradeId: 'x' } as any)).toBe('-');
+  });
+});
+
+describe('formatPrettyTokenLabel', () => {
+  it.each([
+    [256265, { 256265: 'NIFTY 50' }, 'NIFTY 50 (256265)'],
+    [260105, { 256265: 'NIFTY 50' }, '260105'],
+  ])('%i', (token, labels, expected) => {
+    expect(formatPrettyTokenLabel(token, labels)).toBe(expected);
+  });
+});
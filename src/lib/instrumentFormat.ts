@@ -30,6 +30,10 @@ const MONTHS_SHORT: Record<string, string> = {
   DEC: "Dec",
 };
 
+const IST_OFFSET_MS = 5.5 * 60 * 60 * 1000;
+
+const WEEKLY_MONTH_LETTERS: Record<string, number> = { O: 10, N: 11, D: 12 };
+
 function pad2(n: number) {
   return String(n).padStart(2, "0");
 }
@@ -44,12 +48,14 @@ function optionWord(t?: string | null) {
   return "";
 }
 
+// Expiries are exchange dates: read them on the IST calendar, not the browser's.
 function tryFormatExpiry(iso?: string | null) {
   if (!iso) return null;
-  const d = new Date(iso);
-  if (Number.isNaN(d.getTime())) return null;
-  const day = pad2(d.getDate());
-  const mon = MONTHS[d.getMonth()] || "";
+  const ms = new Date(iso).getTime();
+  if (Number.isNaN(ms)) return null;
+  const d = new Date(ms + IST_OFFSET_MS);
+  const day = pad2(d.getUTCDate());
+  const mon = MONTHS[d.getUTCMonth()] || "";
   return `${day} ${mon}`;
 }
 
@@ -67,18 +73,19 @@ export type ParsedTradingSymbol = {
  *   NIFTY2620324800PE
  *   BANKNIFTY2620520000CE
  *
- * Pattern (typical weekly): UNDERLYING + YY + M(M) + DD + STRIKE + CE/PE
+ * Pattern (typical weekly): UNDERLYING + YY + M + DD + STRIKE + CE/PE; Oct-Dec weeklies write M as O/N/D
  */
 export function parseTradingSymbol(tradingsymbol?: string | null): ParsedTradingSymbol | null {
   if (!tradingsymbol) return null;
   const ts = String(tradingsymbol).trim().toUpperCase();
 
-  // Common format: UNDERLYING + YY + M{1,2} + DD + STRIKE + CE|PE
-  const m = ts.match(/^([A-Z]+?)(\d{2})(\d{1,2})(\d{2})(\d+)(CE|PE)$/);
+  // Common format: UNDERLYING + YY + M + DD + STRIKE + CE|PE. The month is one character (1-9, or
+  // O/N/D for Oct-Dec); allowing two digits would read "2620324800" as month 20, day 32.
+  const m = ts.match(/^([A-Z]+?)(\d{2})([1-9OND])(\d{2})(\d+)(CE|PE)$/);
   if (m) {
     const underlying = m[1];
     const year = m[2];
-    const monNum = Number(m[3]);
+    const monNum = WEEKLY_MONTH_LETTERS[m[3]] ?? Number(m[3]);
     const day = pad2(Number(m[4]));
     const strike = m[5];
     const optType = m[6] as "CE" | "PE";
@@ -0,0 +1,240 @@
+import type { ChartConfig } from "../components/ChartPanel";
+import { defaultBlotterLayout, normalizeBlotterLayout, type BlotterLayout } from "./blotter";
+import { normalizeIndicatorSpecs } from "./indicators";
+import { DAILY_INTERVAL_MIN, MAX_CUSTOM_INTERVAL_MIN, isChartType } from "./timeframes";
+
+export const LAYOUT_VERSION = 2;
+
+const LAYOUT_KEY = "kite_scalper_dashboard_layout_v2";
+const LEGACY_LAYOUT_KEY = "kite_scalper_dashboard_layout_v1";
+const PRESETS_KEY = "kite_scalper_dashboard_layout_presets_v1";
+
+export const MAX_GRID_DIM = 4;
+
+export type GridSize = { rows: number; cols: number };
+
+export type SavedLayout = {
+  version: typeof LAYOUT_VERSION;
+  grid: GridSize;
+  charts: ChartConfig[];
+  /** Blotter columns, widths, sort and grouping. Older layouts without it get the defaults. */
+  blotter: BlotterLayout;
+  blotterOpen: boolean;
+  activePreset: string | null;
+};
+
+export type LayoutPreset = {
+  name: string;
+  savedAt: string;
+  layout: SavedLayout;
+};
+
+export type LayoutExport = {
+  kind: "kite-scalper-layouts";
+  version: typeof LAYOUT_VERSION;
+  exportedAt: string;
+  current: SavedLayout;
+  presets: LayoutPreset[];
+};
+
+export const GRID_OPTIONS: Array<GridSize & { label: string }> = [
+  { label: "1×1", rows: 1, cols: 1 },
+  { label: "1×2", rows: 1, cols: 2 },
+  { label: "2×2", rows: 2, cols: 2 },
+  { label: "3×2", rows: 3, cols: 2 },
+  { label: "3×3", rows: 3, cols: 3 },
+];
+
+export const DEFAULT_GRID: GridSize = { rows: 2, cols: 2 };
+
+export function gridLabel(grid: GridSize) {
+  return `${grid.rows}×${grid.cols}`;
+}
+
+function clampDim(v: unknown, fallback: number) {
+  const n = Math.round(Number(v));
+  if (!Number.isFinite(n)) return fallback;
+  return Math.max(1, Math.min(MAX_GRID_DIM, n));
+}
+
+export function normalizeGrid(raw: any): GridSize {
+  return {
+    rows: clampDim(raw?.rows, DEFAULT_GRID.rows),
+    cols: clampDim(raw?.cols, DEFAULT_GRID.cols),
+  };
+}
+
+export function defaultChartConfig(index: number): ChartConfig {
+  return {
+    token: null,
+    intervalMin: index < 2 ? 1 : 3,
+    chartType: "candles",
+    boxSize: 0,
+    ticksPerBar: 1,
+    showTape: false,
+    indicators: [],
+    historyDays: 0,
+  };
+}
+
+export function normalizeChartConfig(raw: any, index: number): ChartConfig {
+  const token = Number(raw?.token);
+  const intervalMin = Number(raw?.intervalMin);
+  const historyDays = Number(raw?.historyDays);
+  const boxSize = Number(raw?.boxSize);
+  const ticksPerBar = Number(raw?.ticksPerBar);
+  return {
+    token: raw?.token !== null && raw?.token !== undefined && Number.isFinite(token) ? token : null,
+    intervalMin:
+      Number.isFinite(intervalMin) && intervalMin > 0
+        ? intervalMin === DAILY_INTERVAL_MIN
+          ? intervalMin
+          : Math.min(Math.round(intervalMin), MAX_CUSTOM_INTERVAL_MIN)
+        : defaultChartConfig(index).intervalMin,
+    chartType: isChartType(raw?.chartType) ? raw.chartType : "candles",
+    boxSize: Number.isFinite(boxSize) && boxSize > 0 ? boxSize : 0,
+    ticksPerBar: Number.isFinite(ticksPerBar) && ticksPerBar >= 1 ? Math.min(Math.round(ticksPerBar), 500) : 1,
+    showTape: raw?.showTape === true,
+    indicators: normalizeIndicatorSpecs(raw?.indicators),
+    historyDays: Number.isFinite(historyDays) && historyDays > 0 ? Math.min(Math.round(historyDays), 10) : 0,
+  };
+}
+
+/** Grow (with defaults) or shrink the chart list to exactly fill the grid. */
+export function fitChartsToGrid(charts: ChartConfig[], grid: GridSize): ChartConfig[] {
+  const count = grid.rows * grid.cols;
+  const out = charts.slice(0, count);
+  for (let i = out.length; i < count; i += 1) out.push(defaultChartConfig(i));
+  return out;
+}
+
+export function defaultLayout(): SavedLayout {
+  return {
+    version: LAYOUT_VERSION,
+    grid: DEFAULT_GRID,
+    charts: fitChartsToGrid([], DEFAULT_GRID),
+    blotter: defaultBlotterLayout(),
+    blotterOpen: true,
+    activePreset: null,
+  };
+}
+
+/**
+ * Accepts any historical layout shape and returns a current-version layout.
+ * v1 (unversioned): `{ charts: ChartConfig[4], blotterLimit, blotterOpen }` on a fixed 2×2 grid.
+ */
+export function migrateLayout(raw: any): SavedLayout {
+  if (!raw || typeof raw !== "object") return defaultLayout();
+  const version = Number(raw.version) || 1;
+  const grid = version >= 2 ? normalizeGrid(raw.grid) : DEFAULT_GRID;
+  const charts = Array.isArray(raw.charts)
+    ? raw.charts.map((c: any, i: number) => normalizeChartConfig(c, i))
+    : [];
+  return {
+    version: LAYOUT_VERSION,
+    grid,
+    charts: fitChartsToGrid(charts, grid),
+    blotter: normalizeBlotterLayout(raw.blotter),
+    blotterOpen: raw.blotterOpen === false ? false : true,
+    activePreset: typeof raw.activePreset === "string" && raw.activePreset ? raw.activePreset : null,
+  };
+}
+
+export function loadLayout(): SavedLayout {
+  try {
+    const raw = localStorage.getItem(LAYOUT_KEY);
+    if (raw) return migrateLayout(JSON.parse(raw));
+    const legacy = localStorage.getItem(LEGACY_LAYOUT_KEY);
+    if (legacy) return migrateLayout(JSON.parse(legacy));
+  } catch {
+    // fall through
+  }
+  return defaultLayout();
+}
+
+export function saveLayout(next: SavedLayout) {
+  try {
+    localStorage.setItem(LAYOUT_KEY, JSON.stringify(next));
+  } catch {
+    // ignore
+  }
+}
+
+function normalizePreset(raw: any): LayoutPreset | null {
+  const name = typeof raw?.name === "string" ? raw.name.trim() : "";
+  if (!name) return null;
+  return {
+    name,
+    savedAt: typeof raw?.savedAt === "string" ? raw.savedAt : new Date().toISOString(),
+    layout: { ...migrateLayout(raw?.layout), activePreset: name },
+  };
+}
+
+function normalizePresets(raw: unknown): LayoutPreset[] {
+  if (!Array.isArray(raw)) return [];
+  const byName = new Map<string, LayoutPreset>();
+  for (const item of raw) {
+    const p = normalizePreset(item);
+    if (p) byName.set(p.name, p);
+  }
+  return Array.from(byName.values());
+}
+
+export function loadLayoutPresets(): LayoutPreset[] {
+  try {
+    const raw = localStorage.getItem(PRESETS_KEY);
+    if (!raw) return [];
+    return normalizePresets(JSON.parse(raw));
+  } catch {
+    return [];
+  }
+}
+
+export function saveLayoutPresets(presets: LayoutPreset[]) {
+  try {
+    localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+  } catch {
+    // ignore
+  }
+}
+
+export function upsertPreset(presets: LayoutPreset[], name: string, layout: SavedLayout): LayoutPreset[] {
+  const preset: LayoutPreset = {
+    name,
+    savedAt: new Date().toISOString(),
+    layout: { ...layout, activePreset: name },
+  };
+  const idx = presets.findIndex((p) => p.name === name);
+  if (idx === -1) return [...presets, preset];
+  const next = [...presets];
+  next[idx] = preset;
+  return next;
+}
+
+export function buildLayoutExport(current: SavedLayout, presets: LayoutPreset[]): LayoutExport {
+  return {
+    kind: "kite-scalper-layouts",
+    version: LAYOUT_VERSION,
+    exportedAt: new Date().toISOString(),
+    current,
+    presets,
+  };
+}
+
+/**
+ * Parse an exported file. Also accepts a bare SavedLayout or a bare preset array so
+ * hand-written files keep working.
+ */
+export function parseLayoutImport(text: string): { current: SavedLayout | null; presets: LayoutPreset[] } {
+  const parsed = JSON.parse(text);
+  if (Array.isArray(parsed)) return { current: null, presets: normalizePresets(parsed) };
+  if (!parsed || typeof parsed !== "object") throw new Error("Layout file must be a JSON object");
+  if (parsed.kind === "kite-scalper-layouts") {
+    return {
+      current: parsed.current ? migrateLayout(parsed.current) : null,
+      presets: normalizePresets(parsed.presets),
+    };
+  }
+  if (Array.isArray(parsed.charts)) return { current: migrateLayout(parsed), presets: [] };
+  throw new Error("Unrecognized layout file");
+}
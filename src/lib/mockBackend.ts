@@ -0,0 +1,929 @@
+import type {
+  AlertIncident,
+  AuditLogRow,
+  CandleRow,
+  LiveLtpResponse,
+  OrderRow,
+  PositionRow,
+  StatusResponse,
+  TradeRow,
+} from '../types/backend';
+import { DEFAULT_CHARGES, backendFees, compareFees, tradeCharges } from './charges';
+import {
+  HISTORY_DAYS,
+  MOCK_UNDERLYINGS,
+  contractByToken,
+  dayStartMs,
+  expiryFor,
+  instrumentOf,
+  optionChainContracts,
+  optionQuoteAt,
+  priceAt,
+  simulateCandles,
+  simulatedTrades,
+  spotAt,
+  underlyingByToken,
+  type MockContract,
+} from './mockMarket';
+import fixtures from './mockFixtures.json';
+import type { ManualOrderPayload, TradeActionPayload } from './orders';
+import { istDateKey, istSessionBounds } from './replay';
+import { isMockBaseUrl } from './settings';
+
+/**
+ * In-browser stand-in for the bot's admin API, selected by a `mock://` backend URL. Market data
+ * and bot trades come from the seeded simulator in mockMarket.ts; static payloads come from
+ * mockFixtures.json, keyed by path. A fixture wins over the simulator, so a response captured
+ * from a real backend can be pasted in to reproduce what it sent. Writes (toggles, manual
+ * orders, trade actions, knobs) live in memory per mock URL until the page reloads.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_SEED = 1;
+const MOCK_LATENCY_MS = 40;
+const STARTING_EQUITY = 500_000;
+/** Stats windows (KPIs, execution quality, rejections) cover this many days. */
+const STATS_DAYS = 7;
+/**
+ * Socket pushes go to the tokens and chart series the dashboard asked for most recently. With the
+ * socket up nothing polls, so a request can't be expected to renew them; the oldest drop off instead.
+ */
+const WATCH_MAX = 24;
+const KNOBS_PATH = '/admin/config/knobs';
+/** Pages of one history walk are cut from the same snapshot, so cursors stay consistent. */
+const HISTORY_REUSE_MS = 10_000;
+
+const FIXTURES = fixtures as Record<string, unknown>;
+
+type Pause = { from: number; to: number | null };
+
+type MockState = {
+  baseUrl: string;
+  seed: number;
+  tradingEnabled: boolean;
+  killSwitch: boolean;
+  halted: boolean;
+  /** Bot trades whose decision falls in a pause are never taken. */
+  pauses: Pause[];
+  /** Level edits and SL → BE moves, applied over the simulated trade while it is open. */
+  levelPatches: Map<string, Partial<TradeRow>>;
+  /** Trades exited from the dashboard, frozen at the exit. */
+  exited: Map<string, TradeRow>;
+  manual: TradeRow[];
+  audit: AuditLogRow[];
+  incidents: AlertIncident[];
+  knobs: Record<string, unknown>;
+  idempotency: Map<string, MockResponse>;
+  ltpWatch: Map<number, number>;
+  candleWatch: Map<string, number>;
+  /** The last history range walked; the dashboard pages through it in quick succession. */
+  history: { key: string; atMs: number; rows: TradeRow[] } | null;
+  warmed: boolean;
+};
+
+type MockResponse = Record<string, any>;
+
+export type MockWatch = {
+  tokens: number[];
+  candles: Array<{ token: number; intervalMin: number }>;
+};
+
+const states = new Map<string, MockState>();
+
+/** `mock://sim?seed=7` → 7. Any other mock URL uses the default seed. */
+export function mockSeed(baseUrl: string): number {
+  const m = /[?&]seed=(\d+)/.exec(baseUrl);
+  return m ? Number(m[1]) : DEFAULT_SEED;
+}
+
+function stateFor(baseUrl: string): MockState {
+  const hit = states.get(baseUrl);
+  if (hit) return hit;
+  const state: MockState = {
+    baseUrl,
+    seed: mockSeed(baseUrl),
+    tradingEnabled: true,
+    killSwitch: false,
+    halted: false,
+    pauses: [],
+    levelPatches: new Map(),
+    exited: new Map(),
+    manual: [],
+    audit: [],
+    incidents: [],
+    knobs: clone((FIXTURES[KNOBS_PATH] ?? {}) as Record<string, unknown>),
+    idempotency: new Map(),
+    ltpWatch: new Map(),
+    candleWatch: new Map(),
+    history: null,
+    warmed: false,
+  };
+  states.set(baseUrl, state);
+  return state;
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/** Shaped like an axios error so callers checking `err.response.status` behave the same. */
+function mockError(status: number, message: string) {
+  const err = new Error(`${message} (mock ${status})`) as Error & { response: { status: number; data: unknown } };
+  err.response = { status, data: { ok: false, error: message } };
+  return err;
+}
+
+function num(v: unknown): number | null {
+  if (v === null || v === undefined || v === '') return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function iso(ms: number): string {
+  return new Date(ms).toISOString();
+}
+
+function timeMs(v: unknown): number {
+  const ms = v ? new Date(String(v)).getTime() : NaN;
+  return Number.isFinite(ms) ? ms : 0;
+}
+
+// ---------- trades ----------
+
+function isOpen(row: TradeRow): boolean {
+  return /OPEN|PENDING/.test(String(row.status || ''));
+}
+
+function isRejected(row: TradeRow): boolean {
+  return /REJECT/.test(String(row.status || ''));
+}
+
+function sideSign(row: TradeRow): number {
+  return row.side === 'SELL' ? -1 : 1;
+}
+
+function grossPnl(row: TradeRow, mark: number | null = null): number | null {
+  const entry = num(row.entryPrice);
+  const exit = num(row.exitPrice) ?? mark;
+  const qty = num(row.qty);
+  if (entry === null || exit === null || qty === null) return null;
+  return (exit - entry) * qty * sideSign(row);
+}
+
+function netPnl(row: TradeRow): number | null {
+  const gross = grossPnl(row);
+  if (gross === null) return null;
+  return gross - (backendFees(row) ?? tradeCharges(row, DEFAULT_CHARGES)?.total ?? 0);
+}
+
+function isPaused(state: MockState, ms: number): boolean {
+  return state.pauses.some((p) => ms >= p.from && (p.to === null || ms < p.to));
+}
+
+/** Opens or closes a pause whenever the engine flips between running and stopped. */
+function syncPause(state: MockState, nowMs: number) {
+  const stopped = !state.tradingEnabled || state.killSwitch || state.halted;
+  const last = state.pauses[state.pauses.length - 1];
+  const open = last && last.to === null;
+  if (stopped && !open) state.pauses.push({ from: nowMs, to: null });
+  if (!stopped && open) last.to = nowMs;
+}
+
+function applyState(state: MockState, row: TradeRow): TradeRow {
+  const exited = state.exited.get(row.tradeId);
+  if (exited) return exited;
+  const patch = state.levelPatches.get(row.tradeId);
+  return patch && isOpen(row) ? { ...row, ...patch } : row;
+}
+
+/** Bot and manual trades created in [fromMs, toMs], newest first, as the backend sees them at `nowMs`. */
+function tradesBetween(state: MockState, fromMs: number, toMs: number, nowMs: number): TradeRow[] {
+  const bot = simulatedTrades(state.seed, fromMs, toMs, nowMs).filter((t) => !isPaused(state, timeMs(t.decisionAt)));
+  const manual = state.manual.filter((t) => {
+    const ms = timeMs(t.createdAt);
+    return ms >= fromMs && ms <= toMs;
+  });
+  return [...bot, ...manual]
+    .map((t) => applyState(state, t))
+    .sort((a, b) => timeMs(b.createdAt) - timeMs(a.createdAt));
+}
+
+function todayTrades(state: MockState, nowMs: number): TradeRow[] {
+  return tradesBetween(state, dayStartMs(istDateKey(nowMs)), nowMs, nowMs);
+}
+
+function recentTrades(state: MockState, limit: number, nowMs: number): TradeRow[] {
+  const out: TradeRow[] = [];
+  let dayStart = dayStartMs(istDateKey(nowMs));
+  const floor = nowMs - HISTORY_DAYS * DAY_MS;
+  let dayEnd = nowMs;
+  while (out.length < limit && dayEnd > floor) {
+    out.push(...tradesBetween(state, dayStart, dayEnd, nowMs));
+    dayEnd = dayStart - 1;
+    dayStart -= DAY_MS;
+  }
+  return out.slice(0, limit);
+}
+
+/** Contract tokens are only known once generated; a reload with a saved chart token needs history walked first. */
+function warm(state: MockState, nowMs: number) {
+  if (state.warmed) return;
+  state.warmed = true;
+  optionChainContracts(state.seed, nowMs);
+  tradesBetween(state, nowMs - HISTORY_DAYS * DAY_MS, nowMs, nowMs);
+}
+
+function markOf(state: MockState, token: number, nowMs: number): number | null {
+  const p = priceAt(state.seed, token, nowMs);
+  if (p === null && !state.warmed) {
+    warm(state, nowMs);
+    return priceAt(state.seed, token, nowMs);
+  }
+  return p;
+}
+
+function activeTrade(state: MockState, nowMs: number): TradeRow | null {
+  return todayTrades(state, nowMs).find(isOpen) ?? null;
+}
+
+// ---------- derived broker views ----------
+
+function ordersFor(trades: TradeRow[]): OrderRow[] {
+  const out: OrderRow[] = [];
+  for (const t of trades) {
+    const sym = t.instrument?.tradingsymbol;
+    const exitSide = t.side === 'SELL' ? 'BUY' : 'SELL';
+    const base = { tradingsymbol: sym, product: 'MIS', quantity: t.qty, tag: t.tradeId };
+    if (t.entryOrderId) {
+      const rejected = isRejected(t);
+      out.push({
+        ...base,
+        order_id: t.entryOrderId,
+        status: rejected ? 'REJECTED' : 'COMPLETE',
+        transaction_type: t.side,
+        order_type: 'MARKET',
+        average_price: rejected ? 0 : (t.entryPrice ?? undefined),
+        filled_quantity: rejected ? 0 : t.qty,
+        order_timestamp: t.entryAt,
+        status_message: rejected ? 'RMS: margin exceeds available funds (mock)' : undefined,
+      });
+    }
+    if (t.slOrderId && !isRejected(t)) {
+      const filled = t.exitOrderId === t.slOrderId;
+      out.push({
+        ...base,
+        order_id: t.slOrderId,
+        status: isOpen(t) ? 'TRIGGER PENDING' : filled ? 'COMPLETE' : 'CANCELLED',
+        transaction_type: exitSide,
+        order_type: 'SL-M',
+        trigger_price: t.slTrigger ?? t.stopLoss ?? undefined,
+        average_price: filled ? (t.exitPrice ?? undefined) : 0,
+        filled_quantity: filled ? t.qty : 0,
+        order_timestamp: filled ? t.exitAt : t.entryAt,
+      });
+    }
+    if (t.exitOrderId && t.exitOrderId !== t.slOrderId) {
+      out.push({
+        ...base,
+        order_id: t.exitOrderId,
+        status: 'COMPLETE',
+        transaction_type: exitSide,
+        order_type: 'MARKET',
+        average_price: t.exitPrice ?? undefined,
+        filled_quantity: t.qty,
+        order_timestamp: t.exitAt,
+      });
+    }
+  }
+  return out.sort((a, b) => timeMs(b.order_timestamp) - timeMs(a.order_timestamp));
+}
+
+function positionsFor(state: MockState, trades: TradeRow[], nowMs: number): PositionRow[] {
+  return trades
+    .filter((t) => isOpen(t) && num(t.entryPrice) !== null)
+    .map((t) => {
+      const last = markOf(state, t.instrument_token, nowMs) ?? Number(t.entryPrice);
+      const qty = Number(t.qty) || 0;
+      return {
+        instrument_token: t.instrument_token,
+        tradingsymbol: t.instrument?.tradingsymbol,
+        exchange: t.instrument?.exchange,
+        product: 'MIS',
+        quantity: qty * sideSign(t),
+        averagePrice: Number(t.entryPrice),
+        lastPrice: last,
+        pnl: round2(grossPnl(t, last) ?? 0),
+        exposureInr: round2(Math.abs(qty * last)),
+      };
+    });
+}
+
+function dayPnl(state: MockState, nowMs: number) {
+  const trades = todayTrades(state, nowMs);
+  let realized = 0;
+  let unrealized = 0;
+  let used = 0;
+  for (const t of trades) {
+    if (isOpen(t)) {
+      const mark = markOf(state, t.instrument_token, nowMs);
+      unrealized += grossPnl(t, mark) ?? 0;
+      used += (Number(t.entryPrice) || 0) * (Number(t.qty) || 0);
+    } else {
+      realized += netPnl(t) ?? 0;
+    }
+  }
+  return { trades, realized: round2(realized), unrealized: round2(unrealized), used: round2(used) };
+}
+
+function subscribedTokens(state: MockState, nowMs: number): number[] {
+  const tokens = MOCK_UNDERLYINGS.map((u) => u.token);
+  for (const t of todayTrades(state, nowMs)) {
+    if (tokens.length >= MOCK_UNDERLYINGS.length + 4) break;
+    if (!isRejected(t) && !tokens.includes(t.instrument_token)) tokens.push(t.instrument_token);
+  }
+  return tokens;
+}
+
+// ---------- GET routes ----------
+
+function statusPayload(state: MockState, nowMs: number): StatusResponse {
+  const { trades, realized, unrealized } = dayPnl(state, nowMs);
+  const active = trades.find(isOpen) ?? null;
+  const stopped = state.killSwitch || state.halted;
+  return {
+    ok: true,
+    tradingEnabled: state.tradingEnabled,
+    killSwitch: state.killSwitch,
+    halted: state.halted,
+    haltInfo: state.halted ? { reason: 'MOCK_HALT' } : null,
+    tradesToday: trades.filter((t) => !isRejected(t)).length,
+    ordersPlacedToday: ordersFor(trades).length,
+    dailyPnL: round2(realized + unrealized),
+    state: stopped ? 'HARD_STOP' : state.tradingEnabled ? 'RUNNING' : 'SOFT_STOP',
+    activeTradeId: active?.tradeId ?? null,
+    activeTrade: active,
+    ticker: { connected: true, lastDisconnect: null, hasSession: true },
+    now: iso(nowMs),
+  };
+}
+
+function candlesPayload(state: MockState, params: MockResponse, nowMs: number) {
+  const token = Number(params.token);
+  const intervalMin = Math.max(1, Number(params.intervalMin) || 1);
+  const limit = Math.min(5000, Math.max(1, Number(params.limit) || 300));
+  if (markOf(state, token, nowMs) === null) return { ok: true, rows: [] };
+  if (params.date) {
+    const session = istSessionBounds(String(params.date));
+    if (!session || session.startMs > nowMs) return { ok: true, rows: [] };
+    const endMs = Math.min(session.endMs, nowMs);
+    return { ok: true, rows: simulateCandles(state.seed, token, intervalMin, endMs, limit, session.startMs) };
+  }
+  state.candleWatch.set(`${token}:${intervalMin}`, nowMs);
+  const since = params.since ? timeMs(params.since) : null;
+  return { ok: true, rows: simulateCandles(state.seed, token, intervalMin, nowMs, limit, since || null) };
+}
+
+function historyPayload(state: MockState, params: MockResponse, nowMs: number) {
+  const fromMs = params.from ? dayStartMs(String(params.from)) : nowMs - HISTORY_DAYS * DAY_MS;
+  const toMs = params.to ? dayStartMs(String(params.to)) + DAY_MS - 1 : nowMs;
+  const key = `${params.from || ''}|${params.to || ''}`;
+  const hit = state.history;
+  const rows =
+    hit && hit.key === key && nowMs - hit.atMs < HISTORY_REUSE_MS
+      ? hit.rows
+      : tradesBetween(state, fromMs, Math.min(toMs, nowMs), nowMs);
+  if (rows !== hit?.rows) state.history = { key, atMs: nowMs, rows };
+  const offset = Math.max(0, Number(params.cursor) || 0);
+  const limit = Math.max(1, Number(params.limit) || 500);
+  const next = offset + limit;
+  return {
+    ok: true,
+    rows: rows.slice(offset, next),
+    nextCursor: next < rows.length ? String(next) : null,
+    total: rows.length,
+  };
+}
+
+function fnoPayload(state: MockState, nowMs: number) {
+  const universe: Record<string, unknown> = {};
+  const dayKey = istDateKey(nowMs);
+  for (const u of MOCK_UNDERLYINGS) {
+    const contracts = optionChainContracts(state.seed, nowMs).filter((c) => c.underlying === u);
+    universe[u.name] = {
+      spot: round2(spotAt(state.seed, u, nowMs)),
+      expiry: expiryFor(u, nowMs),
+      lotSize: u.lotSize,
+      contracts: contracts.map((c) => contractRow(state, c, dayKey, nowMs)),
+    };
+  }
+  return { ok: true, enabled: true, universe };
+}
+
+function contractRow(state: MockState, c: MockContract, dayKey: string, nowMs: number) {
+  const quote = optionQuoteAt(state.seed, c, nowMs);
+  const atm = Math.round(spotAt(state.seed, c.underlying, nowMs) / c.underlying.step) * c.underlying.step;
+  const away = Math.abs(c.strike - atm) / c.underlying.step;
+  // OI peaks at the money; the day's change is a seeded fraction of it.
+  const oi = Math.round((2_000_000 / (1 + away * 0.35)) * (0.8 + 0.4 * ((c.token % 97) / 97)));
+  const oiChange = Math.round(oi * (((c.token + dayKey.length * 31) % 41) / 100 - 0.2));
+  return {
+    ...instrumentOf(c),
+    instrument_token: c.token,
+    ltp: quote.ltp,
+    oi,
+    oiChange,
+    iv: Math.round(quote.iv * 1e4) / 1e4,
+    greeks: quote.greeks,
+  };
+}
+
+function kpisPayload(state: MockState, nowMs: number) {
+  const byStrategy = new Map<string, number[]>();
+  const holds = new Map<string, number[]>();
+  for (const t of tradesBetween(state, nowMs - STATS_DAYS * DAY_MS, nowMs, nowMs)) {
+    const pnl = netPnl(t);
+    if (isOpen(t) || pnl === null) continue;
+    const key = t.strategyId || 'manual';
+    byStrategy.set(key, [...(byStrategy.get(key) || []), pnl]);
+    holds.set(key, [...(holds.get(key) || []), (timeMs(t.exitAt) - timeMs(t.entryAt)) / 60_000]);
+  }
+  const rows = Array.from(byStrategy.entries()).map(([strategyId, pnls]) => {
+    // Trades come newest first; walk oldest first for the drawdown.
+    let peak = 0;
+    let equity = 0;
+    let maxDrawdown = 0;
+    for (const p of [...pnls].reverse()) {
+      equity += p;
+      peak = Math.max(peak, equity);
+      maxDrawdown = Math.max(maxDrawdown, peak - equity);
+    }
+    const mean = pnls.reduce((a, b) => a + b, 0) / pnls.length;
+    const sd = Math.sqrt(pnls.reduce((a, b) => a + (b - mean) ** 2, 0) / pnls.length);
+    const hold = holds.get(strategyId) || [];
+    return {
+      strategyId,
+      trades: pnls.length,
+      winRate: round2((pnls.filter((p) => p > 0).length / pnls.length) * 100),
+      pnl: round2(equity),
+      avgHoldMin: round2(hold.reduce((a, b) => a + b, 0) / (hold.length || 1)),
+      sharpe: sd > 0 ? round2((mean / sd) * Math.sqrt(pnls.length)) : null,
+      maxDrawdown: round2(maxDrawdown),
+    };
+  });
+  return { ok: true, rows };
+}
+
+function executionPayload(state: MockState, nowMs: number) {
+  const trades = tradesBetween(state, nowMs - STATS_DAYS * DAY_MS, nowMs, nowMs);
+  const rejects = trades.filter(isRejected).length;
+  const filled = trades.filter((t) => !isRejected(t) && num(t.entryPrice) !== null);
+  const slips = filled.map((t) => num(t.slippage)).filter((v): v is number => v !== null);
+  const latencies = filled.map((t) => timeMs(t.entryAt) - timeMs(t.decisionAt)).filter((v) => v > 0);
+  const avg = (xs: number[]) => (xs.length ? round2(xs.reduce((a, b) => a + b, 0) / xs.length) : null);
+  return {
+    ok: true,
+    fillRate: trades.length ? round2((filled.length / (filled.length + rejects)) * 100) : null,
+    avgSlippage: avg(slips),
+    avgLatencyMs: avg(latencies),
+    rejects,
+    rows: filled.slice(0, 20).map((t) => ({
+      tradeId: t.tradeId,
+      tradingsymbol: t.instrument?.tradingsymbol,
+      slippage: t.slippage,
+      latencyMs: timeMs(t.entryAt) - timeMs(t.decisionAt),
+    })),
+  };
+}
+
+function auditPayload(state: MockState, params: MockResponse, nowMs: number) {
+  const limit = Math.max(1, Number(params.limit) || 50);
+  const engine: AuditLogRow[] = [];
+  for (const t of todayTrades(state, nowMs)) {
+    if (t.tradeId.startsWith('MAN-')) continue;
+    const meta = { tradeId: t.tradeId, token: t.instrument_token };
+    engine.push({ actor: 'engine', action: 'trade.entry', resource: `trade:${t.tradeId}`, status: isRejected(t) ? 'rejected' : 'ok', meta, createdAt: t.entryAt });
+    if (t.exitAt) engine.push({ actor: 'engine', action: 'trade.exit', resource: `trade:${t.tradeId}`, status: 'ok', meta: { ...meta, closeReason: t.closeReason }, createdAt: t.exitAt });
+  }
+  const rows = [...state.audit, ...engine].sort((a, b) => timeMs(b.createdAt) - timeMs(a.createdAt));
+  return { ok: true, rows: rows.slice(0, limit) };
+}
+
+function incidentsPayload(state: MockState, params: MockResponse, nowMs: number) {
+  const limit = Math.max(1, Number(params.limit) || 50);
+  const rejects: AlertIncident[] = todayTrades(state, nowMs)
+    .filter(isRejected)
+    .map((t) => ({
+      _id: `inc-${t.tradeId}`,
+      type: 'ORDER_REJECTED',
+      message: `Entry rejected for ${t.instrument?.tradingsymbol ?? t.instrument_token}`,
+      severity: 'warn',
+      createdAt: t.entryAt,
+    }));
+  const rows = [...state.incidents, ...rejects].sort((a, b) => timeMs(b.createdAt) - timeMs(a.createdAt));
+  return { ok: true, rows: rows.slice(0, limit) };
+}
+
+function rejectionsPayload(state: MockState, params: MockResponse, nowMs: number) {
+  const counts = new Map<string, number>();
+  const reasons: Record<string, number> = {};
+  for (const t of tradesBetween(state, nowMs - STATS_DAYS * DAY_MS, nowMs, nowMs)) {
+    if (!isRejected(t)) continue;
+    const key = t.instrument?.tradingsymbol || String(t.instrument_token);
+    counts.set(key, (counts.get(key) || 0) + 1);
+    const reason = t.closeReason || 'UNKNOWN';
+    reasons[reason] = (reasons[reason] || 0) + 1;
+  }
+  const bySymbol = Array.from(counts.entries())
+    .map(([key, count]) => ({ key, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, Math.max(1, Number(params.top) || 20));
+  return { ok: true, source: 'mock', data: { byReason: reasons }, top: { bySymbol } };
+}
+
+function eodPayload(state: MockState, nowMs: number) {
+  const closed = todayTrades(state, nowMs).filter((t) => !isOpen(t) && !isRejected(t));
+  const clusters = new Map<string, { count: number; r: number; pnl: number }>();
+  let fees = 0;
+  let gross = 0;
+  let feeMismatches = 0;
+  for (const t of closed) {
+    const pnl = netPnl(t) ?? 0;
+    const risk = Math.abs((Number(t.entryPrice) - Number(t.stopLoss)) * (Number(t.qty) || 0));
+    const key = t.closeReason || 'UNKNOWN';
+    const c = clusters.get(key) || { count: 0, r: 0, pnl: 0 };
+    c.count += 1;
+    c.r += risk > 0 ? pnl / risk : 0;
+    c.pnl += pnl;
+    clusters.set(key, c);
+    gross += grossPnl(t) ?? 0;
+    fees += backendFees(t) ?? 0;
+    const cmp = compareFees(t, tradeCharges(t, DEFAULT_CHARGES));
+    if (cmp && !cmp.agrees) feeMismatches += 1;
+  }
+  const anomalyTags = [
+    { tag: 'FEES_MISMATCH', count: feeMismatches, severity: 'warn' },
+    { tag: 'MANUAL_EXIT', count: closed.filter((t) => t.closeReason === 'MANUAL_EXIT').length, severity: 'info' },
+  ].filter((a) => a.count > 0);
+  return {
+    ok: true,
+    asOf: iso(nowMs),
+    summary: { trades: closed.length, grossPnl: round2(gross), fees: round2(fees), netPnl: round2(gross - fees) },
+    winLossClusters: Array.from(clusters.entries()).map(([label, c]) => ({
+      label,
+      count: c.count,
+      expectancy: round2(c.r / c.count),
+      pnl: round2(c.pnl),
+    })),
+    anomalyTags,
+  };
+}
+
+function tradeTelemetryPayload(state: MockState, nowMs: number) {
+  const exit = (state.knobs.exit || {}) as MockResponse;
+  const t = activeTrade(state, nowMs);
+  const trail = t?.trailHistory || [];
+  return {
+    ok: true,
+    data: {
+      OPT_TARGET_MODE: exit.OPT_TARGET_MODE ?? null,
+      OPT_SL_MODE: exit.OPT_SL_MODE ?? null,
+      trackingStatus: t ? 'TRACKING' : 'IDLE',
+      targetStatus: !t ? 'IDLE' : t.beLocked ? 'TP1_HIT' : 'PENDING',
+      lastEvent: !t ? 'NONE' : trail.length ? `TRAIL ${trail[trail.length - 1].sl}` : t.beLocked ? 'BE_LOCKED' : 'ENTRY',
+      updatedAt: iso(nowMs),
+    },
+  };
+}
+
+function route(state: MockState, path: string, params: MockResponse, nowMs: number): unknown {
+  if (path === KNOBS_PATH) return state.knobs;
+  // Pasted fixtures replace the simulated payload for that path.
+  if (path in FIXTURES) return FIXTURES[path];
+
+  switch (path) {
+    case '/admin/status':
+      return statusPayload(state, nowMs);
+    case '/admin/config':
+      return { ok: true, env: 'mock', seed: state.seed, runtimeKnobs: state.knobs, runtimeKnobsFile: 'mock://runtime-knobs.json' };
+    case '/admin/trading':
+      return { ok: true, enabled: state.tradingEnabled, tradingEnabled: state.tradingEnabled };
+    case '/admin/subscriptions': {
+      const tokens = subscribedTokens(state, nowMs);
+      return { ok: true, count: tokens.length, tokens };
+    }
+    case '/admin/trades/recent': {
+      const limit = Math.max(1, Number(params.limit) || 80);
+      if (!params.date) return { ok: true, rows: recentTrades(state, limit, nowMs) };
+      const start = dayStartMs(String(params.date));
+      return { ok: true, rows: tradesBetween(state, start, start + DAY_MS - 1, nowMs).slice(0, limit) };
+    }
+    case '/admin/trades/history':
+      return historyPayload(state, params, nowMs);
+    case '/admin/candles/recent':
+      return candlesPayload(state, params, nowMs);
+    case '/admin/ltp': {
+      const token = Number(params.token);
+      const ltp = markOf(state, token, nowMs);
+      if (ltp === null) throw mockError(404, `unknown token ${params.token}`);
+      state.ltpWatch.set(token, nowMs);
+      return { ok: true, token, ltp, ts: iso(nowMs) };
+    }
+    case '/admin/account/equity': {
+      const { realized, unrealized, used } = dayPnl(state, nowMs);
+      const equity = STARTING_EQUITY + realized + unrealized;
+      return {
+        ok: true,
+        asOf: iso(nowMs),
+        equity: round2(equity),
+        availableMargin: round2(equity - used),
+        usedMargin: used,
+        realizedPnl: realized,
+        unrealizedPnl: unrealized,
+        cash: STARTING_EQUITY,
+      };
+    }
+    case '/admin/positions':
+      return { ok: true, rows: positionsFor(state, todayTrades(state, nowMs), nowMs) };
+    case '/admin/orders':
+      return { ok: true, rows: ordersFor(todayTrades(state, nowMs)) };
+    case '/admin/risk/limits': {
+      const positions = positionsFor(state, todayTrades(state, nowMs), nowMs);
+      const exposureBySymbol: Record<string, number> = {};
+      for (const p of positions) exposureBySymbol[p.tradingsymbol || String(p.instrument_token)] = p.exposureInr ?? 0;
+      return {
+        ok: true,
+        maxDailyLoss: 15000,
+        maxDrawdown: 25000,
+        maxOpenTrades: 1,
+        maxExposureInr: 300000,
+        usage: { openPositions: positions.length, exposureBySymbol },
+      };
+    }
+    case '/admin/strategy/kpis':
+      return kpisPayload(state, nowMs);
+    case '/admin/execution/quality':
+      return executionPayload(state, nowMs);
+    case '/admin/market/health': {
+      const tokens = subscribedTokens(state, nowMs).map((token) => ({
+        token,
+        lagSec: round2(0.2 + ((token + Math.floor(nowMs / 10_000)) % 7) / 10),
+        lastTs: iso(nowMs),
+        stale: false,
+      }));
+      return { ok: true, tokens, status: 'OK' };
+    }
+    case '/admin/audit/logs':
+      return auditPayload(state, params, nowMs);
+    case '/admin/alerts/incidents':
+      return incidentsPayload(state, params, nowMs);
+    case '/admin/trade-telemetry/snapshot':
+      return tradeTelemetryPayload(state, nowMs);
+    case '/admin/rejections':
+      return rejectionsPayload(state, params, nowMs);
+    case '/admin/fno':
+      return fnoPayload(state, nowMs);
+    case '/admin/health/critical': {
+      const { realized, unrealized } = dayPnl(state, nowMs);
+      const checks = [
+        { ok: true, code: 'TICKER_CONNECTED' },
+        { ok: true, code: 'KITE_SESSION' },
+        { ok: !state.killSwitch, code: 'KILL_SWITCH_OFF' },
+        { ok: !state.halted, code: 'NOT_HALTED' },
+        { ok: realized + unrealized > -15000, code: 'DAILY_LOSS_WITHIN_LIMIT', meta: { pnl: round2(realized + unrealized) } },
+      ];
+      return {
+        ok: checks.every((c) => c.ok),
+        now: iso(nowMs),
+        halted: state.halted,
+        killSwitch: state.killSwitch,
+        ticker: { connected: true },
+        checks,
+      };
+    }
+    case '/admin/reports/eod':
+      return eodPayload(state, nowMs);
+    default:
+      throw mockError(404, `no mock route for GET ${path}`);
+  }
+}
+
+// ---------- POST routes ----------
+
+function audit(state: MockState, action: string, resource: string, status: string, meta: unknown, nowMs: number) {
+  state.audit.unshift({ actor: 'dashboard', action, resource, status, meta, createdAt: iso(nowMs) });
+}
+
+function placeManualOrder(state: MockState, body: ManualOrderPayload, nowMs: number): MockResponse {
+  const ltp = markOf(state, Number(body.instrument_token), nowMs);
+  if (state.killSwitch) return { ok: false, error: 'Kill switch is on' };
+  if (ltp === null) return { ok: false, error: `Unknown instrument ${body.instrument_token}` };
+  if (!(Number(body.qty) > 0)) return { ok: false, error: 'Quantity must be positive' };
+  if (body.orderType === 'LIMIT' && !(Number(body.price) > 0)) return { ok: false, error: 'LIMIT needs a price' };
+  if (body.orderType === 'SL-M' && !(Number(body.triggerPrice) > 0)) return { ok: false, error: 'SL-M needs a trigger price' };
+
+  const tradeId = `MAN-${state.manual.length + 1}`;
+  const contract = contractByToken(Number(body.instrument_token));
+  const u = underlyingByToken(Number(body.instrument_token));
+  // Resting orders aren't simulated; LIMIT and SL-M fill at their price straight away.
+  const fill = body.orderType === 'LIMIT' ? Number(body.price) : body.orderType === 'SL-M' ? Number(body.triggerPrice) : ltp;
+  const stopLoss = round2(fill * (body.side === 'SELL' ? 1.12 : 0.88));
+  state.manual.push({
+    tradeId,
+    instrument_token: Number(body.instrument_token),
+    instrument: contract
+      ? instrumentOf(contract)
+      : { tradingsymbol: body.tradingsymbol || u?.tradingsymbol, exchange: body.exchange || 'NSE' },
+    strategyId: 'manual',
+    side: body.side,
+    qty: Number(body.qty),
+    entryPrice: round2(fill),
+    stopLoss,
+    slTrigger: stopLoss,
+    status: 'ENTRY_OPEN',
+    decisionAt: iso(nowMs),
+    entryAt: iso(nowMs),
+    createdAt: iso(nowMs),
+    updatedAt: iso(nowMs),
+    entryOrderId: `${tradeId}-E`,
+    slOrderId: `${tradeId}-SL`,
+  });
+  return { ok: true, orderId: `${tradeId}-E`, tradeId };
+}
+
+function findOpenTrade(state: MockState, tradeId: string, nowMs: number): TradeRow | null {
+  return todayTrades(state, nowMs).find((t) => t.tradeId === tradeId && isOpen(t)) ?? null;
+}
+
+function tradeAction(state: MockState, tradeId: string, action: string, body: TradeActionPayload, nowMs: number): MockResponse {
+  const trade = findOpenTrade(state, tradeId, nowMs);
+  if (!trade) return { ok: false, error: `Trade ${tradeId} is not open` };
+
+  if (action === 'exit') {
+    const exitPrice = markOf(state, trade.instrument_token, nowMs) ?? Number(trade.entryPrice);
+    const closed: TradeRow = {
+      ...trade,
+      status: 'CLOSED',
+      closeReason: 'MANUAL_EXIT',
+      exitPrice,
+      exitAt: iso(nowMs),
+      exitOrderId: `${tradeId}-MX`,
+      updatedAt: iso(nowMs),
+    };
+    const charges = tradeCharges(closed, DEFAULT_CHARGES);
+    if (charges) closed.feesTotal = round2(charges.total);
+    state.exited.set(tradeId, closed);
+    return { ok: true, tradeId, orderId: closed.exitOrderId ?? undefined };
+  }
+
+  const patch = { ...state.levelPatches.get(tradeId) };
+  if (action === 'move-sl-be') {
+    if (num(trade.entryPrice) === null) return { ok: false, error: 'Trade has no entry price' };
+    Object.assign(patch, { slTrigger: trade.entryPrice, beLocked: true, beLockedAt: iso(nowMs) });
+  } else {
+    const changes = body?.changes || {};
+    if (!Object.keys(changes).length) return { ok: false, error: 'No level changes' };
+    for (const [level, value] of Object.entries(changes)) {
+      if (!(Number(value) > 0)) return { ok: false, error: `${level} must be positive` };
+      (patch as Record<string, unknown>)[level] = Number(value);
+    }
+  }
+  patch.updatedAt = iso(nowMs);
+  state.levelPatches.set(tradeId, patch);
+  return { ok: true, tradeId };
+}
+
+function routePost(state: MockState, path: string, params: MockResponse, body: any, nowMs: number): MockResponse {
+  const key = typeof body?.idempotencyKey === 'string' ? body.idempotencyKey : null;
+  if (key && state.idempotency.has(key)) return { ...state.idempotency.get(key), duplicate: true };
+  state.history = null;
+
+  const res = postResult(state, path, params, body, nowMs);
+  const tradeId = res.tradeId ?? body?.tradeId;
+  audit(state, `POST ${path}`, tradeId ? `trade:${tradeId}` : path, res.ok === false ? 'rejected' : 'ok', { ...params, ...body, tradeId }, nowMs);
+  if (key) state.idempotency.set(key, res);
+  return res;
+}
+
+function postResult(state: MockState, path: string, params: MockResponse, body: any, nowMs: number): MockResponse {
+  const tradeRoute = /^\/admin\/trades\/([^/]+)\/(exit|move-sl-be|modify)$/.exec(path);
+  if (tradeRoute) return tradeAction(state, decodeURIComponent(tradeRoute[1]), tradeRoute[2], body, nowMs);
+
+  switch (path) {
+    case '/admin/kill':
+      state.killSwitch = String(params.enabled) === 'true';
+      syncPause(state, nowMs);
+      return { ok: true, kill: state.killSwitch };
+    case '/admin/trading':
+      state.tradingEnabled = String(params.enabled) === 'true';
+      syncPause(state, nowMs);
+      return { ok: true, enabled: state.tradingEnabled, tradingEnabled: state.tradingEnabled };
+    case '/admin/halt/reset':
+      state.halted = false;
+      syncPause(state, nowMs);
+      return { ok: true, halted: false };
+    case '/admin/orders/manual':
+      return placeManualOrder(state, body as ManualOrderPayload, nowMs);
+    case KNOBS_PATH:
+      if (!body || typeof body !== 'object' || Array.isArray(body)) return { ok: false, error: 'Knobs must be an object' };
+      state.knobs = clone(body);
+      return { ok: true, knobs: state.knobs };
+    case '/admin/alerts/test':
+      state.incidents.unshift({
+        _id: `inc-test-${state.incidents.length + 1}`,
+        type: 'TEST',
+        message: String(body?.message || 'Test alert'),
+        severity: String(body?.severity || 'info'),
+        createdAt: iso(nowMs),
+      });
+      return { ok: true, delivered: ['telegram', 'webhook'] };
+    case '/admin/db/purge': {
+      if (body?.confirm !== 'PURGE') return { ok: false, error: 'confirm must be "PURGE"' };
+      const deleted = { manualTrades: state.manual.length, auditLogs: state.audit.length, incidents: state.incidents.length };
+      states.delete(state.baseUrl);
+      return { ok: true, deleted };
+    }
+    case '/admin/kite/session':
+      return { ok: true, message: 'Mock backend has no Kite session to exchange' };
+    case '/admin/market/calendar/reload':
+    case '/admin/db/retention/ensure':
+    case '/admin/cost/calibration/reload':
+    case '/admin/optimizer/reload':
+    case '/admin/optimizer/flush':
+    case '/admin/optimizer/reset':
+    case '/admin/telemetry/flush':
+    case '/admin/trade-telemetry/flush':
+      return { ok: true };
+    default:
+      throw mockError(404, `no mock route for POST ${path}`);
+  }
+}
+
+// ---------- entry points ----------
+
+function newest<K>(watch: Map<K, number>): K[] {
+  const keys = Array.from(watch.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([k]) => k);
+  for (const k of keys.slice(WATCH_MAX)) watch.delete(k);
+  return keys.slice(0, WATCH_MAX);
+}
+
+function splitPath(path: string): { path: string; query: MockResponse } {
+  const [p, q] = path.split('?');
+  const query: MockResponse = {};
+  new URLSearchParams(q || '').forEach((v, k) => {
+    query[k] = v;
+  });
+  return { path: p.startsWith('/') ? p : `/${p}`, query };
+}
+
+/** What a GET would return right now, without the simulated network delay. The mock socket pushes these. */
+export function mockGet(baseUrl: string, path: string, params?: MockResponse): unknown {
+  const state = stateFor(baseUrl);
+  const split = splitPath(path);
+  return clone(route(state, split.path, { ...split.query, ...(params || {}) }, Date.now()));
+}
+
+export async function mockRequest(
+  baseUrl: string,
+  method: 'GET' | 'POST',
+  path: string,
+  payload?: any,
+): Promise<unknown> {
+  if (!isMockBaseUrl(baseUrl)) throw mockError(400, `${baseUrl} is not a mock backend`);
+  await new Promise((resolve) => setTimeout(resolve, MOCK_LATENCY_MS));
+  if (method === 'GET') return mockGet(baseUrl, path, payload);
+  const state = stateFor(baseUrl);
+  const split = splitPath(path);
+  return clone(routePost(state, split.path, split.query, payload ?? {}, Date.now()));
+}
+
+/** Tokens and chart series the dashboard has asked for recently, plus the subscription list. */
+export function mockWatch(baseUrl: string): MockWatch {
+  const state = stateFor(baseUrl);
+  const nowMs = Date.now();
+  const tokens = new Set([...subscribedTokens(state, nowMs), ...newest(state.ltpWatch)]);
+  const candles = newest(state.candleWatch).map((key) => {
+    const [token, intervalMin] = key.split(':').map(Number);
+    return { token, intervalMin };
+  });
+  return { tokens: Array.from(tokens), candles };
+}
+
+/** Last price for a socket push; unlike GET /admin/ltp it doesn't count as the dashboard asking. */
+export function mockLtp(baseUrl: string, token: number): LiveLtpResponse | null {
+  const state = stateFor(baseUrl);
+  const nowMs = Date.now();
+  const ltp = markOf(state, token, nowMs);
+  return ltp === null ? null : { token, ltp, ts: iso(nowMs) };
+}
+
+/** Latest (possibly forming) bars for one series, for socket pushes. */
+export function mockCandleTail(baseUrl: string, token: number, intervalMin: number): CandleRow[] {
+  const state = stateFor(baseUrl);
+  return simulateCandles(state.seed, token, intervalMin, Date.now(), 2);
+}
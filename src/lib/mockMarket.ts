@@ -0,0 +1,602 @@
+import type { CandleRow, TradeRow } from '../types/backend';
+import { DEFAULT_CHARGES, tradeCharges } from './charges';
+import { bsGreeks, bsPrice, type Greeks } from './optionsMath';
+import { istDateKey } from './replay';
+
+/**
+ * Synthetic market for the mock backend. Every price, bar and bot trade is a pure function of
+ * (seed, instrument, time), so two browsers on the same seed see the same session, a reload
+ * reproduces what was on screen, and history can be generated for any past window on demand.
+ * The simulated market never closes, so weekend and evening work still gets live ticks.
+ */
+
+const SECOND_MS = 1000;
+const MINUTE_MS = 60 * SECOND_MS;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const YEAR_MS = 365 * DAY_MS;
+const IST_OFFSET_MS = 330 * MINUTE_MS;
+const MINUTES_PER_DAY = 1440;
+/** Per-minute volatility is scaled as if the day were one 375-minute NSE session. */
+const SESSION_MINUTES = 375;
+const PATH_CACHE_MAX = 400;
+
+/** One bot trade may start in each slot; trades always finish inside their slot. */
+export const SLOT_MS = 20 * MINUTE_MS;
+/** Trades older than this are not simulated; history queries stop here. */
+export const HISTORY_DAYS = 60;
+/** Interval between price samples while a simulated trade is managed. */
+const WALK_STEP_MS = 20 * SECOND_MS;
+
+const STRATEGIES = ['orb_breakout', 'vwap_reversion', 'ema_pullback'];
+const REGIMES = ['TREND', 'RANGE', 'VOLATILE'];
+const TRENDS = ['UP', 'DOWN', 'FLAT'];
+const MONTH_CODES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+export type MockUnderlying = {
+  name: string;
+  token: number;
+  tradingsymbol: string;
+  base: number;
+  step: number;
+  lotSize: number;
+  dailyVol: number;
+  /** At-the-money implied volatility as a fraction. */
+  iv: number;
+  /** Weekly (next Tuesday) expiries; otherwise the monthly (last Tuesday). */
+  weekly: boolean;
+};
+
+export const MOCK_UNDERLYINGS: MockUnderlying[] = [
+  {
+    name: 'NIFTY',
+    token: 256265,
+    tradingsymbol: 'NIFTY 50',
+    base: 25000,
+    step: 50,
+    lotSize: 75,
+    dailyVol: 0.009,
+    iv: 0.13,
+    weekly: true,
+  },
+  {
+    name: 'BANKNIFTY',
+    token: 260105,
+    tradingsymbol: 'NIFTY BANK',
+    base: 55000,
+    step: 100,
+    lotSize: 35,
+    dailyVol: 0.011,
+    iv: 0.15,
+    weekly: false,
+  },
+];
+
+export type MockContract = {
+  token: number;
+  underlying: MockUnderlying;
+  strike: number;
+  optType: 'CE' | 'PE';
+  /** IST `YYYY-MM-DD`; the contract expires at that day's 15:30 close. */
+  expiry: string;
+  tradingsymbol: string;
+};
+
+// ---------- seeded randomness ----------
+
+function hash32(...parts: Array<string | number>): number {
+  const s = parts.join('|');
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i += 1) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function unit(...parts: Array<string | number>): number {
+  return mulberry32(hash32(...parts))();
+}
+
+function gaussian(rand: () => number): number {
+  const u = Math.max(rand(), 1e-12);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rand());
+}
+
+function roundTick(n: number): number {
+  return Math.max(0.05, Math.round(n * 20) / 20);
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+// ---------- calendar ----------
+
+function istParts(ms: number) {
+  const d = new Date(ms + IST_OFFSET_MS);
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth(), day: d.getUTCDate(), weekday: d.getUTCDay() };
+}
+
+/** Epoch ms of IST midnight starting `dateKey`. */
+export function dayStartMs(dateKey: string): number {
+  const [y, m, d] = dateKey.split('-').map(Number);
+  return Date.UTC(y, m - 1, d) - IST_OFFSET_MS;
+}
+
+function dateKeyOf(year: number, month: number, day: number): string {
+  return `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function expiryCloseMs(expiry: string): number {
+  return dayStartMs(expiry) + (15 * 60 + 30) * MINUTE_MS;
+}
+
+function lastTuesday(year: number, month: number): string {
+  const last = new Date(Date.UTC(year, month + 1, 0));
+  const back = (last.getUTCDay() - 2 + 7) % 7;
+  return dateKeyOf(year, month, last.getUTCDate() - back);
+}
+
+/** The nearest expiry still trading at `ms`. */
+export function expiryFor(u: MockUnderlying, ms: number): string {
+  const p = istParts(ms);
+  if (u.weekly) {
+    let key = dateKeyOf(p.year, p.month, p.day + ((2 - p.weekday + 7) % 7));
+    // dateKeyOf doesn't roll months; go through Date to normalise.
+    key = istDateKey(dayStartMs(key) + 12 * 60 * MINUTE_MS);
+    return expiryCloseMs(key) > ms ? key : istDateKey(dayStartMs(key) + 7 * DAY_MS + 12 * 60 * MINUTE_MS);
+  }
+  const thisMonth = lastTuesday(p.year, p.month);
+  if (expiryCloseMs(thisMonth) > ms) return thisMonth;
+  return p.month === 11 ? lastTuesday(p.year + 1, 0) : lastTuesday(p.year, p.month + 1);
+}
+
+function contractSymbol(u: MockUnderlying, expiry: string, strike: number, optType: 'CE' | 'PE'): string {
+  const [y, m, d] = expiry.split('-');
+  const yy = y.slice(2);
+  if (!u.weekly) return `${u.name}${yy}${MONTH_CODES[Number(m) - 1]}${strike}${optType}`;
+  const month = Number(m);
+  const code = month < 10 ? String(month) : 'OND'[month - 10];
+  return `${u.name}${yy}${code}${d}${strike}${optType}`;
+}
+
+// ---------- instruments ----------
+
+const contracts = new Map<number, MockContract>();
+
+export function contractFor(u: MockUnderlying, expiry: string, strike: number, optType: 'CE' | 'PE'): MockContract {
+  const token = 10_000_000 + (hash32(u.name, expiry, strike, optType) % 1_000_000_000);
+  const hit = contracts.get(token);
+  if (hit) return hit;
+  const c = { token, underlying: u, strike, optType, expiry, tradingsymbol: contractSymbol(u, expiry, strike, optType) };
+  contracts.set(token, c);
+  return c;
+}
+
+export function underlyingByToken(token: number): MockUnderlying | null {
+  return MOCK_UNDERLYINGS.find((u) => u.token === token) ?? null;
+}
+
+export function contractByToken(token: number): MockContract | null {
+  return contracts.get(token) ?? null;
+}
+
+export function instrumentOf(c: MockContract): NonNullable<TradeRow['instrument']> {
+  return {
+    tradingsymbol: c.tradingsymbol,
+    exchange: 'NFO',
+    segment: 'NFO-OPT',
+    name: c.underlying.name,
+    instrument_type: c.optType,
+    strike: c.strike,
+    expiry: c.expiry,
+    lot_size: c.underlying.lotSize,
+  };
+}
+
+/** Current-expiry strikes around the money for each underlying. */
+export function optionChainContracts(seed: number, nowMs: number, width = 8): MockContract[] {
+  const out: MockContract[] = [];
+  for (const u of MOCK_UNDERLYINGS) {
+    const atm = Math.round(spotAt(seed, u, nowMs) / u.step) * u.step;
+    const expiry = expiryFor(u, nowMs);
+    for (let i = -width; i <= width; i += 1) {
+      out.push(contractFor(u, expiry, atm + i * u.step, 'CE'));
+      out.push(contractFor(u, expiry, atm + i * u.step, 'PE'));
+    }
+  }
+  return out;
+}
+
+// ---------- prices ----------
+
+const pathCache = new Map<string, Float64Array>();
+
+/**
+ * Minute marks for one IST day: `path[m]` is the price at the start of minute m. Mean-reverts
+ * to a seeded open near the base so months of history never drift out of the strike grid.
+ */
+function dayPath(seed: number, u: MockUnderlying, dateKey: string): Float64Array {
+  const key = `${seed}|${u.token}|${dateKey}`;
+  const hit = pathCache.get(key);
+  if (hit) return hit;
+  if (pathCache.size >= PATH_CACHE_MAX) pathCache.clear();
+
+  const open = u.base * (1 + 0.025 * gaussian(mulberry32(hash32(seed, u.token, dateKey, 'open'))));
+  const rand = mulberry32(hash32(seed, u.token, dateKey));
+  const sigma = u.dailyVol / Math.sqrt(SESSION_MINUTES);
+  const path = new Float64Array(MINUTES_PER_DAY + 1);
+  let x = open;
+  path[0] = x;
+  for (let m = 1; m <= MINUTES_PER_DAY; m += 1) {
+    x += 0.002 * (open - x) + sigma * x * gaussian(rand);
+    path[m] = x;
+  }
+  pathCache.set(key, path);
+  return path;
+}
+
+/** Intrabar noise amplitude for minute `minuteIdx`; also the bar's wick length. */
+function wickOf(seed: number, u: MockUnderlying, level: number, minuteIdx: number): number {
+  return level * (u.dailyVol / Math.sqrt(SESSION_MINUTES)) * 0.35 * (0.5 + unit(seed, u.token, minuteIdx, 'w'));
+}
+
+function minuteOf(seed: number, u: MockUnderlying, minuteStart: number) {
+  const key = istDateKey(minuteStart);
+  const m = Math.floor((minuteStart - dayStartMs(key)) / MINUTE_MS);
+  const path = dayPath(seed, u, key);
+  const open = path[m];
+  const close = path[m + 1];
+  const wick = wickOf(seed, u, open, Math.floor(minuteStart / MINUTE_MS));
+  return { open, close, wick };
+}
+
+export function spotAt(seed: number, u: MockUnderlying, ms: number): number {
+  const minuteStart = Math.floor(ms / MINUTE_MS) * MINUTE_MS;
+  const { open, close, wick } = minuteOf(seed, u, minuteStart);
+  const frac = (ms - minuteStart) / MINUTE_MS;
+  // Zero at both ends of the minute, so bar opens/closes land exactly on the path.
+  const noise = (unit(seed, u.token, Math.floor(ms / SECOND_MS)) - 0.5) * 2 * wick * Math.sin(Math.PI * frac);
+  return open + (close - open) * frac + noise;
+}
+
+function optionIv(c: MockContract, spot: number): number {
+  const m = Math.log(c.strike / spot);
+  return c.underlying.iv + 50 * m * m;
+}
+
+function optionFromSpot(c: MockContract, spot: number, ms: number): number {
+  const years = Math.max(0, expiryCloseMs(c.expiry) - ms) / YEAR_MS;
+  return bsPrice(c.optType, spot, c.strike, years, optionIv(c, spot));
+}
+
+export function optionPriceAt(seed: number, c: MockContract, ms: number): number {
+  return roundTick(optionFromSpot(c, spotAt(seed, c.underlying, ms), ms));
+}
+
+/** Price plus the model's own IV and Greeks, as an option chain row would carry them. */
+export function optionQuoteAt(seed: number, c: MockContract, ms: number): { ltp: number; iv: number; greeks: Greeks | null } {
+  const spot = spotAt(seed, c.underlying, ms);
+  const iv = optionIv(c, spot);
+  const years = Math.max(0, expiryCloseMs(c.expiry) - ms) / YEAR_MS;
+  return { ltp: roundTick(optionFromSpot(c, spot, ms)), iv, greeks: bsGreeks(c.optType, spot, c.strike, years, iv) };
+}
+
+/** Last price for any simulated token, or null for tokens the simulator never issued. */
+export function priceAt(seed: number, token: number, ms: number): number | null {
+  const u = underlyingByToken(token);
+  if (u) return round2(spotAt(seed, u, ms));
+  const c = contractByToken(token);
+  return c ? optionPriceAt(seed, c, ms) : null;
+}
+
+type Bar = { open: number; high: number; low: number; close: number; volume: number };
+
+/** One minute bar; the still-forming minute is cut at `nowMs`. */
+function minuteBar(seed: number, token: number, minuteStart: number, nowMs: number): Bar | null {
+  const c = contractByToken(token);
+  const u = underlyingByToken(token) ?? c?.underlying ?? null;
+  if (!u) return null;
+  const volume = Math.round(50 + 950 * unit(seed, token, minuteStart, 'v')) * (c ? u.lotSize : 1);
+
+  let open: number;
+  let close: number;
+  let hiSpot: number;
+  let loSpot: number;
+  if (nowMs < minuteStart + MINUTE_MS) {
+    // Forming bar: sample the seconds elapsed so far.
+    open = spotAt(seed, u, minuteStart);
+    close = spotAt(seed, u, nowMs);
+    hiSpot = Math.max(open, close);
+    loSpot = Math.min(open, close);
+    for (let t = minuteStart + SECOND_MS; t < nowMs; t += SECOND_MS) {
+      const p = spotAt(seed, u, t);
+      if (p > hiSpot) hiSpot = p;
+      if (p < loSpot) loSpot = p;
+    }
+  } else {
+    const bar = minuteOf(seed, u, minuteStart);
+    open = bar.open;
+    close = bar.close;
+    hiSpot = Math.max(open, close) + bar.wick;
+    loSpot = Math.min(open, close) - bar.wick;
+  }
+
+  if (!c) {
+    return { open: round2(open), high: round2(hiSpot), low: round2(loSpot), close: round2(close), volume };
+  }
+  // Premium is monotonic in spot over a minute, so the spot extremes give the premium extremes.
+  const end = Math.min(nowMs, minuteStart + MINUTE_MS);
+  const o = roundTick(optionFromSpot(c, open, minuteStart));
+  const cl = roundTick(optionFromSpot(c, close, end));
+  const a = roundTick(optionFromSpot(c, hiSpot, end));
+  const b = roundTick(optionFromSpot(c, loSpot, end));
+  return { open: o, high: Math.max(o, cl, a, b), low: Math.min(o, cl, a, b), close: cl, volume };
+}
+
+/**
+ * The `limit` most recent `intervalMin` bars ending at `endMs` (the last one may be forming),
+ * oldest first. Buckets are epoch-aligned, which for 1/3/5m coincides with the 09:15 IST anchor.
+ */
+export function simulateCandles(
+  seed: number,
+  token: number,
+  intervalMin: number,
+  endMs: number,
+  limit: number,
+  fromMs: number | null = null,
+): CandleRow[] {
+  if (!contractByToken(token) && !underlyingByToken(token)) return [];
+  const span = Math.max(1, Math.round(intervalMin)) * MINUTE_MS;
+  const last = Math.floor((endMs - 1) / span) * span;
+  const out: CandleRow[] = [];
+  for (let b = last - (Math.max(1, limit) - 1) * span; b <= last; b += span) {
+    if (fromMs !== null && b < fromMs) continue;
+    let bar: Bar | null = null;
+    for (let m = b; m < b + span && m < endMs; m += MINUTE_MS) {
+      const mb = minuteBar(seed, token, m, endMs);
+      if (!mb) continue;
+      bar = bar
+        ? {
+            open: bar.open,
+            high: Math.max(bar.high, mb.high),
+            low: Math.min(bar.low, mb.low),
+            close: mb.close,
+            volume: bar.volume + mb.volume,
+          }
+        : mb;
+    }
+    if (bar) out.push({ instrument_token: token, interval_min: intervalMin, ts: new Date(b).toISOString(), ...bar });
+  }
+  return out;
+}
+
+// ---------- bot trades ----------
+
+type WalkSample = { ms: number; price: number };
+
+/** A slot's trade played to completion; `tradeAt` cuts it at the current time. */
+export type TradePlan = {
+  slot: number;
+  decisionMs: number;
+  entryMs: number;
+  exitMs: number;
+  closed: TradeRow;
+  samples: WalkSample[];
+  tp1Ms: number | null;
+  trail: Array<{ at: string; sl: number }>;
+};
+
+const planCache = new Map<string, TradePlan | null>();
+
+export function tradePlan(seed: number, slot: number): TradePlan | null {
+  const key = `${seed}|${slot}`;
+  if (planCache.has(key)) return planCache.get(key) ?? null;
+  const plan = buildPlan(seed, slot);
+  planCache.set(key, plan);
+  return plan;
+}
+
+function pick<T>(items: T[], r: number): T {
+  return items[Math.min(items.length - 1, Math.floor(r * items.length))];
+}
+
+function buildPlan(seed: number, slot: number): TradePlan | null {
+  const rand = mulberry32(hash32(seed, 'slot', slot));
+  if (rand() > 0.7) return null;
+
+  const tradeId = `SIM-${slot}`;
+  const decisionMs = slot * SLOT_MS + 30 * SECOND_MS + Math.floor(rand() * 240) * SECOND_MS;
+  const entryMs = decisionMs + 150 + Math.floor(rand() * 750);
+  const u = rand() < 0.65 ? MOCK_UNDERLYINGS[0] : MOCK_UNDERLYINGS[1];
+  const spot = spotAt(seed, u, decisionMs);
+  const optType: 'CE' | 'PE' = rand() < 0.5 ? 'CE' : 'PE';
+  const atm = Math.round(spot / u.step) * u.step;
+  const strike = atm + (optType === 'CE' ? -1 : 1) * u.step * Math.floor(rand() * 2);
+  const c = contractFor(u, expiryFor(u, entryMs), strike, optType);
+  const lots = 1 + Math.floor(rand() * 3);
+  const qty = lots * u.lotSize;
+  const base: TradeRow = {
+    tradeId,
+    instrument_token: c.token,
+    instrument: instrumentOf(c),
+    strategyId: pick(STRATEGIES, rand()),
+    side: 'BUY',
+    qty,
+    decisionAt: new Date(decisionMs).toISOString(),
+    entryAt: new Date(entryMs).toISOString(),
+    regimeTag: pick(REGIMES, rand()),
+    trendState: pick(TRENDS, rand()),
+    ivPercentile: Math.round(rand() * 100),
+    atr: round2(spot * 0.0012 * (0.6 + rand())),
+    createdAt: new Date(decisionMs).toISOString(),
+    entryOrderId: `${tradeId}-E`,
+  };
+
+  if (rand() < 0.05) {
+    return {
+      slot,
+      decisionMs,
+      entryMs,
+      exitMs: entryMs,
+      samples: [],
+      tp1Ms: null,
+      trail: [],
+      closed: {
+        ...base,
+        status: 'ENTRY_REJECTED',
+        closeReason: 'BROKER_REJECT',
+        updatedAt: new Date(entryMs).toISOString(),
+      },
+    };
+  }
+
+  const mid = optionPriceAt(seed, c, entryMs);
+  const spread = roundTick(mid * 0.004);
+  const entrySlippage = roundTick(rand() * spread * 2);
+  const entryPrice = roundTick(mid + entrySlippage);
+  const stopLoss = roundTick(entryPrice * 0.88);
+  const targetPrice = roundTick(entryPrice * 1.2);
+  const tp1Price = roundTick(entryPrice * 1.1);
+  const timeStopMs = entryMs + (8 + Math.floor(rand() * 8)) * MINUTE_MS;
+
+  const samples: WalkSample[] = [];
+  const trail: Array<{ at: string; sl: number }> = [];
+  let tp1Ms: number | null = null;
+  let sl = stopLoss;
+  let reason = 'TIME_STOP';
+  let exitMs = timeStopMs;
+  let last = entryPrice;
+  for (let t = entryMs + WALK_STEP_MS; t <= timeStopMs; t += WALK_STEP_MS) {
+    const p = optionPriceAt(seed, c, t);
+    samples.push({ ms: t, price: p });
+    last = p;
+    if (tp1Ms === null && p >= tp1Price) {
+      tp1Ms = t;
+      sl = entryPrice;
+    }
+    if (tp1Ms !== null) {
+      const next = roundTick(p * 0.94);
+      if (next > sl) {
+        sl = next;
+        trail.push({ at: new Date(t).toISOString(), sl });
+      }
+    }
+    if (p >= targetPrice) {
+      reason = 'TARGET';
+      exitMs = t;
+      break;
+    }
+    if (p <= sl) {
+      reason = trail.length ? 'TRAIL_SL' : tp1Ms !== null ? 'BE_SL' : 'SL';
+      exitMs = t;
+      break;
+    }
+  }
+
+  const exitSlippage = roundTick(rand() * spread * 2);
+  const exitPrice = roundTick(last - exitSlippage);
+  const prices = samples.map((s) => s.price);
+  const closed: TradeRow = {
+    ...base,
+    entryPrice,
+    exitPrice,
+    stopLoss,
+    targetPrice,
+    tp1Price,
+    slTrigger: sl,
+    trailSl: trail.length ? sl : null,
+    beLocked: tp1Ms !== null,
+    tp1HitAt: tp1Ms !== null ? new Date(tp1Ms).toISOString() : null,
+    beLockedAt: tp1Ms !== null ? new Date(tp1Ms).toISOString() : null,
+    trailHistory: trail,
+    peakLtp: prices.length ? Math.max(...prices) : entryPrice,
+    timeStopAt: new Date(timeStopMs).toISOString(),
+    status: 'CLOSED',
+    closeReason: reason,
+    exitAt: new Date(exitMs).toISOString(),
+    // Stop-outs fill through the resting SL order; everything else is a separate market exit.
+    exitOrderId: reason.endsWith('SL') ? `${tradeId}-SL` : `${tradeId}-X`,
+    slOrderId: `${tradeId}-SL`,
+    spread,
+    spreadAtEntry: spread,
+    entrySlippage,
+    exitSlippage,
+    slippage: round2(entrySlippage + exitSlippage),
+    mae: round2(Math.max(0, entryPrice - Math.min(entryPrice, ...prices))),
+    mfe: round2(Math.max(0, Math.max(entryPrice, ...prices) - entryPrice)),
+    updatedAt: new Date(exitMs).toISOString(),
+  };
+
+  // Backend fees mostly track the default schedule; a few trades are off so the mismatch flag has something to show.
+  const model = tradeCharges(closed, DEFAULT_CHARGES);
+  if (model) {
+    const brokerage = model.brokerage;
+    const drift = rand() < 0.06 ? 15 : 0;
+    closed.brokerage = round2(brokerage);
+    closed.taxes = round2(model.total - brokerage + drift);
+    closed.feesTotal = round2(model.total + drift);
+  }
+
+  return { slot, decisionMs, entryMs, exitMs, closed, samples, tp1Ms, trail };
+}
+
+/** The plan's trade as the backend would report it at `nowMs`, or null before its decision. */
+export function tradeAt(plan: TradePlan, nowMs: number): TradeRow | null {
+  if (nowMs < plan.decisionMs) return null;
+  if (nowMs >= plan.exitMs) return plan.closed;
+  const seen = plan.samples.filter((s) => s.ms <= nowMs);
+  const prices = seen.map((s) => s.price);
+  const entry = Number(plan.closed.entryPrice);
+  const tp1Hit = plan.tp1Ms !== null && plan.tp1Ms <= nowMs;
+  const trail = plan.trail.filter((t) => new Date(t.at).getTime() <= nowMs);
+  const lastMs = seen.length ? seen[seen.length - 1].ms : plan.entryMs;
+  return {
+    ...plan.closed,
+    status: nowMs < plan.entryMs ? 'ENTRY_PENDING' : 'ENTRY_OPEN',
+    exitPrice: null,
+    exitAt: undefined,
+    closeReason: undefined,
+    exitOrderId: null,
+    exitSlippage: null,
+    slippage: plan.closed.entrySlippage,
+    brokerage: null,
+    taxes: null,
+    feesTotal: null,
+    beLocked: tp1Hit,
+    tp1HitAt: tp1Hit ? plan.closed.tp1HitAt : null,
+    beLockedAt: tp1Hit ? plan.closed.beLockedAt : null,
+    trailHistory: trail,
+    trailSl: trail.length ? trail[trail.length - 1].sl : null,
+    slTrigger: trail.length ? trail[trail.length - 1].sl : tp1Hit ? entry : plan.closed.stopLoss,
+    peakLtp: prices.length ? Math.max(entry, ...prices) : entry,
+    mae: round2(Math.max(0, entry - Math.min(entry, ...prices))),
+    mfe: round2(Math.max(0, Math.max(entry, ...prices) - entry)),
+    updatedAt: new Date(lastMs).toISOString(),
+  };
+}
+
+/** Bot trades whose slot falls in [fromMs, toMs], newest first, as of `nowMs`. */
+export function simulatedTrades(seed: number, fromMs: number, toMs: number, nowMs: number): TradeRow[] {
+  const floor = nowMs - HISTORY_DAYS * DAY_MS;
+  const first = Math.floor(Math.max(fromMs, floor) / SLOT_MS);
+  const last = Math.floor(Math.min(toMs, nowMs) / SLOT_MS);
+  const out: TradeRow[] = [];
+  for (let slot = last; slot >= first; slot -= 1) {
+    const plan = tradePlan(seed, slot);
+    const row = plan ? tradeAt(plan, nowMs) : null;
+    if (row) out.push(row);
+  }
+  return out;
+}
@@ -0,0 +1,103 @@
+import type { TradeRow } from '../types/backend';
+import { mockCandleTail, mockGet, mockLtp, mockWatch } from './mockBackend';
+
+/**
+ * socket.io stand-in for the mock backend: the same events a live bot emits, on timers, with
+ * payloads taken from the mock routes so pushes and REST always agree. Only the surface
+ * useSocketBridge touches (on / removeAllListeners / disconnect) is implemented.
+ */
+
+const TICK_MS = 1000;
+/** Fast feeds go out every tick; account views every few ticks; slow panels less often. */
+const ACCOUNT_EVERY = 3;
+const PANELS_EVERY = 10;
+const TRADES_WINDOW = 50;
+
+type Listener = (...args: any[]) => void;
+
+export type MockSocket = {
+  on(event: string, fn: Listener): MockSocket;
+  removeAllListeners(): MockSocket;
+  disconnect(): MockSocket;
+};
+
+function tradeSignature(t: TradeRow): string {
+  return [t.status, t.updatedAt, t.exitPrice, t.slTrigger, t.stopLoss, t.targetPrice, t.tp1Price].join('|');
+}
+
+export function createMockSocket(baseUrl: string): MockSocket {
+  const listeners = new Map<string, Listener[]>();
+  const seen = new Map<string, string>();
+  let timer: number | null = null;
+  let ticks = 0;
+
+  const emit = (event: string, payload?: unknown) => {
+    for (const fn of listeners.get(event) || []) fn(payload);
+  };
+
+  const recentTrades = () =>
+    (mockGet(baseUrl, '/admin/trades/recent', { limit: TRADES_WINDOW }) as { rows?: TradeRow[] }).rows || [];
+
+  const pushTrades = () => {
+    const changed = recentTrades().filter((t) => seen.get(t.tradeId) !== tradeSignature(t));
+    for (const t of changed) seen.set(t.tradeId, tradeSignature(t));
+    if (changed.length) emit('trades', changed);
+  };
+
+  const tick = () => {
+    ticks += 1;
+    const watch = mockWatch(baseUrl);
+    const ltps = watch.tokens.map((token) => mockLtp(baseUrl, token)).filter(Boolean);
+    if (ltps.length) emit('ltp', ltps);
+    for (const { token, intervalMin } of watch.candles) {
+      const rows = mockCandleTail(baseUrl, token, intervalMin);
+      if (rows.length) emit('candles', { token, intervalMin, rows });
+    }
+    pushTrades();
+
+    if (ticks % ACCOUNT_EVERY === 0) {
+      emit('status', mockGet(baseUrl, '/admin/status'));
+      emit('subscriptions', mockGet(baseUrl, '/admin/subscriptions'));
+      emit('equity', mockGet(baseUrl, '/admin/account/equity'));
+      emit('positions', mockGet(baseUrl, '/admin/positions'));
+      emit('orders', mockGet(baseUrl, '/admin/orders'));
+    }
+    if (ticks % PANELS_EVERY === 0) {
+      emit('riskLimits', mockGet(baseUrl, '/admin/risk/limits'));
+      emit('strategyKpis', mockGet(baseUrl, '/admin/strategy/kpis'));
+      emit('executionQuality', mockGet(baseUrl, '/admin/execution/quality'));
+      emit('marketHealth', mockGet(baseUrl, '/admin/market/health'));
+      emit('auditLogs', mockGet(baseUrl, '/admin/audit/logs', { limit: 50 }));
+      emit('alertIncidents', mockGet(baseUrl, '/admin/alerts/incidents', { limit: 50 }));
+      emit('tradeTelemetry', mockGet(baseUrl, '/admin/trade-telemetry/snapshot'));
+      emit('criticalHealth', mockGet(baseUrl, '/admin/health/critical'));
+    }
+  };
+
+  // Connect on the next turn, after the bridge has registered its handlers, like a real handshake.
+  const connectTimer = window.setTimeout(() => {
+    emit('connect');
+    // The dashboard already has the recent window from REST; only later changes are news.
+    for (const t of recentTrades()) seen.set(t.tradeId, tradeSignature(t));
+    timer = window.setInterval(tick, TICK_MS);
+  }, 0);
+
+  const socket: MockSocket = {
+    on(event, fn) {
+      listeners.set(event, [...(listeners.get(event) || []), fn]);
+      return socket;
+    },
+    removeAllListeners() {
+      listeners.clear();
+      return socket;
+    },
+    disconnect() {
+      window.clearTimeout(connectTimer);
+      if (timer !== null) window.clearInterval(timer);
+      timer = null;
+      emit('disconnect');
+      return socket;
+    },
+  };
+  return socket;
+}
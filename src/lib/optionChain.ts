@@ -0,0 +1,189 @@
+import type { FnoUniverseResponse } from '../types/backend';
+import { parseTradingSymbol } from './instrumentFormat';
+import { walkUniverseContracts } from './orders';
+import { istDateKey } from './replay';
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export type OptionGreeks = {
+  delta: number | null;
+  gamma: number | null;
+  theta: number | null;
+  vega: number | null;
+};
+
+export type OptionContract = {
+  token: number;
+  tradingsymbol?: string;
+  underlying: string;
+  /** `YYYY-MM-DD`, or `YYYY-MM` for monthly symbols that carry no day. */
+  expiry: string;
+  strike: number;
+  optType: 'CE' | 'PE';
+  lotSize: number;
+  ltp: number | null;
+  oi: number | null;
+  oiChange: number | null;
+  /** Implied volatility in percent. */
+  iv: number | null;
+  greeks: OptionGreeks | null;
+};
+
+export type OptionChainRow = {
+  strike: number;
+  ce: OptionContract | null;
+  pe: OptionContract | null;
+  atm: boolean;
+};
+
+export type OptionChain = {
+  rows: OptionChainRow[];
+  atmStrike: number | null;
+  /** Where the ATM strike came from: the universe's spot field or CE/PE put-call parity. */
+  atmSource: 'spot' | 'parity' | null;
+};
+
+function num(...values: unknown[]): number | null {
+  for (const v of values) {
+    if (v === null || v === undefined || v === '') continue;
+    const n = Number(v);
+    if (Number.isFinite(n)) return n;
+  }
+  return null;
+}
+
+function expiryKey(node: any, parsed: ReturnType<typeof parseTradingSymbol>): string | null {
+  const raw = node.expiry ?? node.expiryDate ?? node.expiry_date;
+  if (raw) {
+    const s = String(raw);
+    if (/^\d{4}-\d{2}-\d{2}/.test(s)) return s.slice(0, 10);
+    const ms = new Date(s).getTime();
+    if (Number.isFinite(ms)) return istDateKey(ms);
+  }
+  if (!parsed?.year || !parsed.mon) return null;
+  const month = String(MONTHS.indexOf(parsed.mon) + 1).padStart(2, '0');
+  if (month === '00') return null;
+  return parsed.day ? `20${parsed.year}-${month}-${parsed.day}` : `20${parsed.year}-${month}`;
+}
+
+export function formatExpiry(expiry: string): string {
+  const m = /^(\d{4})-(\d{2})(?:-(\d{2}))?$/.exec(expiry);
+  if (!m) return expiry;
+  const mon = MONTHS[Number(m[2]) - 1] || m[2];
+  return m[3] ? `${m[3]} ${mon} ${m[1].slice(2)}` : `${mon} ${m[1].slice(2)} (monthly)`;
+}
+
+function pickGreeks(node: any): OptionGreeks | null {
+  const g = node.greeks && typeof node.greeks === 'object' ? node.greeks : node;
+  const greeks = {
+    delta: num(g.delta),
+    gamma: num(g.gamma),
+    theta: num(g.theta),
+    vega: num(g.vega),
+  };
+  return Object.values(greeks).some((v) => v !== null) ? greeks : null;
+}
+
+/** Option contracts in the universe; strike, type and expiry come from the symbol when the row lacks them. */
+export function optionContractsFromUniverse(universe: FnoUniverseResponse['universe']): OptionContract[] {
+  const out = new Map<number, OptionContract>();
+  walkUniverseContracts(universe, (node, token, hint) => {
+    const sym = node.tradingsymbol ? String(node.tradingsymbol) : undefined;
+    const parsed = parseTradingSymbol(sym);
+    const rawType = String(node.instrument_type ?? node.optType ?? node.option_type ?? parsed?.optType ?? '').toUpperCase();
+    const optType = rawType === 'CE' || rawType === 'CALL' ? 'CE' : rawType === 'PE' || rawType === 'PUT' ? 'PE' : null;
+    const strike = num(node.strike, node.strike_price, parsed?.strike);
+    const expiry = expiryKey(node, parsed);
+    if (!optType || strike === null || strike <= 0 || !expiry) return;
+    const iv = num(node.iv, node.impliedVolatility, node.greeks?.iv);
+    out.set(token, {
+      token,
+      tradingsymbol: sym,
+      underlying: String(node.name || parsed?.underlying || hint || '').toUpperCase(),
+      expiry,
+      strike,
+      optType,
+      lotSize: num(node.lot_size, node.lotSize) ?? 1,
+      ltp: num(node.ltp, node.last_price, node.lastPrice),
+      oi: num(node.oi, node.openInterest, node.open_interest),
+      oiChange: num(node.oiChange, node.oi_change, node.oi_day_change, node.changeInOi),
+      // Backends send IV either as a fraction (0.14) or in percent (14).
+      iv: iv !== null && iv > 0 && iv < 3 ? iv * 100 : iv,
+      greeks: pickGreeks(node),
+    });
+  });
+  return Array.from(out.values());
+}
+
+/** Spot prices carried on the universe's per-underlying entries, keyed by upper-cased underlying. */
+export function underlyingSpots(universe: FnoUniverseResponse['universe']): Record<string, number> {
+  const out: Record<string, number> = {};
+  for (const [key, value] of Object.entries(universe || {})) {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) continue;
+    const spot = num(value.spot, value.underlyingLtp, value.underlying_ltp, value.spotLtp, value.indexLtp);
+    if (spot !== null && spot > 0) out[key.toUpperCase()] = spot;
+  }
+  return out;
+}
+
+export function chainExpiries(contracts: OptionContract[], underlying: string): string[] {
+  const set = new Set(contracts.filter((c) => c.underlying === underlying).map((c) => c.expiry));
+  return Array.from(set).sort();
+}
+
+/**
+ * Strikes for one underlying/expiry, `width` either side of ATM. `ltpOf` lets live prices
+ * override the universe's snapshot LTP.
+ */
+export function buildOptionChain(
+  contracts: OptionContract[],
+  underlying: string,
+  expiry: string,
+  spot: number | null,
+  width: number,
+  ltpOf: (c: OptionContract) => number | null = (c) => c.ltp,
+): OptionChain {
+  const byStrike = new Map<number, OptionChainRow>();
+  for (const c of contracts) {
+    if (c.underlying !== underlying || c.expiry !== expiry) continue;
+    const row = byStrike.get(c.strike) ?? { strike: c.strike, ce: null, pe: null, atm: false };
+    if (c.optType === 'CE') row.ce = c;
+    else row.pe = c;
+    byStrike.set(c.strike, row);
+  }
+  const all = Array.from(byStrike.values()).sort((a, b) => a.strike - b.strike);
+  if (!all.length) return { rows: [], atmStrike: null, atmSource: null };
+
+  let atmIdx = -1;
+  let atmSource: OptionChain['atmSource'] = null;
+  if (spot !== null && Number.isFinite(spot)) {
+    let best = Infinity;
+    all.forEach((row, i) => {
+      const d = Math.abs(row.strike - spot);
+      if (d < best) {
+        best = d;
+        atmIdx = i;
+      }
+    });
+    atmSource = 'spot';
+  } else {
+    // Without a spot, ATM is where call and put premiums are closest.
+    let best = Infinity;
+    all.forEach((row, i) => {
+      const ce = row.ce ? ltpOf(row.ce) : null;
+      const pe = row.pe ? ltpOf(row.pe) : null;
+      if (ce === null || pe === null) return;
+      const d = Math.abs(ce - pe);
+      if (d < best) {
+        best = d;
+        atmIdx = i;
+      }
+    });
+    if (atmIdx !== -1) atmSource = 'parity';
+  }
+  const center = atmIdx === -1 ? Math.floor(all.length / 2) : atmIdx;
+  const rows = all
+    .slice(Math.max(0, center - width), center + width + 1)
+    .map((row) => ({ ...row, atm: atmIdx !== -1 && row.strike === all[atmIdx].strike }));
+  return { rows, atmStrike: atmIdx === -1 ? null : all[atmIdx].strike, atmSource };
+}
@@ -0,0 +1,253 @@
+import type { FnoUniverseResponse, TradeRow } from '../types/backend';
+import { parseTradingSymbol } from './instrumentFormat';
+import { istSessionBounds } from './replay';
+import { underlyingSpots } from './optionChain';
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Annualised risk-free rate (91-day T-bill ballpark); index options carry no dividend term here. */
+export const RISK_FREE_RATE = 0.065;
+
+/** Kite index tokens for the underlyings our option trades are written on. */
+export const UNDERLYING_INDEX_TOKENS: Record<string, number> = {
+  NIFTY: 256265,
+  BANKNIFTY: 260105,
+  FINNIFTY: 257801,
+  MIDCPNIFTY: 288009,
+  SENSEX: 265,
+  BANKEX: 274441,
+};
+
+export type OptionType = 'CE' | 'PE';
+
+export type Greeks = {
+  /** Per 1 point move in the underlying. */
+  delta: number;
+  gamma: number;
+  /** Premium change per calendar day. */
+  theta: number;
+  /** Premium change per 1 vol point (1%). */
+  vega: number;
+};
+
+export type OptionContext = {
+  underlying: string;
+  strike: number;
+  optType: OptionType;
+  /** Expiry at the 15:30 IST close, epoch ms. */
+  expiryMs: number;
+};
+
+// Abramowitz–Stegun 7.1.26; |error| < 1.5e-7, plenty for display Greeks.
+function erf(x: number): number {
+  const sign = x < 0 ? -1 : 1;
+  const ax = Math.abs(x);
+  const t = 1 / (1 + 0.3275911 * ax);
+  const y =
+    1 - ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-ax * ax);
+  return sign * y;
+}
+
+export function normCdf(x: number): number {
+  return 0.5 * (1 + erf(x / Math.SQRT2));
+}
+
+export function normPdf(x: number): number {
+  return Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+}
+
+function d1d2(spot: number, strike: number, years: number, vol: number, rate: number) {
+  const sqrtT = Math.sqrt(years);
+  const d1 = (Math.log(spot / strike) + (rate + 0.5 * vol * vol) * years) / (vol * sqrtT);
+  return { d1, d2: d1 - vol * sqrtT, sqrtT };
+}
+
+export function bsPrice(
+  type: OptionType,
+  spot: number,
+  strike: number,
+  years: number,
+  vol: number,
+  rate = RISK_FREE_RATE,
+): number {
+  if (years <= 0 || vol <= 0) return Math.max(0, type === 'CE' ? spot - strike : strike - spot);
+  const { d1, d2 } = d1d2(spot, strike, years, vol, rate);
+  const df = Math.exp(-rate * years);
+  return type === 'CE'
+    ? spot * normCdf(d1) - strike * df * normCdf(d2)
+    : strike * df * normCdf(-d2) - spot * normCdf(-d1);
+}
+
+export function bsGreeks(
+  type: OptionType,
+  spot: number,
+  strike: number,
+  years: number,
+  vol: number,
+  rate = RISK_FREE_RATE,
+): Greeks | null {
+  if (!(years > 0) || !(vol > 0) || !(spot > 0) || !(strike > 0)) return null;
+  const { d1, d2, sqrtT } = d1d2(spot, strike, years, vol, rate);
+  const df = Math.exp(-rate * years);
+  const pdf = normPdf(d1);
+  const common = (-spot * pdf * vol) / (2 * sqrtT);
+  const thetaYear =
+    type === 'CE' ? common - rate * strike * df * normCdf(d2) : common + rate * strike * df * normCdf(-d2);
+  return {
+    delta: type === 'CE' ? normCdf(d1) : normCdf(d1) - 1,
+    gamma: pdf / (spot * vol * sqrtT),
+    theta: thetaYear / 365,
+    vega: (spot * pdf * sqrtT) / 100,
+  };
+}
+
+/**
+ * Volatility that reproduces `price`, or null when the price is outside no-arbitrage bounds
+ * (below intrinsic, or at/after expiry). Newton steps, falling back to bisection when vega vanishes.
+ */
+export function impliedVol(
+  type: OptionType,
+  price: number,
+  spot: number,
+  strike: number,
+  years: number,
+  rate = RISK_FREE_RATE,
+): number | null {
+  if (!(price > 0) || !(spot > 0) || !(strike > 0) || !(years > 0)) return null;
+  const intrinsic = Math.max(0, type === 'CE' ? spot - strike * Math.exp(-rate * years) : strike * Math.exp(-rate * years) - spot);
+  if (price < intrinsic) return null;
+  let lo = 1e-4;
+  let hi = 5;
+  let vol = 0.2;
+  for (let i = 0; i < 60; i += 1) {
+    const diff = bsPrice(type, spot, strike, years, vol, rate) - price;
+    if (Math.abs(diff) < 1e-4) return vol;
+    if (diff > 0) hi = vol;
+    else lo = vol;
+    const vega = bsGreeks(type, spot, strike, years, vol, rate)?.vega ?? 0;
+    const next = vega > 1e-8 ? vol - diff / (vega * 100) : NaN;
+    vol = Number.isFinite(next) && next > lo && next < hi ? next : (lo + hi) / 2;
+  }
+  return hi - lo < 1e-3 ? vol : null;
+}
+
+function lastWeekdayOfMonth(year: number, monthIdx: number, weekday: number): number {
+  const last = new Date(Date.UTC(year, monthIdx + 1, 0));
+  const back = (last.getUTCDay() - weekday + 7) % 7;
+  return last.getUTCDate() - back;
+}
+
+function expiryCloseMs(dateKey: string): number | null {
+  const bounds = istSessionBounds(dateKey);
+  return bounds ? bounds.endMs : null;
+}
+
+/** Strike, type, underlying and expiry from instrument fields, falling back to the symbol. */
+export function optionContextOfInstrument(inst: TradeRow['instrument']): OptionContext | null {
+  const parsed = parseTradingSymbol(inst?.tradingsymbol);
+  const rawType = String(inst?.instrument_type ?? parsed?.optType ?? '').toUpperCase();
+  if (rawType !== 'CE' && rawType !== 'PE') return null;
+  const strike = Number(inst?.strike ?? parsed?.strike);
+  if (!Number.isFinite(strike) || strike <= 0) return null;
+
+  let expiryMs: number | null = null;
+  if (inst?.expiry) {
+    const s = String(inst.expiry);
+    expiryMs = expiryCloseMs(/^\d{4}-\d{2}-\d{2}/.test(s) ? s.slice(0, 10) : '');
+  }
+  if (expiryMs === null && parsed?.year && parsed.mon) {
+    const year = 2000 + Number(parsed.year);
+    const monthIdx = MONTHS.indexOf(parsed.mon);
+    if (monthIdx !== -1) {
+      // Monthly symbols carry no day: NSE monthlies expire on the last Tuesday, BSE on the last Thursday.
+      const bse = /^(SENSEX|BANKEX)/.test(parsed.underlying);
+      const day = parsed.day ? Number(parsed.day) : lastWeekdayOfMonth(year, monthIdx, bse ? 4 : 2);
+      const key = `${year}-${String(monthIdx + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+      expiryMs = expiryCloseMs(key);
+    }
+  }
+  if (expiryMs === null) return null;
+
+  return {
+    underlying: String(inst?.name || parsed?.underlying || '').toUpperCase(),
+    strike,
+    optType: rawType,
+    expiryMs,
+  };
+}
+
+export function optionContextOf(trade: TradeRow): OptionContext | null {
+  return optionContextOfInstrument(trade.instrument);
+}
+
+export function underlyingTokenFor(ctx: OptionContext | null): number | null {
+  return ctx ? UNDERLYING_INDEX_TOKENS[ctx.underlying] ?? null : null;
+}
+
+/** Underlying price from its live index LTP, else the spot the F&O universe reports. */
+export function underlyingSpotFor(
+  ctx: OptionContext,
+  ltpByToken: Record<number, number>,
+  universe: FnoUniverseResponse['universe'],
+): number | null {
+  const tok = underlyingTokenFor(ctx);
+  const live = tok !== null ? ltpByToken[tok] : undefined;
+  if (live !== undefined && Number.isFinite(live)) return live;
+  return underlyingSpots(universe)[ctx.underlying] ?? null;
+}
+
+export type TradeGreeks = Greeks & {
+  /** Implied volatility in percent. */
+  iv: number;
+  spot: number;
+  /** Position-level: greek × qty, signed for the trade side. */
+  positionDelta: number;
+  /** ₹ per calendar day the position gains (+) or loses (−) to time decay. */
+  positionTheta: number;
+  /** Estimated ₹ decay until `timeStopAt` at today's spot and IV; null without a time stop. */
+  thetaToTimeStop: number | null;
+};
+
+export function tradeGreeks(
+  trade: TradeRow,
+  optionLtp: number,
+  spot: number | null,
+  nowMs: number,
+): TradeGreeks | null {
+  const ctx = optionContextOf(trade);
+  if (!ctx || spot === null || !Number.isFinite(spot) || !Number.isFinite(optionLtp)) return null;
+  const years = (ctx.expiryMs - nowMs) / YEAR_MS;
+  const vol = impliedVol(ctx.optType, optionLtp, spot, ctx.strike, years);
+  if (vol === null) return null;
+  const g = bsGreeks(ctx.optType, spot, ctx.strike, years, vol);
+  if (!g) return null;
+
+  const qty = Number(trade.qty);
+  const sign = (trade.side || '').toUpperCase() === 'SELL' ? -1 : 1;
+  const size = Number.isFinite(qty) ? qty * sign : 0;
+
+  let thetaToTimeStop: number | null = null;
+  const stopMs = trade.timeStopAt ? new Date(trade.timeStopAt).getTime() : NaN;
+  if (Number.isFinite(stopMs) && stopMs > nowMs) {
+    const untilYears = (Math.min(stopMs, ctx.expiryMs) - nowMs) / YEAR_MS;
+    const later = bsPrice(ctx.optType, spot, ctx.strike, years - untilYears, vol);
+    const now = bsPrice(ctx.optType, spot, ctx.strike, years, vol);
+    thetaToTimeStop = (later - now) * size;
+  }
+
+  return {
+    ...g,
+    iv: vol * 100,
+    spot,
+    positionDelta: g.delta * size,
+    positionTheta: g.theta * size,
+    thetaToTimeStop,
+  };
+}
+
+/** Days to expiry for display; fractional inside the last day. */
+export function daysToExpiry(ctx: OptionContext, nowMs: number): number {
+  return Math.max(0, (ctx.expiryMs - nowMs) / DAY_MS);
+}
@@ -0,0 +1,257 @@
+import type { FnoUniverseResponse, TradeRow } from '../types/backend';
+import { TRADE_LEVEL_LABELS, type TradeLevelKey } from './chartUtils';
+
+export const MANUAL_ORDER_PATH = '/admin/orders/manual';
+
+export type OrderSide = 'BUY' | 'SELL';
+export type OrderType = 'MARKET' | 'LIMIT' | 'SL-M';
+export type OrderProduct = 'MIS' | 'NRML';
+export type TradeAction = 'EXIT' | 'MOVE_SL_BE' | 'MODIFY';
+
+export const ORDER_TYPES: OrderType[] = ['MARKET', 'LIMIT', 'SL-M'];
+export const ORDER_PRODUCTS: OrderProduct[] = ['MIS', 'NRML'];
+
+export type OrderInstrument = {
+  token: number;
+  label: string;
+  tradingsymbol?: string;
+  exchange?: string;
+  lotSize: number;
+};
+
+export type OrderDraft = {
+  token: number | null;
+  side: OrderSide;
+  lots: number;
+  orderType: OrderType;
+  product: OrderProduct;
+  price: string;
+  triggerPrice: string;
+  note: string;
+};
+
+/**
+ * Body for every manual write. `idempotencyKey` lets the backend drop double-submits
+ * (retry after a timeout, double click); the rest is recorded verbatim in the audit log.
+ */
+type ManualRequestMeta = {
+  idempotencyKey: string;
+  source: 'dashboard';
+  requestedAt: string;
+  reason: string;
+};
+
+export type ManualOrderPayload = ManualRequestMeta & {
+  instrument_token: number;
+  tradingsymbol?: string;
+  exchange?: string;
+  side: OrderSide;
+  lots: number;
+  lotSize: number;
+  qty: number;
+  orderType: OrderType;
+  product: OrderProduct;
+  price?: number;
+  triggerPrice?: number;
+};
+
+export type TradeActionPayload = ManualRequestMeta & {
+  tradeId: string;
+  action: TradeAction;
+  instrument_token: number;
+  side?: OrderSide;
+  qty?: number;
+  /** New level prices for MODIFY. */
+  changes?: Partial<Record<TradeLevelKey, number>>;
+  /** Levels the operator saw when confirming, so the audit trail shows what changed. */
+  seen: {
+    entryPrice: number | null;
+    stopLoss: number | null;
+    targetPrice: number | null;
+    tp1Price: number | null;
+    trailSl: number | null;
+  };
+};
+
+export function defaultOrderDraft(): OrderDraft {
+  return {
+    token: null,
+    side: 'BUY',
+    lots: 1,
+    orderType: 'MARKET',
+    product: 'MIS',
+    price: '',
+    triggerPrice: '',
+    note: '',
+  };
+}
+
+export function newIdempotencyKey(): string {
+  const c: Crypto | undefined = (globalThis as any).crypto;
+  if (c && typeof c.randomUUID === 'function') return c.randomUUID();
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export function tradeActionPath(tradeId: string, action: TradeAction): string {
+  const id = encodeURIComponent(tradeId);
+  if (action === 'EXIT') return `/admin/trades/${id}/exit`;
+  if (action === 'MODIFY') return `/admin/trades/${id}/modify`;
+  return `/admin/trades/${id}/move-sl-be`;
+}
+
+function pickNumber(...values: unknown[]): number {
+  for (const v of values) {
+    const n = Number(v);
+    if (Number.isFinite(n) && n > 0) return n;
+  }
+  return NaN;
+}
+
+function numOrNull(v: unknown): number | null {
+  if (v === null || v === undefined || v === '') return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Visit every contract in the FNO universe. The backend returns it keyed by underlying with
+ * loosely-shaped values (single contract, list, or nested map), so this walks any
+ * object/array and reports whatever carries a token, with the nearest enclosing key as a hint.
+ */
+export function walkUniverseContracts(
+  universe: FnoUniverseResponse['universe'],
+  onContract: (node: any, token: number, hint: string) => void,
+) {
+  const visit = (node: any, hint: string, depth: number) => {
+    if (!node || typeof node !== 'object' || depth > 3) return;
+    if (Array.isArray(node)) {
+      node.forEach((item) => visit(item, hint, depth + 1));
+      return;
+    }
+    const token = Number(node.instrument_token ?? node.token);
+    if (Number.isFinite(token) && token > 0) {
+      onContract(node, token, hint);
+      return;
+    }
+    for (const [key, value] of Object.entries(node)) visit(value, hint || key, depth + 1);
+  };
+  for (const [key, value] of Object.entries(universe || {})) visit(value, key, 0);
+}
+
+/** Flatten the FNO universe into pickable instruments. */
+export function instrumentsFromUniverse(universe: FnoUniverseResponse['universe']): OrderInstrument[] {
+  const out = new Map<number, OrderInstrument>();
+  walkUniverseContracts(universe, (node, token, hint) => {
+    const sym = node.tradingsymbol ? String(node.tradingsymbol) : undefined;
+    out.set(token, {
+      token,
+      label: sym || hint || String(token),
+      tradingsymbol: sym,
+      exchange: node.exchange ? String(node.exchange) : undefined,
+      lotSize: pickNumber(node.lot_size, node.lotSize, 1),
+    });
+  });
+  return Array.from(out.values());
+}
+
+/** Subscribed tokens first (labelled like the charts), then any extra FNO contracts. */
+export function buildOrderInstruments(
+  tokens: number[],
+  tokenLabels: Record<number, string>,
+  universe: FnoUniverseResponse['universe'],
+): OrderInstrument[] {
+  const fno = instrumentsFromUniverse(universe);
+  const byToken = new Map(fno.map((i) => [i.token, i]));
+  const out: OrderInstrument[] = [];
+  const seen = new Set<number>();
+  for (const token of tokens || []) {
+    if (seen.has(token)) continue;
+    seen.add(token);
+    const known = byToken.get(token);
+    out.push({
+      token,
+      label: tokenLabels?.[token] || known?.label || String(token),
+      tradingsymbol: known?.tradingsymbol,
+      exchange: known?.exchange,
+      lotSize: known?.lotSize ?? 1,
+    });
+  }
+  for (const inst of fno) {
+    if (seen.has(inst.token)) continue;
+    seen.add(inst.token);
+    out.push(inst);
+  }
+  return out;
+}
+
+/** Returns a human-readable problem with the draft, or null when it can be sent. */
+export function validateOrderDraft(draft: OrderDraft, instrument: OrderInstrument | undefined): string | null {
+  if (draft.token === null || !instrument) return 'Pick an instrument';
+  if (!Number.isInteger(draft.lots) || draft.lots <= 0) return 'Lots must be a positive whole number';
+  if (draft.orderType === 'LIMIT' && !(Number(draft.price) > 0)) return 'Limit price is required';
+  if (draft.orderType === 'SL-M' && !(Number(draft.triggerPrice) > 0)) return 'Trigger price is required';
+  return null;
+}
+
+export function buildManualOrderPayload(
+  draft: OrderDraft,
+  instrument: OrderInstrument,
+  idempotencyKey: string,
+): ManualOrderPayload {
+  return {
+    idempotencyKey,
+    source: 'dashboard',
+    requestedAt: new Date().toISOString(),
+    reason: draft.note.trim() || 'manual order',
+    instrument_token: instrument.token,
+    tradingsymbol: instrument.tradingsymbol,
+    exchange: instrument.exchange,
+    side: draft.side,
+    lots: draft.lots,
+    lotSize: instrument.lotSize,
+    qty: draft.lots * instrument.lotSize,
+    orderType: draft.orderType,
+    product: draft.product,
+    price: draft.orderType === 'LIMIT' ? Number(draft.price) : undefined,
+    triggerPrice: draft.orderType === 'SL-M' ? Number(draft.triggerPrice) : undefined,
+  };
+}
+
+export function buildTradeActionPayload(
+  trade: TradeRow,
+  action: TradeAction,
+  reason: string,
+  changes?: Partial<Record<TradeLevelKey, number>>,
+): TradeActionPayload {
+  return {
+    idempotencyKey: newIdempotencyKey(),
+    source: 'dashboard',
+    requestedAt: new Date().toISOString(),
+    reason,
+    tradeId: trade.tradeId,
+    action,
+    instrument_token: Number(trade.instrument_token),
+    side: trade.side,
+    qty: numOrNull(trade.qty) ?? undefined,
+    changes,
+    seen: {
+      entryPrice: numOrNull(trade.entryPrice),
+      stopLoss: numOrNull(trade.stopLoss),
+      targetPrice: numOrNull(trade.targetPrice),
+      tp1Price: numOrNull(trade.tp1Price),
+      trailSl: numOrNull(trade.trailSl),
+    },
+  };
+}
+
+export function describeTradeAction(trade: TradeRow, action: TradeAction, label: string): string {
+  const entry = numOrNull(trade.entryPrice);
+  if (action === 'EXIT') {
+    return `Exit ${trade.side || ''} ${label} (qty ${trade.qty ?? '?'}) at market now?`;
+  }
+  return `Move stop-loss for ${label} from ${trade.stopLoss ?? '—'} to breakeven${entry !== null ? ` (${entry})` : ''}?`;
+}
+
+export function describeLevelChange(label: string, level: TradeLevelKey, from: number | null, to: number): string {
+  return `Move ${TRADE_LEVEL_LABELS[level]} for ${label} from ${from ?? '—'} to ${to.toFixed(2)}?`;
+}
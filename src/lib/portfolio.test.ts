@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { bookByUnderlying, buildPositionLegs } from './portfolio';
+import type { PositionRow } from '../types/backend';
+
+const NOW = Date.parse('2026-02-03T10:00:00+05:30');
+
+describe('bookByUnderlying', () => {
+  const positions: PositionRow[] = [
+    { instrument_token: 1, tradingsymbol: 'NIFTY26FEBFUT', quantity: 75, lastPrice: 24850, pnl: 1500 },
+    // Bought and sold back earlier in the day.
+    { instrument_token: 2, tradingsymbol: 'NIFTY2620324800PE', quantity: 0, lastPrice: 95, pnl: -600 },
+  ];
+
+  it('counts realised P&L from flat positions but leaves them out of legs and Greeks', () => {
+    const legs = buildPositionLegs(positions, {}, [], NOW);
+    const [book] = bookByUnderlying(legs, {}, []);
+    expect(book.underlying).toBe('NIFTY');
+    expect(book.pnl).toBe(900);
+    expect(book.legs.map((l) => l.token)).toEqual([1]);
+    expect(book.delta).toBe(75);
+    expect(book.unpriced).toBe(0);
+    expect(book.exposureInr).toBe(75 * 24850);
+  });
+
+  it('books an underlying that is flat all round for its P&L alone', () => {
+    const [book] = bookByUnderlying(buildPositionLegs([positions[1]], {}, [], NOW), {}, []);
+    expect(book).toMatchObject({ pnl: -600, legs: [], exposureInr: 0, delta: 0, unpriced: 0 });
+  });
+});
@@ -0,0 +1,238 @@
+import type { FnoUniverseResponse, PositionRow, TradeRow } from '../types/backend';
+import { parseTradingSymbol } from './instrumentFormat';
+import { underlyingSpots } from './optionChain';
+import {
+  UNDERLYING_INDEX_TOKENS,
+  bsGreeks,
+  bsPrice,
+  impliedVol,
+  optionContextOfInstrument,
+  type Greeks,
+  type OptionContext,
+} from './optionsMath';
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+/** Underlying moves (percent) and IV shocks (vol points) for the scenario grid. */
+export const SCENARIO_MOVES = [-2, -1, -0.5, 0, 0.5, 1, 2];
+export const SCENARIO_IV_SHOCKS = [-5, 0, 5];
+
+export type PositionLeg = {
+  token: number;
+  tradingsymbol: string;
+  underlying: string;
+  kind: 'CE' | 'PE' | 'FUT' | 'EQ';
+  /** Signed quantity: negative for shorts, 0 for a position closed out during the day. */
+  qty: number;
+  ltp: number | null;
+  pnl: number | null;
+  exposureInr: number;
+  option: OptionContext | null;
+  /** Implied vol as a fraction; null when it could not be solved. */
+  vol: number | null;
+  /** Per-unit Greeks; futures/equity carry delta 1 and nothing else. */
+  greeks: Greeks | null;
+};
+
+export type UnderlyingBook = {
+  underlying: string;
+  spot: number | null;
+  /** Open legs only; flat positions count towards `pnl` and nothing else. */
+  legs: PositionLeg[];
+  /** Realised and unrealised P&L of every position in the underlying, flat ones included. */
+  pnl: number;
+  exposureInr: number;
+  /** Σ delta × qty, in units of the underlying. */
+  delta: number;
+  gamma: number;
+  /** ₹ per calendar day. */
+  theta: number;
+  /** ₹ per vol point. */
+  vega: number;
+  /** Option legs whose IV could not be solved; their scenario P&L is left out. */
+  unpriced: number;
+};
+
+export type ScenarioCell = { move: number; ivShock: number; pnl: number };
+
+export type PositionMismatch = {
+  token: number;
+  tradingsymbol: string;
+  brokerQty: number;
+  tradeQty: number;
+  kind: 'untracked' | 'missing' | 'qty';
+};
+
+function futureUnderlying(sym: string): string | null {
+  const m = /^([A-Z&-]+?)\d{2}[A-Z]{3}FUT$/.exec(sym);
+  return m ? m[1] : null;
+}
+
+export function spotForUnderlying(
+  underlying: string,
+  ltpByToken: Record<number, number>,
+  universe: FnoUniverseResponse['universe'],
+): number | null {
+  const tok = UNDERLYING_INDEX_TOKENS[underlying];
+  const live = tok !== undefined ? ltpByToken[tok] : undefined;
+  if (live !== undefined && Number.isFinite(live)) return live;
+  return underlyingSpots(universe)[underlying] ?? null;
+}
+
+export function buildPositionLegs(
+  positions: PositionRow[],
+  ltpByToken: Record<number, number>,
+  universe: FnoUniverseResponse['universe'],
+  nowMs: number,
+): PositionLeg[] {
+  const out: PositionLeg[] = [];
+  for (const p of positions || []) {
+    const qty = Number(p.quantity);
+    const token = Number(p.instrument_token);
+    if (!Number.isFinite(qty) || !Number.isFinite(token)) continue;
+    const sym = String(p.tradingsymbol || token).toUpperCase();
+    const option = optionContextOfInstrument({ tradingsymbol: sym });
+    const fut = option ? null : futureUnderlying(sym);
+    const underlying = option?.underlying || fut || parseTradingSymbol(sym)?.underlying || sym;
+    const ltp = Number.isFinite(ltpByToken[token]) ? ltpByToken[token] : Number.isFinite(Number(p.lastPrice)) ? Number(p.lastPrice) : null;
+    const exposure = Number(p.exposureInr);
+
+    let vol: number | null = null;
+    let greeks: Greeks | null = null;
+    if (qty === 0) {
+      // Flat: only its realised P&L matters, so skip the IV solve.
+    } else if (option) {
+      const spot = spotForUnderlying(underlying, ltpByToken, universe);
+      const years = (option.expiryMs - nowMs) / YEAR_MS;
+      if (spot !== null && ltp !== null) {
+        vol = impliedVol(option.optType, ltp, spot, option.strike, years);
+        greeks = vol !== null ? bsGreeks(option.optType, spot, option.strike, years, vol) : null;
+      }
+    } else {
+      greeks = { delta: 1, gamma: 0, theta: 0, vega: 0 };
+    }
+
+    out.push({
+      token,
+      tradingsymbol: sym,
+      underlying,
+      kind: option ? option.optType : fut ? 'FUT' : 'EQ',
+      qty,
+      ltp,
+      pnl: Number.isFinite(Number(p.pnl)) ? Number(p.pnl) : null,
+      exposureInr: qty === 0 ? 0 : Number.isFinite(exposure) ? Math.abs(exposure) : ltp !== null ? Math.abs(qty * ltp) : 0,
+      option,
+      vol,
+      greeks,
+    });
+  }
+  return out;
+}
+
+/** Nets legs per underlying; Greeks are position-weighted (per-unit × signed qty). */
+export function bookByUnderlying(
+  legs: PositionLeg[],
+  ltpByToken: Record<number, number>,
+  universe: FnoUniverseResponse['universe'],
+): UnderlyingBook[] {
+  const books = new Map<string, UnderlyingBook>();
+  for (const leg of legs) {
+    let book = books.get(leg.underlying);
+    if (!book) {
+      book = {
+        underlying: leg.underlying,
+        spot: spotForUnderlying(leg.underlying, ltpByToken, universe),
+        legs: [],
+        pnl: 0,
+        exposureInr: 0,
+        delta: 0,
+        gamma: 0,
+        theta: 0,
+        vega: 0,
+        unpriced: 0,
+      };
+      books.set(leg.underlying, book);
+    }
+    book.pnl += leg.pnl ?? 0;
+    if (leg.qty === 0) continue;
+    book.legs.push(leg);
+    book.exposureInr += leg.exposureInr;
+    if (leg.greeks) {
+      book.delta += leg.greeks.delta * leg.qty;
+      book.gamma += leg.greeks.gamma * leg.qty;
+      book.theta += leg.greeks.theta * leg.qty;
+      book.vega += leg.greeks.vega * leg.qty;
+    } else {
+      book.unpriced += 1;
+    }
+  }
+  return Array.from(books.values()).sort((a, b) => b.exposureInr - a.exposureInr);
+}
+
+/** Full Black-Scholes revaluation of every priced leg under each move × IV shock. */
+export function scenarioGrid(books: UnderlyingBook[], nowMs: number): ScenarioCell[] {
+  const cells: ScenarioCell[] = [];
+  for (const ivShock of SCENARIO_IV_SHOCKS) {
+    for (const move of SCENARIO_MOVES) {
+      let pnl = 0;
+      for (const book of books) {
+        if (book.spot === null) continue;
+        const shocked = book.spot * (1 + move / 100);
+        for (const leg of book.legs) {
+          if (!leg.option) {
+            pnl += (shocked - book.spot) * leg.qty;
+            continue;
+          }
+          if (leg.vol === null || leg.ltp === null) continue;
+          const years = (leg.option.expiryMs - nowMs) / YEAR_MS;
+          const vol = Math.max(0.01, leg.vol + ivShock / 100);
+          const price = bsPrice(leg.option.optType, shocked, leg.option.strike, years, vol);
+          pnl += (price - leg.ltp) * leg.qty;
+        }
+      }
+      cells.push({ move, ivShock, pnl });
+    }
+  }
+  return cells;
+}
+
+/**
+ * Broker net quantity per token against the net of open trades. `untracked` is a broker
+ * position no open trade explains; `missing` is an open trade the broker doesn't show.
+ */
+export function positionMismatches(positions: PositionRow[], openTrades: TradeRow[]): PositionMismatch[] {
+  const broker = new Map<number, { qty: number; sym: string }>();
+  for (const p of positions || []) {
+    const tok = Number(p.instrument_token);
+    const qty = Number(p.quantity);
+    if (!Number.isFinite(tok) || !Number.isFinite(qty)) continue;
+    const prev = broker.get(tok);
+    broker.set(tok, { qty: (prev?.qty ?? 0) + qty, sym: p.tradingsymbol || prev?.sym || String(tok) });
+  }
+  const trades = new Map<number, { qty: number; sym: string }>();
+  for (const t of openTrades) {
+    const tok = Number(t.instrument_token);
+    const qty = Number(t.qty);
+    if (!Number.isFinite(tok) || !Number.isFinite(qty)) continue;
+    const signed = (t.side || '').toUpperCase() === 'SELL' ? -qty : qty;
+    const prev = trades.get(tok);
+    trades.set(tok, { qty: (prev?.qty ?? 0) + signed, sym: t.instrument?.tradingsymbol || prev?.sym || String(tok) });
+  }
+
+  const out: PositionMismatch[] = [];
+  for (const tok of new Set([...broker.keys(), ...trades.keys()])) {
+    const b = broker.get(tok);
+    const t = trades.get(tok);
+    const brokerQty = b?.qty ?? 0;
+    const tradeQty = t?.qty ?? 0;
+    if (brokerQty === tradeQty) continue;
+    out.push({
+      token: tok,
+      tradingsymbol: b?.sym || t?.sym || String(tok),
+      brokerQty,
+      tradeQty,
+      kind: tradeQty === 0 ? 'untracked' : brokerQty === 0 ? 'missing' : 'qty',
+    });
+  }
+  return out;
+}
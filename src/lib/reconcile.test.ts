@@ -0,0 +1,71 @@
+import { describe, expect, it, vi } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { RECON_GRACE_MS, reconQueriesReady, useReconciliationAlerts, type ReconItem } from './reconcile';
+
+const NOW = Date.parse('2026-02-03T10:00:00+05:30');
+
+function ghost(tradeId: string): ReconItem {
+  return {
+    key: `ghost_trade:${tradeId}`,
+    kind: 'ghost_trade',
+    severity: 'critical',
+    token: 12092418,
+    tradingsymbol: 'NIFTY2620324900CE',
+    tradeId,
+    orderId: null,
+    tradeQty: 75,
+    brokerQty: 0,
+    detail: 'open trade has no broker position',
+  };
+}
+
+type Props = { items: ReconItem[]; ready: boolean; nowMs: number; scope: string };
+
+function setup(initial: Props) {
+  const onFire = vi.fn();
+  const hook = renderHook((p: Props) => useReconciliationAlerts(p.items, p.ready, p.nowMs, p.scope, onFire), {
+    initialProps: initial,
+  });
+  const fired = () => onFire.mock.calls.flatMap(([fires]) => fires.map((f: { message: string }) => f.message));
+  return { rerender: hook.rerender, fired };
+}
+
+describe('reconQueriesReady', () => {
+  it.each([
+    ['no data yet', { isSuccess: false, dataUpdatedAt: 0 }, false],
+    ['seeded from IndexedDB, not fetched', { isSuccess: true, dataUpdatedAt: 0 }, false],
+    ['fetched', { isSuccess: true, dataUpdatedAt: NOW }, true],
+  ])('%s', (_label, trades, expected) => {
+    const fetched = { isSuccess: true, dataUpdatedAt: NOW };
+    expect(reconQueriesReady(trades, fetched, fetched)).toBe(expected);
+  });
+});
+
+describe('useReconciliationAlerts', () => {
+  it('does not take seeded rows as the baseline', () => {
+    const { rerender, fired } = setup({ items: [], ready: false, nowMs: NOW, scope: 'a' });
+    // Seeded rows show a ghost trade before the first fetch completes.
+    rerender({ items: [ghost('T1')], ready: false, nowMs: NOW + 1000, scope: 'a' });
+    rerender({ items: [], ready: true, nowMs: NOW + 2000, scope: 'a' });
+    rerender({ items: [ghost('T1')], ready: true, nowMs: NOW + 3000, scope: 'a' });
+    rerender({ items: [ghost('T1')], ready: true, nowMs: NOW + 3000 + RECON_GRACE_MS, scope: 'a' });
+    expect(fired()).toHaveLength(1);
+  });
+
+  it('starts a new baseline when the scope changes', () => {
+    const { rerender, fired } = setup({ items: [], ready: true, nowMs: NOW, scope: 'a' });
+    rerender({ items: [ghost('T1')], ready: true, nowMs: NOW + 1000, scope: 'a' });
+    rerender({ items: [ghost('T1')], ready: true, nowMs: NOW + 1000 + RECON_GRACE_MS, scope: 'a' });
+    expect(fired()).toHaveLength(1);
+
+    // The other backend already has a discrepancy when it loads: baseline, not an alert.
+    rerender({ items: [ghost('T2')], ready: true, nowMs: NOW + 20_000, scope: 'b' });
+    rerender({ items: [ghost('T2')], ready: true, nowMs: NOW + 20_000 + RECON_GRACE_MS, scope: 'b' });
+    expect(fired()).toHaveLength(1);
+
+    rerender({ items: [ghost('T2'), ghost('T3')], ready: true, nowMs: NOW + 40_000, scope: 'b' });
+    rerender({ items: [ghost('T2'), ghost('T3')], ready: true, nowMs: NOW + 40_000 + RECON_GRACE_MS, scope: 'b' });
+    expect(fired()).toHaveLength(2);
+    expect(fired()[1]).toMatch(/^Ghost trade /);
+  });
+});
@@ -0,0 +1,283 @@
+import React from 'react';
+import type { OrderRow, PositionRow, TradeRow } from '../types/backend';
+import type { AlertFire } from './alertRules';
+import { isTradeOpen } from './chartUtils';
+import { positionMismatches } from './portfolio';
+import { isIstMarketHours } from './replay';
+import { linkTradeOrders } from './tradeDetail';
+
+/** Fill prices further apart than this (percent of the trade's price) are a price mismatch. */
+export const PRICE_TOLERANCE_PCT = 0.5;
+/**
+ * Orders, positions and trades refresh independently, so a fill can show up in one before the
+ * others. A discrepancy has to persist this long before it alerts.
+ */
+export const RECON_GRACE_MS = 15_000;
+
+export type ReconKind = 'matched' | 'orphan_order' | 'ghost_trade' | 'qty_mismatch' | 'price_mismatch';
+export type ReconSeverity = 'ok' | 'warn' | 'critical';
+
+export type ReconItem = {
+  /** Stable across refreshes so the alert hook can tell new discrepancies from known ones. */
+  key: string;
+  kind: ReconKind;
+  severity: ReconSeverity;
+  token: number | null;
+  tradingsymbol: string;
+  tradeId: string | null;
+  orderId: string | null;
+  tradeQty: number | null;
+  brokerQty: number | null;
+  detail: string;
+};
+
+export const RECON_KIND_LABELS: Record<ReconKind, string> = {
+  matched: 'Matched',
+  orphan_order: 'Orphan order',
+  ghost_trade: 'Ghost trade',
+  qty_mismatch: 'Qty mismatch',
+  price_mismatch: 'Price mismatch',
+};
+
+const SEVERITY_RANK: Record<ReconSeverity, number> = { critical: 0, warn: 1, ok: 2 };
+
+function num(v: unknown): number | null {
+  if (v === null || v === undefined || v === '') return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+function orderStatus(o: OrderRow): string {
+  return (o.status || '').toUpperCase();
+}
+
+function isFilled(o: OrderRow): boolean {
+  return (num(o.filled_quantity) ?? 0) > 0 || orderStatus(o) === 'COMPLETE';
+}
+
+function isDead(o: OrderRow): boolean {
+  return /^(CANCELLED|REJECTED)/.test(orderStatus(o)) && !isFilled(o);
+}
+
+function symbolOf(trade: TradeRow): string {
+  return trade.instrument?.tradingsymbol || String(trade.instrument_token);
+}
+
+function sideOf(trade: TradeRow): 'BUY' | 'SELL' {
+  return (trade.side || '').toUpperCase() === 'SELL' ? 'SELL' : 'BUY';
+}
+
+/** The order that filled the entry (or exit) leg: by id on the trade, else the first (last) fill on that side. */
+function legOrder(trade: TradeRow, linked: OrderRow[], leg: 'entry' | 'exit'): OrderRow | null {
+  const id = leg === 'entry' ? trade.entryOrderId : trade.exitOrderId;
+  if (id) {
+    const byId = linked.find((o) => String(o.order_id) === String(id));
+    if (byId) return byId;
+  }
+  const side = sideOf(trade);
+  const want = leg === 'entry' ? side : side === 'BUY' ? 'SELL' : 'BUY';
+  const fills = linked.filter((o) => isFilled(o) && (o.transaction_type || '').toUpperCase() === want);
+  return (leg === 'entry' ? fills[0] : fills[fills.length - 1]) ?? null;
+}
+
+function priceGap(expected: number | null, order: OrderRow | null): { fill: number; pct: number } | null {
+  const fill = order ? num(order.average_price) : null;
+  if (expected === null || expected <= 0 || fill === null || fill <= 0) return null;
+  const pct = (Math.abs(fill - expected) / expected) * 100;
+  return pct > PRICE_TOLERANCE_PCT ? { fill, pct } : null;
+}
+
+/**
+ * Joins bot trades, broker orders and broker positions. Orders link to trades by tag/order id,
+ * falling back to same symbol inside the trade's lifetime; positions net against open trades
+ * per instrument. Every open trade and every unexplained order or position yields one item.
+ */
+export function reconcile(trades: TradeRow[], orders: OrderRow[], positions: PositionRow[]): ReconItem[] {
+  const items: ReconItem[] = [];
+  const tokenBySymbol = new Map<string, number>();
+  for (const p of positions || []) {
+    const tok = num(p.instrument_token);
+    if (p.tradingsymbol && tok !== null) tokenBySymbol.set(p.tradingsymbol, tok);
+  }
+  for (const t of trades || []) {
+    if (t.instrument?.tradingsymbol) tokenBySymbol.set(t.instrument.tradingsymbol, Number(t.instrument_token));
+  }
+
+  // Orders: every trade claims its orders first, whatever its status, so closed trades' fills aren't orphans.
+  const claimed = new Set<OrderRow>();
+  const priced = new Set<string>();
+  for (const t of trades || []) {
+    const linked = linkTradeOrders(t, orders);
+    linked.forEach((o) => claimed.add(o));
+    for (const leg of ['entry', 'exit'] as const) {
+      if (leg === 'exit' && isTradeOpen(t)) continue;
+      const expected = leg === 'entry' ? num(t.premium) ?? num(t.entryPrice) : num(t.exitPrice);
+      const order = legOrder(t, linked, leg);
+      const gap = priceGap(expected, order);
+      if (!gap || expected === null) continue;
+      priced.add(t.tradeId);
+      items.push({
+        key: `price_mismatch:${t.tradeId}:${leg}`,
+        kind: 'price_mismatch',
+        severity: 'warn',
+        token: Number(t.instrument_token),
+        tradingsymbol: symbolOf(t),
+        tradeId: t.tradeId,
+        orderId: order?.order_id ?? null,
+        tradeQty: num(t.qty),
+        brokerQty: num(order?.filled_quantity),
+        detail: `${leg} ${expected.toFixed(2)} vs broker fill ${gap.fill.toFixed(2)} (${gap.pct.toFixed(2)}%)`,
+      });
+    }
+  }
+  for (const o of orders || []) {
+    if (claimed.has(o) || isDead(o)) continue;
+    const filled = isFilled(o);
+    const sym = o.tradingsymbol || '—';
+    items.push({
+      key: `orphan_order:${o.order_id ?? `${sym}@${o.order_timestamp}`}`,
+      kind: 'orphan_order',
+      severity: filled ? 'critical' : 'warn',
+      token: o.tradingsymbol ? tokenBySymbol.get(o.tradingsymbol) ?? null : null,
+      tradingsymbol: sym,
+      tradeId: null,
+      orderId: o.order_id ?? null,
+      tradeQty: null,
+      brokerQty: num(filled ? o.filled_quantity ?? o.quantity : o.quantity),
+      detail: `${(o.transaction_type || '').toUpperCase()} ${orderStatus(o) || 'order'} with no trade${o.tag ? ` (tag ${o.tag})` : ''}`,
+    });
+  }
+
+  // Positions: net broker quantity per instrument against the net of open trades.
+  const openTrades = (trades || []).filter((t) => isTradeOpen(t));
+  const mismatched = new Set<number>();
+  for (const m of positionMismatches(positions, openTrades)) {
+    mismatched.add(m.token);
+    const onToken = openTrades.filter((t) => Number(t.instrument_token) === m.token);
+    if (m.kind === 'missing') {
+      for (const t of onToken) {
+        items.push({
+          key: `ghost_trade:${t.tradeId}`,
+          kind: 'ghost_trade',
+          severity: 'critical',
+          token: m.token,
+          tradingsymbol: m.tradingsymbol,
+          tradeId: t.tradeId,
+          orderId: t.entryOrderId ?? null,
+          tradeQty: m.tradeQty,
+          brokerQty: 0,
+          detail: `trade is ${t.status || 'open'} but the broker position is flat`,
+        });
+      }
+      continue;
+    }
+    items.push({
+      key: `qty_mismatch:${m.token}`,
+      kind: 'qty_mismatch',
+      severity: m.kind === 'untracked' ? 'critical' : 'warn',
+      token: m.token,
+      tradingsymbol: m.tradingsymbol,
+      tradeId: onToken.length === 1 ? onToken[0].tradeId : null,
+      orderId: null,
+      tradeQty: m.tradeQty,
+      brokerQty: m.brokerQty,
+      detail:
+        m.kind === 'untracked'
+          ? 'broker position with no open trade'
+          : `open trades net ${m.tradeQty}, broker holds ${m.brokerQty}`,
+    });
+  }
+
+  for (const t of openTrades) {
+    const tok = Number(t.instrument_token);
+    if (mismatched.has(tok) || priced.has(t.tradeId)) continue;
+    const qty = num(t.qty);
+    items.push({
+      key: `matched:${t.tradeId}`,
+      kind: 'matched',
+      severity: 'ok',
+      token: tok,
+      tradingsymbol: symbolOf(t),
+      tradeId: t.tradeId,
+      orderId: t.entryOrderId ?? null,
+      tradeQty: qty === null ? null : sideOf(t) === 'SELL' ? -qty : qty,
+      brokerQty: qty === null ? null : sideOf(t) === 'SELL' ? -qty : qty,
+      detail: 'trade, orders and position agree',
+    });
+  }
+
+  return items.sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] || a.tradingsymbol.localeCompare(b.tradingsymbol));
+}
+
+/**
+ * True once every query has completed a fetch. Rows seeded from IndexedDB carry
+ * `dataUpdatedAt: 0` and may be sessions old, so they cannot serve as the baseline.
+ */
+export function reconQueriesReady(...queries: Array<{ isSuccess: boolean; dataUpdatedAt: number }>) {
+  return queries.every((q) => q.isSuccess && q.dataUpdatedAt > 0);
+}
+
+/**
+ * Fires an alert for each discrepancy that appears while the dashboard is open, once it has
+ * outlasted RECON_GRACE_MS and only during market hours. Whatever is already wrong when the data
+ * first loads is the baseline: it is listed in the panel but not alerted. A new `scope` (another
+ * backend) starts over with a fresh baseline.
+ */
+export function useReconciliationAlerts(
+  items: ReconItem[],
+  ready: boolean,
+  nowMs: number,
+  scope: string,
+  onFire: (fires: AlertFire[]) => void,
+) {
+  const firstSeenRef = React.useRef<Map<string, number> | null>(null);
+  const alertedRef = React.useRef(new Set<string>());
+  const scopeRef = React.useRef(scope);
+  const onFireRef = React.useRef(onFire);
+  onFireRef.current = onFire;
+
+  React.useEffect(() => {
+    if (scopeRef.current !== scope) {
+      scopeRef.current = scope;
+      firstSeenRef.current = null;
+      alertedRef.current = new Set();
+    }
+    if (!ready) return;
+    const open = items.filter((i) => i.severity !== 'ok');
+    const alerted = alertedRef.current;
+    if (!firstSeenRef.current) {
+      firstSeenRef.current = new Map(open.map((i) => [i.key, nowMs]));
+      open.forEach((i) => alerted.add(i.key));
+      return;
+    }
+    const firstSeen = firstSeenRef.current;
+    const live = new Set(open.map((i) => i.key));
+    // A discrepancy that clears and comes back later is new again.
+    for (const key of Array.from(firstSeen.keys())) {
+      if (live.has(key)) continue;
+      firstSeen.delete(key);
+      alerted.delete(key);
+    }
+
+    const marketOpen = isIstMarketHours(nowMs);
+    const fires: AlertFire[] = [];
+    for (const item of open) {
+      if (!firstSeen.has(item.key)) firstSeen.set(item.key, nowMs);
+      if (alerted.has(item.key) || nowMs - (firstSeen.get(item.key) ?? nowMs) < RECON_GRACE_MS) continue;
+      // Outside market hours stays unalerted, so a discrepancy still open at the next open fires then.
+      if (!marketOpen) continue;
+      alerted.add(item.key);
+      fires.push({
+        id: `${item.key}@${nowMs}`,
+        ruleId: 'reconciliation',
+        ruleName: 'Reconciliation',
+        message: `${RECON_KIND_LABELS[item.kind]} ${item.tradingsymbol}: ${item.detail}`,
+        actions: item.severity === 'critical' ? ['notify', 'sound', 'banner'] : ['notify', 'banner'],
+        sound: 'alarm',
+        token: item.token,
+        firedAt: nowMs,
+      });
+    }
+    if (fires.length) onFireRef.current(fires);
+  }, [items, ready, nowMs, scope]);
+}
@@ -0,0 +1,174 @@
+import React from 'react';
+import type { CandleRow, TradeRow } from '../types/backend';
+import { getIstDayStartMs } from './chartUtils';
+
+const IST_OFFSET_MS = 5.5 * 60 * 60 * 1000;
+const SESSION_OPEN_MIN = 9 * 60 + 15;
+const SESSION_CLOSE_MIN = 15 * 60 + 30;
+const TICK_MS = 250;
+
+export const REPLAY_SPEEDS = [1, 2, 5, 10, 30, 60] as const;
+
+export type ReplayState = {
+  /** IST trading date being replayed (`YYYY-MM-DD`). */
+  date: string;
+  cursorMs: number;
+  playing: boolean;
+  speed: number;
+};
+
+export type ReplayView = {
+  date: string;
+  cursorMs: number;
+};
+
+export function istDateKey(ms: number): string {
+  return new Date(ms + IST_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+export function istSessionBounds(date: string): { startMs: number; endMs: number } | null {
+  const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+  if (!m) return null;
+  const dayStartMs = Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3])) - IST_OFFSET_MS;
+  if (!Number.isFinite(dayStartMs)) return null;
+  return {
+    startMs: dayStartMs + SESSION_OPEN_MIN * 60_000,
+    endMs: dayStartMs + SESSION_CLOSE_MIN * 60_000,
+  };
+}
+
+/** True between 09:15 and 15:30 IST on a weekday; exchange holidays are not known here. */
+export function isIstMarketHours(ms: number): boolean {
+  const day = new Date(ms + IST_OFFSET_MS).getUTCDay();
+  if (day === 0 || day === 6) return false;
+  const bounds = istSessionBounds(istDateKey(ms));
+  return !!bounds && ms >= bounds.startMs && ms < bounds.endMs;
+}
+
+function tsMs(value: string | number | null | undefined): number {
+  if (value === null || value === undefined || value === '') return NaN;
+  return new Date(value).getTime();
+}
+
+/** Candles of the replay day that had fully closed by `cursorMs`. */
+export function candlesAsOf(rows: CandleRow[], intervalMin: number, date: string, cursorMs: number): CandleRow[] {
+  const bounds = istSessionBounds(date);
+  if (!bounds) return [];
+  const dayStartMs = getIstDayStartMs(bounds.startMs);
+  const dayEndMs = dayStartMs + 24 * 60 * 60 * 1000;
+  const intervalMs = Math.max(1, intervalMin) * 60_000;
+  return rows.filter((row) => {
+    const ts = tsMs(row.ts);
+    return Number.isFinite(ts) && ts >= dayStartMs && ts < dayEndMs && ts + intervalMs <= cursorMs;
+  });
+}
+
+/**
+ * Rewind a trade to what the dashboard would have shown at `cursorMs`: hidden before it
+ * was placed, still open (no exit fields) until its exit time. TradeRow only carries the
+ * latest trail level, so the TRAIL line shows that value for the whole open span.
+ */
+export function tradeAsOf(trade: TradeRow, cursorMs: number): TradeRow | null {
+  const placedMs = tsMs(trade.createdAt ?? trade.decisionAt ?? trade.entryAt);
+  if (!Number.isFinite(placedMs) || placedMs > cursorMs) return null;
+
+  const entryMs = tsMs(trade.entryAt);
+  const exitMs = tsMs(trade.exitAt);
+  const exited = Number.isFinite(exitMs) && exitMs <= cursorMs;
+  if (exited) return trade;
+
+  const entered = !Number.isFinite(entryMs) || entryMs <= cursorMs;
+  return {
+    ...trade,
+    status: entered ? 'OPEN' : 'PENDING',
+    entryPrice: entered ? trade.entryPrice : null,
+    exitPrice: null,
+    exitAt: undefined,
+    closeReason: undefined,
+    updatedAt: entered && Number.isFinite(entryMs) ? trade.entryAt : trade.createdAt,
+  };
+}
+
+export function tradesAsOf(trades: TradeRow[], cursorMs: number): TradeRow[] {
+  const out: TradeRow[] = [];
+  for (const t of trades || []) {
+    const next = tradeAsOf(t, cursorMs);
+    if (next) out.push(next);
+  }
+  return out;
+}
+
+/**
+ * Replay clock for post-market review. While active, `cursorMs` replaces serverNowMs for
+ * every chart; playback advances it at `speed`× wall time and stops at the session close.
+ */
+export function useReplayClock() {
+  const [state, setState] = React.useState<ReplayState | null>(null);
+  const playing = !!state?.playing;
+  const speed = state?.speed ?? 1;
+
+  React.useEffect(() => {
+    if (!playing) return;
+    const id = window.setInterval(() => {
+      setState((prev) => {
+        if (!prev || !prev.playing) return prev;
+        const bounds = istSessionBounds(prev.date);
+        if (!bounds) return { ...prev, playing: false };
+        const next = Math.min(bounds.endMs, prev.cursorMs + TICK_MS * prev.speed);
+        return { ...prev, cursorMs: next, playing: next < bounds.endMs };
+      });
+    }, TICK_MS);
+    return () => window.clearInterval(id);
+  }, [playing, speed]);
+
+  const start = React.useCallback((date: string) => {
+    const bounds = istSessionBounds(date);
+    if (!bounds) return false;
+    setState({ date, cursorMs: bounds.startMs, playing: false, speed: 1 });
+    return true;
+  }, []);
+
+  const stop = React.useCallback(() => setState(null), []);
+
+  const setPlaying = React.useCallback((next: boolean) => {
+    setState((prev) => (prev ? { ...prev, playing: next } : prev));
+  }, []);
+
+  const setSpeed = React.useCallback((next: number) => {
+    setState((prev) => (prev ? { ...prev, speed: next } : prev));
+  }, []);
+
+  const seek = React.useCallback((ms: number) => {
+    setState((prev) => {
+      if (!prev) return prev;
+      const bounds = istSessionBounds(prev.date);
+      if (!bounds) return prev;
+      return { ...prev, cursorMs: Math.max(bounds.startMs, Math.min(bounds.endMs, ms)) };
+    });
+  }, []);
+
+  /** Snap to the next/previous bar boundary of `stepMin` minutes and pause. */
+  const step = React.useCallback((dir: 1 | -1, stepMin: number) => {
+    setState((prev) => {
+      if (!prev) return prev;
+      const bounds = istSessionBounds(prev.date);
+      if (!bounds) return prev;
+      const stepMs = Math.max(1, stepMin) * 60_000;
+      const offset = prev.cursorMs - bounds.startMs;
+      const aligned = dir > 0 ? Math.floor(offset / stepMs) + 1 : Math.ceil(offset / stepMs) - 1;
+      const next = bounds.startMs + aligned * stepMs;
+      return {
+        ...prev,
+        playing: false,
+        cursorMs: Math.max(bounds.startMs, Math.min(bounds.endMs, next)),
+      };
+    });
+  }, []);
+
+  const view = React.useMemo<ReplayView | null>(
+    () => (state ? { date: state.date, cursorMs: state.cursorMs } : null),
+    [state?.date, state?.cursorMs],
+  );
+
+  return { state, view, start, stop, setPlaying, setSpeed, seek, step };
+}
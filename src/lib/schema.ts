@@ -0,0 +1,548 @@
+import { useSyncExternalStore } from 'react';
+import type {
+  AlertChannel,
+  AlertIncident,
+  AuditLogRow,
+  CandleRow,
+  CostCalibrationResponse,
+  CriticalHealthResponse,
+  EodAggregateResponse,
+  EquitySnapshot,
+  ExecutionQualityResponse,
+  FnoUniverseResponse,
+  LiveLtpResponse,
+  MarketCalendarResponse,
+  MarketHealthResponse,
+  OptimizerSnapshot,
+  OrderRow,
+  PositionRow,
+  RejectionsSnapshot,
+  RiskLimitsResponse,
+  StatusResponse,
+  StrategyKpisResponse,
+  TelemetrySnapshot,
+  TradeHistoryPage,
+  TradeRow,
+} from '../types/backend';
+
+/**
+ * Runtime normalisation for backend payloads. Each endpoint/socket event has a shape that
+ * lists its canonical fields, their types and any legacy aliases. Parsing copies aliased
+ * values onto the canonical name, coerces numeric strings, keeps unknown fields as-is and
+ * records every deviation as a schema-drift issue for the Integration Health panel.
+ */
+
+type FieldType = 'number' | 'string' | 'boolean' | 'object' | 'array' | 'any';
+
+type FieldSpec = {
+  type: FieldType;
+  required?: boolean;
+  /** Alternate field names older/other backends use for the same value. */
+  aliases?: string[];
+  /** Nested shape for objects, or the element shape for arrays. */
+  of?: Shape;
+};
+
+type Shape = Record<string, FieldSpec>;
+
+export type SchemaIssueKind = 'missing' | 'type' | 'unknown' | 'alias';
+
+export type SchemaIssue = {
+  id: string;
+  source: string;
+  kind: SchemaIssueKind;
+  path: string;
+  detail: string;
+  count: number;
+  firstSeenMs: number;
+  lastSeenMs: number;
+};
+
+const num = (opts: Omit<FieldSpec, 'type'> = {}): FieldSpec => ({ type: 'number', ...opts });
+const str = (opts: Omit<FieldSpec, 'type'> = {}): FieldSpec => ({ type: 'string', ...opts });
+const bool = (opts: Omit<FieldSpec, 'type'> = {}): FieldSpec => ({ type: 'boolean', ...opts });
+const obj = (of?: Shape, opts: Omit<FieldSpec, 'type' | 'of'> = {}): FieldSpec => ({ type: 'object', of, ...opts });
+const arr = (of?: Shape, opts: Omit<FieldSpec, 'type' | 'of'> = {}): FieldSpec => ({ type: 'array', of, ...opts });
+const any: FieldSpec = { type: 'any' };
+
+// ---------- shapes ----------
+
+const CANDLE_SHAPE: Shape = {
+  instrument_token: num({ required: true, aliases: ['token', 'instrumentToken'] }),
+  interval_min: num({ required: true, aliases: ['intervalMin'] }),
+  ts: str({ required: true, aliases: ['time', 'timestamp'] }),
+  open: num({ required: true }),
+  high: num({ required: true }),
+  low: num({ required: true }),
+  close: num({ required: true }),
+  volume: num(),
+  _id: any,
+};
+
+const TRADE_FIELDS: Shape = {
+  tradeId: str({ required: true, aliases: ['_id', 'id'] }),
+  instrument_token: num({ required: true, aliases: ['token', 'instrumentToken'] }),
+  instrument: obj({
+    tradingsymbol: str(),
+    exchange: str(),
+    segment: str(),
+    name: str(),
+    instrument_type: str({ aliases: ['instrumentType'] }),
+    strike: num({ aliases: ['strike_price'] }),
+    expiry: str({ aliases: ['expiryDate'] }),
+    lot_size: num({ aliases: ['lotSize'] }),
+    _id: any,
+  }),
+  strategyId: str({ aliases: ['strategy'] }),
+  side: str(),
+  qty: num({ aliases: ['quantity'] }),
+  entryPrice: num(),
+  exitPrice: num(),
+  stopLoss: num({ aliases: ['sl'] }),
+  targetPrice: num({ aliases: ['target'] }),
+  tp1Price: num({ aliases: ['tp1'] }),
+  slTrigger: num(),
+  minGreenInr: num(),
+  minGreenPts: num(),
+  beLocked: bool(),
+  peakLtp: num(),
+  trailSl: num({ aliases: ['trailingSl'] }),
+  timeStopAt: any,
+  status: str(),
+  closeReason: str({ aliases: ['exitReason'] }),
+  decisionAt: str(),
+  entryAt: str(),
+  exitAt: str(),
+  tp1HitAt: str({ aliases: ['tp1At', 'tp1_hit_at'] }),
+  beLockedAt: str({ aliases: ['beAt', 'be_locked_at'] }),
+  trailHistory: arr({ at: str({ required: true }), sl: num({ required: true }) }, { aliases: ['trailUpdates'] }),
+  entryOrderId: str({ aliases: ['entry_order_id'] }),
+  exitOrderId: str({ aliases: ['exit_order_id'] }),
+  slOrderId: str({ aliases: ['sl_order_id'] }),
+  targetOrderId: str({ aliases: ['target_order_id'] }),
+  premium: num({ aliases: ['entryPremium', 'entry_premium'] }),
+  slippage: num({ aliases: ['totalSlippage', 'slippageTotal'] }),
+  entrySlippage: num({ aliases: ['slippageEntry', 'slippage_entry'] }),
+  exitSlippage: num({ aliases: ['slippageExit', 'slippage_exit'] }),
+  brokerage: num(),
+  taxes: num(),
+  feesTotal: num({ aliases: ['fees_total'] }),
+  spread: num(),
+  spreadAtEntry: num({ aliases: ['entrySpread', 'entry_spread'] }),
+  mae: num({ aliases: ['MAE', 'maxAdverseExcursion', 'max_adverse_excursion'] }),
+  mfe: num({ aliases: ['MFE', 'maxFavorableExcursion', 'max_favorable_excursion'] }),
+  ivPercentile: num({ aliases: ['iv_pct'] }),
+  atr: num({ aliases: ['ATR'] }),
+  regimeTag: str({ aliases: ['regime', 'marketRegime', 'regimeLabel', 'regime_state'] }),
+  trendState: str({ aliases: ['trend'] }),
+  createdAt: str(),
+  updatedAt: str(),
+  __v: any,
+};
+
+/** status.activeTrade is trade-shaped but may omit its id (activeTradeId carries it). */
+const ACTIVE_TRADE_SHAPE: Shape = { ...TRADE_FIELDS, tradeId: str({ aliases: ['_id', 'id'] }) };
+
+const LTP_SHAPE: Shape = {
+  ok: bool(),
+  token: num({ aliases: ['instrument_token'] }),
+  instrument_token: num(),
+  ltp: num({ aliases: ['lastPrice', 'last_price', 'price'] }),
+  lastPrice: num(),
+  price: num(),
+  ts: str({ aliases: ['timestamp'] }),
+  row: any,
+};
+
+const POSITION_SHAPE: Shape = {
+  instrument_token: num(),
+  tradingsymbol: str(),
+  exchange: str(),
+  product: str(),
+  quantity: num({ aliases: ['qty'] }),
+  averagePrice: num({ aliases: ['average_price', 'avgPrice'] }),
+  lastPrice: num({ aliases: ['last_price', 'ltp'] }),
+  pnl: num(),
+  exposureInr: num(),
+};
+
+const ORDER_SHAPE: Shape = {
+  order_id: str({ aliases: ['orderId'] }),
+  exchange_order_id: str(),
+  tradingsymbol: str(),
+  status: str(),
+  transaction_type: str({ aliases: ['side'] }),
+  order_type: str(),
+  product: str(),
+  price: num(),
+  trigger_price: num(),
+  average_price: num(),
+  quantity: num({ aliases: ['qty'] }),
+  filled_quantity: num(),
+  order_timestamp: str(),
+  status_message: str(),
+  tag: str(),
+};
+
+const rowsEnvelope = (row: Shape): Shape => ({ ok: bool(), rows: arr(row, { required: true }) });
+const snapshotEnvelope: Shape = { ok: bool({ required: true }), data: any };
+
+const SHAPES = {
+  status: {
+    endpoint: '/admin/status',
+    shape: {
+      ok: bool({ required: true }),
+      tradingEnabled: bool(),
+      killSwitch: bool(),
+      halted: bool(),
+      haltInfo: any,
+      tradesToday: num(),
+      ordersPlacedToday: num(),
+      dailyPnL: num({ aliases: ['dailyPnl', 'daily_pnl'] }),
+      state: str(),
+      activeTradeId: str(),
+      activeTrade: obj(ACTIVE_TRADE_SHAPE),
+      ticker: obj({ connected: bool(), lastDisconnect: str(), hasSession: bool() }),
+      now: str(),
+    },
+  },
+  subscriptions: {
+    endpoint: '/admin/subscriptions',
+    shape: { ok: bool(), count: num(), tokens: arr(undefined, { required: true }) },
+  },
+  trades: { endpoint: '/admin/trades/recent', shape: rowsEnvelope(TRADE_FIELDS) },
+  tradeHistory: {
+    endpoint: '/admin/trades/history',
+    shape: {
+      ...rowsEnvelope(TRADE_FIELDS),
+      nextCursor: str({ aliases: ['next_cursor', 'cursor'] }),
+      total: num({ aliases: ['count'] }),
+    },
+  },
+  candles: { endpoint: '/admin/candles/recent', shape: rowsEnvelope(CANDLE_SHAPE) },
+  ltp: { endpoint: '/admin/ltp', shape: LTP_SHAPE },
+  equity: {
+    endpoint: '/admin/account/equity',
+    shape: {
+      ok: bool({ required: true }),
+      asOf: str(),
+      equity: num(),
+      availableMargin: num({ aliases: ['available_margin'] }),
+      usedMargin: num({ aliases: ['used_margin'] }),
+      realizedPnl: num({ aliases: ['realisedPnl', 'realized_pnl'] }),
+      unrealizedPnl: num({ aliases: ['unrealisedPnl', 'unrealized_pnl'] }),
+      cash: num(),
+      breakdown: any,
+    },
+  },
+  positions: { endpoint: '/admin/positions', shape: rowsEnvelope(POSITION_SHAPE) },
+  orders: { endpoint: '/admin/orders', shape: rowsEnvelope(ORDER_SHAPE) },
+  riskLimits: {
+    endpoint: '/admin/risk/limits',
+    shape: {
+      ok: bool({ required: true }),
+      maxDailyLoss: num(),
+      maxDrawdown: num(),
+      maxOpenTrades: num(),
+      maxExposureInr: num(),
+      usage: obj({ openPositions: num(), exposureBySymbol: any }),
+    },
+  },
+  strategyKpis: {
+    endpoint: '/admin/strategy/kpis',
+    shape: {
+      ok: bool({ required: true }),
+      rows: arr({
+        strategyId: str({ required: true, aliases: ['strategy'] }),
+        trades: num({ required: true }),
+        winRate: num(),
+        pnl: num(),
+        avgHoldMin: num(),
+        sharpe: num(),
+        maxDrawdown: num(),
+      }),
+    },
+  },
+  executionQuality: {
+    endpoint: '/admin/execution/quality',
+    shape: {
+      ok: bool({ required: true }),
+      fillRate: num(),
+      avgSlippage: num(),
+      avgLatencyMs: num(),
+      rejects: num(),
+      rows: arr(),
+    },
+  },
+  marketHealth: {
+    endpoint: '/admin/market/health',
+    shape: {
+      ok: bool({ required: true }),
+      tokens: arr({
+        token: num({ required: true, aliases: ['instrument_token'] }),
+        lagSec: num(),
+        lastTs: str(),
+        stale: bool(),
+      }),
+      status: str(),
+    },
+  },
+  auditLogs: {
+    endpoint: '/admin/audit/logs',
+    shape: rowsEnvelope({
+      actor: str(),
+      action: str(),
+      resource: str(),
+      status: str(),
+      meta: any,
+      createdAt: str(),
+      _id: any,
+    }),
+  },
+  alertChannels: {
+    endpoint: '/admin/alerts/channels',
+    shape: rowsEnvelope({ _id: str(), type: str(), enabled: bool(), config: any }),
+  },
+  alertIncidents: {
+    endpoint: '/admin/alerts/incidents',
+    shape: rowsEnvelope({ _id: str(), type: str(), message: str(), severity: str(), createdAt: str(), meta: any }),
+  },
+  telemetry: { endpoint: '/admin/telemetry/snapshot', shape: snapshotEnvelope },
+  tradeTelemetry: { endpoint: '/admin/trade-telemetry/snapshot', shape: snapshotEnvelope },
+  optimizer: { endpoint: '/admin/optimizer/snapshot', shape: snapshotEnvelope },
+  rejections: {
+    endpoint: '/admin/rejections',
+    shape: {
+      ok: bool({ required: true }),
+      source: str(),
+      data: any,
+      top: obj({ bySymbol: arr({ key: str({ required: true }), count: num({ required: true }) }) }),
+    },
+  },
+  costCalibration: {
+    endpoint: '/admin/cost/calibration',
+    shape: { ok: bool({ required: true }), calibration: any, recentRuns: arr() },
+  },
+  marketCalendar: { endpoint: '/admin/market/calendar', shape: { ok: bool({ required: true }), meta: any } },
+  fno: { endpoint: '/admin/fno', shape: { ok: bool(), enabled: bool(), universe: any } },
+  criticalHealth: {
+    endpoint: '/admin/health/critical',
+    shape: {
+      ok: bool({ required: true }),
+      now: str(),
+      halted: bool(),
+      killSwitch: bool(),
+      ticker: obj({ connected: bool() }),
+      quoteGuard: any,
+      checks: arr({ ok: bool({ required: true }), code: str({ required: true }), meta: any }),
+    },
+  },
+  eodAggregate: {
+    endpoint: '/admin/reports/eod',
+    shape: { ok: bool({ required: true }), asOf: str(), summary: any, winLossClusters: arr(), anomalyTags: arr() },
+  },
+} satisfies Record<string, { endpoint: string; shape: Shape }>;
+
+const ROW_SHAPES = {
+  trade: TRADE_FIELDS,
+  candle: CANDLE_SHAPE,
+  ltp: LTP_SHAPE,
+} satisfies Record<string, Shape>;
+
+type PayloadTypes = {
+  status: StatusResponse;
+  subscriptions: { ok: boolean; count: number; tokens: number[] };
+  trades: { ok: boolean; rows: TradeRow[] };
+  tradeHistory: TradeHistoryPage;
+  candles: { ok: boolean; rows: CandleRow[] };
+  ltp: LiveLtpResponse;
+  equity: EquitySnapshot;
+  positions: { ok: boolean; rows: PositionRow[] };
+  orders: { ok: boolean; rows: OrderRow[] };
+  riskLimits: RiskLimitsResponse;
+  strategyKpis: StrategyKpisResponse;
+  executionQuality: ExecutionQualityResponse;
+  marketHealth: MarketHealthResponse;
+  auditLogs: { ok: boolean; rows: AuditLogRow[] };
+  alertChannels: { ok: boolean; rows: AlertChannel[] };
+  alertIncidents: { ok: boolean; rows: AlertIncident[] };
+  telemetry: TelemetrySnapshot;
+  tradeTelemetry: TelemetrySnapshot;
+  optimizer: OptimizerSnapshot;
+  rejections: RejectionsSnapshot;
+  costCalibration: CostCalibrationResponse;
+  marketCalendar: MarketCalendarResponse;
+  fno: FnoUniverseResponse;
+  criticalHealth: CriticalHealthResponse;
+  eodAggregate: EodAggregateResponse;
+};
+
+type RowTypes = { trade: TradeRow; candle: CandleRow; ltp: LiveLtpResponse };
+
+export type PayloadKind = keyof PayloadTypes;
+
+// ---------- drift registry ----------
+
+const issues = new Map<string, SchemaIssue>();
+const listeners = new Set<() => void>();
+let snapshot: SchemaIssue[] = [];
+let notifyTimer: number | null = null;
+const NOTIFY_MS = 2000;
+
+function emit() {
+  notifyTimer = null;
+  snapshot = Array.from(issues.values()).map((i) => ({ ...i }));
+  listeners.forEach((l) => l());
+}
+
+function scheduleEmit() {
+  // Every poll re-reports the same drift; batch the re-renders.
+  if (notifyTimer === null) notifyTimer = window.setTimeout(emit, NOTIFY_MS);
+}
+
+function report(source: string, kind: SchemaIssueKind, path: string, detail: string) {
+  const id = `${source}|${kind}|${path}`;
+  const now = Date.now();
+  const cur = issues.get(id);
+  if (cur) {
+    cur.count += 1;
+    cur.lastSeenMs = now;
+    cur.detail = detail;
+  } else {
+    issues.set(id, { id, source, kind, path, detail, count: 1, firstSeenMs: now, lastSeenMs: now });
+  }
+  scheduleEmit();
+}
+
+export function getSchemaIssues(): SchemaIssue[] {
+  return snapshot;
+}
+
+export function clearSchemaIssues() {
+  issues.clear();
+  emit();
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function useSchemaIssues(): SchemaIssue[] {
+  return useSyncExternalStore(subscribe, getSchemaIssues);
+}
+
+// ---------- normalisation ----------
+
+function typeOf(v: unknown): string {
+  if (v === null) return 'null';
+  if (Array.isArray(v)) return 'array';
+  return typeof v;
+}
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return typeOf(v) === 'object';
+}
+
+function coerce(value: unknown, spec: FieldSpec, source: string, path: string): unknown {
+  if (value === null || spec.type === 'any') return value;
+  switch (spec.type) {
+    case 'number': {
+      if (typeof value === 'number') return value;
+      const n = typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+      report(source, 'type', path, `expected number, got ${typeOf(value)}`);
+      return Number.isFinite(n) ? n : value;
+    }
+    case 'string':
+      if (typeof value === 'string') return value;
+      // Left untouched: an epoch-ms `ts` stringified would no longer parse as a date.
+      report(source, 'type', path, `expected string, got ${typeOf(value)}`);
+      return value;
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      report(source, 'type', path, `expected boolean, got ${typeOf(value)}`);
+      return value === 'true' ? true : value === 'false' ? false : value;
+    case 'object':
+      if (!isPlainObject(value)) {
+        report(source, 'type', path, `expected object, got ${typeOf(value)}`);
+        return value;
+      }
+      return spec.of ? normalizeRecord(value, spec.of, source, path) : value;
+    case 'array':
+      if (!Array.isArray(value)) {
+        report(source, 'type', path, `expected array, got ${typeOf(value)}`);
+        return [];
+      }
+      if (!spec.of) return value;
+      return value.map((item) =>
+        isPlainObject(item) ? normalizeRecord(item, spec.of as Shape, source, `${path}[]`) : item,
+      );
+    default:
+      return value;
+  }
+}
+
+function normalizeRecord(
+  raw: Record<string, unknown>,
+  shape: Shape,
+  source: string,
+  prefix = '',
+): Record<string, unknown> {
+  const join = (key: string) => (prefix ? `${prefix}.${key}` : key);
+  const out: Record<string, unknown> = { ...raw };
+  const known = new Set<string>();
+
+  for (const [key, spec] of Object.entries(shape)) {
+    known.add(key);
+    for (const a of spec.aliases || []) known.add(a);
+
+    let value = raw[key];
+    if (value === undefined) {
+      const alias = (spec.aliases || []).find((a) => raw[a] !== undefined);
+      if (alias) {
+        value = raw[alias];
+        report(source, 'alias', join(key), `read from "${alias}"`);
+      }
+    }
+    if (value === undefined) {
+      if (spec.required) {
+        report(source, 'missing', join(key), `required ${spec.type} missing`);
+        if (spec.type === 'array') out[key] = [];
+      }
+      continue;
+    }
+    if (value === null && spec.required) report(source, 'missing', join(key), `required ${spec.type} is null`);
+    out[key] = coerce(value, spec, source, join(key));
+  }
+
+  for (const key of Object.keys(raw)) {
+    if (!known.has(key)) report(source, 'unknown', join(key), `unexpected ${typeOf(raw[key])}`);
+  }
+  return out;
+}
+
+/** Normalise a whole endpoint response. `source` defaults to the endpoint path. */
+export function parsePayload<K extends PayloadKind>(kind: K, raw: unknown, source?: string): PayloadTypes[K] {
+  const { endpoint, shape } = SHAPES[kind];
+  const src = source || endpoint;
+  if (!isPlainObject(raw)) {
+    report(src, 'type', '(root)', `expected object, got ${typeOf(raw)}`);
+    return normalizeRecord({}, shape, src) as PayloadTypes[K];
+  }
+  return normalizeRecord(raw, shape, src) as PayloadTypes[K];
+}
+
+/** Normalise a single row pushed on its own (socket events). Non-objects yield null. */
+export function parseRow<K extends keyof RowTypes>(kind: K, raw: unknown, source: string): RowTypes[K] | null {
+  if (!isPlainObject(raw)) {
+    report(source, 'type', '(root)', `expected object, got ${typeOf(raw)}`);
+    return null;
+  }
+  return normalizeRecord(raw, ROW_SHAPES[kind], source) as RowTypes[K];
+}
+
+export function payloadEndpoint(kind: PayloadKind): string {
+  return SHAPES[kind].endpoint;
+}
@@ -0,0 +1,515 @@
+import { useSyncExternalStore } from 'react';
+import { suspendDataCache } from './dataCache';
+
+/**
+ * Session recorder: captures every socket event the bridge listens for and every getJson /
+ * postJson round trip, with wall-clock timestamps, so an incident seen during market hours can
+ * be downloaded and replayed later. Playback feeds the archive back through the same paths —
+ * REST reads are answered from the recording at the playback clock and socket events are
+ * re-emitted through a stand-in socket — so every panel re-renders exactly what it saw.
+ */
+
+export const SESSION_ARCHIVE_KIND = 'kite-scalper-session';
+export const PLAYBACK_SPEEDS = [1, 2, 5, 10, 30, 60];
+
+/** ~1 event/s per feed over a trading day stays far below this; the oldest are dropped past it. */
+const MAX_RECORDED_EVENTS = 200_000;
+/**
+ * Serialized size the recording may reach. Polls store whole responses (2000 trades every 2s
+ * is hundreds of MB an hour), so this is usually the limit that bites.
+ */
+const MAX_RECORDED_BYTES = 100 * 1024 * 1024;
+const NOTIFY_MS = 500;
+const PLAYBACK_TICK_MS = 100;
+/**
+ * Requests carrying these params return only rows newer than the caller's cache. They are left
+ * out of the lookup key, and playback stitches consecutive delta responses back together.
+ */
+const DELTA_PARAMS = ['since'];
+
+export type HttpMethod = 'GET' | 'POST';
+
+export type RecordedSocketEvent = { at: number; kind: 'socket'; event: string; payload: unknown };
+
+export type RecordedHttpEvent = {
+  /** When the response (or error) arrived. */
+  at: number;
+  kind: 'http';
+  method: HttpMethod;
+  path: string;
+  params: unknown;
+  status: number;
+  data?: unknown;
+  error?: string;
+  durationMs: number;
+};
+
+export type RecordedEvent = RecordedSocketEvent | RecordedHttpEvent;
+
+export type SessionArchive = {
+  kind: typeof SESSION_ARCHIVE_KIND;
+  version: 1;
+  baseUrl: string;
+  startedAt: number;
+  endedAt: number;
+  /** Socket state when recording began; playback starts connected (or polling) to match. */
+  socketConnected: boolean;
+  /** Events were dropped from the start to stay under MAX_RECORDED_EVENTS / MAX_RECORDED_BYTES. */
+  truncated: boolean;
+  events: RecordedEvent[];
+};
+
+export type SessionSnapshot = {
+  recording: { baseUrl: string; startedAt: number; events: number; bytes: number; truncated: boolean } | null;
+  playback: {
+    id: number;
+    baseUrl: string;
+    startedAt: number;
+    endedAt: number;
+    cursorMs: number;
+    playing: boolean;
+    speed: number;
+    events: number;
+  } | null;
+};
+
+/** Ring buffer of events, oldest at `head`; `sizes` holds each slot's serialized length. */
+type Recording = {
+  baseUrl: string;
+  startedAt: number;
+  socketConnected: boolean;
+  truncated: boolean;
+  events: Array<RecordedEvent | undefined>;
+  sizes: number[];
+  head: number;
+  count: number;
+  bytes: number;
+};
+
+type SocketSink = (event: string, payload: unknown) => void;
+
+type Playback = {
+  id: number;
+  archive: SessionArchive;
+  /** Recorded HTTP responses by request key, in arrival order. */
+  http: Map<string, (RecordedHttpEvent & { delta: boolean })[]>;
+  playing: boolean;
+  speed: number;
+  /** The clock runs from (anchorWall, anchorCursor); both are reset on every play/speed change. */
+  anchorWall: number;
+  anchorCursor: number;
+  cursorMs: number;
+  /** Next archive index to emit to socket sinks. */
+  nextEvent: number;
+  sinks: Set<SocketSink>;
+};
+
+let recording: Recording | null = null;
+let playback: Playback | null = null;
+let playbackSeq = 0;
+let playbackTimer: number | null = null;
+
+let snapshot: SessionSnapshot = { recording: null, playback: null };
+const listeners = new Set<() => void>();
+let notifyTimer: number | null = null;
+
+function buildSnapshot(): SessionSnapshot {
+  return {
+    recording: recording
+      ? {
+          baseUrl: recording.baseUrl,
+          startedAt: recording.startedAt,
+          events: recording.count,
+          bytes: recording.bytes,
+          truncated: recording.truncated,
+        }
+      : null,
+    playback: playback
+      ? {
+          id: playback.id,
+          baseUrl: playback.archive.baseUrl,
+          startedAt: playback.archive.startedAt,
+          endedAt: playback.archive.endedAt,
+          cursorMs: playback.cursorMs,
+          playing: playback.playing,
+          speed: playback.speed,
+          events: playback.archive.events.length,
+        }
+      : null,
+  };
+}
+
+function notifyNow() {
+  if (notifyTimer !== null) {
+    window.clearTimeout(notifyTimer);
+    notifyTimer = null;
+  }
+  snapshot = buildSnapshot();
+  for (const fn of listeners) fn();
+}
+
+/** Event counts change on every socket push; the bar only needs to catch up a couple of times a second. */
+function scheduleNotify() {
+  if (notifyTimer !== null) return;
+  notifyTimer = window.setTimeout(notifyNow, NOTIFY_MS);
+}
+
+function subscribe(fn: () => void) {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
+
+export function useSessionRecorder(): SessionSnapshot {
+  return useSyncExternalStore(subscribe, () => snapshot);
+}
+
+/** Changes whenever playback starts or stops, so the socket bridge can rebind. */
+export function usePlaybackId(): number | null {
+  return useSyncExternalStore(subscribe, () => snapshot.playback?.id ?? null);
+}
+
+// ---- recording ----
+
+export function isRecording() {
+  return recording !== null;
+}
+
+function eventSize(event: RecordedEvent) {
+  try {
+    return JSON.stringify(event).length;
+  } catch {
+    return 0;
+  }
+}
+
+function dropOldest(rec: Recording) {
+  rec.bytes -= rec.sizes[rec.head];
+  rec.events[rec.head] = undefined;
+  rec.head = (rec.head + 1) % MAX_RECORDED_EVENTS;
+  rec.count -= 1;
+  rec.truncated = true;
+}
+
+function pushEvent(event: RecordedEvent) {
+  const rec = recording;
+  if (!rec) return;
+  const size = eventSize(event);
+  // One response over the whole budget would leave nothing else; keep it alone rather than drop it.
+  while (rec.count && (rec.count >= MAX_RECORDED_EVENTS || rec.bytes + size > MAX_RECORDED_BYTES)) dropOldest(rec);
+  const slot = (rec.head + rec.count) % MAX_RECORDED_EVENTS;
+  rec.events[slot] = event;
+  rec.sizes[slot] = size;
+  rec.count += 1;
+  rec.bytes += size;
+  scheduleNotify();
+}
+
+export function startRecording(baseUrl: string, socketConnected: boolean) {
+  if (playback) throw new Error('Stop session playback before recording');
+  recording = {
+    baseUrl,
+    startedAt: Date.now(),
+    socketConnected,
+    truncated: false,
+    events: [],
+    sizes: [],
+    head: 0,
+    count: 0,
+    bytes: 0,
+  };
+  notifyNow();
+}
+
+function recordedEvents(rec: Recording): RecordedEvent[] {
+  const out: RecordedEvent[] = new Array(rec.count);
+  for (let i = 0; i < rec.count; i += 1) out[i] = rec.events[(rec.head + i) % MAX_RECORDED_EVENTS] as RecordedEvent;
+  return out;
+}
+
+export function stopRecording(): SessionArchive | null {
+  const cur = recording;
+  recording = null;
+  notifyNow();
+  if (!cur) return null;
+  return {
+    kind: SESSION_ARCHIVE_KIND,
+    version: 1,
+    baseUrl: cur.baseUrl,
+    startedAt: cur.startedAt,
+    endedAt: Date.now(),
+    socketConnected: cur.socketConnected,
+    truncated: cur.truncated,
+    events: recordedEvents(cur),
+  };
+}
+
+export function recordSocketEvent(event: string, payload: unknown) {
+  if (!recording) return;
+  pushEvent({ at: Date.now(), kind: 'socket', event, payload });
+}
+
+/** Runs one request, logging its outcome when a recording is in progress. */
+export async function recordHttp<T>(
+  method: HttpMethod,
+  path: string,
+  params: unknown,
+  send: () => Promise<T>,
+): Promise<T> {
+  if (!recording) return send();
+  const started = Date.now();
+  try {
+    const data = await send();
+    pushEvent({ at: Date.now(), kind: 'http', method, path, params, status: 200, data, durationMs: Date.now() - started });
+    return data;
+  } catch (err: any) {
+    pushEvent({
+      at: Date.now(),
+      kind: 'http',
+      method,
+      path,
+      params,
+      status: Number(err?.response?.status) || 0,
+      data: err?.response?.data,
+      error: String(err?.message || err),
+      durationMs: Date.now() - started,
+    });
+    throw err;
+  }
+}
+
+export function sessionArchiveFileName(archive: SessionArchive) {
+  const stamp = new Date(archive.startedAt).toISOString().replace(/[:.]/g, '-').slice(0, 19);
+  return `kite-session-${stamp}.json`;
+}
+
+export function parseSessionArchive(text: string): SessionArchive {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Session file is not valid JSON');
+  }
+  if (raw?.kind !== SESSION_ARCHIVE_KIND) throw new Error('Not a session recording');
+  if (raw.version !== 1) throw new Error(`Unsupported session recording version: ${raw.version}`);
+  if (!Array.isArray(raw.events)) throw new Error('Session recording has no events');
+
+  const events: RecordedEvent[] = raw.events
+    .filter(
+      (e: any) =>
+        Number.isFinite(e?.at) &&
+        ((e.kind === 'socket' && typeof e.event === 'string') ||
+          (e.kind === 'http' && (e.method === 'GET' || e.method === 'POST') && typeof e.path === 'string')),
+    )
+    .sort((a: RecordedEvent, b: RecordedEvent) => a.at - b.at);
+  const startedAt = Number.isFinite(raw.startedAt) ? Number(raw.startedAt) : events[0]?.at ?? 0;
+  const endedAt = Number.isFinite(raw.endedAt) ? Number(raw.endedAt) : events[events.length - 1]?.at ?? startedAt;
+  return {
+    kind: SESSION_ARCHIVE_KIND,
+    version: 1,
+    baseUrl: String(raw.baseUrl ?? ''),
+    startedAt,
+    endedAt: Math.max(startedAt, endedAt),
+    socketConnected: Boolean(raw.socketConnected),
+    truncated: Boolean(raw.truncated),
+    events,
+  };
+}
+
+// ---- playback ----
+
+export function isPlaybackActive() {
+  return playback !== null;
+}
+
+function stableParams(params: unknown): [string, unknown][] {
+  if (!params || typeof params !== 'object') return [];
+  return Object.entries(params as Record<string, unknown>)
+    .filter(([k, v]) => v !== undefined && !DELTA_PARAMS.includes(k))
+    .sort(([a], [b]) => a.localeCompare(b));
+}
+
+function requestKey(method: HttpMethod, path: string, params: unknown) {
+  return `${method} ${path} ${JSON.stringify(stableParams(params))}`;
+}
+
+function isDelta(params: unknown) {
+  if (!params || typeof params !== 'object') return false;
+  return DELTA_PARAMS.some((k) => (params as Record<string, unknown>)[k] != null);
+}
+
+function indexHttp(events: RecordedEvent[]) {
+  const out: Playback['http'] = new Map();
+  for (const e of events) {
+    if (e.kind !== 'http') continue;
+    const key = requestKey(e.method, e.path, e.params);
+    let list = out.get(key);
+    if (!list) {
+      list = [];
+      out.set(key, list);
+    }
+    list.push({ ...e, delta: isDelta(e.params) });
+  }
+  return out;
+}
+
+function playbackError(status: number, message: string, data?: unknown) {
+  return Object.assign(new Error(message), { response: { status, data: data ?? { ok: false, error: message } } });
+}
+
+function advancePlayback() {
+  const pb = playback;
+  if (!pb) return;
+  if (pb.playing) {
+    pb.cursorMs = Math.min(pb.archive.endedAt, pb.anchorCursor + (Date.now() - pb.anchorWall) * pb.speed);
+  }
+  const events = pb.archive.events;
+  while (pb.nextEvent < events.length && events[pb.nextEvent].at <= pb.cursorMs) {
+    const e = events[pb.nextEvent++];
+    if (e.kind === 'socket') for (const sink of pb.sinks) sink(e.event, e.payload);
+  }
+  if (pb.playing && pb.cursorMs >= pb.archive.endedAt) {
+    pb.playing = false;
+    stopPlaybackTimer();
+    notifyNow();
+    return;
+  }
+  scheduleNotify();
+}
+
+function stopPlaybackTimer() {
+  if (playbackTimer !== null) window.clearInterval(playbackTimer);
+  playbackTimer = null;
+}
+
+function startPlaybackTimer() {
+  if (playbackTimer === null) playbackTimer = window.setInterval(advancePlayback, PLAYBACK_TICK_MS);
+}
+
+/** Replaces live data with the archive. Callers reset the query cache so reads go to the recording. */
+export function startPlayback(archive: SessionArchive) {
+  if (recording) throw new Error('Stop recording before playing a session back');
+  stopPlaybackTimer();
+  playbackSeq += 1;
+  playback = {
+    id: playbackSeq,
+    archive,
+    http: indexHttp(archive.events),
+    playing: true,
+    speed: 1,
+    anchorWall: Date.now(),
+    anchorCursor: archive.startedAt,
+    cursorMs: archive.startedAt,
+    nextEvent: 0,
+    sinks: new Set(),
+  };
+  // The recording must not leak into the IndexedDB cache the live dashboard reads on startup.
+  suspendDataCache(true);
+  startPlaybackTimer();
+  notifyNow();
+}
+
+export function stopPlayback() {
+  if (!playback) return;
+  stopPlaybackTimer();
+  playback = null;
+  suspendDataCache(false);
+  notifyNow();
+}
+
+/** Rewinds to the start of the recording; a fresh playback id makes the socket bridge rebind. */
+export function restartPlayback() {
+  if (playback) startPlayback({ ...playback.archive });
+}
+
+export function setPlaybackPlaying(playing: boolean) {
+  const pb = playback;
+  if (!pb || pb.playing === playing) return;
+  if (playing && pb.cursorMs >= pb.archive.endedAt) return;
+  pb.playing = playing;
+  pb.anchorWall = Date.now();
+  pb.anchorCursor = pb.cursorMs;
+  if (playing) startPlaybackTimer();
+  else stopPlaybackTimer();
+  notifyNow();
+}
+
+export function setPlaybackSpeed(speed: number) {
+  const pb = playback;
+  if (!pb || !(speed > 0)) return;
+  advancePlayback();
+  pb.speed = speed;
+  pb.anchorWall = Date.now();
+  pb.anchorCursor = pb.cursorMs;
+  notifyNow();
+}
+
+/**
+ * Answers a REST read from the archive: the latest recorded response to the same request at or
+ * before the playback clock, or the first one if the dashboard asks before it was recorded.
+ */
+export function playbackResponse(method: HttpMethod, path: string, params: unknown): unknown {
+  const pb = playback;
+  if (!pb) throw new Error('Session playback is not active');
+  if (method === 'POST') throw playbackError(403, 'Session playback is read-only');
+
+  const entries = pb.http.get(requestKey(method, path, params)) || [];
+  if (!entries.length) throw playbackError(404, `Not in recording: ${method} ${path}`);
+  let i = 0;
+  while (i + 1 < entries.length && entries[i + 1].at <= pb.cursorMs) i += 1;
+  const hit = entries[i];
+  if (hit.error) throw playbackError(hit.status || 500, hit.error, hit.data);
+
+  const data = hit.data as { rows?: unknown } | undefined;
+  if (!hit.delta || !Array.isArray(data?.rows)) return hit.data;
+  // A delta only makes sense on top of what came before it; walk back to the last full response.
+  const parts: unknown[][] = [];
+  for (let j = i; j >= 0; j -= 1) {
+    const rows = (entries[j].data as { rows?: unknown } | undefined)?.rows;
+    if (entries[j].error || !Array.isArray(rows)) continue;
+    parts.unshift(rows);
+    if (!entries[j].delta) break;
+  }
+  return { ...data, rows: parts.flat() };
+}
+
+type Listener = (...args: any[]) => void;
+
+export type PlaybackSocket = {
+  on(event: string, fn: Listener): PlaybackSocket;
+  removeAllListeners(): PlaybackSocket;
+  disconnect(): PlaybackSocket;
+};
+
+/** socket.io stand-in that re-emits the archive's socket events as the playback clock passes them. */
+export function createPlaybackSocket(): PlaybackSocket {
+  const handlers = new Map<string, Listener[]>();
+  const pb = playback;
+  const sink: SocketSink = (event, payload) => {
+    for (const fn of handlers.get(event) || []) fn(payload);
+  };
+  pb?.sinks.add(sink);
+
+  // The bridge binds its handlers synchronously after this returns; connect on the next turn.
+  const connectTimer = window.setTimeout(() => {
+    if (pb?.archive.socketConnected) sink('connect', undefined);
+  }, 0);
+
+  const socket: PlaybackSocket = {
+    on(event, fn) {
+      handlers.set(event, [...(handlers.get(event) || []), fn]);
+      return socket;
+    },
+    removeAllListeners() {
+      handlers.clear();
+      return socket;
+    },
+    disconnect() {
+      window.clearTimeout(connectTimer);
+      pb?.sinks.delete(sink);
+      return socket;
+    },
+  };
+  return socket;
+}
@@ -3,37 +3,156 @@ export type AppSettings = {
   apiKey: string;
   // Kite Connect public API key (safe to expose). Used only to build the login URL.
   kiteApiKey: string;
+  // socket.io path on the backend; empty means VITE_SOCKET_PATH / "/socket.io".
+  socketPath: string;
 };
 
-const LS_KEY = "kite_scalper_fe_settings_v1";
+export type ProfileEnv = "LIVE" | "PAPER" | "DEV";
 
-export function loadSettings(): AppSettings {
-  const defBase =
-    import.meta.env.VITE_DEFAULT_BASE_URL || "http://localhost:4001";
-  const defKey = import.meta.env.VITE_DEFAULT_API_KEY || "";
-  const defKiteApiKey = import.meta.env.VITE_KITE_API_KEY || "";
+export const PROFILE_ENVS: ProfileEnv[] = ["LIVE", "PAPER", "DEV"];
 
+export type ConnectionProfile = AppSettings & {
+  id: string;
+  label: string;
+  color: string;
+  env: ProfileEnv;
+};
+
+export type ProfileStore = {
+  activeId: string;
+  profiles: ConnectionProfile[];
+};
+
+const LEGACY_LS_KEY = "kite_scalper_fe_settings_v1";
+const LS_KEY = "kite_scalper_fe_profiles_v1";
+
+const ENV_COLORS: Record<ProfileEnv, string> = {
+  LIVE: "#ff6b6b",
+  PAPER: "#ffcc66",
+  DEV: "#6aa6ff",
+};
+
+export function defaultProfileColor(env: ProfileEnv) {
+  return ENV_COLORS[env];
+}
+
+function newProfileId() {
+  return `p-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+function normalizeBaseUrl(u: string) {
+  return (u || "").trim().replace(/\/$/, "");
+}
+
+function envDefaults(): AppSettings {
+  return {
+    baseUrl: import.meta.env.VITE_DEFAULT_BASE_URL || "http://localhost:4001",
+    apiKey: import.meta.env.VITE_DEFAULT_API_KEY || "",
+    kiteApiKey: import.meta.env.VITE_KITE_API_KEY || "",
+    socketPath: "",
+  };
+}
+
+/** Backend URL that routes every request and socket event to the in-browser simulator. */
+export const MOCK_BASE_URL = "mock://sim";
+
+export function isMockBaseUrl(baseUrl: string) {
+  return /^mock:\/\//i.test((baseUrl || "").trim());
+}
+
+/**
+ * Environment guess for profiles created without one (first run, v1 migration).
+ * Anything not on this machine is treated as LIVE so it gets the warning theme.
+ */
+export function guessProfileEnv(baseUrl: string): ProfileEnv {
+  if (isMockBaseUrl(baseUrl)) return "DEV";
   try {
-    const raw = localStorage.getItem(LS_KEY);
-    if (!raw)
-      return { baseUrl: defBase, apiKey: defKey, kiteApiKey: defKiteApiKey };
-    const obj = JSON.parse(raw);
-    return {
-      baseUrl: typeof obj?.baseUrl === "string" ? obj.baseUrl : defBase,
-      apiKey: typeof obj?.apiKey === "string" ? obj.apiKey : defKey,
-      kiteApiKey:
-        typeof obj?.kiteApiKey === "string" ? obj.kiteApiKey : defKiteApiKey,
-    };
+    const host = new URL(baseUrl).hostname;
+    if (host === "localhost" || host === "127.0.0.1" || host === "0.0.0.0") return "DEV";
   } catch {
-    return { baseUrl: defBase, apiKey: defKey, kiteApiKey: defKiteApiKey };
+    // unparseable URL; fall through
   }
+  return "LIVE";
 }
 
-export function saveSettings(s: AppSettings) {
-  const norm = {
-    baseUrl: (s.baseUrl || "").trim().replace(/\/$/, ""),
-    apiKey: (s.apiKey || "").trim(),
-    kiteApiKey: (s.kiteApiKey || "").trim(),
+export function newProfile(partial: Partial<ConnectionProfile> = {}): ConnectionProfile {
+  const base = { ...envDefaults(), ...partial };
+  const env = partial.env ?? guessProfileEnv(base.baseUrl);
+  return {
+    id: partial.id || newProfileId(),
+    label: partial.label || env,
+    color: partial.color || ENV_COLORS[env],
+    env,
+    baseUrl: normalizeBaseUrl(base.baseUrl),
+    apiKey: (base.apiKey || "").trim(),
+    kiteApiKey: (base.kiteApiKey || "").trim(),
+    socketPath: (base.socketPath || "").trim(),
   };
-  localStorage.setItem(LS_KEY, JSON.stringify(norm));
+}
+
+function normalizeProfile(raw: any): ConnectionProfile | null {
+  if (!raw || typeof raw !== "object" || typeof raw.id !== "string") return null;
+  const str = (v: unknown) => (typeof v === "string" ? v : "");
+  const env = PROFILE_ENVS.includes(raw.env) ? (raw.env as ProfileEnv) : undefined;
+  return newProfile({
+    id: raw.id,
+    label: str(raw.label),
+    color: str(raw.color),
+    env,
+    baseUrl: str(raw.baseUrl),
+    apiKey: str(raw.apiKey),
+    kiteApiKey: str(raw.kiteApiKey),
+    socketPath: str(raw.socketPath),
+  });
+}
+
+/** Single-connection settings from before profiles existed become the first profile. */
+function migrateLegacySettings(): ConnectionProfile | null {
+  try {
+    const raw = localStorage.getItem(LEGACY_LS_KEY);
+    if (!raw) return null;
+    const obj = JSON.parse(raw);
+    const defs = envDefaults();
+    const baseUrl = typeof obj?.baseUrl === "string" ? obj.baseUrl : defs.baseUrl;
+    return newProfile({
+      label: "Default",
+      baseUrl,
+      apiKey: typeof obj?.apiKey === "string" ? obj.apiKey : defs.apiKey,
+      kiteApiKey: typeof obj?.kiteApiKey === "string" ? obj.kiteApiKey : defs.kiteApiKey,
+    });
+  } catch {
+    return null;
+  }
+}
+
+export function loadProfiles(): ProfileStore {
+  try {
+    const raw = localStorage.getItem(LS_KEY);
+    if (raw) {
+      const obj = JSON.parse(raw);
+      const profiles = Array.isArray(obj?.profiles)
+        ? (obj.profiles as unknown[]).map(normalizeProfile).filter((p): p is ConnectionProfile => !!p)
+        : [];
+      if (profiles.length) {
+        const activeId = profiles.some((p) => p.id === obj.activeId) ? obj.activeId : profiles[0].id;
+        return { activeId, profiles };
+      }
+    }
+  } catch {
+    // fall through to migration/defaults
+  }
+  const first = migrateLegacySettings() ?? newProfile({ label: "Default" });
+  return { activeId: first.id, profiles: [first] };
+}
+
+export function saveProfiles(store: ProfileStore) {
+  try {
+    localStorage.setItem(LS_KEY, JSON.stringify(store));
+  } catch {
+    // ignore
+  }
+}
+
+export function activeProfileOf(store: ProfileStore): ConnectionProfile {
+  return store.profiles.find((p) => p.id === store.activeId) ?? store.profiles[0];
 }
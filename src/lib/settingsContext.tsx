@@ -1,23 +1,66 @@
 import React from 'react';
-import type { AppSettings } from './settings';
-import { loadSettings, saveSettings } from './settings';
+import type { ConnectionProfile, ProfileStore } from './settings';
+import { activeProfileOf, loadProfiles, newProfile, saveProfiles } from './settings';
 
 type Ctx = {
-  settings: AppSettings;
-  setSettings: (s: AppSettings) => void;
+  /** The active profile; every query and the socket bridge read their connection from it. */
+  settings: ConnectionProfile;
+  profiles: ConnectionProfile[];
+  selectProfile: (id: string) => void;
+  updateProfile: (id: string, patch: Partial<ConnectionProfile>) => void;
+  /** Adds a profile and makes it active. */
+  addProfile: (partial: Partial<ConnectionProfile>) => ConnectionProfile;
+  removeProfile: (id: string) => void;
 };
 
 const SettingsContext = React.createContext<Ctx | null>(null);
 
 export function SettingsProvider({ children }: { children: React.ReactNode }) {
-  const [settings, setSettingsState] = React.useState<AppSettings>(() => loadSettings());
+  const [store, setStore] = React.useState<ProfileStore>(() => loadProfiles());
 
-  const setSettings = React.useCallback((s: AppSettings) => {
-    setSettingsState(s);
-    saveSettings(s);
+  React.useEffect(() => {
+    saveProfiles(store);
+  }, [store]);
+
+  const selectProfile = React.useCallback((id: string) => {
+    setStore((prev) => (prev.profiles.some((p) => p.id === id) ? { ...prev, activeId: id } : prev));
+  }, []);
+
+  const updateProfile = React.useCallback((id: string, patch: Partial<ConnectionProfile>) => {
+    setStore((prev) => ({
+      ...prev,
+      profiles: prev.profiles.map((p) => (p.id === id ? newProfile({ ...p, ...patch, id }) : p)),
+    }));
+  }, []);
+
+  const addProfile = React.useCallback((partial: Partial<ConnectionProfile>) => {
+    const profile = newProfile({ ...partial, id: undefined });
+    setStore((prev) => ({ activeId: profile.id, profiles: [...prev.profiles, profile] }));
+    return profile;
+  }, []);
+
+  const removeProfile = React.useCallback((id: string) => {
+    setStore((prev) => {
+      // The last profile stays: the app always needs somewhere to connect.
+      if (prev.profiles.length <= 1) return prev;
+      const profiles = prev.profiles.filter((p) => p.id !== id);
+      return { activeId: prev.activeId === id ? profiles[0].id : prev.activeId, profiles };
+    });
   }, []);
 
-  return <SettingsContext.Provider value={{ settings, setSettings }}>{children}</SettingsContext.Provider>;
+  const value = React.useMemo<Ctx>(
+    () => ({
+      settings: activeProfileOf(store),
+      profiles: store.profiles,
+      selectProfile,
+      updateProfile,
+      addProfile,
+      removeProfile,
+    }),
+    [store, selectProfile, updateProfile, addProfile, removeProfile],
+  );
+
+  return <SettingsContext.Provider value={value}>{children}</SettingsContext.Provider>;
 }
 
 export function useSettings() {
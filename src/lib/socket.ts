@@ -1,7 +1,18 @@
 import { useEffect, useState } from "react";
 import { useQueryClient } from "@tanstack/react-query";
-import { io, type Socket } from "socket.io-client";
+import { io } from "socket.io-client";
+import { createPlaybackSocket, recordSocketEvent, usePlaybackId } from "./sessionRecorder";
+import { isMockBaseUrl } from "./settings";
 import { useSettings } from "./settingsContext";
+import {
+  CACHED_CANDLES_MAX,
+  cacheCandles,
+  cacheTrades,
+  mergeCandles,
+  mergeTrades,
+} from "./dataCache";
+import { parsePayload, parseRow } from "./schema";
+import { clearTicks, recordTick } from "./ticks";
 import type {
   AlertChannel,
   AlertIncident,
@@ -45,65 +56,30 @@ type LtpPayload = LiveLtpResponse & {
   instrument_token?: number;
 };
 
+/** What the bridge needs from a socket; satisfied by socket.io and by the mock backend's stand-in. */
+type BridgeSocket = {
+  on(event: string, fn: (...args: any[]) => void): unknown;
+  removeAllListeners(): unknown;
+  disconnect(): unknown;
+};
+
 const SOCKET_PATH = import.meta.env.VITE_SOCKET_PATH || "/socket.io";
 
 function normalizeBaseUrl(baseUrl: string) {
   return baseUrl.trim().replace(/\/$/, "");
 }
 
-function mergeTrades(existing: TradeRow[], incoming: TradeRow[], limit: number) {
-  const map = new Map<string, TradeRow>();
-  for (const row of existing || []) {
-    if (row?.tradeId) map.set(String(row.tradeId), row);
-  }
-  for (const row of incoming || []) {
-    if (row?.tradeId) map.set(String(row.tradeId), row);
-  }
-  const merged = Array.from(map.values());
-  merged.sort(
-    (a, b) =>
-      new Date(b.updatedAt || b.createdAt || 0).getTime() -
-      new Date(a.updatedAt || a.createdAt || 0).getTime(),
-  );
-  return merged.slice(0, limit);
-}
-
-function mergeCandles(
-  existing: CandleRow[],
-  incoming: CandleRow[],
-  limit: number,
-) {
-  const map = new Map<string, CandleRow>();
-  for (const row of existing || []) {
-    if (row?.ts) map.set(String(row.ts), row);
-  }
-  for (const row of incoming || []) {
-    if (row?.ts) map.set(String(row.ts), row);
-  }
-  const merged = Array.from(map.values());
-  merged.sort(
-    (a, b) => new Date(a.ts).getTime() - new Date(b.ts).getTime(),
-  );
-  return merged.slice(-limit);
-}
-
 export function useSocketBridge(): SocketState {
   const { settings } = useSettings();
   const queryClient = useQueryClient();
   const [connected, setConnected] = useState(false);
   const [lastEvent, setLastEvent] = useState<string | null>(null);
+  const playbackId = usePlaybackId();
 
   useEffect(() => {
     const baseUrl = normalizeBaseUrl(settings.baseUrl);
     if (!baseUrl) return;
 
-    const socket: Socket = io(baseUrl, {
-      path: SOCKET_PATH,
-      transports: ["websocket"],
-      auth: settings.apiKey ? { apiKey: settings.apiKey } : undefined,
-      query: settings.apiKey ? { apiKey: settings.apiKey } : undefined,
-    });
-
     const statusKey = ["status", baseUrl, settings.apiKey];
     const subsKey = ["subs", baseUrl, settings.apiKey];
     const tradesKeyPrefix = ["tradesRecent", baseUrl, settings.apiKey];
@@ -130,115 +106,115 @@ export function useSocketBridge(): SocketState {
 
     const updateStatus = (payload: StatusResponse) => {
       if (!payload) return;
-      queryClient.setQueryData(statusKey, payload);
+      queryClient.setQueryData(statusKey, parsePayload("status", payload, "ws:status"));
       setLastEvent("status");
     };
 
     const updateEquity = (payload: EquitySnapshot) => {
       if (!payload) return;
-      queryClient.setQueryData(equityKey, payload);
+      queryClient.setQueryData(equityKey, parsePayload("equity", payload, "ws:equity"));
       setLastEvent("equity");
     };
 
     const updatePositions = (payload: RowsPayload<PositionRow>) => {
       if (!payload) return;
-      queryClient.setQueryData(positionsKey, payload);
+      queryClient.setQueryData(positionsKey, parsePayload("positions", payload, "ws:positions"));
       setLastEvent("positions");
     };
 
     const updateOrders = (payload: RowsPayload<OrderRow>) => {
       if (!payload) return;
-      queryClient.setQueryData(ordersKey, payload);
+      queryClient.setQueryData(ordersKey, parsePayload("orders", payload, "ws:orders"));
       setLastEvent("orders");
     };
 
     const updateRiskLimits = (payload: RiskLimitsResponse) => {
       if (!payload) return;
-      queryClient.setQueryData(riskLimitsKey, payload);
+      queryClient.setQueryData(riskLimitsKey, parsePayload("riskLimits", payload, "ws:riskLimits"));
       setLastEvent("riskLimits");
     };
 
     const updateStrategyKpis = (payload: StrategyKpisResponse) => {
       if (!payload) return;
-      queryClient.setQueryData(strategyKpisKey, payload);
+      queryClient.setQueryData(strategyKpisKey, parsePayload("strategyKpis", payload, "ws:strategyKpis"));
       setLastEvent("strategyKpis");
     };
 
     const updateExecutionQuality = (payload: ExecutionQualityResponse) => {
       if (!payload) return;
-      queryClient.setQueryData(executionQualityKey, payload);
+      queryClient.setQueryData(executionQualityKey, parsePayload("executionQuality", payload, "ws:executionQuality"));
       setLastEvent("executionQuality");
     };
 
     const updateMarketHealth = (payload: MarketHealthResponse) => {
       if (!payload) return;
-      queryClient.setQueryData(marketHealthKey, payload);
+      queryClient.setQueryData(marketHealthKey, parsePayload("marketHealth", payload, "ws:marketHealth"));
       setLastEvent("marketHealth");
     };
 
     const updateAuditLogs = (payload: RowsPayload<AuditLogRow>) => {
       if (!payload) return;
-      queryClient.setQueryData(auditLogsKey, payload);
+      queryClient.setQueryData(auditLogsKey, parsePayload("auditLogs", payload, "ws:auditLogs"));
       setLastEvent("auditLogs");
     };
 
     const updateAlertChannels = (payload: RowsPayload<AlertChannel>) => {
       if (!payload) return;
-      queryClient.setQueryData(alertChannelsKey, payload);
+      queryClient.setQueryData(alertChannelsKey, parsePayload("alertChannels", payload, "ws:alertChannels"));
       setLastEvent("alertChannels");
     };
 
     const updateAlertIncidents = (payload: RowsPayload<AlertIncident>) => {
       if (!payload) return;
-      queryClient.setQueryData(alertIncidentsKey, payload);
+      queryClient.setQueryData(alertIncidentsKey, parsePayload("alertIncidents", payload, "ws:alertIncidents"));
       setLastEvent("alertIncidents");
     };
 
     const updateTelemetry = (payload: TelemetrySnapshot) => {
       if (!payload) return;
-      queryClient.setQueryData(telemetryKey, payload);
+      queryClient.setQueryData(telemetryKey, parsePayload("telemetry", payload, "ws:telemetry"));
       setLastEvent("telemetrySnapshot");
     };
 
     const updateTradeTelemetry = (payload: TelemetrySnapshot) => {
       if (!payload) return;
-      queryClient.setQueryData(tradeTelemetryKey, payload);
+      queryClient.setQueryData(tradeTelemetryKey, parsePayload("tradeTelemetry", payload, "ws:tradeTelemetry"));
       setLastEvent("tradeTelemetrySnapshot");
     };
 
     const updateOptimizer = (payload: OptimizerSnapshot) => {
       if (!payload) return;
-      queryClient.setQueryData(optimizerKey, payload);
+      queryClient.setQueryData(optimizerKey, parsePayload("optimizer", payload, "ws:optimizer"));
       setLastEvent("optimizerSnapshot");
     };
 
     const updateRejections = (payload: RejectionsSnapshot) => {
       if (!payload) return;
-      queryClient.setQueryData(rejectionsKey, payload);
+      queryClient.setQueryData(rejectionsKey, parsePayload("rejections", payload, "ws:rejections"));
       setLastEvent("rejections");
     };
 
     const updateCostCalibration = (payload: CostCalibrationResponse) => {
       if (!payload) return;
-      queryClient.setQueryData(costCalibrationKey, payload);
+      queryClient.setQueryData(costCalibrationKey, parsePayload("costCalibration", payload, "ws:costCalibration"));
       setLastEvent("costCalibration");
     };
 
     const updateMarketCalendar = (payload: MarketCalendarResponse) => {
       if (!payload) return;
-      queryClient.setQueryData(marketCalendarKey, payload);
+      queryClient.setQueryData(marketCalendarKey, parsePayload("marketCalendar", payload, "ws:marketCalendar"));
       setLastEvent("marketCalendar");
     };
 
     const updateFnoUniverse = (payload: FnoUniverseResponse) => {
       if (!payload) return;
-      queryClient.setQueryData(fnoUniverseKey, payload);
+      queryClient.setQueryData(fnoUniverseKey, parsePayload("fno", payload, "ws:fno"));
       setLastEvent("fnoUniverse");
     };
 
     const updateCriticalHealth = (payload: CriticalHealthResponse) => {
       if (!payload) return;
-      queryClient.setQueryData(criticalHealthKey, payload);
+      queryClient.setQueryData(criticalHealthKey, parsePayload("criticalHealth", payload, "ws:criticalHealth"));
       setLastEvent("criticalHealth");
     };
 
@@ -248,32 +224,47 @@ export function useSocketBridge(): SocketState {
       tokens?: number[];
     }) => {
       if (!payload) return;
-      queryClient.setQueryData(subsKey, payload);
+      queryClient.setQueryData(subsKey, parsePayload("subscriptions", payload, "ws:subscriptions"));
       setLastEvent("subscriptions");
     };
 
     const updateTrades = (payload: TradeRow | TradeRow[]) => {
-      const incoming = Array.isArray(payload) ? payload : [payload];
+      const incoming = (Array.isArray(payload) ? payload : [payload])
+        .map((row) => parseRow("trade", row, "ws:trades"))
+        .filter((row): row is TradeRow => !!row);
       if (!incoming.length) return;
       const queries = queryClient
         .getQueryCache()
         .findAll({ queryKey: tradesKeyPrefix });
       for (const q of queries) {
         const key = q.queryKey as (string | number)[];
+        // Date-pinned (replay) queries hold a past session; leave them alone.
+        if (key[4]) continue;
         const limit = Number(key[3]) || 80;
-        queryClient.setQueryData(key, (old) => {
-          const prevRows = (old as { rows?: TradeRow[] } | undefined)?.rows || [];
-          return { ok: true, rows: mergeTrades(prevRows, incoming, limit) };
-        });
+        // A push onto IndexedDB-seeded rows is not a fetch: keep the seeded marking.
+        const fetched = q.state.dataUpdatedAt > 0;
+        queryClient.setQueryData(
+          key,
+          (old) => {
+            const prevRows = (old as { rows?: TradeRow[] } | undefined)?.rows || [];
+            const rows = mergeTrades(prevRows, incoming, limit);
+            return fetched ? { ok: true, rows } : { ok: true, rows, seeded: true };
+          },
+          { updatedAt: fetched ? Date.now() : 0 },
+        );
       }
+      cacheTrades(baseUrl, incoming);
       setLastEvent("trades");
     };
 
     const updateCandles = (payload: CandlePayload) => {
       if (!payload) return;
-      const rows = Array.isArray((payload as any).rows)
-        ? ((payload as any).rows as CandleRow[])
-        : [payload as CandleRow];
+      const rawRows: unknown[] = Array.isArray((payload as any).rows)
+        ? (payload as any).rows
+        : [payload];
+      const rows = rawRows
+        .map((row) => parseRow("candle", row, "ws:candles"))
+        .filter((row): row is CandleRow => !!row);
       if (!rows.length) return;
 
       const token =
@@ -294,7 +285,8 @@ export function useSocketBridge(): SocketState {
         const key = q.queryKey as (string | number)[];
         const keyToken = Number(key[3]);
         const keyInterval = Number(key[4]);
-        const limit = Number(key[5]) || 320;
+        if (key[6]) continue;
+        const limit = Math.max(Number(key[5]) || 320, CACHED_CANDLES_MAX);
         if (keyToken !== Number(token) || keyInterval !== Number(intervalMin))
           continue;
         queryClient.setQueryData(key, (old) => {
@@ -302,6 +294,7 @@ export function useSocketBridge(): SocketState {
           return { ok: true, rows: mergeCandles(prevRows, rows, limit) };
         });
       }
+      cacheCandles(baseUrl, Number(token), Number(intervalMin), rows);
       setLastEvent("candles");
     };
 
@@ -309,7 +302,8 @@ export function useSocketBridge(): SocketState {
       const incomingRaw = Array.isArray(payload) ? payload : [payload];
       const incoming = incomingRaw
         .map((row) => (row as { row?: LtpPayload })?.row ?? row)
-        .filter(Boolean) as LtpPayload[];
+        .map((row) => parseRow("ltp", row, "ws:ltp"))
+        .filter((row): row is LtpPayload => !!row);
       if (!incoming.length) return;
       const queries = queryClient
         .getQueryCache()
@@ -319,6 +313,11 @@ export function useSocketBridge(): SocketState {
           row?.token ?? row?.instrument_token,
         );
         if (!Number.isFinite(token)) continue;
+        recordTick(
+          token,
+          Number(row.ltp ?? row.lastPrice ?? row.price),
+          row.ts ? new Date(row.ts).getTime() : Date.now(),
+        );
         for (const q of queries) {
           const key = q.queryKey as (string | number)[];
           const keyToken = Number(key[3]);
@@ -334,62 +333,94 @@ export function useSocketBridge(): SocketState {
       setLastEvent("ltp");
     };
 
-    socket.on("connect", () => setConnected(true));
-    socket.on("disconnect", () => setConnected(false));
-    socket.on("status", updateStatus);
-    socket.on("status:update", updateStatus);
-    socket.on("subscriptions", updateSubscriptions);
-    socket.on("subs", updateSubscriptions);
-    socket.on("trade", updateTrades);
-    socket.on("trades", updateTrades);
-    socket.on("trades:recent", updateTrades);
-    socket.on("candle", updateCandles);
-    socket.on("candles", updateCandles);
-    socket.on("candles:recent", updateCandles);
-    socket.on("ltp", updateLtp);
-    socket.on("ltp:update", updateLtp);
-    socket.on("tick", updateLtp);
-    socket.on("equity", updateEquity);
-    socket.on("equity:update", updateEquity);
-    socket.on("positions", updatePositions);
-    socket.on("positions:update", updatePositions);
-    socket.on("orders", updateOrders);
-    socket.on("orders:update", updateOrders);
-    socket.on("risk:limits", updateRiskLimits);
-    socket.on("riskLimits", updateRiskLimits);
-    socket.on("strategy:kpis", updateStrategyKpis);
-    socket.on("strategyKpis", updateStrategyKpis);
-    socket.on("execution:quality", updateExecutionQuality);
-    socket.on("executionQuality", updateExecutionQuality);
-    socket.on("market:health", updateMarketHealth);
-    socket.on("marketHealth", updateMarketHealth);
-    socket.on("audit:logs", updateAuditLogs);
-    socket.on("auditLogs", updateAuditLogs);
-    socket.on("alerts:channels", updateAlertChannels);
-    socket.on("alertChannels", updateAlertChannels);
-    socket.on("alerts:incidents", updateAlertIncidents);
-    socket.on("alertIncidents", updateAlertIncidents);
-    socket.on("telemetry", updateTelemetry);
-    socket.on("telemetry:snapshot", updateTelemetry);
-    socket.on("tradeTelemetry", updateTradeTelemetry);
-    socket.on("tradeTelemetry:snapshot", updateTradeTelemetry);
-    socket.on("optimizer", updateOptimizer);
-    socket.on("optimizer:snapshot", updateOptimizer);
-    socket.on("rejections", updateRejections);
-    socket.on("cost:calibration", updateCostCalibration);
-    socket.on("costCalibration", updateCostCalibration);
-    socket.on("market:calendar", updateMarketCalendar);
-    socket.on("marketCalendar", updateMarketCalendar);
-    socket.on("fno", updateFnoUniverse);
-    socket.on("fnoUniverse", updateFnoUniverse);
-    socket.on("health:critical", updateCriticalHealth);
-    socket.on("criticalHealth", updateCriticalHealth);
+    const bind = (socket: BridgeSocket) => {
+      // Every listened event goes through here so the session recorder sees it before the handler.
+      const on = (event: string, fn: (payload?: any) => void) =>
+        socket.on(event, (payload?: any) => {
+          recordSocketEvent(event, payload);
+          fn(payload);
+        });
+      on("connect", () => setConnected(true));
+      on("disconnect", () => setConnected(false));
+      on("status", updateStatus);
+      on("status:update", updateStatus);
+      on("subscriptions", updateSubscriptions);
+      on("subs", updateSubscriptions);
+      on("trade", updateTrades);
+      on("trades", updateTrades);
+      on("trades:recent", updateTrades);
+      on("candle", updateCandles);
+      on("candles", updateCandles);
+      on("candles:recent", updateCandles);
+      on("ltp", updateLtp);
+      on("ltp:update", updateLtp);
+      on("tick", updateLtp);
+      on("equity", updateEquity);
+      on("equity:update", updateEquity);
+      on("positions", updatePositions);
+      on("positions:update", updatePositions);
+      on("orders", updateOrders);
+      on("orders:update", updateOrders);
+      on("risk:limits", updateRiskLimits);
+      on("riskLimits", updateRiskLimits);
+      on("strategy:kpis", updateStrategyKpis);
+      on("strategyKpis", updateStrategyKpis);
+      on("execution:quality", updateExecutionQuality);
+      on("executionQuality", updateExecutionQuality);
+      on("market:health", updateMarketHealth);
+      on("marketHealth", updateMarketHealth);
+      on("audit:logs", updateAuditLogs);
+      on("auditLogs", updateAuditLogs);
+      on("alerts:channels", updateAlertChannels);
+      on("alertChannels", updateAlertChannels);
+      on("alerts:incidents", updateAlertIncidents);
+      on("alertIncidents", updateAlertIncidents);
+      on("telemetry", updateTelemetry);
+      on("telemetry:snapshot", updateTelemetry);
+      on("tradeTelemetry", updateTradeTelemetry);
+      on("tradeTelemetry:snapshot", updateTradeTelemetry);
+      on("optimizer", updateOptimizer);
+      on("optimizer:snapshot", updateOptimizer);
+      on("rejections", updateRejections);
+      on("cost:calibration", updateCostCalibration);
+      on("costCalibration", updateCostCalibration);
+      on("market:calendar", updateMarketCalendar);
+      on("marketCalendar", updateMarketCalendar);
+      on("fno", updateFnoUniverse);
+      on("fnoUniverse", updateFnoUniverse);
+      on("health:critical", updateCriticalHealth);
+      on("criticalHealth", updateCriticalHealth);
+    };
+
+    let socket: BridgeSocket | null = null;
+    let cancelled = false;
+    if (playbackId !== null) {
+      socket = createPlaybackSocket();
+      bind(socket);
+    } else if (isMockBaseUrl(baseUrl)) {
+      void import("./mockSocket").then(({ createMockSocket }) => {
+        if (cancelled) return;
+        socket = createMockSocket(baseUrl);
+        bind(socket);
+      });
+    } else {
+      socket = io(baseUrl, {
+        path: settings.socketPath || SOCKET_PATH,
+        transports: ["websocket"],
+        auth: settings.apiKey ? { apiKey: settings.apiKey } : undefined,
+        query: settings.apiKey ? { apiKey: settings.apiKey } : undefined,
+      });
+      bind(socket);
+    }
 
     return () => {
-      socket.removeAllListeners();
-      socket.disconnect();
+      cancelled = true;
+      socket?.removeAllListeners();
+      socket?.disconnect();
+      // Buffered ticks belong to this backend; don't splice them onto another profile's stream.
+      clearTicks();
     };
-  }, [queryClient, settings.apiKey, settings.baseUrl]);
+  }, [queryClient, settings.apiKey, settings.baseUrl, settings.socketPath, playbackId]);
 
   return { connected, lastEvent };
 }
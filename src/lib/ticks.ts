@@ -0,0 +1,150 @@
+import { useCallback, useSyncExternalStore } from 'react';
+
+export type Tick = {
+  /** Epoch ms: exchange time when the event carried one, else receipt time. */
+  ts: number;
+  price: number;
+};
+
+/** Ticks kept per token; an active NFO option prints roughly this many in 10–20 minutes. */
+export const TICK_BUFFER_SIZE = 4000;
+const NOTIFY_MS = 250;
+
+type Ring = {
+  buf: Array<Tick | undefined>;
+  /** Index the next tick is written to. */
+  head: number;
+  size: number;
+  /** Ordered copy handed to React; rebuilt lazily after writes. */
+  snapshot: Tick[] | null;
+};
+
+const rings = new Map<number, Ring>();
+const listeners = new Map<number, Set<() => void>>();
+const dirty = new Set<number>();
+let notifyTimer: number | null = null;
+const EMPTY: Tick[] = [];
+
+function emit() {
+  notifyTimer = null;
+  const tokens = Array.from(dirty);
+  dirty.clear();
+  for (const token of tokens) listeners.get(token)?.forEach((l) => l());
+}
+
+export function recordTick(token: number, price: number, ts: number = Date.now()) {
+  if (!Number.isFinite(token) || !Number.isFinite(price)) return;
+  let ring = rings.get(token);
+  if (!ring) {
+    ring = { buf: new Array(TICK_BUFFER_SIZE), head: 0, size: 0, snapshot: null };
+    rings.set(token, ring);
+  }
+  const prevIdx = (ring.head - 1 + TICK_BUFFER_SIZE) % TICK_BUFFER_SIZE;
+  const prev = ring.size ? ring.buf[prevIdx] : undefined;
+  // Out-of-order exchange stamps would break the ascending order charts rely on.
+  const at = Number.isFinite(ts) ? Math.max(ts, prev?.ts ?? ts) : Date.now();
+  ring.buf[ring.head] = { ts: at, price };
+  ring.head = (ring.head + 1) % TICK_BUFFER_SIZE;
+  ring.size = Math.min(ring.size + 1, TICK_BUFFER_SIZE);
+  ring.snapshot = null;
+  if (listeners.has(token)) {
+    dirty.add(token);
+    // Socket ticks can arrive dozens per second; re-render subscribers at most every NOTIFY_MS.
+    if (notifyTimer === null) notifyTimer = window.setTimeout(emit, NOTIFY_MS);
+  }
+}
+
+/** Oldest-first copy of the buffered ticks for `token`. */
+export function getTicks(token: number | null): Tick[] {
+  if (token === null) return EMPTY;
+  const ring = rings.get(token);
+  if (!ring || !ring.size) return EMPTY;
+  if (!ring.snapshot) {
+    const start = (ring.head - ring.size + TICK_BUFFER_SIZE) % TICK_BUFFER_SIZE;
+    const out: Tick[] = new Array(ring.size);
+    for (let i = 0; i < ring.size; i += 1) out[i] = ring.buf[(start + i) % TICK_BUFFER_SIZE] as Tick;
+    ring.snapshot = out;
+  }
+  return ring.snapshot;
+}
+
+/** Drops every buffer, e.g. when the socket reconnects to a different backend. */
+export function clearTicks() {
+  rings.clear();
+  for (const token of listeners.keys()) dirty.add(token);
+  emit();
+}
+
+export function useTicks(token: number | null): Tick[] {
+  const subscribe = useCallback(
+    (listener: () => void) => {
+      if (token === null) return () => {};
+      let set = listeners.get(token);
+      if (!set) {
+        set = new Set();
+        listeners.set(token, set);
+      }
+      set.add(listener);
+      return () => {
+        set?.delete(listener);
+        if (set && !set.size) listeners.delete(token);
+      };
+    },
+    [token],
+  );
+  const read = useCallback(() => getTicks(token), [token]);
+  return useSyncExternalStore(subscribe, read);
+}
+
+export type TickStats = {
+  /** Ticks per second over the window. */
+  rate: number;
+  upticks: number;
+  downticks: number;
+  unchanged: number;
+  /** Seconds since the newest tick; null with an empty buffer. */
+  lastAgeSec: number | null;
+};
+
+export function tickStats(ticks: Tick[], nowMs: number, windowMs = 60_000): TickStats {
+  const from = nowMs - windowMs;
+  let upticks = 0;
+  let downticks = 0;
+  let unchanged = 0;
+  let count = 0;
+  for (let i = ticks.length - 1; i >= 0 && ticks[i].ts >= from; i -= 1) {
+    count += 1;
+    if (i === 0) continue;
+    const d = ticks[i].price - ticks[i - 1].price;
+    if (d > 0) upticks += 1;
+    else if (d < 0) downticks += 1;
+    else unchanged += 1;
+  }
+  const last = ticks[ticks.length - 1];
+  return {
+    rate: count / (windowMs / 1000),
+    upticks,
+    downticks,
+    unchanged,
+    lastAgeSec: last ? Math.max(0, (nowMs - last.ts) / 1000) : null,
+  };
+}
+
+export type TapeRow = Tick & {
+  /** Versus `reference` (session open when known, else the oldest buffered tick). */
+  change: number;
+  /** Versus the previous tick. */
+  delta: number;
+};
+
+/** Newest-first rows for the time & sales tape. */
+export function tickTape(ticks: Tick[], limit: number, reference?: number): TapeRow[] {
+  if (!ticks.length) return [];
+  const ref = Number.isFinite(reference) ? Number(reference) : ticks[0].price;
+  const out: TapeRow[] = [];
+  for (let i = ticks.length - 1; i >= 0 && out.length < limit; i -= 1) {
+    const t = ticks[i];
+    out.push({ ...t, change: t.price - ref, delta: i ? t.price - ticks[i - 1].price : 0 });
+  }
+  return out;
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import type { LwCandle } from './chartUtils';
+import { DAILY_HISTORY_DAYS, DAILY_INTERVAL_MIN, autoBoxSize, sourceWindowFor } from './timeframes';
+
+describe('sourceWindowFor', () => {
+  it.each([
+    ['native 5m, today', 5, 0, { days: 0, limit: 320 }],
+    ['native 1m keeps the History setting', 1, 3, { days: 3, limit: 320 }],
+    ['built 15m, today', 15, 0, { days: 0, limit: 400 }],
+    ['built 15m with earlier sessions', 15, 2, { days: 2, limit: 400 + 2 * 375 }],
+    ['daily always spans several sessions', DAILY_INTERVAL_MIN, 0, { days: DAILY_HISTORY_DAYS, limit: 400 + DAILY_HISTORY_DAYS * 375 }],
+  ])('%s', (_label, intervalMin, historyDays, expected) => {
+    expect(sourceWindowFor(intervalMin, historyDays)).toEqual(expected);
+  });
+});
+
+describe('autoBoxSize', () => {
+  const bar = (high: number, low: number) => ({ time: 0 as LwCandle['time'], open: low, high, low, close: high });
+
+  it('lands exactly on a tick', () => {
+    expect(autoBoxSize([bar(100.35, 100)])).toBe(0.35);
+  });
+
+  it('never goes below one tick', () => {
+    expect(autoBoxSize([bar(100.01, 100)])).toBe(0.05);
+  });
+});
@@ -0,0 +1,238 @@
+import type { CandleRow } from '../types/backend';
+import { PRICE_TICK, sessionBucketStartMs, snapToTick, type LwCandle } from './chartUtils';
+import type { Tick } from './ticks';
+
+/** Intervals `/admin/candles/recent` serves directly; everything else is built from 1m bars. */
+export const NATIVE_INTERVALS = [1, 3, 5];
+export const DAILY_INTERVAL_MIN = 1440;
+export const MAX_CUSTOM_INTERVAL_MIN = 375;
+/** 1m bars in one 09:15–15:30 session. */
+const SESSION_BARS = 375;
+/** Earlier sessions a daily chart always shows, whatever the History setting. */
+export const DAILY_HISTORY_DAYS = 6;
+
+export const INTERVAL_PRESETS: Array<{ value: number; label: string }> = [
+  { value: 1, label: '1m' },
+  { value: 3, label: '3m' },
+  { value: 5, label: '5m' },
+  { value: 10, label: '10m' },
+  { value: 15, label: '15m' },
+  { value: 30, label: '30m' },
+  { value: 60, label: '60m' },
+  { value: DAILY_INTERVAL_MIN, label: 'D' },
+];
+
+export type ChartType = 'candles' | 'heikinAshi' | 'renko' | 'range' | 'ticks';
+
+export const CHART_TYPES: Array<{ value: ChartType; label: string }> = [
+  { value: 'candles', label: 'Candles' },
+  { value: 'heikinAshi', label: 'Heikin-Ashi' },
+  { value: 'renko', label: 'Renko' },
+  { value: 'range', label: 'Range' },
+  { value: 'ticks', label: 'Ticks' },
+];
+
+export function isChartType(value: unknown): value is ChartType {
+  return CHART_TYPES.some((t) => t.value === value);
+}
+
+/** Renko, range and tick bars are event-driven: bar times are only ordering keys, not buckets. */
+export function isTimeBasedChart(type: ChartType): boolean {
+  return type === 'candles' || type === 'heikinAshi';
+}
+
+export function intervalLabel(intervalMin: number): string {
+  return INTERVAL_PRESETS.find((p) => p.value === intervalMin)?.label ?? `${intervalMin}m`;
+}
+
+export function sourceIntervalFor(intervalMin: number): number {
+  return NATIVE_INTERVALS.includes(intervalMin) ? intervalMin : 1;
+}
+
+/**
+ * Source bars to request and earlier sessions to keep for a chart. Native intervals only need
+ * the recent tail; built intervals need every 1m bar of each session they cover, and a daily
+ * chart of just today would be a single bar.
+ */
+export function sourceWindowFor(intervalMin: number, historyDays: number): { days: number; limit: number } {
+  const days = intervalMin >= DAILY_INTERVAL_MIN ? Math.max(historyDays, DAILY_HISTORY_DAYS) : historyDays;
+  if (sourceIntervalFor(intervalMin) === intervalMin) return { days, limit: 320 };
+  return { days, limit: 400 + days * SESSION_BARS };
+}
+
+/** Groups bars into session-anchored buckets (09:15 IST, not epoch multiples). Input must be ascending. */
+export function aggregateCandles(rows: CandleRow[], intervalMin: number): CandleRow[] {
+  const out: CandleRow[] = [];
+  let bucketMs = NaN;
+  for (const row of rows) {
+    const ms = new Date(row.ts).getTime();
+    const open = Number(row.open);
+    const high = Number(row.high);
+    const low = Number(row.low);
+    const close = Number(row.close);
+    if (![ms, open, high, low, close].every(Number.isFinite)) continue;
+    const start = sessionBucketStartMs(ms, intervalMin);
+    const last = out[out.length - 1];
+    if (last && start === bucketMs) {
+      last.high = Math.max(last.high, high);
+      last.low = Math.min(last.low, low);
+      last.close = close;
+      last.volume = Number(last.volume || 0) + Number(row.volume || 0);
+      continue;
+    }
+    bucketMs = start;
+    out.push({
+      instrument_token: row.instrument_token,
+      interval_min: intervalMin,
+      ts: new Date(start).toISOString(),
+      open,
+      high,
+      low,
+      close,
+      volume: Number(row.volume || 0),
+    });
+  }
+  return out;
+}
+
+export function heikinAshi(bars: LwCandle[]): LwCandle[] {
+  const out: LwCandle[] = [];
+  for (const bar of bars) {
+    const prev = out[out.length - 1];
+    const close = (bar.open + bar.high + bar.low + bar.close) / 4;
+    const open = prev ? (prev.open + prev.close) / 2 : (bar.open + bar.close) / 2;
+    out.push({
+      time: bar.time,
+      open,
+      high: Math.max(bar.high, open, close),
+      low: Math.min(bar.low, open, close),
+      close,
+    });
+  }
+  return out;
+}
+
+/** Average true range of the last `period` bars, rounded to the exchange tick. */
+export function autoBoxSize(bars: LwCandle[], period = 14): number | null {
+  if (!bars.length) return null;
+  const tail = bars.slice(-(period + 1));
+  let sum = 0;
+  let n = 0;
+  for (let i = 1; i < tail.length; i += 1) {
+    const prevClose = tail[i - 1].close;
+    const b = tail[i];
+    sum += Math.max(b.high - b.low, Math.abs(b.high - prevClose), Math.abs(b.low - prevClose));
+    n += 1;
+  }
+  const atr = n ? sum / n : tail[0].high - tail[0].low;
+  if (!Number.isFinite(atr) || atr <= 0) return PRICE_TICK;
+  return Math.max(PRICE_TICK, snapToTick(atr));
+}
+
+function nextTime(sourceTime: number, prev: LwCandle | undefined): number {
+  // Several bricks can come out of one source bar; lightweight-charts needs strictly increasing times.
+  return prev ? Math.max(sourceTime, prev.time + 1) : sourceTime;
+}
+
+/** Classic close-based Renko: a new brick per `box` move, two boxes to reverse. */
+export function renkoBars(bars: LwCandle[], box: number): LwCandle[] {
+  if (!bars.length || !(box > 0)) return [];
+  const out: LwCandle[] = [];
+  const base = Math.floor(bars[0].close / box) * box;
+  let hi = base;
+  let lo = base;
+  for (const bar of bars) {
+    while (bar.close >= hi + box) {
+      out.push({ time: nextTime(bar.time, out[out.length - 1]), open: hi, high: hi + box, low: hi, close: hi + box });
+      lo = hi;
+      hi += box;
+    }
+    while (bar.close <= lo - box) {
+      out.push({ time: nextTime(bar.time, out[out.length - 1]), open: lo, high: lo, low: lo - box, close: lo - box });
+      hi = lo;
+      lo -= box;
+    }
+  }
+  return out;
+}
+
+/**
+ * Range bars of fixed high-low `range`. Each source bar is walked open → nearer extreme →
+ * other extreme → close; the last, still-forming bar is included.
+ */
+export function rangeBars(bars: LwCandle[], range: number): LwCandle[] {
+  if (!bars.length || !(range > 0)) return [];
+  const out: LwCandle[] = [];
+  let cur: LwCandle | null = null;
+
+  const feed = (price: number, time: number) => {
+    if (!cur) {
+      cur = { time: nextTime(time, out[out.length - 1]), open: price, high: price, low: price, close: price };
+      return;
+    }
+    for (;;) {
+      const c: LwCandle = cur;
+      if (price > c.low + range) {
+        const top = c.low + range;
+        out.push({ ...c, high: top, close: top });
+        cur = { time: nextTime(time, out[out.length - 1]), open: top, high: top, low: top, close: top };
+      } else if (price < c.high - range) {
+        const bottom = c.high - range;
+        out.push({ ...c, low: bottom, close: bottom });
+        cur = { time: nextTime(time, out[out.length - 1]), open: bottom, high: bottom, low: bottom, close: bottom };
+      } else {
+        cur = { ...c, high: Math.max(c.high, price), low: Math.min(c.low, price), close: price };
+        return;
+      }
+    }
+  };
+
+  for (const bar of bars) {
+    const path =
+      bar.close >= bar.open
+        ? [bar.open, bar.low, bar.high, bar.close]
+        : [bar.open, bar.high, bar.low, bar.close];
+    for (const price of path) feed(price, bar.time);
+  }
+  if (cur) out.push(cur);
+  return out;
+}
+
+/** `boxSize` of 0/undefined means auto (ATR of the source bars). */
+export function toChartBars(bars: LwCandle[], type: ChartType, boxSize?: number): LwCandle[] {
+  if (type === 'heikinAshi') return heikinAshi(bars);
+  if (type === 'renko' || type === 'range') {
+    const box = boxSize && boxSize > 0 ? boxSize : autoBoxSize(bars);
+    if (!box) return [];
+    return type === 'renko' ? renkoBars(bars, box) : rangeBars(bars, box);
+  }
+  return bars;
+}
+
+/**
+ * `ticksPerBar` ticks per OHLC bar. Bar times are the first tick's second, nudged forward
+ * when several bars start within the same second.
+ */
+export function tickBars(ticks: Tick[], ticksPerBar: number): LwCandle[] {
+  const n = Math.max(1, Math.round(ticksPerBar));
+  const out: LwCandle[] = [];
+  for (let i = 0; i < ticks.length; i += n) {
+    const chunk = ticks.slice(i, i + n);
+    const prev = out[out.length - 1];
+    const sec = Math.floor(chunk[0].ts / 1000);
+    let high = -Infinity;
+    let low = Infinity;
+    for (const t of chunk) {
+      high = Math.max(high, t.price);
+      low = Math.min(low, t.price);
+    }
+    out.push({
+      time: prev ? Math.max(sec, prev.time + 1) : sec,
+      open: chunk[0].price,
+      high,
+      low,
+      close: chunk[chunk.length - 1].price,
+    });
+  }
+  return out;
+}
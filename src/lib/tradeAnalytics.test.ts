@@ -0,0 +1,225 @@
+import { describe, expect, it } from 'vitest';
+import type { TradeRow } from '../types/backend';
+import {
+  buildTruthGroups,
+  calcTradeStats,
+  formatTruthValue,
+  groupTruthBy,
+  registerTruthColumn,
+  registerTruthDimension,
+  truthColumns,
+  truthDimensions,
+  tradeExpiryDay,
+  tradeHoldBucket,
+  tradePnl,
+  tradeR,
+  tradeTimeBucket,
+  tradeWeekday,
+} from './tradeAnalytics';
+import {
+  closedLoser,
+  closedShort,
+  closedWinner,
+  openTrade,
+  rejectedTrade,
+  sessionTrades,
+} from '../test/fixtures/trades';
+
+const trade = (over: Partial<TradeRow>): TradeRow => ({ tradeId: 't', instrument_token: 1, ...over });
+
+describe('tradePnl', () => {
+  it.each([
+    ['BUY winner', closedWinner, 1125],
+    ['BUY loser', closedLoser, -900],
+    ['SELL winner', closedShort, 750],
+    ['open trade', openTrade, null],
+    ['rejected before fill', rejectedTrade, null],
+    ['missing side is treated as BUY', trade({ qty: 10, entryPrice: 100, exitPrice: 101 }), 10],
+    ['SELL loser', trade({ side: 'SELL', qty: 50, entryPrice: 80, exitPrice: 92.5 }), -625],
+  ])('%s', (_label, row, expected) => {
+    expect(tradePnl(row)).toBe(expected);
+  });
+});
+
+describe('tradeR', () => {
+  it.each([
+    ['BUY target hit', closedWinner, 1.5],
+    ['BUY stopped out', closedLoser, -1],
+    ['SELL with stop above entry', closedShort, 1],
+    ['no exit yet', openTrade, null],
+    ['no stop', trade({ side: 'BUY', qty: 1, entryPrice: 100, exitPrice: 110 }), null],
+    ['stop on the wrong side of entry', trade({ side: 'SELL', qty: 1, entryPrice: 100, exitPrice: 90, stopLoss: 95 }), null],
+    ['stop at entry (no risk)', trade({ side: 'BUY', qty: 1, entryPrice: 100, exitPrice: 110, stopLoss: 100 }), null],
+  ])('%s', (_label, row, expected) => {
+    expect(tradeR(row, tradePnl)).toBe(expected);
+  });
+
+  it('uses the P&L basis it is given', () => {
+    const net = (row: TradeRow) => {
+      const gross = tradePnl(row);
+      return gross === null ? null : gross - 75;
+    };
+    expect(tradeR(closedWinner, net)).toBeCloseTo((1125 - 75) / 750);
+  });
+});
+
+describe('tradeTimeBucket', () => {
+  it.each([
+    ['2026-02-03T09:15:00+05:30', '09:15–09:30'],
+    ['2026-02-03T09:29:59+05:30', '09:15–09:30'],
+    ['2026-02-03T09:30:00+05:30', '09:30–11:00'],
+    ['2026-02-03T11:00:00+05:30', '11:00–13:30'],
+    ['2026-02-03T13:30:00+05:30', '13:30–15:30'],
+    ['2026-02-03T15:30:00+05:30', '15:30+'],
+    // UTC timestamps are bucketed by IST wall clock.
+    ['2026-02-03T04:00:00Z', '09:30–11:00'],
+    ['2026-02-03T09:10:00+05:30', 'Unknown'],
+    ['garbage', 'Unknown'],
+  ])('%s → %s', (createdAt, expected) => {
+    expect(tradeTimeBucket(trade({ createdAt }))).toBe(expected);
+  });
+
+  it('falls back to updatedAt, then Unknown', () => {
+    expect(tradeTimeBucket(trade({ updatedAt: '2026-02-03T12:00:00+05:30' }))).toBe('11:00–13:30');
+    expect(tradeTimeBucket(trade({}))).toBe('Unknown');
+  });
+});
+
+describe('calcTradeStats', () => {
+  it('summarises a session', () => {
+    const stats = calcTradeStats(sessionTrades);
+    expect(stats).toMatchObject({ total: 5, closed: 3, open: 1, rejected: 1, wins: 2, losses: 1, pnl: 975 });
+    expect(stats.winRate).toBeCloseTo(200 / 3);
+    expect(stats.avgHoldMin).toBeCloseTo((9.5 + 7.5 + 15) / 3);
+    expect(stats.exposure).toBe(75 * 120 + 150 * 90 + 75 * 140 + 75 * 101.5);
+  });
+
+  it('has no rates without closed trades', () => {
+    const stats = calcTradeStats([openTrade, rejectedTrade]);
+    expect(stats).toMatchObject({ closed: 0, pnl: 0, winRate: null, avgHoldMin: null });
+  });
+
+  it('counts a scratch trade as a win', () => {
+    expect(calcTradeStats([{ ...closedWinner, exitPrice: 120 }])).toMatchObject({ wins: 1, losses: 0, pnl: 0 });
+  });
+});
+
+describe('buildTruthGroups', () => {
+  const byStrategy = (row: TradeRow) => row.strategyId || 'unassigned';
+
+  it('groups in first-seen order with per-group metrics', () => {
+    const groups = buildTruthGroups(sessionTrades, byStrategy, tradePnl);
+    expect(groups.map((g) => g.key)).toEqual(['orb_breakout', 'vwap_reversion', 'ema_pullback', 'unassigned']);
+
+    const orb = groups[0];
+    expect(orb).toMatchObject({ count: 2, winRate: 100, avgR: 1.25, avgSpread: 0.35, avgMae: -3.5, avgMfe: 16 });
+    // Entry + exit slippage when the backend doesn't report a total.
+    expect(orb.avgSlippage).toBeCloseTo(0.75);
+    expect(orb.avgHoldMin).toBeCloseTo((9.5 + 15) / 2);
+    // No losing trade means no loss side to weigh; expectancy is unknown rather than avgWinR.
+    expect(orb.expectancy).toBeNull();
+
+    expect(groups[1]).toMatchObject({ count: 1, winRate: 0, avgR: -1, avgSlippage: 1.1 });
+    // Trades without realised P&L still count towards the group (and its win rate).
+    expect(groups[2]).toMatchObject({ count: 1, winRate: 0, avgR: null, avgSlippage: null });
+  });
+
+  it('computes expectancy in R from win rate and average win/loss', () => {
+    const [all] = buildTruthGroups([closedWinner, closedLoser, closedShort], () => 'all', tradePnl);
+    expect(all.winRate).toBeCloseTo(200 / 3);
+    expect(all.avgR).toBeCloseTo(0.5);
+    // 2/3 × 1.25R + 1/3 × -1R
+    expect(all.expectancy).toBeCloseTo(0.5);
+  });
+
+  it('returns no groups for no trades', () => {
+    expect(buildTruthGroups([], byStrategy, tradePnl)).toEqual([]);
+  });
+});
+
+describe('grouping dimensions', () => {
+  it('registers the built-ins in display order', () => {
+    expect(truthDimensions().map((d) => d.id)).toEqual([
+      'strategy',
+      'regime',
+      'strategyRegime',
+      'timeBucket',
+      'premiumBand',
+      'holdBucket',
+      'weekday',
+      'expiryDay',
+      'side',
+    ]);
+  });
+
+  it.each([
+    ['2026-02-03T09:22:10+05:30', 'Tue'],
+    // 23:00 UTC on Sunday is already Monday in IST.
+    ['2026-02-01T23:00:00Z', 'Mon'],
+    ['garbage', 'Unknown'],
+  ])('weekday of %s is %s', (createdAt, expected) => {
+    expect(tradeWeekday(trade({ createdAt }))).toBe(expected);
+  });
+
+  it.each([
+    ['instrument expiry', closedWinner, 'Expiry day'],
+    ['traded the day before expiry', { ...closedWinner, createdAt: '2026-02-02T10:00:00+05:30' }, 'Non-expiry'],
+    ['ISO expiry is read in IST', trade({ createdAt: '2026-02-03T10:00:00+05:30', instrument: { expiry: '2026-02-02T18:30:00Z' } }), 'Expiry day'],
+    ['weekly tradingsymbol', trade({ createdAt: '2026-02-03T10:00:00+05:30', instrument: { tradingsymbol: 'NIFTY2620324800PE' } }), 'Expiry day'],
+    ['monthly tradingsymbol has no day', rejectedTrade, 'Unknown'],
+  ])('expiry day: %s', (_label, row, expected) => {
+    expect(tradeExpiryDay(row)).toBe(expected);
+  });
+
+  it.each([
+    [closedWinner, '5–15m'],
+    [closedShort, '15–30m'],
+    [openTrade, '<2m'],
+    [trade({}), 'Unknown'],
+  ])('hold bucket of %#', (row, expected) => {
+    expect(tradeHoldBucket(row)).toBe(expected);
+  });
+
+  it('sorts free-form groups by expectancy and bucketed ones by their fixed order', () => {
+    const rows = [closedLoser, closedShort, closedWinner];
+    // orb_breakout has no losers, so its expectancy is unknown and sorts after vwap_reversion's -1R.
+    expect(groupTruthBy(rows, 'strategy', tradePnl).map((g) => g.key)).toEqual(['vwap_reversion', 'orb_breakout']);
+    expect(groupTruthBy(rows, 'timeBucket', tradePnl).map((g) => g.key)).toEqual([
+      '09:15–09:30',
+      '11:00–13:30',
+      '13:30–15:30',
+    ]);
+    expect(groupTruthBy(rows, 'side', tradePnl).map((g) => [g.key, g.count])).toEqual([
+      ['BUY', 2],
+      ['SELL', 1],
+    ]);
+  });
+
+  it('returns no groups for an unknown dimension', () => {
+    expect(groupTruthBy(sessionTrades, 'nope', tradePnl)).toEqual([]);
+  });
+
+  it('picks up newly registered dimensions and columns', () => {
+    registerTruthDimension({ id: 'closeReason', label: 'Close reason', keyOf: (row) => row.closeReason || 'none' });
+    registerTruthColumn({ id: 'avgMfe', label: 'MFE', format: 'price', value: (g) => g.avgMfe });
+
+    const groups = groupTruthBy([closedWinner], 'closeReason', tradePnl);
+    expect(groups.map((g) => g.key)).toEqual(['TARGET']);
+    const mfe = truthColumns().find((c) => c.id === 'avgMfe')!;
+    expect(formatTruthValue(mfe.value(groups[0]), mfe.format)).toBe('16.00');
+  });
+});
+
+describe('formatTruthValue', () => {
+  it.each([
+    [null, 'r', '—'],
+    [3, 'count', '3'],
+    [66.666, 'pct', '66.7%'],
+    [1125, 'inr', '+1125'],
+    [-900, 'inr', '-900'],
+    [12.25, 'min', '12.3m'],
+    [0.5, 'r', '0.50'],
+  ] as const)('%s as %s', (value, format, expected) => {
+    expect(formatTruthValue(value, format)).toBe(expected);
+  });
+});
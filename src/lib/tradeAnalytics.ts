@@ -0,0 +1,790 @@
+import type { TradeRow } from '../types/backend';
+import { parseTradingSymbol } from './instrumentFormat';
+
+/**
+ * Trade analytics behind the truth panels, the EOD report and the blotter: realised P&L and R,
+ * status and time/premium/hold buckets, and per-group metrics ("truth" = what the fills say,
+ * as opposed to what the strategy intended). Pure functions only, so it can run anywhere.
+ *
+ * Groupings are looked up by id from a dimension registry and table columns from a column
+ * registry; register new ones here and every breakdown view picks them up.
+ */
+
+export type PnlOf = (row: TradeRow) => number | null;
+
+const IST_OFFSET_MS = 5.5 * 60 * 60 * 1000;
+const UNKNOWN = 'Unknown';
+
+/** First finite value among canonical fields (aliases are resolved in lib/schema). */
+export function pickTradeNumber(row: TradeRow, keys: Array<keyof TradeRow>) {
+  for (const key of keys) {
+    const value = row[key];
+    if (value !== undefined && value !== null && value !== '') {
+      const num = Number(value);
+      if (Number.isFinite(num)) return num;
+    }
+  }
+  return null;
+}
+
+export type StatusBucket = 'open' | 'closed' | 'rejected' | 'other';
+
+export function statusBucket(status?: string): StatusBucket {
+  const s = (status || '').toUpperCase();
+  if (s.includes('OPEN') || s.includes('ACTIVE')) return 'open';
+  if (s.includes('CLOSED') || s.includes('DONE') || s.includes('EXIT')) return 'closed';
+  if (s.includes('REJECT') || s.includes('CANCEL') || s.includes('FAIL')) return 'rejected';
+  return 'other';
+}
+
+// Open trades come through with `exitPrice: null`; Number(null) would price them at zero.
+export function tradePnl(row: TradeRow) {
+  const qty = pickTradeNumber(row, ['qty']);
+  const entry = pickTradeNumber(row, ['entryPrice']);
+  const exit = pickTradeNumber(row, ['exitPrice']);
+  const side = (row.side || '').toUpperCase();
+  if (qty === null || entry === null || exit === null) return null;
+  return side === 'SELL' ? (entry - exit) * qty : (exit - entry) * qty;
+}
+
+/** Initial risk in ₹ (entry to stop); null when the stop is missing or on the wrong side. */
+export function tradeRisk(row: TradeRow) {
+  const qty = pickTradeNumber(row, ['qty']);
+  const entry = pickTradeNumber(row, ['entryPrice']);
+  const stop = pickTradeNumber(row, ['stopLoss']);
+  const side = (row.side || '').toUpperCase();
+  if (qty === null || entry === null || stop === null) return null;
+  const perUnit = side === 'SELL' ? stop - entry : entry - stop;
+  if (!Number.isFinite(perUnit) || perUnit <= 0) return null;
+  return perUnit * qty;
+}
+
+export function tradeR(row: TradeRow, pnlOf: PnlOf) {
+  const pnl = pnlOf(row);
+  const risk = tradeRisk(row);
+  if (!Number.isFinite(pnl as number) || !Number.isFinite(risk as number)) return null;
+  return (pnl as number) / (risk as number);
+}
+
+export function tradeHoldMin(row: TradeRow) {
+  const start = row.createdAt ? new Date(row.createdAt).getTime() : NaN;
+  const end = row.updatedAt ? new Date(row.updatedAt).getTime() : NaN;
+  if (!Number.isFinite(start) || !Number.isFinite(end) || end < start) return null;
+  return (end - start) / 60000;
+}
+
+/** Reported total, else entry + exit legs; null when the backend sent neither. */
+export function tradeTotalSlippage(row: TradeRow) {
+  const total = pickTradeNumber(row, ['slippage']);
+  if (total !== null) return total;
+  const entry = pickTradeNumber(row, ['entrySlippage']);
+  const exit = pickTradeNumber(row, ['exitSlippage']);
+  if (entry === null && exit === null) return null;
+  return (entry || 0) + (exit || 0);
+}
+
+export type TradeStats = {
+  total: number;
+  closed: number;
+  open: number;
+  rejected: number;
+  wins: number;
+  losses: number;
+  pnl: number;
+  winRate: number | null;
+  avgHoldMin: number | null;
+  exposure: number;
+};
+
+/** Headline counts for the stats strip; P&L is gross and counts closed trades only. */
+export function calcTradeStats(rows: TradeRow[]): TradeStats {
+  const closed = rows.filter((t) => statusBucket(t.status) === 'closed');
+  const open = rows.filter((t) => statusBucket(t.status) === 'open');
+  const rejected = rows.filter((t) => statusBucket(t.status) === 'rejected');
+
+  let pnl = 0;
+  let wins = 0;
+  let losses = 0;
+  let holdMs = 0;
+  let holdCount = 0;
+  let exposure = 0;
+
+  for (const t of rows) {
+    const qty = Number(t.qty);
+    const entry = Number(t.entryPrice);
+    if (Number.isFinite(qty) && Number.isFinite(entry)) {
+      exposure += qty * entry;
+    }
+  }
+
+  for (const t of closed) {
+    const raw = tradePnl(t);
+    if (raw !== null) {
+      pnl += raw;
+      if (raw >= 0) wins += 1;
+      else losses += 1;
+    }
+
+    const start = t.createdAt ? new Date(t.createdAt).getTime() : NaN;
+    const end = t.updatedAt ? new Date(t.updatedAt).getTime() : NaN;
+    if (Number.isFinite(start) && Number.isFinite(end) && end >= start) {
+      holdMs += end - start;
+      holdCount += 1;
+    }
+  }
+
+  return {
+    total: rows.length,
+    closed: closed.length,
+    open: open.length,
+    rejected: rejected.length,
+    wins,
+    losses,
+    pnl,
+    winRate: closed.length ? (wins / closed.length) * 100 : null,
+    avgHoldMin: holdCount ? holdMs / holdCount / 60000 : null,
+    exposure,
+  };
+}
+
+// ---- buckets ----
+
+export const TIME_BUCKETS: Array<{ label: string; start: number; end: number }> = [
+  { label: '09:15–09:30', start: 9 * 60 + 15, end: 9 * 60 + 30 },
+  { label: '09:30–11:00', start: 9 * 60 + 30, end: 11 * 60 },
+  { label: '11:00–13:30', start: 11 * 60, end: 13 * 60 + 30 },
+  { label: '13:30–15:30', start: 13 * 60 + 30, end: 15 * 60 + 30 },
+  { label: '15:30+', start: 15 * 60 + 30, end: 24 * 60 },
+];
+
+export const PREMIUM_BANDS: Array<{ label: string; min: number; max: number }> = [
+  { label: '<80', min: 0, max: 80 },
+  { label: '80–120', min: 80, max: 120 },
+  { label: '120–200', min: 120, max: 200 },
+  { label: '200–350', min: 200, max: 350 },
+  { label: '350+', min: 350, max: Number.POSITIVE_INFINITY },
+];
+
+export const HOLD_BUCKETS: Array<{ label: string; min: number; max: number }> = [
+  { label: '<2m', min: 0, max: 2 },
+  { label: '2–5m', min: 2, max: 5 },
+  { label: '5–15m', min: 5, max: 15 },
+  { label: '15–30m', min: 15, max: 30 },
+  { label: '30–60m', min: 30, max: 60 },
+  { label: '60m+', min: 60, max: Number.POSITIVE_INFINITY },
+];
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+function tradeOpenedMs(row: TradeRow) {
+  const ts = row.createdAt || row.updatedAt;
+  if (!ts) return NaN;
+  return new Date(ts).getTime();
+}
+
+export function tradeTimeBucket(row: TradeRow) {
+  const ms = tradeOpenedMs(row);
+  if (!Number.isFinite(ms)) return UNKNOWN;
+  const ist = new Date(ms + IST_OFFSET_MS);
+  const minutes = ist.getUTCHours() * 60 + ist.getUTCMinutes();
+  for (const bucket of TIME_BUCKETS) {
+    if (minutes >= bucket.start && minutes < bucket.end) return bucket.label;
+  }
+  return UNKNOWN;
+}
+
+export function tradePremiumBand(row: TradeRow) {
+  const premium = pickTradeNumber(row, ['premium', 'entryPrice']);
+  if (premium === null) return UNKNOWN;
+  for (const band of PREMIUM_BANDS) {
+    if (premium >= band.min && premium < band.max) return band.label;
+  }
+  return UNKNOWN;
+}
+
+export function tradeHoldBucket(row: TradeRow) {
+  const hold = tradeHoldMin(row);
+  if (hold === null) return UNKNOWN;
+  return HOLD_BUCKETS.find((b) => hold >= b.min && hold < b.max)?.label ?? UNKNOWN;
+}
+
+export function tradeRegime(row: TradeRow) {
+  return row.regimeTag || 'UNKNOWN';
+}
+
+export function tradeRegimeKey(row: TradeRow) {
+  return String(tradeRegime(row)).toUpperCase();
+}
+
+export function tradeStrategyKey(row: TradeRow) {
+  return row.strategyId ? String(row.strategyId) : 'unassigned';
+}
+
+function istDateKeyOf(ms: number) {
+  return new Date(ms + IST_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+export function tradeWeekday(row: TradeRow) {
+  const ms = tradeOpenedMs(row);
+  if (!Number.isFinite(ms)) return UNKNOWN;
+  return WEEKDAYS[new Date(ms + IST_OFFSET_MS).getUTCDay()];
+}
+
+/** Contract expiry as an IST `YYYY-MM-DD`, from the instrument or a weekly tradingsymbol. */
+export function tradeExpiryDate(row: TradeRow): string | null {
+  const raw = row.instrument?.expiry;
+  if (raw) {
+    if (/^\d{4}-\d{2}-\d{2}$/.test(raw)) return raw;
+    const ms = new Date(raw).getTime();
+    if (Number.isFinite(ms)) return istDateKeyOf(ms);
+  }
+  const parsed = parseTradingSymbol(row.instrument?.tradingsymbol);
+  if (!parsed?.year || !parsed.mon || !parsed.day) return null;
+  const month = MONTHS.indexOf(parsed.mon) + 1;
+  if (!month) return null;
+  return `20${parsed.year}-${String(month).padStart(2, '0')}-${parsed.day}`;
+}
+
+export function tradeExpiryDay(row: TradeRow) {
+  const expiry = tradeExpiryDate(row);
+  const ms = tradeOpenedMs(row);
+  if (!expiry || !Number.isFinite(ms)) return UNKNOWN;
+  return istDateKeyOf(ms) === expiry ? 'Expiry day' : 'Non-expiry';
+}
+
+export function tradeSideKey(row: TradeRow) {
+  const side = (row.side || '').toUpperCase();
+  return side === 'BUY' || side === 'SELL' ? side : UNKNOWN;
+}
+
+// ---- truth metrics ----
+
+export type TruthMetrics = {
+  count: number;
+  wins: number;
+  pnlSum: number;
+  rSum: number;
+  rCount: number;
+  rWinSum: number;
+  rWinCount: number;
+  rLossSum: number;
+  rLossCount: number;
+  slippageSum: number;
+  slippageCount: number;
+  spreadSum: number;
+  spreadCount: number;
+  maeSum: number;
+  maeCount: number;
+  mfeSum: number;
+  mfeCount: number;
+  holdSum: number;
+  holdCount: number;
+};
+
+export function initTruthMetrics(): TruthMetrics {
+  return {
+    count: 0,
+    wins: 0,
+    pnlSum: 0,
+    rSum: 0,
+    rCount: 0,
+    rWinSum: 0,
+    rWinCount: 0,
+    rLossSum: 0,
+    rLossCount: 0,
+    slippageSum: 0,
+    slippageCount: 0,
+    spreadSum: 0,
+    spreadCount: 0,
+    maeSum: 0,
+    maeCount: 0,
+    mfeSum: 0,
+    mfeCount: 0,
+    holdSum: 0,
+    holdCount: 0,
+  };
+}
+
+export function applyTradeMetrics(metrics: TruthMetrics, row: TradeRow, pnlOf: PnlOf) {
+  metrics.count += 1;
+
+  const pnl = pnlOf(row);
+  if (Number.isFinite(pnl as number)) {
+    metrics.pnlSum += pnl as number;
+    if ((pnl as number) >= 0) metrics.wins += 1;
+  }
+
+  const r = tradeR(row, pnlOf);
+  if (Number.isFinite(r as number)) {
+    metrics.rSum += r as number;
+    metrics.rCount += 1;
+    if ((r as number) >= 0) {
+      metrics.rWinSum += r as number;
+      metrics.rWinCount += 1;
+    } else {
+      metrics.rLossSum += r as number;
+      metrics.rLossCount += 1;
+    }
+  }
+
+  const slippage = tradeTotalSlippage(row);
+  if (slippage !== null) {
+    metrics.slippageSum += slippage;
+    metrics.slippageCount += 1;
+  }
+
+  const spread = pickTradeNumber(row, ['spreadAtEntry', 'spread']);
+  if (spread !== null) {
+    metrics.spreadSum += spread;
+    metrics.spreadCount += 1;
+  }
+
+  const mae = pickTradeNumber(row, ['mae']);
+  if (mae !== null) {
+    metrics.maeSum += mae;
+    metrics.maeCount += 1;
+  }
+
+  const mfe = pickTradeNumber(row, ['mfe']);
+  if (mfe !== null) {
+    metrics.mfeSum += mfe;
+    metrics.mfeCount += 1;
+  }
+
+  const hold = tradeHoldMin(row);
+  if (hold !== null) {
+    metrics.holdSum += hold;
+    metrics.holdCount += 1;
+  }
+}
+
+export type TruthSummary = {
+  count: number;
+  pnl: number;
+  winRate: number | null;
+  avgR: number | null;
+  expectancy: number | null;
+  avgSlippage: number | null;
+  avgSpread: number | null;
+  avgMae: number | null;
+  avgMfe: number | null;
+  avgHoldMin: number | null;
+};
+
+export function buildTruthSummary(metrics: TruthMetrics): TruthSummary {
+  const winRate = metrics.count ? (metrics.wins / metrics.count) * 100 : null;
+  const avgR = metrics.rCount ? metrics.rSum / metrics.rCount : null;
+  const avgWinR = metrics.rWinCount ? metrics.rWinSum / metrics.rWinCount : null;
+  const avgLossR = metrics.rLossCount ? metrics.rLossSum / metrics.rLossCount : null;
+  const expectancy =
+    avgWinR !== null && avgLossR !== null && winRate !== null
+      ? (winRate / 100) * avgWinR + (1 - winRate / 100) * avgLossR
+      : null;
+  return {
+    count: metrics.count,
+    pnl: metrics.pnlSum,
+    winRate,
+    avgR,
+    expectancy,
+    avgSlippage: metrics.slippageCount ? metrics.slippageSum / metrics.slippageCount : null,
+    avgSpread: metrics.spreadCount ? metrics.spreadSum / metrics.spreadCount : null,
+    avgMae: metrics.maeCount ? metrics.maeSum / metrics.maeCount : null,
+    avgMfe: metrics.mfeCount ? metrics.mfeSum / metrics.mfeCount : null,
+    avgHoldMin: metrics.holdCount ? metrics.holdSum / metrics.holdCount : null,
+  };
+}
+
+export function summarizeTrades(rows: TradeRow[], pnlOf: PnlOf): TruthSummary {
+  const metrics = initTruthMetrics();
+  for (const row of rows) applyTradeMetrics(metrics, row, pnlOf);
+  return buildTruthSummary(metrics);
+}
+
+export type TruthGroup = TruthSummary & { key: string };
+
+/** Groups in the order their first trade appears. */
+export function buildTruthGroups(rows: TradeRow[], keyFn: (row: TradeRow) => string, pnlOf: PnlOf): TruthGroup[] {
+  const map = new Map<string, TruthMetrics>();
+  for (const row of rows) {
+    const key = keyFn(row);
+    if (!map.has(key)) map.set(key, initTruthMetrics());
+    applyTradeMetrics(map.get(key)!, row, pnlOf);
+  }
+  return Array.from(map.entries()).map(([key, metrics]) => ({
+    key,
+    ...buildTruthSummary(metrics),
+  }));
+}
+
+// ---- dimension registry ----
+
+export type TruthDimension = {
+  id: string;
+  label: string;
+  keyOf: (row: TradeRow) => string;
+  /** Fixed display order for bucketed dimensions; groups otherwise sort by expectancy, best first. */
+  order?: string[];
+};
+
+const dimensions = new Map<string, TruthDimension>();
+
+/** Adds (or replaces, by id) a grouping dimension. Registration order is display order. */
+export function registerTruthDimension(dimension: TruthDimension) {
+  dimensions.set(dimension.id, dimension);
+}
+
+export function truthDimensions(): TruthDimension[] {
+  return Array.from(dimensions.values());
+}
+
+export function getTruthDimension(id: string): TruthDimension | null {
+  return dimensions.get(id) ?? null;
+}
+
+function byExpectancy(a: TruthGroup, b: TruthGroup) {
+  return (b.expectancy ?? -Infinity) - (a.expectancy ?? -Infinity);
+}
+
+/** Groups by a registered dimension and sorts for display; unknown ids yield no groups. */
+export function groupTruthBy(rows: TradeRow[], dimension: string | TruthDimension, pnlOf: PnlOf): TruthGroup[] {
+  const dim = typeof dimension === 'string' ? getTruthDimension(dimension) : dimension;
+  if (!dim) return [];
+  const groups = buildTruthGroups(rows, dim.keyOf, pnlOf);
+  if (!dim.order) return groups.sort(byExpectancy);
+  const rank = new Map(dim.order.map((key, idx) => [key, idx]));
+  return groups.sort((a, b) => (rank.get(a.key) ?? dim.order!.length) - (rank.get(b.key) ?? dim.order!.length));
+}
+
+registerTruthDimension({ id: 'strategy', label: 'Strategy', keyOf: tradeStrategyKey });
+registerTruthDimension({ id: 'regime', label: 'Regime', keyOf: tradeRegimeKey });
+registerTruthDimension({
+  id: 'strategyRegime',
+  label: 'Strategy × regime',
+  keyOf: (row) => `${tradeStrategyKey(row)} • ${tradeRegimeKey(row)}`,
+});
+registerTruthDimension({
+  id: 'timeBucket',
+  label: 'Time of day',
+  keyOf: tradeTimeBucket,
+  order: TIME_BUCKETS.map((b) => b.label),
+});
+registerTruthDimension({
+  id: 'premiumBand',
+  label: 'Premium band',
+  keyOf: tradePremiumBand,
+  order: PREMIUM_BANDS.map((b) => b.label),
+});
+registerTruthDimension({
+  id: 'holdBucket',
+  label: 'Hold time',
+  keyOf: tradeHoldBucket,
+  order: HOLD_BUCKETS.map((b) => b.label),
+});
+registerTruthDimension({
+  id: 'weekday',
+  label: 'Weekday',
+  keyOf: tradeWeekday,
+  order: [...WEEKDAYS.slice(1), WEEKDAYS[0]],
+});
+registerTruthDimension({
+  id: 'expiryDay',
+  label: 'Expiry day',
+  keyOf: tradeExpiryDay,
+  order: ['Expiry day', 'Non-expiry'],
+});
+registerTruthDimension({ id: 'side', label: 'Side', keyOf: tradeSideKey, order: ['BUY', 'SELL'] });
+
+// ---- column registry ----
+
+export type TruthColumnFormat = 'count' | 'pct' | 'r' | 'inr' | 'price' | 'min';
+
+export type TruthColumn = {
+  id: string;
+  label: string;
+  title?: string;
+  format: TruthColumnFormat;
+  value: (group: TruthGroup) => number | null;
+};
+
+const columns = new Map<string, TruthColumn>();
+
+/** Adds (or replaces, by id) a breakdown column computed from a group's summary. */
+export function registerTruthColumn(column: TruthColumn) {
+  columns.set(column.id, column);
+}
+
+export function truthColumns(): TruthColumn[] {
+  return Array.from(columns.values());
+}
+
+registerTruthColumn({ id: 'count', label: 'Trades', format: 'count', value: (g) => g.count });
+registerTruthColumn({ id: 'winRate', label: 'Win %', format: 'pct', value: (g) => g.winRate });
+registerTruthColumn({ id: 'pnl', label: 'P&L', format: 'inr', value: (g) => g.pnl });
+registerTruthColumn({ id: 'avgR', label: 'Avg R', format: 'r', value: (g) => g.avgR });
+registerTruthColumn({
+  id: 'expectancy',
+  label: 'E[R]',
+  title: 'Win rate × avg winning R + loss rate × avg losing R',
+  format: 'r',
+  value: (g) => g.expectancy,
+});
+registerTruthColumn({ id: 'avgSlippage', label: 'Slip', format: 'price', value: (g) => g.avgSlippage });
+registerTruthColumn({ id: 'avgSpread', label: 'Spread', format: 'price', value: (g) => g.avgSpread });
+registerTruthColumn({ id: 'avgHoldMin', label: 'Hold', format: 'min', value: (g) => g.avgHoldMin });
+
+export function formatTruthValue(value: number | null, format: TruthColumnFormat) {
+  if (value === null || !Number.isFinite(value)) return '—';
+  switch (format) {
+    case 'count':
+      return String(Math.round(value));
+    case 'pct':
+      return `${value.toFixed(1)}%`;
+    case 'inr':
+      return `${value >= 0 ? '+' : ''}${value.toFixed(0)}`;
+    case 'min':
+      return `${value.toFixed(1)}m`;
+    default:
+      return value.toFixed(2);
+  }
+}
+
+// ---- reports ----
+
+export type TradeWindow = { start: number | null; end: number | null };
+
+/** Trades last touched inside `[start, end)`; an open start keeps everything. */
+export function tradesInWindow(rows: TradeRow[], window: TradeWindow): TradeRow[] {
+  const { start, end } = window;
+  if (start == null) return rows;
+  return (rows || []).filter((t) => {
+    const ts = new Date(t.updatedAt || t.createdAt || '').getTime();
+    if (!Number.isFinite(ts)) return false;
+    if (end && ts >= end) return false;
+    return ts >= start;
+  });
+}
+
+export type TruthPerTradeRow = {
+  id: string;
+  strategy: string;
+  regime: string;
+  r: number | null;
+  slippage: number | null;
+  spread: number | null;
+  mae: number | null;
+  mfe: number | null;
+  holdMin: number | null;
+};
+
+/** Diagnostics for the most recently touched trades. */
+export function truthPerTrade(rows: TradeRow[], pnlOf: PnlOf, limit = 8): TruthPerTradeRow[] {
+  return [...rows]
+    .sort((a, b) => {
+      const ta = new Date(a.updatedAt || a.createdAt || 0).getTime();
+      const tb = new Date(b.updatedAt || b.createdAt || 0).getTime();
+      return tb - ta;
+    })
+    .slice(0, limit)
+    .map((row) => ({
+      id: row.tradeId,
+      strategy: tradeStrategyKey(row),
+      regime: tradeRegimeKey(row),
+      r: tradeR(row, pnlOf),
+      slippage: tradeTotalSlippage(row),
+      spread: pickTradeNumber(row, ['spreadAtEntry', 'spread']),
+      mae: pickTradeNumber(row, ['mae']),
+      mfe: pickTradeNumber(row, ['mfe']),
+      holdMin: tradeHoldMin(row),
+    }));
+}
+
+export type HoldDistributionRow = { label: string; count: number; pct: number };
+
+export function holdDistribution(rows: TradeRow[]): HoldDistributionRow[] {
+  const counts = HOLD_BUCKETS.map((bucket) => ({ label: bucket.label, count: 0 }));
+  for (const row of rows) {
+    const idx = HOLD_BUCKETS.findIndex((b) => b.label === tradeHoldBucket(row));
+    if (idx >= 0) counts[idx].count += 1;
+  }
+  const total = counts.reduce((sum, row) => sum + row.count, 0);
+  return counts.map((row) => ({ ...row, pct: total ? (row.count / total) * 100 : 0 }));
+}
+
+export type TruthCostInsight = { winSummary: TruthSummary; lossSummary: TruthSummary; verdict: string };
+
+/** Compares costs on winners and losers to name what is dragging the losses. */
+export function truthCostInsight(rows: TradeRow[], pnlOf: PnlOf): TruthCostInsight {
+  const wins = initTruthMetrics();
+  const losses = initTruthMetrics();
+  for (const row of rows) {
+    const pnl = pnlOf(row);
+    if (Number.isFinite(pnl as number)) {
+      if ((pnl as number) >= 0) applyTradeMetrics(wins, row, pnlOf);
+      else applyTradeMetrics(losses, row, pnlOf);
+    }
+  }
+  const winSummary = buildTruthSummary(wins);
+  const lossSummary = buildTruthSummary(losses);
+  let verdict = 'Signal edge + costs';
+  if (
+    winSummary.avgSlippage !== null &&
+    lossSummary.avgSlippage !== null &&
+    winSummary.avgSpread !== null &&
+    lossSummary.avgSpread !== null
+  ) {
+    if (lossSummary.avgSlippage > winSummary.avgSlippage && lossSummary.avgSpread > winSummary.avgSpread) {
+      verdict = 'Costs (spread + slippage)';
+    } else if (lossSummary.avgSlippage > winSummary.avgSlippage) {
+      verdict = 'Slippage-heavy';
+    } else if (lossSummary.avgSpread > winSummary.avgSpread) {
+      verdict = 'Wide spreads';
+    } else {
+      verdict = 'Signal edge';
+    }
+  }
+  return { winSummary, lossSummary, verdict };
+}
+
+export type MarketCloseReport = {
+  totalPnl: number;
+  grossPnl: number;
+  chargesTotal: number;
+  wins: number;
+  losses: number;
+  todayTrades: number;
+  avgHold: number | null;
+  coverageRows: Array<{ label: string; have: number; pct: number }>;
+  beSuggestions: string[];
+};
+
+const BE_SUGGESTIONS = [
+  'Persist `entryAt`, `exitAt`, and `decisionAt` timestamps for latency decomposition (signal -> order -> fill).',
+  'Emit per-trade cost payload: `entrySlippage`, `exitSlippage`, `brokerage`, `taxes`, `feesTotal`.',
+  'Store market context at entry: spread, IV percentile, ATR, regime tag, and trend state.',
+  'Publish an EOD aggregate endpoint (`/admin/reports/eod`) with win/loss clusters and anomaly tags.',
+];
+
+/**
+ * Market-close figures plus how much of the trade payload the richer analytics can rely on.
+ * `eodOk` is whether `/admin/reports/eod` answered; `nowMs` picks "today" in IST.
+ */
+export function buildMarketCloseReport(
+  rows: TradeRow[],
+  pnlOf: PnlOf,
+  chargesOf: (row: TradeRow) => { total: number } | null,
+  opts: { nowMs: number; eodOk: boolean },
+): MarketCloseReport {
+  const realized = rows.map((row) => pnlOf(row)).filter((v) => Number.isFinite(v as number)) as number[];
+
+  const totalPnl = realized.reduce((sum, v) => sum + v, 0);
+  let grossPnl = 0;
+  let chargesTotal = 0;
+  for (const row of rows) {
+    const gross = tradePnl(row);
+    if (gross === null || !Number.isFinite(gross)) continue;
+    grossPnl += gross;
+    chargesTotal += chargesOf(row)?.total ?? 0;
+  }
+  const wins = realized.filter((v) => v >= 0).length;
+  const losses = realized.filter((v) => v < 0).length;
+  const dayStartMs = Date.parse(`${istDateKeyOf(opts.nowMs)}T00:00:00+05:30`);
+  const todayTrades = rows.filter((row) => {
+    const ts = new Date(row.updatedAt || row.createdAt || 0).getTime();
+    return Number.isFinite(ts) && ts >= dayStartMs;
+  }).length;
+
+  const holdValues = rows.map((row) => tradeHoldMin(row)).filter((v) => Number.isFinite(v as number)) as number[];
+
+  const coverageRows = [
+    {
+      label: 'Latency decomposition timestamps (`decisionAt`, `entryAt`, `exitAt`)',
+      have: rows.filter((row) => Boolean(row.decisionAt && row.entryAt && row.exitAt)).length,
+    },
+    {
+      label: 'Per-trade cost payload (`entrySlippage`, `exitSlippage`, `brokerage`, `taxes`, `feesTotal`)',
+      have: rows.filter((row) =>
+        (['entrySlippage', 'exitSlippage', 'brokerage', 'taxes', 'feesTotal'] as const).every(
+          (key) => pickTradeNumber(row, [key]) !== null,
+        ),
+      ).length,
+    },
+    {
+      label: 'Entry market context (`spread`, `ivPercentile`, `ATR`, `regimeTag`, `trendState`)',
+      have: rows.filter(
+        (row) =>
+          pickTradeNumber(row, ['spreadAtEntry', 'spread']) !== null &&
+          pickTradeNumber(row, ['ivPercentile']) !== null &&
+          pickTradeNumber(row, ['atr']) !== null &&
+          Boolean(String(row.regimeTag || '').trim()) &&
+          Boolean(String(row.trendState || '').trim()),
+      ).length,
+    },
+    {
+      label: 'EOD aggregates endpoint (`/admin/reports/eod`)',
+      have: opts.eodOk ? rows.length || 1 : 0,
+    },
+  ].map((row) => ({ ...row, pct: rows.length ? (row.have / rows.length) * 100 : 0 }));
+
+  return {
+    totalPnl,
+    grossPnl,
+    chargesTotal,
+    wins,
+    losses,
+    todayTrades,
+    avgHold: holdValues.length ? holdValues.reduce((sum, v) => sum + v, 0) / holdValues.length : null,
+    coverageRows,
+    beSuggestions: BE_SUGGESTIONS,
+  };
+}
+
+/** Everything the Truth Dashboard and EOD report show, computed in one pass over the range. */
+export type TruthReport = {
+  stats: TradeStats;
+  allStats: TradeStats;
+  summary: TruthSummary;
+  byStrategy: TruthGroup[];
+  byRegime: TruthGroup[];
+  byTimeBucket: TruthGroup[];
+  byPremiumBand: TruthGroup[];
+  byStrategyRegime: TruthGroup[];
+  breakdown: TruthGroup[];
+  perTrade: TruthPerTradeRow[];
+  holdDistribution: HoldDistributionRow[];
+  costInsight: TruthCostInsight;
+  marketClose: MarketCloseReport;
+};
+
+export type TruthReportOptions = {
+  window: TradeWindow;
+  /** Dimension id for the Breakdown panel. */
+  breakdown: string;
+  nowMs: number;
+  eodOk: boolean;
+};
+
+/** `rows` is the whole range source; stats for it come back as `allStats`, the rest covers the window. */
+export function buildTruthReport(
+  rows: TradeRow[],
+  pnlOf: PnlOf,
+  chargesOf: (row: TradeRow) => { total: number } | null,
+  opts: TruthReportOptions,
+): TruthReport {
+  const inWindow = tradesInWindow(rows, opts.window);
+  return {
+    stats: calcTradeStats(inWindow),
+    allStats: calcTradeStats(rows),
+    summary: summarizeTrades(inWindow, pnlOf),
+    byStrategy: groupTruthBy(inWindow, 'strategy', pnlOf),
+    byRegime: groupTruthBy(inWindow, 'regime', pnlOf),
+    byTimeBucket: groupTruthBy(inWindow, 'timeBucket', pnlOf),
+    byPremiumBand: groupTruthBy(inWindow, 'premiumBand', pnlOf),
+    byStrategyRegime: groupTruthBy(inWindow, 'strategyRegime', pnlOf),
+    breakdown: groupTruthBy(inWindow, opts.breakdown, pnlOf),
+    perTrade: truthPerTrade(inWindow, pnlOf),
+    holdDistribution: holdDistribution(inWindow),
+    costInsight: truthCostInsight(inWindow, pnlOf),
+    marketClose: buildMarketCloseReport(inWindow, pnlOf, chargesOf, opts),
+  };
+}
@@ -0,0 +1,198 @@
+import type { AuditLogRow, CandleRow, OrderRow, TradeRow } from '../types/backend';
+
+const HASH_KEY = 'trade';
+/** Orders placed slightly before decision/entry timestamps still belong to the trade. */
+const ORDER_LINK_SLACK_MS = 60 * 1000;
+
+export type TradeFieldGroup = { title: string; fields: Array<keyof TradeRow> };
+
+export const TRADE_FIELD_GROUPS: TradeFieldGroup[] = [
+  {
+    title: 'Identity',
+    fields: ['tradeId', 'instrument_token', 'strategyId', 'side', 'status', 'closeReason'],
+  },
+  {
+    title: 'Sizing',
+    fields: ['qty', 'entryPrice', 'exitPrice', 'premium'],
+  },
+  {
+    title: 'Levels',
+    fields: [
+      'stopLoss',
+      'slTrigger',
+      'targetPrice',
+      'tp1Price',
+      'trailSl',
+      'peakLtp',
+      'minGreenInr',
+      'minGreenPts',
+      'beLocked',
+      'timeStopAt',
+    ],
+  },
+  {
+    title: 'Costs',
+    fields: ['entrySlippage', 'exitSlippage', 'slippage', 'brokerage', 'taxes', 'feesTotal'],
+  },
+  {
+    title: 'Market context',
+    fields: ['spread', 'spreadAtEntry', 'ivPercentile', 'atr', 'regimeTag', 'trendState', 'mae', 'mfe'],
+  },
+  {
+    title: 'Timestamps',
+    fields: ['decisionAt', 'entryAt', 'tp1HitAt', 'beLockedAt', 'exitAt', 'createdAt', 'updatedAt'],
+  },
+];
+
+const GROUPED_FIELDS = new Set<string>([
+  ...TRADE_FIELD_GROUPS.flatMap((g) => g.fields as string[]),
+  'instrument',
+  'trailHistory',
+]);
+
+/** Fields the backend sent that no group covers, so the drawer can still show them. */
+export function ungroupedTradeFields(trade: TradeRow): Array<[string, unknown]> {
+  return Object.entries(trade).filter(([key]) => !GROUPED_FIELDS.has(key));
+}
+
+export type TimelineStep = {
+  key: string;
+  label: string;
+  ts: number;
+  detail?: string;
+  /** Milliseconds since the previous step; null on the first. */
+  sincePrevMs: number | null;
+};
+
+function toMs(value: unknown): number {
+  if (value === null || value === undefined || value === '') return NaN;
+  const ms = typeof value === 'number' ? value : new Date(String(value)).getTime();
+  return Number.isFinite(ms) ? ms : NaN;
+}
+
+function auditTradeId(row: AuditLogRow): string | null {
+  const meta = row.meta && typeof row.meta === 'object' ? row.meta : null;
+  const id = meta?.tradeId ?? meta?.trade_id ?? meta?.trade?.tradeId;
+  return id !== undefined && id !== null ? String(id) : null;
+}
+
+export function linkTradeAuditLogs(trade: TradeRow, logs: AuditLogRow[]): AuditLogRow[] {
+  const id = String(trade.tradeId);
+  return (logs || [])
+    .filter((row) => auditTradeId(row) === id || (row.resource || '').includes(id))
+    .sort((a, b) => toMs(a.createdAt) - toMs(b.createdAt));
+}
+
+/**
+ * Orders tagged with the trade id (or listed on the trade) are certain matches; otherwise fall
+ * back to same-symbol orders placed inside the trade's lifetime.
+ */
+export function linkTradeOrders(trade: TradeRow, orders: OrderRow[]): OrderRow[] {
+  const id = String(trade.tradeId);
+  const ids = new Set(
+    [trade.entryOrderId, trade.exitOrderId, trade.slOrderId, trade.targetOrderId]
+      .filter((v) => v !== null && v !== undefined && v !== '')
+      .map(String),
+  );
+  const symbol = trade.instrument?.tradingsymbol;
+  const { startMs, endMs } = tradeWindow(trade);
+  return (orders || []).filter((o) => {
+    if (o.tag === id || (o.order_id && ids.has(String(o.order_id)))) return true;
+    if (!symbol || o.tradingsymbol !== symbol) return false;
+    const ts = toMs(o.order_timestamp);
+    return Number.isFinite(ts) && ts >= startMs - ORDER_LINK_SLACK_MS && ts <= endMs + ORDER_LINK_SLACK_MS;
+  });
+}
+
+/** decision → entry → TP1 → BE lock → trail updates → exit, each with the gap from the step before. */
+export function buildTradeTimeline(trade: TradeRow, audit: AuditLogRow[]): TimelineStep[] {
+  const raw: Array<Omit<TimelineStep, 'sincePrevMs'>> = [];
+  const push = (key: string, label: string, value: unknown, detail?: string) => {
+    const ts = toMs(value);
+    if (Number.isFinite(ts)) raw.push({ key, label, ts, detail });
+  };
+
+  push('decision', 'Decision', trade.decisionAt);
+  push('entry', 'Entry', trade.entryAt ?? trade.createdAt, trade.entryPrice != null ? `@ ${trade.entryPrice}` : undefined);
+  push('tp1', 'TP1 hit', trade.tp1HitAt, trade.tp1Price != null ? `@ ${trade.tp1Price}` : undefined);
+  push('be', 'BE lock', trade.beLockedAt);
+
+  const trail = Array.isArray(trade.trailHistory) ? trade.trailHistory : [];
+  trail.forEach((t, i) => push(`trail-${i}`, 'Trail SL', t?.at, t?.sl != null ? `→ ${t.sl}` : undefined));
+  if (!trail.length) {
+    // Without a backend history, SL modifications from the audit log are the next best source.
+    audit
+      .filter((row) => /trail|modify|move-sl|sl/i.test(row.action || ''))
+      .forEach((row, i) => push(`audit-${i}`, row.action || 'SL change', row.createdAt, row.actor ? `by ${row.actor}` : undefined));
+  }
+
+  push('exit', 'Exit', trade.exitAt, [trade.exitPrice != null ? `@ ${trade.exitPrice}` : '', trade.closeReason || ''].filter(Boolean).join(' • ') || undefined);
+
+  raw.sort((a, b) => a.ts - b.ts);
+  return raw.map((step, i) => ({ ...step, sincePrevMs: i ? step.ts - raw[i - 1].ts : null }));
+}
+
+export function tradeWindow(trade: TradeRow): { startMs: number; endMs: number } {
+  const start = [trade.decisionAt, trade.entryAt, trade.createdAt].map(toMs).find(Number.isFinite);
+  const end = [trade.exitAt, trade.updatedAt].map(toMs).find(Number.isFinite);
+  const startMs = start ?? Date.now();
+  return { startMs, endMs: Math.max(startMs, end ?? Date.now()) };
+}
+
+export type Excursions = {
+  /** Worst price against the position while it was open. */
+  adversePrice: number | null;
+  /** Best price in favour of the position while it was open. */
+  favorablePrice: number | null;
+  /** True when derived from candles because the trade had no mae/mfe fields. */
+  fromCandles: boolean;
+};
+
+/** MAE/MFE as prices. Backend mae/mfe are point distances from entry. */
+export function tradeExcursions(trade: TradeRow, candles: CandleRow[]): Excursions {
+  const entry = Number(trade.entryPrice);
+  const sell = (trade.side || '').toUpperCase() === 'SELL';
+  const mae = Number(trade.mae);
+  const mfe = Number(trade.mfe);
+  if (Number.isFinite(entry) && Number.isFinite(mae) && Number.isFinite(mfe)) {
+    return {
+      adversePrice: sell ? entry + Math.abs(mae) : entry - Math.abs(mae),
+      favorablePrice: sell ? entry - Math.abs(mfe) : entry + Math.abs(mfe),
+      fromCandles: false,
+    };
+  }
+  const { startMs, endMs } = tradeWindow(trade);
+  let lo = Infinity;
+  let hi = -Infinity;
+  for (const c of candles) {
+    const ts = toMs(c.ts);
+    if (!Number.isFinite(ts) || ts < startMs - 60 * 1000 || ts > endMs) continue;
+    lo = Math.min(lo, Number(c.low));
+    hi = Math.max(hi, Number(c.high));
+  }
+  if (!Number.isFinite(lo) || !Number.isFinite(hi)) {
+    return { adversePrice: null, favorablePrice: null, fromCandles: true };
+  }
+  return { adversePrice: sell ? hi : lo, favorablePrice: sell ? lo : hi, fromCandles: true };
+}
+
+export function tradeIdFromHash(hash: string = window.location.hash): string | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const id = params.get(HASH_KEY);
+  return id ? id : null;
+}
+
+/** Replace (not push) the hash so opening drawers doesn't flood browser history. */
+export function setTradeHash(tradeId: string | null) {
+  const params = new URLSearchParams(window.location.hash.replace(/^#/, ''));
+  if (tradeId) params.set(HASH_KEY, tradeId);
+  else params.delete(HASH_KEY);
+  const next = params.toString();
+  const url = `${window.location.pathname}${window.location.search}${next ? `#${next}` : ''}`;
+  window.history.replaceState(null, '', url);
+}
+
+export function tradePermalink(tradeId: string): string {
+  const params = new URLSearchParams({ [HASH_KEY]: tradeId });
+  return `${window.location.origin}${window.location.pathname}${window.location.search}#${params.toString()}`;
+}
@@ -0,0 +1,124 @@
+import type { TradeRow } from '../../types/backend';
+
+/**
+ * Trade rows as /admin/trades/recent returns them (after lib/schema normalisation), taken from
+ * a NIFTY options session and trimmed to the fields the dashboard reads.
+ */
+
+/** BUY that ran to target: +1.5R. */
+export const closedWinner: TradeRow = {
+  tradeId: 'T-20260203-0001',
+  instrument_token: 12091650,
+  instrument: {
+    tradingsymbol: 'NIFTY2620324800PE',
+    exchange: 'NFO',
+    segment: 'NFO-OPT',
+    name: 'NIFTY',
+    instrument_type: 'PE',
+    strike: 24800,
+    expiry: '2026-02-03',
+    lot_size: 75,
+  },
+  strategyId: 'orb_breakout',
+  side: 'BUY',
+  qty: 75,
+  entryPrice: 120,
+  exitPrice: 135,
+  stopLoss: 110,
+  targetPrice: 135,
+  tp1Price: 128,
+  status: 'CLOSED',
+  closeReason: 'TARGET',
+  premium: 120,
+  entrySlippage: 0.5,
+  exitSlippage: 0.25,
+  spreadAtEntry: 0.35,
+  mae: -3.5,
+  mfe: 16,
+  regimeTag: 'trend',
+  createdAt: '2026-02-03T09:22:10+05:30',
+  updatedAt: '2026-02-03T09:31:40+05:30',
+};
+
+/** BUY stopped out: -1R. */
+export const closedLoser: TradeRow = {
+  tradeId: 'T-20260203-0002',
+  instrument_token: 12092418,
+  instrument: {
+    tradingsymbol: 'NIFTY2620324900CE',
+    exchange: 'NFO',
+    segment: 'NFO-OPT',
+    name: 'NIFTY',
+    instrument_type: 'CE',
+    strike: 24900,
+    expiry: '2026-02-03',
+    lot_size: 75,
+  },
+  strategyId: 'vwap_reversion',
+  side: 'BUY',
+  qty: 150,
+  entryPrice: 90,
+  exitPrice: 84,
+  stopLoss: 84,
+  targetPrice: 102,
+  status: 'CLOSED',
+  closeReason: 'SL',
+  slippage: 1.1,
+  spreadAtEntry: 0.25,
+  mae: -6.5,
+  mfe: 2,
+  regimeTag: 'RANGE',
+  createdAt: '2026-02-03T11:45:00+05:30',
+  updatedAt: '2026-02-03T11:52:30+05:30',
+};
+
+/** SELL (short premium) closed in profit. */
+export const closedShort: TradeRow = {
+  tradeId: 'T-20260203-0003',
+  instrument_token: 12091650,
+  instrument: { tradingsymbol: 'NIFTY2620324800PE', instrument_type: 'PE', strike: 24800, expiry: '2026-02-03' },
+  strategyId: 'orb_breakout',
+  side: 'SELL',
+  qty: 75,
+  entryPrice: 140,
+  exitPrice: 130,
+  stopLoss: 150,
+  status: 'CLOSED',
+  closeReason: 'TIME_STOP',
+  regimeTag: 'trend',
+  createdAt: '2026-02-03T14:05:00+05:30',
+  updatedAt: '2026-02-03T14:20:00+05:30',
+};
+
+/** Still open: no exit price, so no realised P&L. */
+export const openTrade: TradeRow = {
+  tradeId: 'T-20260203-0004',
+  instrument_token: 12092418,
+  instrument: { tradingsymbol: 'NIFTY2620324900CE', instrument_type: 'CE', strike: 24900, expiry: '2026-02-03' },
+  strategyId: 'ema_pullback',
+  side: 'BUY',
+  qty: 75,
+  entryPrice: 101.5,
+  exitPrice: null,
+  stopLoss: 94,
+  targetPrice: 116,
+  status: 'ENTRY_OPEN',
+  createdAt: '2026-02-03T15:02:00+05:30',
+  updatedAt: '2026-02-03T15:02:05+05:30',
+};
+
+/** Broker reject before fill. */
+export const rejectedTrade: TradeRow = {
+  tradeId: 'T-20260203-0005',
+  instrument_token: 260105,
+  instrument: { tradingsymbol: 'BANKNIFTY26FEB52000CE', instrument_type: 'CE', strike: 52000 },
+  side: 'BUY',
+  qty: 30,
+  entryPrice: null,
+  status: 'ENTRY_REJECTED',
+  closeReason: 'RMS: margin exceeds',
+  createdAt: '2026-02-03T09:15:30+05:30',
+  updatedAt: '2026-02-03T09:15:31+05:30',
+};
+
+export const sessionTrades: TradeRow[] = [closedWinner, closedLoser, closedShort, openTrade, rejectedTrade];
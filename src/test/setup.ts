@@ -0,0 +1,7 @@
+import { afterEach } from 'vitest';
+import { cleanup } from '@testing-library/react';
+
+// Vitest runs without globals, so Testing Library can't register its own unmount hook.
+afterEach(() => {
+  cleanup();
+});
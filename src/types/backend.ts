@@ -16,6 +16,12 @@ export type TradeRow = {
     tradingsymbol?: string;
     exchange?: string;
     segment?: string;
+    name?: string;
+    instrument_type?: string;
+    strike?: number;
+    /** Contract expiry (`YYYY-MM-DD` or ISO). */
+    expiry?: string;
+    lot_size?: number;
   };
   strategyId?: string;
   side?: 'BUY' | 'SELL';
@@ -37,6 +43,18 @@ export type TradeRow = {
   decisionAt?: string;
   entryAt?: string;
   exitAt?: string;
+  tp1HitAt?: string | null;
+  beLockedAt?: string | null;
+  /** Each trailing-SL move, oldest first. */
+  trailHistory?: Array<{ at: string; sl: number }> | null;
+  entryOrderId?: string | null;
+  exitOrderId?: string | null;
+  slOrderId?: string | null;
+  targetOrderId?: string | null;
+  /** Option premium at entry when it differs from entryPrice. */
+  premium?: number | null;
+  /** Total slippage when the backend reports it as a single figure. */
+  slippage?: number | null;
   entrySlippage?: number | null;
   exitSlippage?: number | null;
   brokerage?: number | null;
@@ -46,12 +64,23 @@ export type TradeRow = {
   spreadAtEntry?: number | null;
   ivPercentile?: number | null;
   atr?: number | null;
+  mae?: number | null;
+  mfe?: number | null;
   regimeTag?: string | null;
   trendState?: string | null;
   createdAt?: string;
   updatedAt?: string;
 };
 
+/** One page of `/admin/trades/history`, newest first. `nextCursor` is absent on the last page. */
+export type TradeHistoryPage = {
+  ok: boolean;
+  rows: TradeRow[];
+  nextCursor?: string | null;
+  /** Trades in the whole range, when the backend can count them cheaply. */
+  total?: number | null;
+};
+
 export type EodAggregateResponse = {
   ok: boolean;
   asOf?: string;
@@ -118,10 +147,17 @@ export type OrderRow = {
   tradingsymbol?: string;
   status?: string;
   transaction_type?: string;
+  order_type?: string;
+  product?: string;
   price?: number;
+  trigger_price?: number;
+  average_price?: number;
   quantity?: number;
   filled_quantity?: number;
   order_timestamp?: string;
+  status_message?: string;
+  /** Kite order tag; the engine sets it to the tradeId. */
+  tag?: string;
 };
 
 export type RiskLimitsResponse = {
@@ -255,3 +291,12 @@ export type CriticalHealthResponse = {
     meta?: Record<string, any> | null;
   }>;
 };
+
+export type ManualActionResponse = {
+  ok: boolean;
+  error?: string;
+  orderId?: string;
+  tradeId?: string;
+  /** True when the backend already processed this idempotency key. */
+  duplicate?: boolean;
+};